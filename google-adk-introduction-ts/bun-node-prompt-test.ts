@@ -1,7 +0,0 @@
-// import * as readline from 'node:readline/promises';
-// const rl = readline.createInterface({ input: process.stdin, output: process.stdout });
-
-// // Inside chat():
-// const userInput = await rl.question('You: ');
-
-// console.log(`You: ${userInput}`);
\ No newline at end of file
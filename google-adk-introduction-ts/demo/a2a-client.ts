@@ -0,0 +1,100 @@
+/**
+ * Minimal A2A Client
+ *
+ * Enough of an A2A client to talk to our own agent (or any other A2A server):
+ *
+ *   const card = await fetchAgentCard('http://localhost:3000', headers);
+ *   const task = await callA2a<A2aTask>(card.url, 'message/send', { message: userMessage('Am I over budget?') }, headers);
+ *
+ *   for await (const update of streamA2aMessage(card.url, userMessage('...', contextId), headers)) { ... }
+ *
+ * JSON-RPC errors are thrown as A2aError with the server's code.
+ */
+
+import { randomUUID } from 'crypto';
+import { A2aAgentCard, A2aError, A2aMessage, A2aStreamResult, JsonRpcResponse } from './a2a-protocol';
+
+/**
+ * A user text message, optionally continuing a context (session)
+ */
+export function userMessage(text: string, contextId?: string): A2aMessage {
+  return { kind: 'message', messageId: randomUUID(), role: 'user', parts: [{ kind: 'text', text }], contextId };
+}
+
+export async function fetchAgentCard(baseUrl: string, headers: Record<string, string> = {}): Promise<A2aAgentCard> {
+  const response = await fetch(`${baseUrl}/.well-known/agent.json`, { headers });
+  if (!response.ok) {
+    throw new Error(`Agent card unavailable: HTTP ${response.status}`);
+  }
+  return response.json() as Promise<A2aAgentCard>;
+}
+
+function unwrap<T>(response: JsonRpcResponse<T>): T {
+  if ('error' in response) {
+    throw new A2aError(response.error.code, response.error.message, response.error.data);
+  }
+  return response.result;
+}
+
+function rpcRequest(method: string, params: unknown, headers: Record<string, string>, accept = 'application/json'): RequestInit {
+  return {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', Accept: accept, ...headers },
+    body: JSON.stringify({ jsonrpc: '2.0', id: randomUUID(), method, params }),
+  };
+}
+
+/**
+ * Call a JSON-RPC method and return its result
+ */
+export async function callA2a<T>(url: string, method: string, params: unknown, headers: Record<string, string> = {}): Promise<T> {
+  const response = await fetch(url, rpcRequest(method, params, headers));
+  if (!response.ok) {
+    throw new Error(`A2A request failed: HTTP ${response.status}`);
+  }
+  return unwrap(await response.json() as JsonRpcResponse<T>);
+}
+
+/**
+ * Send a message with message/stream: yields the task, then its status and
+ * artifact updates until the final status
+ */
+export async function* streamA2aMessage(
+  url: string,
+  message: A2aMessage,
+  headers: Record<string, string> = {}
+): AsyncGenerator<A2aStreamResult> {
+  const response = await fetch(url, rpcRequest('message/stream', { message }, headers, 'text/event-stream'));
+  if (!response.ok || !response.body) {
+    throw new Error(`A2A request failed: HTTP ${response.status}`);
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      buffer += decoder.decode(value, { stream: !done });
+
+      // Each SSE message carries one JSON-RPC response in its data lines
+      let end: number;
+      while ((end = buffer.search(/\r?\n\r?\n/)) >= 0) {
+        const data = buffer.slice(0, end).split(/\r?\n/)
+          .filter((line) => line.startsWith('data:'))
+          .map((line) => line.slice(5).replace(/^ /, ''))
+          .join('\n');
+        buffer = buffer.slice(end).replace(/^\r?\n\r?\n/, '');
+        if (data) {
+          yield unwrap(JSON.parse(data) as JsonRpcResponse<A2aStreamResult>);
+        }
+      }
+
+      if (done) {
+        return;
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
@@ -0,0 +1,403 @@
+/**
+ * Agent-to-Agent (A2A) Protocol Types and Task Bookkeeping
+ *
+ * A2A lets other agents discover ours and hand it work over plain HTTP:
+ * - Discovery: an agent card at /.well-known/agent.json describes the agent,
+ *   where to reach it, how to authenticate and its skills (our tools)
+ * - Work: JSON-RPC 2.0 methods exchange messages; each message starts a task
+ *   that moves from submitted to working to completed (or failed/canceled)
+ * - Context: messages with the same contextId belong to one conversation -
+ *   here, one ADK session, so budgets and analyses carry over between tasks
+ *
+ * Only what the server needs of A2A v0.3 is typed here; the shapes follow
+ * the specification so standard clients (e.g. RemoteA2aAgent) can talk to us.
+ *
+ * Key Learning: A2A tasks map naturally onto ADK turns - the same typed chat
+ * events that drive /chat drive the task's status and artifacts.
+ */
+
+import type { BaseAgent } from '@google/adk';
+import { LlmAgent, BaseTool } from '@google/adk';
+import { randomUUID } from 'crypto';
+import type { ChatStreamEvent } from './chat-protocol';
+
+export const A2A_PROTOCOL_VERSION = '0.3.0';
+
+export type A2aTaskState =
+  | 'submitted'
+  | 'working'
+  | 'input-required'
+  | 'completed'
+  | 'canceled'
+  | 'failed'
+  | 'rejected'
+  | 'auth-required'
+  | 'unknown';
+
+/** States a task never leaves */
+export const TERMINAL_TASK_STATES: A2aTaskState[] = ['completed', 'canceled', 'failed', 'rejected'];
+
+export type A2aPart =
+  | { kind: 'text'; text: string; metadata?: Record<string, unknown> }
+  | { kind: 'data'; data: Record<string, unknown>; metadata?: Record<string, unknown> }
+  | { kind: 'file'; file: { name?: string; mimeType?: string; bytes?: string; uri?: string }; metadata?: Record<string, unknown> };
+
+export interface A2aMessage {
+  kind: 'message';
+  messageId: string;
+  role: 'user' | 'agent';
+  parts: A2aPart[];
+  contextId?: string;
+  taskId?: string;
+  metadata?: Record<string, unknown>;
+}
+
+export interface A2aTaskStatus {
+  state: A2aTaskState;
+  message?: A2aMessage;
+  timestamp: string;
+}
+
+export interface A2aArtifact {
+  artifactId: string;
+  name?: string;
+  description?: string;
+  parts: A2aPart[];
+}
+
+export interface A2aTask {
+  kind: 'task';
+  id: string;
+  contextId: string;
+  status: A2aTaskStatus;
+  history: A2aMessage[];
+  artifacts: A2aArtifact[];
+  metadata?: Record<string, unknown>;
+}
+
+export interface A2aStatusUpdate {
+  kind: 'status-update';
+  taskId: string;
+  contextId: string;
+  status: A2aTaskStatus;
+  /** True on the last event of the stream */
+  final: boolean;
+}
+
+export interface A2aArtifactUpdate {
+  kind: 'artifact-update';
+  taskId: string;
+  contextId: string;
+  artifact: A2aArtifact;
+  /** Parts extend the artifact sent earlier under the same id */
+  append: boolean;
+  lastChunk: boolean;
+}
+
+/** What message/stream sends: the task first, then its updates */
+export type A2aStreamResult = A2aTask | A2aStatusUpdate | A2aArtifactUpdate;
+
+export interface A2aSkill {
+  id: string;
+  name: string;
+  description: string;
+  tags: string[];
+}
+
+export type A2aSecurityScheme =
+  | { type: 'apiKey'; in: 'header'; name: string; description?: string }
+  | { type: 'http'; scheme: 'bearer'; bearerFormat?: string; description?: string };
+
+export interface A2aAgentCard {
+  protocolVersion: string;
+  name: string;
+  description: string;
+  url: string;
+  preferredTransport: 'JSONRPC';
+  version: string;
+  capabilities: { streaming: boolean; pushNotifications: boolean; stateTransitionHistory: boolean };
+  defaultInputModes: string[];
+  defaultOutputModes: string[];
+  skills: A2aSkill[];
+  securitySchemes?: Record<string, A2aSecurityScheme>;
+  /** Any one of the listed schemes is enough */
+  security?: Record<string, string[]>[];
+}
+
+export interface JsonRpcRequest {
+  jsonrpc: '2.0';
+  id: string | number | null;
+  method: string;
+  params?: unknown;
+}
+
+export type JsonRpcResponse<T = unknown> =
+  | { jsonrpc: '2.0'; id: string | number | null; result: T }
+  | { jsonrpc: '2.0'; id: string | number | null; error: { code: number; message: string; data?: unknown } };
+
+/**
+ * JSON-RPC error codes: the standard ones plus those A2A defines
+ */
+export const A2A_ERROR_CODES = {
+  parseError: -32700,
+  invalidRequest: -32600,
+  methodNotFound: -32601,
+  invalidParams: -32602,
+  internalError: -32603,
+  taskNotFound: -32001,
+  taskNotCancelable: -32002,
+  unsupportedOperation: -32004,
+  contentTypeNotSupported: -32005,
+} as const;
+
+/**
+ * Raised while handling a JSON-RPC call; becomes the response's error object
+ */
+export class A2aError extends Error {
+  constructor(
+    readonly code: number,
+    message: string,
+    readonly data?: unknown
+  ) {
+    super(message);
+    this.name = 'A2aError';
+  }
+}
+
+export function jsonRpcResult<T>(id: JsonRpcRequest['id'], result: T): JsonRpcResponse<T> {
+  return { jsonrpc: '2.0', id, result };
+}
+
+export function jsonRpcError(id: JsonRpcRequest['id'], error: A2aError): JsonRpcResponse<never> {
+  return {
+    jsonrpc: '2.0',
+    id,
+    error: { code: error.code, message: error.message, ...(error.data !== undefined ? { data: error.data } : {}) },
+  };
+}
+
+/** "analyze_transactions" -> "Analyze transactions" */
+function skillName(toolName: string): string {
+  const words = toolName.replace(/_/g, ' ');
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+/**
+ * Every tool of the agent and its sub-agents, as A2A skills
+ */
+export function agentSkills(agent: BaseAgent): A2aSkill[] {
+  const skills = new Map<string, A2aSkill>();
+  const visit = (current: BaseAgent) => {
+    if (current instanceof LlmAgent) {
+      for (const tool of current.tools) {
+        if (tool instanceof BaseTool && !skills.has(tool.name)) {
+          skills.set(tool.name, { id: tool.name, name: skillName(tool.name), description: tool.description, tags: ['finance'] });
+        }
+      }
+    }
+    current.subAgents.forEach(visit);
+  };
+  visit(agent);
+  return [...skills.values()];
+}
+
+export interface AgentCardOptions {
+  /** Where the JSON-RPC endpoint is reachable */
+  url: string;
+  version: string;
+  /** Names of the server's auth providers ('api-key', 'jwt'); none means open */
+  authProviders: string[];
+}
+
+export function buildAgentCard(agent: BaseAgent, options: AgentCardOptions): A2aAgentCard {
+  const securitySchemes: Record<string, A2aSecurityScheme> = {};
+  if (options.authProviders.includes('api-key')) {
+    securitySchemes.apiKey = { type: 'apiKey', in: 'header', name: 'X-API-Key' };
+  }
+  if (options.authProviders.includes('jwt')) {
+    securitySchemes.bearer = { type: 'http', scheme: 'bearer', bearerFormat: 'JWT' };
+  }
+  const schemeNames = Object.keys(securitySchemes);
+
+  return {
+    protocolVersion: A2A_PROTOCOL_VERSION,
+    name: agent.name,
+    description: agent.description ?? '',
+    url: options.url,
+    preferredTransport: 'JSONRPC',
+    version: options.version,
+    capabilities: { streaming: true, pushNotifications: false, stateTransitionHistory: false },
+    defaultInputModes: ['text/plain', 'application/json'],
+    defaultOutputModes: ['text/plain', 'application/json'],
+    skills: agentSkills(agent),
+    ...(schemeNames.length > 0
+      ? { securitySchemes, security: schemeNames.map((name) => ({ [name]: [] })) }
+      : {}),
+  };
+}
+
+/**
+ * The text the agent should read for an incoming message. Data parts are
+ * passed on as JSON; files are not supported.
+ */
+export function messageText(message: A2aMessage): string {
+  return message.parts
+    .map((part) => {
+      if (part.kind === 'text') {
+        return part.text;
+      }
+      if (part.kind === 'data') {
+        return JSON.stringify(part.data);
+      }
+      throw new A2aError(A2A_ERROR_CODES.contentTypeNotSupported, 'File parts are not supported; send text or data parts');
+    })
+    .join('\n')
+    .trim();
+}
+
+function agentMessage(task: A2aTask, text: string): A2aMessage {
+  return {
+    kind: 'message',
+    messageId: randomUUID(),
+    role: 'agent',
+    parts: [{ kind: 'text', text }],
+    contextId: task.contextId,
+    taskId: task.id,
+  };
+}
+
+/**
+ * Moves a task along as the chat events of its turn arrive, returning the
+ * updates to stream. The reply streams into a "response" artifact and tool
+ * results collect as data parts in a "tool-results" artifact.
+ */
+export function createTaskEventTranslator(task: A2aTask) {
+  let reply = '';
+
+  function status(state: A2aTaskState, message?: A2aMessage): A2aStatusUpdate {
+    task.status = { state, ...(message ? { message } : {}), timestamp: new Date().toISOString() };
+    return { kind: 'status-update', taskId: task.id, contextId: task.contextId, status: task.status, final: TERMINAL_TASK_STATES.includes(state) };
+  }
+
+  function addToArtifact(artifactId: string, name: string, part: A2aPart): A2aArtifactUpdate {
+    let artifact = task.artifacts.find((existing) => existing.artifactId === artifactId);
+    const append = artifact !== undefined;
+    if (!artifact) {
+      artifact = { artifactId, name, parts: [] };
+      task.artifacts.push(artifact);
+    }
+    const last = artifact.parts[artifact.parts.length - 1];
+    if (part.kind === 'text' && last?.kind === 'text') {
+      last.text += part.text;
+    } else {
+      artifact.parts.push({ ...part });
+    }
+    return { kind: 'artifact-update', taskId: task.id, contextId: task.contextId, artifact: { artifactId, name, parts: [part] }, append, lastChunk: false };
+  }
+
+  /** The task starts working */
+  function start(): A2aStatusUpdate {
+    return status('working');
+  }
+
+  function translate(event: ChatStreamEvent): A2aStreamResult[] {
+    // A canceled task ignores the rest of its turn
+    if (TERMINAL_TASK_STATES.includes(task.status.state)) {
+      return [];
+    }
+    switch (event.type) {
+      case 'text_delta':
+        reply += event.text;
+        return [addToArtifact('response', 'response', { kind: 'text', text: event.text })];
+      case 'tool_result':
+        return [addToArtifact('tool-results', 'tool-results', { kind: 'data', data: { tool: event.name, response: event.response } })];
+      case 'turn_complete': {
+        const message = agentMessage(task, reply);
+        task.history.push(message);
+        task.metadata = { ...task.metadata, usage: event.usage, agent: event.agent };
+        return [status('completed', message)];
+      }
+      case 'error':
+        return [status('failed', agentMessage(task, event.message))];
+      default:
+        return [];
+    }
+  }
+
+  /** Stop the task on request; its turn is abandoned */
+  function cancel(): A2aStatusUpdate {
+    return status('canceled');
+  }
+
+  return { start, translate, cancel };
+}
+
+/** Most tasks kept in memory; the oldest finished ones are dropped first */
+export const MAX_STORED_TASKS = 1000;
+
+export interface StoredTask {
+  task: A2aTask;
+  userId: string;
+  events: ReturnType<typeof createTaskEventTranslator>;
+  /** Aborts the running turn on tasks/cancel */
+  controller: AbortController;
+}
+
+/**
+ * In-memory record of A2A tasks, scoped per user. Tasks are bookkeeping for
+ * the protocol: the conversation itself lives in the ADK session, so a lost
+ * task (e.g. after a restart) loses nothing the agent needs.
+ */
+export class A2aTaskStore {
+  private tasks = new Map<string, StoredTask>();
+
+  create(userId: string, contextId: string, message: A2aMessage): StoredTask {
+    const task: A2aTask = {
+      kind: 'task',
+      id: randomUUID(),
+      contextId,
+      status: { state: 'submitted', timestamp: new Date().toISOString() },
+      history: [],
+      artifacts: [],
+    };
+    task.history.push({ ...message, contextId, taskId: task.id });
+
+    const stored = { task, userId, events: createTaskEventTranslator(task), controller: new AbortController() };
+    this.tasks.set(task.id, stored);
+    this.prune();
+    return stored;
+  }
+
+  /** Another user's task is reported as not found */
+  get(userId: string, taskId: string): StoredTask {
+    const stored = this.tasks.get(taskId);
+    if (!stored || stored.userId !== userId) {
+      throw new A2aError(A2A_ERROR_CODES.taskNotFound, `Task ${taskId} not found`);
+    }
+    return stored;
+  }
+
+  private prune() {
+    if (this.tasks.size <= MAX_STORED_TASKS) {
+      return;
+    }
+    for (const [id, stored] of this.tasks) {
+      if (TERMINAL_TASK_STATES.includes(stored.task.status.state)) {
+        this.tasks.delete(id);
+        if (this.tasks.size <= MAX_STORED_TASKS) {
+          return;
+        }
+      }
+    }
+  }
+}
+
+/**
+ * A copy of the task with only the last `historyLength` messages
+ */
+export function withHistoryLength(task: A2aTask, historyLength?: number): A2aTask {
+  if (historyLength === undefined) {
+    return task;
+  }
+  return { ...task, history: historyLength > 0 ? task.history.slice(-historyLength) : [] };
+}
@@ -0,0 +1,242 @@
+/**
+ * A2A Routes: the Finance Agent as a Remote Agent
+ *
+ * Other agents (e.g. an ADK RemoteA2aAgent) find and call ours through:
+ *
+ *   GET  /.well-known/agent.json        Agent card (public; also agent-card.json)
+ *   POST /a2a                           JSON-RPC 2.0 endpoint:
+ *        message/send                   Run a turn and return the task (blocking by
+ *                                       default; configuration.blocking=false returns at once)
+ *        message/stream                 Same, streaming task updates as Server-Sent Events
+ *        tasks/get                      A task's status, artifacts and history
+ *        tasks/cancel                   Stop a running task
+ *
+ * The message's contextId is the ADK session id, so tasks in one context
+ * share budgets, analyses and history, and a chat session can be continued
+ * over A2A. Without a contextId a new session is started. Each task is one
+ * turn: follow-ups go to the same contextId, not the same taskId.
+ *
+ * Behind authentication, the caller's credential picks the user; without it,
+ * `metadata.userId` on the message may name one.
+ */
+
+import { Hono } from 'hono';
+import { streamSSE } from 'hono/streaming';
+import type { BaseAgent } from '@google/adk';
+import { randomUUID } from 'crypto';
+import { isPlainObject } from './api-response';
+import { AuthEnv, requireUserId } from './auth';
+import type { ChatStreamEvent } from './chat-protocol';
+import { createLogger } from './logger';
+import { SESSION_ID_PATTERN } from './session-routes';
+import {
+  A2A_ERROR_CODES,
+  A2aError,
+  A2aMessage,
+  A2aStreamResult,
+  A2aTaskStore,
+  StoredTask,
+  TERMINAL_TASK_STATES,
+  buildAgentCard,
+  jsonRpcError,
+  jsonRpcResult,
+  messageText,
+  withHistoryLength,
+} from './a2a-protocol';
+
+const logger = createLogger('a2a');
+
+export const AGENT_CARD_PATHS = ['/.well-known/agent.json', '/.well-known/agent-card.json'];
+
+/**
+ * Runs one agent turn for a session, reporting it as chat protocol events
+ * that end with `turn_complete` or `error`. Aborting the signal stops the turn.
+ */
+export type AgentTurnRunner = (
+  userId: string,
+  sessionId: string,
+  message: string,
+  send: (event: ChatStreamEvent) => Promise<void>,
+  signal: AbortSignal
+) => Promise<void>;
+
+export interface A2aRouteOptions {
+  agent: BaseAgent;
+  runTurn: AgentTurnRunner;
+  /** Names of the server's auth providers, advertised as security schemes */
+  authProviders: string[];
+  /** Public URL of the JSON-RPC endpoint; by default /a2a on the requested host */
+  publicUrl?: string;
+  version?: string;
+}
+
+function invalidParams(message: string): A2aError {
+  return new A2aError(A2A_ERROR_CODES.invalidParams, message);
+}
+
+function readMessage(params: Record<string, unknown>): A2aMessage {
+  const message = params.message;
+  if (!isPlainObject(message) || !Array.isArray(message.parts) || message.parts.length === 0) {
+    throw invalidParams('"message" must be an object with a non-empty "parts" array');
+  }
+  if (message.role !== 'user') {
+    throw invalidParams('Only "user" messages can be sent to the agent');
+  }
+  if (!message.parts.every((part) => isPlainObject(part) && ['text', 'data', 'file'].includes(part.kind as string))) {
+    throw invalidParams('Every part needs a "kind" of text, data or file');
+  }
+  if (message.contextId !== undefined && (typeof message.contextId !== 'string' || !SESSION_ID_PATTERN.test(message.contextId))) {
+    throw invalidParams('contextId must be 1-128 letters, digits or ._:- characters');
+  }
+  return {
+    ...message,
+    kind: 'message',
+    messageId: typeof message.messageId === 'string' ? message.messageId : randomUUID(),
+  } as A2aMessage;
+}
+
+function readTaskId(params: Record<string, unknown>): string {
+  if (typeof params.id !== 'string' || !params.id) {
+    throw invalidParams('"id" must be a task id');
+  }
+  return params.id;
+}
+
+function readHistoryLength(value: unknown): number | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < 0) {
+    throw invalidParams('"historyLength" must be a non-negative integer');
+  }
+  return value;
+}
+
+export function createA2aRoutes(options: A2aRouteOptions) {
+  const routes = new Hono<AuthEnv>();
+  const tasks = new A2aTaskStore();
+
+  for (const path of AGENT_CARD_PATHS) {
+    routes.get(path, (c) => c.json(buildAgentCard(options.agent, {
+      url: options.publicUrl ?? new URL('/a2a', c.req.url).toString(),
+      version: options.version ?? '1.0.0',
+      authProviders: options.authProviders,
+    })));
+  }
+
+  /**
+   * Validate a message, then create its task; the turn starts with `run`
+   */
+  function startTask(userId: string, params: Record<string, unknown>) {
+    const message = readMessage(params);
+    if (message.taskId !== undefined) {
+      const existing = tasks.get(userId, message.taskId);
+      throw new A2aError(
+        A2A_ERROR_CODES.unsupportedOperation,
+        `Task ${existing.task.id} is ${existing.task.status.state}; send follow-ups with contextId ${existing.task.contextId} instead`
+      );
+    }
+    const text = messageText(message);
+    if (!text) {
+      throw invalidParams('The message has no text');
+    }
+
+    const stored = tasks.create(userId, message.contextId ?? randomUUID(), message);
+    const run = (publish: (update: A2aStreamResult) => Promise<void>) => runTask(stored, text, publish);
+    return { stored, run };
+  }
+
+  async function runTask(stored: StoredTask, text: string, publish: (update: A2aStreamResult) => Promise<void>) {
+    const { task, events, controller } = stored;
+    await publish(events.start());
+    await options.runTurn(stored.userId, task.contextId, text, async (event) => {
+      for (const update of events.translate(event)) {
+        await publish(update);
+      }
+    }, controller.signal);
+
+    // Canceled mid-turn: the stream still ends on a final status
+    if (controller.signal.aborted) {
+      await publish({ kind: 'status-update', taskId: task.id, contextId: task.contextId, status: task.status, final: true });
+    } else if (!TERMINAL_TASK_STATES.includes(task.status.state)) {
+      await publish(events.translate({ type: 'error', code: 'runner_error', message: 'The turn ended without a reply' })[0]);
+    }
+  }
+
+  routes.post('/a2a', async (c) => {
+    const body = await c.req.json().catch(() => undefined);
+    if (body === undefined) {
+      return c.json(jsonRpcError(null, new A2aError(A2A_ERROR_CODES.parseError, 'Body must be valid JSON')));
+    }
+    if (!isPlainObject(body) || body.jsonrpc !== '2.0' || typeof body.method !== 'string') {
+      return c.json(jsonRpcError(null, new A2aError(A2A_ERROR_CODES.invalidRequest, 'Expected a JSON-RPC 2.0 request')));
+    }
+    const method = body.method;
+    const id = typeof body.id === 'string' || typeof body.id === 'number' ? body.id : null;
+    const params = isPlainObject(body.params) ? body.params : {};
+
+    const metadata = isPlainObject(params.message) && isPlainObject(params.message.metadata) ? params.message.metadata : {};
+    const userId = requireUserId(c, metadata.userId, 'default-user');
+    if (userId instanceof Response) {
+      return userId;
+    }
+
+    try {
+      switch (method) {
+        case 'message/send': {
+          const configuration = isPlainObject(params.configuration) ? params.configuration : {};
+          const historyLength = readHistoryLength(configuration.historyLength);
+          const { stored, run } = startTask(userId, params);
+          const running = run(async () => {});
+          if (configuration.blocking === false) {
+            running.catch((error) => logger.error('A2A task failed', { taskId: stored.task.id, error }));
+          } else {
+            await running;
+          }
+          return c.json(jsonRpcResult(id, withHistoryLength(stored.task, historyLength)));
+        }
+
+        case 'message/stream': {
+          const { stored, run } = startTask(userId, params);
+          logger.info('A2A task streaming', { taskId: stored.task.id, userId, contextId: stored.task.contextId });
+          // Every SSE message carries one JSON-RPC response; the task comes first
+          return streamSSE(c, async (stream) => {
+            const publish = async (update: A2aStreamResult) => {
+              // A disconnected client does not cancel the task; tasks/get still has it
+              if (!stream.aborted) {
+                await stream.writeSSE({ data: JSON.stringify(jsonRpcResult(id, update)) });
+              }
+            };
+            await publish(stored.task);
+            await run(publish);
+          });
+        }
+
+        case 'tasks/get': {
+          const { task } = tasks.get(userId, readTaskId(params));
+          return c.json(jsonRpcResult(id, withHistoryLength(task, readHistoryLength(params.historyLength))));
+        }
+
+        case 'tasks/cancel': {
+          const stored = tasks.get(userId, readTaskId(params));
+          if (TERMINAL_TASK_STATES.includes(stored.task.status.state)) {
+            throw new A2aError(A2A_ERROR_CODES.taskNotCancelable, `Task ${stored.task.id} is already ${stored.task.status.state}`);
+          }
+          stored.events.cancel();
+          stored.controller.abort();
+          return c.json(jsonRpcResult(id, stored.task));
+        }
+
+        default:
+          throw new A2aError(A2A_ERROR_CODES.methodNotFound, `Method ${method} is not supported`);
+      }
+    } catch (error) {
+      if (error instanceof A2aError) {
+        return c.json(jsonRpcError(id, error));
+      }
+      throw error;
+    }
+  });
+
+  return routes;
+}
@@ -0,0 +1,578 @@
+import { describe, expect, test } from 'bun:test';
+import { SpendingReport, renderReport } from './spending-report';
+import { startConversation } from './test-support';
+
+const JANUARY = [
+  { date: '2024-01-15', description: 'grocery shopping', amount: 150, category: 'groceries' },
+  { date: '2024-01-16', description: 'restaurant dinner', amount: 85, category: 'dining' },
+  { date: '2024-01-17', description: 'gas station', amount: 60, category: 'transport' },
+  { date: '2024-01-20', description: 'pizza night', amount: 40.5, category: 'dining' },
+];
+
+describe('analyze_transactions', () => {
+  test('totals spending by category and stores the analysis', async () => {
+    const conversation = await startConversation();
+    const result = await conversation.callTool('analyze_transactions', { transactions: JANUARY });
+
+    expect(result.status).toBe('success');
+    expect(result.total_spent).toBe(335.5);
+    expect(result.categories).toEqual({ groceries: 150, dining: 125.5, transport: 60 });
+    expect(result.top_category).toEqual({ name: 'groceries', amount: 150 });
+
+    const state = await conversation.state();
+    expect(state.transactionAnalysis).toMatchObject({
+      currency: 'USD',
+      totalSpent: { amountMinor: 33550, currency: 'USD' },
+    });
+    expect(state.transactions).toHaveLength(4);
+  });
+
+  test('analyzes the stored transactions when none are given', async () => {
+    const conversation = await startConversation();
+    await conversation.callTool('analyze_transactions', { transactions: JANUARY.slice(0, 2) });
+    const result = await conversation.callTool('analyze_transactions');
+
+    expect(result.total_spent).toBe(235);
+  });
+
+  test('converts other currencies into the user\'s currency', async () => {
+    const conversation = await startConversation();
+    const result = await conversation.callTool('analyze_transactions', {
+      transactions: [
+        { date: '2024-01-15', description: 'kottu', amount: 3005, currency: 'LKR', category: 'dining' },
+        { date: '2024-01-16', description: 'bus', amount: 5, category: 'transport' },
+      ],
+    });
+
+    expect(result.categories).toEqual({ dining: 10, transport: 5 });
+    expect(result.total_spent).toBe(15);
+  });
+
+  test('reports an error when there is nothing to analyze', async () => {
+    const conversation = await startConversation();
+    const result = await conversation.callTool('analyze_transactions');
+
+    expect(result).toEqual({ status: 'error', message: 'No transactions provided' });
+  });
+});
+
+describe('set_budget_goal', () => {
+  test('stores the goal and replaces an earlier goal for the same category', async () => {
+    const conversation = await startConversation();
+    await conversation.callTool('set_budget_goal', { category: 'dining', limit: 200 });
+    await conversation.callTool('set_budget_goal', { category: 'groceries', limit: 400 });
+    const result = await conversation.callTool('set_budget_goal', { category: 'Dining', limit: 250 });
+
+    expect(result.status).toBe('success');
+    expect(result.total_goals).toBe(2);
+
+    const { budgetGoals } = await conversation.state() as { budgetGoals: { category: string; limit: unknown }[] };
+    expect(budgetGoals.map((goal) => goal.limit)).toContainEqual({ amountMinor: 25000, currency: 'USD' });
+    expect(budgetGoals.map((goal) => goal.limit)).not.toContainEqual({ amountMinor: 20000, currency: 'USD' });
+  });
+
+  test('rejects malformed currency codes', async () => {
+    const conversation = await startConversation();
+    const result = await conversation.callTool('set_budget_goal', { category: 'dining', limit: 200, currency: 'dollars' });
+
+    expect(result.status).toBe('error');
+  });
+});
+
+describe('calculate_budget_status', () => {
+  test.each([
+    [100, 'on_track', 50],
+    [180, 'warning', 90],
+    [250, 'over_budget', 125],
+  ])('spending %d of 200 is %s', async (spent, status, percentage) => {
+    const conversation = await startConversation();
+    const result = await conversation.callTool('calculate_budget_status', { category: 'dining', spent, budget_limit: 200 });
+
+    expect(result.budget_status).toBe(status);
+    expect(result.percentage_used).toBe(percentage);
+    expect(result.remaining).toBe(200 - spent);
+  });
+
+  test('falls back to the stored goal and the period\'s transactions', async () => {
+    const conversation = await startConversation();
+    await conversation.callTool('analyze_transactions', { transactions: JANUARY });
+    await conversation.callTool('set_budget_goal', { category: 'dining', limit: 150 });
+    const result = await conversation.callTool('calculate_budget_status', { category: 'dining', as_of: '2024-01-31' });
+
+    expect(result).toMatchObject({ spent: 125.5, budget_limit: 150, budget_status: 'warning', remaining: 24.5 });
+    expect(result.period).toEqual({ type: 'monthly', start: '2024-01-01', end: '2024-01-31' });
+  });
+
+  test('only counts the current period and rolls over unspent money', async () => {
+    const conversation = await startConversation();
+    await conversation.callTool('analyze_transactions', {
+      transactions: [
+        ...JANUARY,
+        { date: '2024-02-03', description: 'restaurant lunch', amount: 30, category: 'dining' },
+        { date: '2024-03-02', description: 'cafe', amount: 20, category: 'dining' },
+      ],
+    });
+    await conversation.callTool('set_budget_goal', {
+      category: 'dining', limit: 150, rollover: true, start_date: '2024-01-10',
+    });
+    const result = await conversation.callTool('calculate_budget_status', { category: 'dining', as_of: '2024-03-15' });
+
+    // January left 24.50 unspent, February 144.50 of its 174.50
+    expect(result).toMatchObject({ spent: 20, carried_over: 144.5, budget_limit: 294.5, budget_status: 'on_track' });
+
+    const { budgetGoals } = await conversation.state() as { budgetGoals: { history: Record<string, unknown>[] }[] };
+    expect(budgetGoals[0].history).toEqual([
+      expect.objectContaining({ start: '2024-01-01', end: '2024-01-31', spent: { amountMinor: 12550, currency: 'USD' } }),
+      expect.objectContaining({ start: '2024-02-01', end: '2024-02-29', carriedIn: { amountMinor: 2450, currency: 'USD' } }),
+    ]);
+  });
+
+  test('supports weekly and custom periods', async () => {
+    const conversation = await startConversation();
+    await conversation.callTool('analyze_transactions', { transactions: JANUARY });
+    await conversation.callTool('set_budget_goal', { category: 'dining', limit: 100, period: 'weekly', start_date: '2024-01-01' });
+    await conversation.callTool('set_budget_goal', {
+      category: 'groceries', limit: 300, period: 'custom', period_days: 14, start_date: '2024-01-05',
+    });
+
+    const dining = await conversation.callTool('calculate_budget_status', { category: 'dining', as_of: '2024-01-18' });
+    expect(dining).toMatchObject({ spent: 125.5, period: { type: 'weekly', start: '2024-01-15', end: '2024-01-21' } });
+
+    const groceries = await conversation.callTool('calculate_budget_status', { category: 'groceries', as_of: '2024-01-16' });
+    expect(groceries).toMatchObject({ spent: 150, period: { type: 'custom', start: '2024-01-05', end: '2024-01-18' } });
+  });
+
+  test('asks for a limit when no goal is stored', async () => {
+    const conversation = await startConversation();
+    const result = await conversation.callTool('calculate_budget_status', { category: 'dining', spent: 20 });
+
+    expect(result.status).toBe('error');
+    expect(result.message).toContain('No budget goal is stored for dining');
+  });
+});
+
+describe('forecast_spending', () => {
+  // Dining every day in the first half of March, plus a monthly streaming charge
+  const DINING = Array.from({ length: 15 }, (_, i) => ({
+    date: `2024-03-${String(i + 1).padStart(2, '0')}`,
+    description: 'lunch',
+    amount: i % 2 === 0 ? 8 : 12,
+    category: 'dining',
+  }));
+  const STREAMING = [
+    { date: '2024-02-10', description: 'StreamFlix', amount: 12, category: 'entertainment' },
+    { date: '2024-03-10', description: 'StreamFlix', amount: 12, category: 'entertainment' },
+  ];
+
+  test('projects the period from the run-rate and flags budgets it will exceed', async () => {
+    const conversation = await startConversation();
+    await conversation.callTool('analyze_transactions', { transactions: DINING });
+    await conversation.callTool('set_budget_goal', { category: 'dining', limit: 250, start_date: '2024-03-01' });
+    const result = await conversation.callTool('forecast_spending', { as_of: '2024-03-15' });
+    const forecasts = result.forecasts as Record<string, any>[];
+    const dining = forecasts.find((forecast) => forecast.category === 'dining')!;
+
+    // 148 spent in 15 days, then 16 more days at the same rate
+    expect(dining.spent_so_far).toBe(148);
+    expect(dining.projected).toBe(305.87);
+    expect(dining.range.low).toBeLessThan(dining.projected);
+    expect(dining.range.high).toBeGreaterThan(dining.projected);
+    expect(dining.projected_over_budget).toBe(true);
+    expect(result.over_budget_categories).toEqual(['dining']);
+  });
+
+  test('adds recurring charges still due in the period', async () => {
+    const conversation = await startConversation();
+    await conversation.callTool('analyze_transactions', { transactions: STREAMING });
+    const result = await conversation.callTool('forecast_spending', { category: 'entertainment', as_of: '2024-04-02' });
+
+    expect(result.forecasts).toEqual([expect.objectContaining({
+      spent_so_far: 0,
+      daily_rate: 0,
+      recurring_due: 12,
+      projected: 12,
+      period: { start: '2024-04-01', end: '2024-04-30' },
+    })]);
+  });
+
+  test('puts a budget on pace to overrun into warning before 80% is used', async () => {
+    const conversation = await startConversation();
+    await conversation.callTool('analyze_transactions', { transactions: DINING });
+    await conversation.callTool('set_budget_goal', { category: 'dining', limit: 250, start_date: '2024-03-01' });
+    const result = await conversation.callTool('calculate_budget_status', { category: 'dining', as_of: '2024-03-15' });
+
+    expect(result.percentage_used).toBeLessThan(80);
+    expect(result.budget_status).toBe('warning');
+    expect(result.message).toContain('on pace for');
+  });
+});
+
+describe('analyze_transactions date ranges', () => {
+  test('analyzes only the requested range', async () => {
+    const conversation = await startConversation();
+    const result = await conversation.callTool('analyze_transactions', {
+      transactions: JANUARY,
+      start_date: '2024-01-16',
+      end_date: '2024-01-17',
+    });
+
+    expect(result.total_spent).toBe(145);
+    expect(result.date_range).toEqual({ start: '2024-01-16', end: '2024-01-17' });
+    expect((await conversation.state()).transactions).toHaveLength(4);
+  });
+
+  test('rejects dates that are not real ISO dates', async () => {
+    const conversation = await startConversation();
+    const result = await conversation.callTool('analyze_transactions', {
+      transactions: [{ ...JANUARY[0], date: '15/01/2024' }, { ...JANUARY[1], date: '2024-02-31' }],
+    });
+
+    expect(result).toEqual({ status: 'error', message: 'Invalid dates: 15/01/2024, 2024-02-31. Use YYYY-MM-DD.' });
+  });
+});
+
+describe('generate_spending_report', () => {
+  test('builds the report from stored analysis and goals', async () => {
+    const conversation = await startConversation();
+    await conversation.callTool('analyze_transactions', { transactions: JANUARY });
+    await conversation.callTool('set_budget_goal', { category: 'dining', limit: 100 });
+    const result = await conversation.callTool('generate_spending_report', {
+      recommendations: ['Cook at home more often'],
+    });
+    const report = result.report as string;
+
+    expect(result.status).toBe('success');
+    expect(report).toContain('Total spent: $335.50');
+    expect(report).toContain('## Spending by Category (USD)');
+    expect(report).toContain('❌ dining: 125.5% of budget used');
+    expect(report).toContain('1. Cook at home more often');
+  });
+
+  test('stores the report so it can be rendered in every format', async () => {
+    const conversation = await startConversation();
+    await conversation.callTool('analyze_transactions', { transactions: JANUARY, end_date: '2024-01-31' });
+    await conversation.callTool('set_budget_goal', { category: 'dining', limit: 200 });
+    const result = await conversation.callTool('generate_spending_report', { recommendations: ['Cook at home & save'] });
+
+    const { reports } = await conversation.state() as { reports: SpendingReport[] };
+    expect(reports.map((report) => report.id)).toEqual([result.report_id as string]);
+    expect(result.report).toBe(renderReport(reports[0], 'markdown'));
+    expect(result.report).toContain('Period: start to 2024-01-31');
+
+    const html = renderReport(reports[0], 'html');
+    expect(html).toStartWith('<!DOCTYPE html>');
+    expect(html).toContain('<svg xmlns="http://www.w3.org/2000/svg" role="img" aria-label="Spending by category"');
+    expect(html).toContain('<li>Cook at home &amp; save</li>');
+
+    expect(renderReport(reports[0], 'csv').split('\r\n')).toEqual(expect.arrayContaining([
+      'section,item,amount,currency,detail',
+      'summary,total_spent,335.50,USD,',
+      'category,dining,125.50,USD,',
+      'budget,dining,,,62.7% used (on_track)',
+      'recommendation,1,,,Cook at home & save',
+    ]));
+    expect(JSON.parse(renderReport(reports[0], 'json')).id).toBe(result.report_id);
+  });
+
+  test('needs an analysis or a summary', async () => {
+    const conversation = await startConversation();
+    const result = await conversation.callTool('generate_spending_report');
+
+    expect(result.status).toBe('error');
+  });
+});
+
+describe('detect_recurring_payments', () => {
+  const SUBSCRIPTIONS = [
+    { date: '2024-01-05', description: 'NETFLIX.COM 8812', amount: 15.49, category: 'entertainment' },
+    { date: '2024-02-05', description: 'NETFLIX.COM 9120', amount: 15.49, category: 'entertainment' },
+    { date: '2024-03-05', description: 'NETFLIX.COM 9971', amount: 17.99, category: 'entertainment' },
+    { date: '2024-01-02', description: 'Spotify', amount: 9.99, category: 'entertainment' },
+    { date: '2024-02-02', description: 'Spotify', amount: 9.99, category: 'entertainment' },
+    { date: '2024-01-10', description: 'gym membership', amount: 8, category: 'health' },
+    { date: '2024-01-17', description: 'gym membership', amount: 8, category: 'health' },
+    { date: '2024-01-24', description: 'gym membership', amount: 8, category: 'health' },
+    { date: '2024-03-01', description: 'restaurant dinner', amount: 60, category: 'dining' },
+    { date: '2024-03-20', description: 'restaurant dinner', amount: 45, category: 'dining' },
+  ];
+
+  test('infers cadence, next charge, price increases and lapsed subscriptions', async () => {
+    const conversation = await startConversation();
+    await conversation.callTool('analyze_transactions', { transactions: SUBSCRIPTIONS });
+    const result = await conversation.callTool('detect_recurring_payments');
+    const payments = result.recurring_payments as Record<string, unknown>[];
+
+    expect(result.status).toBe('success');
+    expect(result.as_of).toBe('2024-03-20');
+    expect(payments.map((payment) => payment.merchant)).toEqual(['netflix com', 'gym membership', 'spotify']);
+    expect(payments[0]).toMatchObject({
+      cadence: 'monthly',
+      amount: 17.99,
+      next_expected: '2024-04-05',
+      price_increase: { from: 15.49, to: 17.99, percentage: 16.1 },
+      lapsed: false,
+    });
+    expect(payments[1]).toMatchObject({ cadence: 'weekly', next_expected: '2024-01-31', lapsed: true });
+    expect(payments[2]).toMatchObject({ cadence: 'monthly', next_expected: '2024-03-02', lapsed: true });
+    expect(result.monthly_total).toBe(17.99);
+
+    const state = await conversation.state() as { recurringPayments: { payments: unknown[] } };
+    expect(state.recurringPayments.payments).toHaveLength(3);
+  });
+
+  test('adds a subscriptions section to the spending report', async () => {
+    const conversation = await startConversation();
+    await conversation.callTool('analyze_transactions', { transactions: SUBSCRIPTIONS });
+    await conversation.callTool('detect_recurring_payments', { as_of: '2024-03-25' });
+    const result = await conversation.callTool('generate_spending_report');
+    const report = result.report as string;
+
+    expect(report).toContain('## Subscriptions');
+    expect(report).toContain('- netflix com: $17.99 monthly, next charge 2024-04-05, ⬆️ up 16.1% from $15.49');
+    expect(report).toContain('- ⏸️ spotify: $9.99 monthly, seems to have lapsed (last charged 2024-02-02)');
+  });
+
+  test('rejects invalid dates and needs stored transactions', async () => {
+    const conversation = await startConversation();
+    expect((await conversation.callTool('detect_recurring_payments')).status).toBe('error');
+
+    await conversation.callTool('analyze_transactions', { transactions: SUBSCRIPTIONS });
+    const result = await conversation.callTool('detect_recurring_payments', { as_of: '2024-02-30' });
+    expect(result).toEqual({ status: 'error', message: 'Invalid date "2024-02-30". Use YYYY-MM-DD.' });
+  });
+});
+
+describe('flag_anomalies', () => {
+  const HISTORY = [
+    { date: '2024-01-03', description: 'Fresh Mart', amount: 40, category: 'groceries' },
+    { date: '2024-01-10', description: 'Fresh Mart', amount: 42, category: 'groceries' },
+    { date: '2024-01-17', description: 'Fresh Mart', amount: 38, category: 'groceries' },
+    { date: '2024-01-24', description: 'Fresh Mart', amount: 41, category: 'groceries' },
+    { date: '2024-01-31', description: 'Fresh Mart', amount: 45, category: 'groceries' },
+    { date: '2024-02-01', description: 'Streamly', amount: 12.99, category: 'entertainment' },
+  ];
+  const NEW = [
+    { date: '2024-02-02', description: 'Streamly', amount: 12.99, category: 'entertainment' },
+    { date: '2024-02-07', description: 'Fresh Mart', amount: 180, category: 'groceries' },
+    { date: '2024-02-08', description: 'Luxury Watches', amount: 450, category: 'shopping' },
+    { date: '2024-02-09', description: 'Late Night Bar', amount: 25, category: 'dining', time: '02:14' },
+    { date: '2024-02-14', description: 'Fresh Mart', amount: 41, category: 'groceries' },
+    { date: '2099-01-01', description: 'Fresh Mart', amount: 43, category: 'groceries' },
+  ];
+
+  test('flags outliers, duplicates, new merchants, odd hours and future dates with reasons', async () => {
+    const conversation = await startConversation();
+    await conversation.callTool('analyze_transactions', { transactions: [...HISTORY, ...NEW] });
+    const result = await conversation.callTool('flag_anomalies', { since: '2024-02-02' });
+    const flags = result.anomalies as { description: string; rules: string[]; reasons: string[]; score: number | null }[];
+
+    expect(result).toMatchObject({ status: 'success', count: 5, checked: 6 });
+    expect(flags.map((flag) => [flag.description, flag.rules])).toEqual([
+      ['Streamly', ['duplicate_charge']],
+      ['Fresh Mart', ['merchant_outlier', 'category_outlier']],
+      ['Luxury Watches', ['new_merchant']],
+      ['Late Night Bar', ['odd_hour']],
+      ['Fresh Mart', ['future_date']],
+    ]);
+    expect(flags[0].reasons[0]).toBe('Same amount as the Streamly charge on 2024-02-01 - possibly charged twice');
+    expect(flags[1].reasons[0]).toBe('$180.00 is 4.4x the usual $41.00 at Fresh Mart');
+    expect(flags[1].score).toBeGreaterThan(3.5);
+    expect(flags[3].reasons).toEqual(['Charged at 02:14, between midnight and 5am']);
+  });
+
+  test('stores flags so later turns can refer back to them', async () => {
+    const conversation = await startConversation();
+    await conversation.callTool('analyze_transactions', { transactions: [...HISTORY, ...NEW] });
+    await conversation.callTool('flag_anomalies', { since: '2024-02-02' });
+    // Checking again replaces the earlier flags instead of duplicating them
+    await conversation.callTool('flag_anomalies', { new_merchant_threshold: 1000 });
+
+    const stored = await conversation.callTool('flag_anomalies', { stored_only: true });
+    expect(stored.count).toBe(5);
+    const state = await conversation.state() as { anomalies: { transaction: { description: string } }[] };
+    expect(state.anomalies.map((flag) => flag.transaction.description)).toContain('Luxury Watches');
+  });
+
+  test('rejects invalid input', async () => {
+    const conversation = await startConversation();
+    expect((await conversation.callTool('flag_anomalies')).status).toBe('error');
+
+    const result = await conversation.callTool('analyze_transactions', {
+      transactions: [{ date: '2024-01-01', description: 'Cafe', amount: 4, time: '25:00' }],
+    });
+    expect(result).toEqual({ status: 'error', message: 'Invalid times: 25:00. Use HH:MM (24-hour).' });
+  });
+});
+
+describe('savings goals', () => {
+  async function withGoals() {
+    const conversation = await startConversation();
+    await conversation.callTool('set_preferences', { monthly_income: 3000 });
+    await conversation.callTool('analyze_transactions', { transactions: JANUARY });
+    await conversation.callTool('create_savings_goal', {
+      name: 'Vacation', target: 1200, deadline: '2099-12-31', priority: 'high', already_saved: 200,
+    });
+    await conversation.callTool('create_savings_goal', { name: 'Emergency fund', target: 10000, deadline: '2099-12-31', priority: 'low' });
+    return conversation;
+  }
+
+  test('logs contributions and plans the monthly amounts against the surplus', async () => {
+    const conversation = await withGoals();
+    const contributed = await conversation.callTool('contribute_to_savings_goal', { name: 'vacation', amount: 100, date: '2024-02-01' });
+    expect(contributed.goal).toMatchObject({ saved: 300, remaining: 900, percentage: 25, contributions: 2 });
+
+    const review = await conversation.callTool('review_savings_goals', { as_of: '2099-06-30' });
+    expect(review.goals).toMatchObject([
+      { name: 'Vacation', months_left: 6, monthly_needed: 150, allocated_from_surplus: 150, funded_by_surplus: true },
+      { name: 'Emergency fund', monthly_needed: 1666.67, allocated_from_surplus: 1666.67, funded_by_surplus: true },
+    ]);
+    // 3000 income - 335.50 spent in January
+    expect(review.surplus).toMatchObject({ monthly_surplus: 2664.5, source: 'income_minus_spending', unallocated: 847.83, shortfall: 0 });
+
+    const tight = await conversation.callTool('review_savings_goals', { as_of: '2099-06-30', monthly_surplus: 1000 });
+    expect(tight.goals).toMatchObject([
+      { name: 'Vacation', funded_by_surplus: true },
+      { name: 'Emergency fund', allocated_from_surplus: 850, funded_by_surplus: false },
+    ]);
+    expect(tight.message).toBe('⚠️ The monthly surplus of $1,000.00 is $816.67 short of what the goals need.');
+  });
+
+  test('shows goal progress in the spending report', async () => {
+    const conversation = await withGoals();
+    const result = await conversation.callTool('generate_spending_report');
+
+    expect(result.report).toContain('## Savings Goals');
+    expect(result.report).toContain('- Vacation: $200.00 of $1,200.00 (16.7%), by 2099-12-31, $');
+  });
+
+  test('rejects past deadlines, unknown goals and overdrawn withdrawals', async () => {
+    const conversation = await withGoals();
+
+    expect((await conversation.callTool('create_savings_goal', { name: 'Car', target: 5000, deadline: '2020-01-01' })).status).toBe('error');
+    expect((await conversation.callTool('contribute_to_savings_goal', { name: 'Car', amount: 50 })).message)
+      .toBe('No savings goal named "Car". Goals: Vacation, Emergency fund.');
+    expect((await conversation.callTool('contribute_to_savings_goal', { name: 'Vacation', amount: -250 })).message)
+      .toBe('Cannot withdraw $250.00; only $200.00 is saved in "Vacation".');
+  });
+});
+
+describe('categorization', () => {
+  const STATEMENT = [
+    'Date,Description,Amount',
+    '2024-03-01,PICKME FOOD ORDER 1234,-18.00',
+    '2024-03-02,Happy Paws Vet,-95.00',
+    '2024-03-03,Netflix.com,-15.99',
+    '2024-03-04,Uber Trip,-12.00',
+    '2024-03-05,Brew Bros Roastery,-6.50',
+  ].join('\n');
+
+  async function withStatement() {
+    const conversation = await startConversation();
+    await conversation.callTool('import_statement', { content: STATEMENT, format: 'csv' });
+    return conversation;
+  }
+
+  async function storedCategories(conversation: Awaited<ReturnType<typeof startConversation>>) {
+    const state = await conversation.state();
+    return Object.fromEntries(
+      (state.transactions as { description: string; category: string; subcategory?: string }[])
+        .map((tx) => [tx.description, tx.subcategory ? `${tx.category}/${tx.subcategory}` : tx.category])
+    );
+  }
+
+  test('categorize_transactions applies the rules and hands back the rows none matched', async () => {
+    const conversation = await withStatement();
+    const result = await conversation.callTool('categorize_transactions');
+
+    expect(result.categorized).toBe(0);
+    expect(result.unknown).toEqual([
+      { index: 1, date: '2024-03-02', description: 'Happy Paws Vet', amount: { amountMinor: 9500, currency: 'USD' } },
+      { index: 4, date: '2024-03-05', description: 'Brew Bros Roastery', amount: { amountMinor: 650, currency: 'USD' } },
+    ]);
+    // The higher-priority "pickme food" keyword beats "pickme" (transport)
+    expect(await storedCategories(conversation)).toEqual({
+      'PICKME FOOD ORDER 1234': 'dining',
+      'Happy Paws Vet': 'uncategorized',
+      'Netflix.com': 'entertainment',
+      'Uber Trip': 'transport',
+      'Brew Bros Roastery': 'uncategorized',
+    });
+
+    const again = await conversation.callTool('categorize_transactions', { recategorize_all: true });
+    expect(again).toMatchObject({ categorized: 3, unknown_count: 2 });
+  });
+
+  test('learn_category_rule needs a known category and categorizes stored rows', async () => {
+    const conversation = await withStatement();
+
+    const unknown = await conversation.callTool('learn_category_rule', { category: 'Pets', pattern: 'vet' });
+    expect(unknown.status).toBe('error');
+    expect(unknown.message).toBe('Unknown category "pets". Create it with create_category first.');
+    expect(unknown.available_categories).not.toContain('pets');
+
+    expect((await conversation.callTool('create_category', { name: 'Pets' })).status).toBe('success');
+    const invalid = await conversation.callTool('learn_category_rule', { category: 'pets', pattern: '(vet', match_type: 'regex' });
+    expect(invalid.status).toBe('error');
+    expect(String(invalid.message)).toStartWith('Invalid regular expression');
+
+    const learned = await conversation.callTool('learn_category_rule', { category: 'pets', pattern: 'vet' });
+    expect(learned).toMatchObject({
+      status: 'success',
+      rule: { category: 'pets', matchType: 'keyword', field: 'description', pattern: 'vet', priority: 50 },
+      newly_categorized: 1,
+      still_uncategorized: 1,
+    });
+
+    const state = await conversation.state();
+    expect(state['user:categoryRules']).toHaveLength(1);
+    expect((await storedCategories(conversation))['Happy Paws Vet']).toBe('pets');
+  });
+
+  test('subcategories need an existing parent and are assigned with it', async () => {
+    const conversation = await withStatement();
+
+    expect((await conversation.callTool('create_category', { name: 'coffee', parent: 'hobbies' })).message)
+      .toBe('Parent category "hobbies" does not exist.');
+    expect((await conversation.callTool('create_category', { name: 'uncategorized' })).status).toBe('error');
+    expect((await conversation.callTool('create_category', { name: 'Coffee', parent: 'Dining' })).message)
+      .toBe('Created subcategory "coffee" under "dining".');
+    expect((await conversation.callTool('create_category', { name: 'coffee', parent: 'dining' })).message)
+      .toBe('Category "dining/coffee" already exists.');
+
+    // A subcategory is not a top-level category, nor a child of another parent
+    const available = await conversation.callTool('learn_category_rule', { category: 'coffee', pattern: 'roastery' });
+    expect(available.available_categories).not.toContain('coffee');
+    expect((await conversation.callTool('learn_category_rule', { category: 'transport', subcategory: 'coffee', pattern: 'roastery' })).status)
+      .toBe('error');
+
+    const learned = await conversation.callTool('learn_category_rule', {
+      category: 'dining',
+      subcategory: 'coffee',
+      pattern: 'brew bros roastery',
+      match_type: 'exact',
+      field: 'merchant',
+    });
+    expect(learned.newly_categorized).toBe(1);
+    expect((await storedCategories(conversation))['Brew Bros Roastery']).toBe('dining/coffee');
+  });
+
+  test('the highest priority rule wins, then the most specific match type', async () => {
+    const conversation = await withStatement();
+    await conversation.callTool('create_category', { name: 'work' });
+    await conversation.callTool('create_category', { name: 'treats' });
+
+    // The user's rules sit above the built-in ones by default
+    await conversation.callTool('learn_category_rule', { category: 'work', pattern: 'uber' });
+    await conversation.callTool('learn_category_rule', { category: 'treats', pattern: 'pickme food', priority: 5 });
+    // Equal priority: an exact match beats a keyword
+    await conversation.callTool('learn_category_rule', { category: 'treats', pattern: 'netflix', priority: 60 });
+    await conversation.callTool('learn_category_rule', { category: 'work', pattern: 'netflix.com', match_type: 'exact', priority: 60 });
+
+    await conversation.callTool('categorize_transactions', { recategorize_all: true });
+    expect(await storedCategories(conversation)).toMatchObject({
+      'Uber Trip': 'work',
+      'PICKME FOOD ORDER 1234': 'dining',
+      'Netflix.com': 'work',
+    });
+  });
+});
@@ -10,30 +10,154 @@
  * Key Learning: How agents maintain continuity and avoid repetition
  */
 
-import { FunctionTool, LlmAgent } from '@google/adk';
+import { BaseLlm, FunctionTool, LlmAgent } from '@google/adk';
+import { randomUUID } from 'crypto';
 import { z } from 'zod';
+import { AnomalyFlag, detectAnomalies, mergeAnomalies } from './anomaly-detection';
+import { alertContext } from './budget-alerts';
+import {
+  budgetStatusFor,
+  closeBudgetPeriods,
+  createBudgetPeriod,
+  currentBudget,
+  inheritBudgetHistory,
+  periodRange,
+  spentInRange,
+} from './budget-periods';
+import {
+  CategoryDefinition,
+  CategoryRule,
+  DEFAULT_RULE_PRIORITY,
+  UNCATEGORIZED,
+  availableCategories,
+  categorizeAll,
+  isKnownCategory,
+  validateRule,
+} from './categorization';
+import { addDays, isIsoDate, todayIso } from './dates';
+import {
+  Money,
+  MoneyError,
+  absMoney,
+  addMoney,
+  compareMoney,
+  convertMoney,
+  formatMoney,
+  money,
+  normalizeCurrency,
+  percentageOf,
+  subtractMoney,
+  sumMoney,
+  toMajor,
+  zeroMoney,
+} from './money';
+import {
+  DEFAULT_AMOUNT_TOLERANCE,
+  RecurringPayment,
+  detectRecurringPayments,
+  monthlyEquivalent,
+} from './recurring-payments';
+import {
+  SavingsGoal,
+  SavingsPlanLine,
+  findSavingsGoal,
+  monthlySpending,
+  planSavings,
+  savedSoFar,
+  savingsProgress,
+  upsertSavingsGoal,
+} from './savings-goals';
+import {
+  BudgetGoal,
+  Transaction,
+  TransactionAnalysis,
+  UserPreferences,
+  findBudgetGoal,
+  getSessionState,
+  getSessionValue,
+  normalizeCategory,
+  setSessionValue,
+  upsertBudgetGoal,
+} from './session-state';
+import { FORECAST_LOOKBACK_DAYS, forecastCategory } from './spending-forecast';
+import { MAX_STORED_REPORTS, REPORT_FORMATS, SpendingReport, renderReport } from './spending-report';
+import { createPiiGuardrail } from './pii-redaction';
+import { createConversationCompactor } from './conversation-compaction';
+import { DATE_ORDERS, SPENDING_SIGNS, STATEMENT_FORMATS, importStatement, mergeTransactions } from './statement-import';
+import { agentModelFromEnv } from './scripted-model';
+import { memoryContext } from './user-memory';
+
+// Shared helpers for working with stored analysis data
+
+/**
+ * Recurring payments that are still running on a date, detected from the
+ * transactions up to that date
+ */
+function activeRecurringPayments(transactions: Transaction[], asOf: string): RecurringPayment[] {
+  return detectRecurringPayments(transactions.filter((tx) => tx.date <= asOf), { asOf }).payments
+    .filter((payment) => !payment.lapsed);
+}
 
 /**
- * Type definitions for session state
- * This demonstrates how to structure data that persists across turns
+ * What is left each month for saving: the monthly income minus the average
+ * monthly spending of the stored analysis, in the user's currency
  */
-interface TransactionAnalysis {
-  totalSpent: number;
-  categories: Record<string, number>;
-  topCategory: { name: string; amount: number };
-  timestamp: string;
+function monthlySurplus(
+  analysis: TransactionAnalysis | null,
+  transactions: Transaction[],
+  preferences: UserPreferences
+): { income: Money; spending: Money; surplus: Money } | null {
+  if (!analysis || !preferences.monthlyIncome) {
+    return null;
+  }
+  const income = convertMoney(preferences.monthlyIncome, preferences.currency);
+  const spending = convertMoney(monthlySpending(analysis, transactions), preferences.currency);
+  return { income, spending, surplus: subtractMoney(income, spending) };
+}
+
+function describeSavingsGoal(line: SavingsPlanLine) {
+  return {
+    name: line.goal.name,
+    priority: line.goal.priority,
+    currency: line.goal.target.currency,
+    target: toMajor(line.goal.target),
+    saved: toMajor(line.saved),
+    remaining: toMajor(line.remaining),
+    percentage: line.percentage,
+    deadline: line.goal.deadline ?? null,
+    months_left: line.monthsLeft,
+    monthly_needed: line.monthlyNeeded ? toMajor(line.monthlyNeeded) : null,
+    status: line.status,
+    allocated_from_surplus: line.allocated ? toMajor(line.allocated) : null,
+    funded_by_surplus: line.funded,
+    contributions: line.goal.contributions.length,
+  };
+}
+
+function findCategoryTotal(analysis: TransactionAnalysis, category: string): Money {
+  const wanted = normalizeCategory(category);
+  return sumMoney(
+    Object.entries(analysis.categories)
+      .filter(([name]) => normalizeCategory(name) === wanted)
+      .map(([, amount]) => amount),
+    analysis.currency
+  );
 }
 
-interface BudgetGoal {
-  category: string;
-  limit: number;
-  setAt: string;
+function summarizeAnalysis(analysis: TransactionAnalysis, locale: string): string {
+  return `Total spent: ${formatMoney(analysis.totalSpent, locale)}. ` +
+    `Top spending category: ${analysis.topCategory.name} at ${formatMoney(analysis.topCategory.amount, locale)}.`;
 }
 
-interface SessionState {
-  transactionAnalysis: TransactionAnalysis | null;
-  budgetGoals: BudgetGoal[];
-  conversationSummary: string[];
+/**
+ * Turn currency problems (unknown code, missing exchange rate) into a tool
+ * error the model can explain, instead of failing the whole turn
+ */
+function moneyErrorResult(error: unknown) {
+  if (error instanceof MoneyError) {
+    return { status: 'error', message: error.message };
+  }
+  throw error;
 }
 
 /**
@@ -46,55 +170,132 @@ interface SessionState {
  * 
  * In multi-turn context: Results are stored in session for later reference
  */
+const transactionSchema = z.object({
+  date: z.string().describe('Transaction date (YYYY-MM-DD)'),
+  description: z.string().describe('Transaction description'),
+  amount: z.number().positive().describe('Amount spent'),
+  currency: z.string().optional().describe('ISO currency code of the amount, e.g. USD, LKR, EUR (defaults to the user\'s currency)'),
+  category: z.string().optional().describe('Expense category (omit to categorize automatically with the rule engine)'),
+  subcategory: z.string().optional().describe('Optional subcategory'),
+  time: z.string().optional().describe('Time of day (HH:MM, 24-hour) if known'),
+});
+
 const analyzeTransactionsTool = new FunctionTool({
   name: 'analyze_transactions',
-  description: 'Analyze spending transactions and categorize them by type. Returns spending summary by category.',
+  description: 'Analyze spending transactions and categorize them by type. Returns spending summary by category. If transactions are omitted, the transactions stored in the session (e.g. from an imported statement) are analyzed. Use start_date and end_date to analyze a date range, e.g. one month.',
   parameters: z.object({
-    transactions: z.array(
-      z.object({
-        date: z.string().describe('Transaction date (YYYY-MM-DD)'),
-        description: z.string().describe('Transaction description'),
-        amount: z.number().positive().describe('Amount spent'),
-        category: z.enum(['groceries', 'dining', 'entertainment', 'utilities', 'transport', 'other']).describe('Expense category'),
-      })
-    ).describe('List of transactions to analyze'),
+    transactions: z.array(transactionSchema)
+      .optional()
+      .describe('List of transactions to analyze (defaults to the stored transactions)'),
+    start_date: z.string().optional().describe('Only analyze transactions on or after this date (YYYY-MM-DD)'),
+    end_date: z.string().optional().describe('Only analyze transactions on or before this date (YYYY-MM-DD)'),
   }),
-  execute: ({ transactions }) => {
-    // Validate we have transactions
-    if (transactions.length === 0) {
+  execute: (args, toolContext) => {
+    const { start_date, end_date } = args;
+    const { transactions: stored, categoryRules, preferences } = getSessionState(toolContext);
+
+    const invalidDates = [start_date, end_date, ...(args.transactions ?? []).map((tx) => tx.date)]
+      .filter((date): date is string => date !== undefined && !isIsoDate(date));
+    if (invalidDates.length > 0) {
+      return {
+        status: 'error',
+        message: `Invalid dates: ${[...new Set(invalidDates)].join(', ')}. Use YYYY-MM-DD.`,
+      };
+    }
+    const invalidTimes = (args.transactions ?? [])
+      .map((tx) => tx.time)
+      .filter((time): time is string => time !== undefined && !/^([01]\d|2[0-3]):[0-5]\d$/.test(time));
+    if (invalidTimes.length > 0) {
       return {
         status: 'error',
-        message: 'No transactions provided',
+        message: `Invalid times: ${[...new Set(invalidTimes)].join(', ')}. Use HH:MM (24-hour).`,
       };
     }
+    if (start_date && end_date && start_date > end_date) {
+      return { status: 'error', message: `start_date ${start_date} is after end_date ${end_date}` };
+    }
 
-    // Calculate totals by category
-    const categories: Record<string, number> = {};
-    let totalSpent = 0;
+    try {
+      // Rows without a category are categorized by the rule engine, not the model
+      const transactions: Transaction[] = args.transactions
+        ? categorizeAll(
+          args.transactions.map((tx) => ({
+            date: tx.date,
+            description: tx.description,
+            amount: money(tx.amount, tx.currency ?? preferences.currency),
+            category: tx.category ? normalizeCategory(tx.category) : UNCATEGORIZED,
+            subcategory: tx.subcategory,
+            ...(tx.time ? { time: tx.time } : {}),
+          })),
+          categoryRules
+        ).transactions
+        : stored;
 
-    transactions.forEach((tx) => {
-      categories[tx.category] = (categories[tx.category] || 0) + tx.amount;
-      totalSpent += tx.amount;
-    });
+      // Transactions typed into the conversation are remembered alongside imported ones
+      if (args.transactions) {
+        setSessionValue(toolContext, 'transactions', mergeTransactions(stored, transactions).transactions);
+      }
 
-    // Find top category
-    const topCategory = Object.entries(categories).reduce((prev, current) =>
-      prev[1] > current[1] ? prev : current
-    );
+      // Validate we have transactions
+      if (transactions.length === 0) {
+        return {
+          status: 'error',
+          message: 'No transactions provided',
+        };
+      }
 
-    const analysis: TransactionAnalysis = {
-      totalSpent,
-      categories,
-      topCategory: { name: topCategory[0], amount: topCategory[1] },
-      timestamp: new Date().toISOString(),
-    };
+      const inRange = transactions.filter((tx) =>
+        (!start_date || tx.date >= start_date) && (!end_date || tx.date <= end_date)
+      );
+      if (inRange.length === 0) {
+        return {
+          status: 'error',
+          message: `No transactions between ${start_date ?? 'the first transaction'} and ${end_date ?? 'the last transaction'}`,
+        };
+      }
 
-    return {
-      status: 'success',
-      analysis,
-      summary: `Analyzed ${transactions.length} transactions totaling $${totalSpent.toFixed(2)}. 
-                Top spending category: ${topCategory[0]} at $${topCategory[1].toFixed(2)}.`,
-    };
+      // Calculate totals by category in the user's currency, using exact minor units
+      const currency = preferences.currency;
+      const categories: Record<string, Money> = {};
+      let totalSpent = zeroMoney(currency);
+
+      inRange.forEach((tx) => {
+        const amount = convertMoney(tx.amount, currency);
+        categories[tx.category] = addMoney(categories[tx.category] ?? zeroMoney(currency), amount);
+        totalSpent = addMoney(totalSpent, amount);
+      });
+
+      // Find top category
+      const topCategory = Object.entries(categories).reduce((prev, current) =>
+        compareMoney(prev[1], current[1]) > 0 ? prev : current
+      );
+
+      const analysis: TransactionAnalysis = {
+        currency,
+        totalSpent,
+        categories,
+        topCategory: { name: topCategory[0], amount: topCategory[1] },
+        startDate: start_date,
+        endDate: end_date,
+        timestamp: new Date().toISOString(),
+      };
+
+      // Persist the analysis so later turns can use it without re-analyzing
+      setSessionValue(toolContext, 'transactionAnalysis', analysis);
+
+      return {
+        status: 'success',
+        currency,
+        total_spent: toMajor(totalSpent),
+        categories: Object.fromEntries(Object.entries(categories).map(([name, amount]) => [name, toMajor(amount)])),
+        top_category: { name: topCategory[0], amount: toMajor(topCategory[1]) },
+        date_range: start_date || end_date ? { start: start_date ?? null, end: end_date ?? null } : null,
+        summary: `Analyzed ${inRange.length} transactions totaling ${formatMoney(totalSpent, preferences.locale)}. 
+                Top spending category: ${topCategory[0]} at ${formatMoney(topCategory[1], preferences.locale)}.`,
+      };
+    } catch (error) {
+      return moneyErrorResult(error);
+    }
   },
 });
 
@@ -110,38 +311,91 @@ const analyzeTransactionsTool = new FunctionTool({
  */
 const calculateBudgetStatusTool = new FunctionTool({
   name: 'calculate_budget_status',
-  description: 'Calculate how much of a budget has been used for a specific category. Compares actual spending against budget limit.',
+  description: 'Calculate how much of a budget has been used for a specific category in the current budget period (e.g. "how am I doing this month?"). Spending is totalled from the stored transactions in the period and any rolled-over amount is added to the limit. Only pass spent or budget_limit to override them.',
   parameters: z.object({
     category: z.string().describe('Spending category'),
-    spent: z.number().positive().describe('Amount already spent'),
-    budget_limit: z.number().positive().describe('Budget limit for this category'),
+    spent: z.number().positive().optional().describe('Amount already spent (defaults to the stored transactions in the current period)'),
+    budget_limit: z.number().positive().optional().describe('Budget limit for this category (defaults to the stored budget goal plus any rollover)'),
+    currency: z.string().optional().describe('ISO currency code of the amounts (defaults to the budget goal\'s currency)'),
+    as_of: z.string().optional().describe('A date inside the period to check (YYYY-MM-DD, defaults to today)'),
   }),
-  execute: ({ category, spent, budget_limit }) => {
-    const percentageUsed = (spent / budget_limit) * 100;
-    const remaining = budget_limit - spent;
-    const isOverBudget = spent > budget_limit;
-
-    let status: 'on_track' | 'warning' | 'over_budget';
-    if (isOverBudget) {
-      status = 'over_budget';
-    } else if (percentageUsed > 80) {
-      status = 'warning';
-    } else {
-      status = 'on_track';
+  execute: (args, toolContext) => {
+    const { category } = args;
+    const { transactions, budgetGoals, preferences } = getSessionState(toolContext);
+    if (args.as_of !== undefined && !isIsoDate(args.as_of)) {
+      return { status: 'error', message: `Invalid date "${args.as_of}". Use YYYY-MM-DD.` };
     }
+    const asOf = args.as_of ?? todayIso();
+    const storedGoal = findBudgetGoal(budgetGoals, category);
 
-    return {
-      status: 'success',
-      category,
-      spent: parseFloat(spent.toFixed(2)),
-      budget_limit: parseFloat(budget_limit.toFixed(2)),
-      percentage_used: parseFloat(percentageUsed.toFixed(1)),
-      remaining: parseFloat(remaining.toFixed(2)),
-      budget_status: status,
-      message: isOverBudget
-        ? `⚠️ Over budget by $${Math.abs(remaining).toFixed(2)}`
-        : `✓ ${percentageUsed.toFixed(0)}% of budget used`,
-    };
+    try {
+      // Record any periods that ended since the goal was last checked
+      const goal = storedGoal && closeBudgetPeriods(storedGoal, transactions, asOf);
+      if (goal && goal !== storedGoal) {
+        setSessionValue(toolContext, 'budgetGoals', upsertBudgetGoal(budgetGoals, goal));
+      }
+      const current = goal ? currentBudget(goal, transactions, asOf) : undefined;
+      const period = current?.period ?? createBudgetPeriod('monthly', asOf);
+      const range = current?.range ?? periodRange(period, asOf);
+      const currency = normalizeCurrency(args.currency ?? goal?.limit.currency ?? preferences.currency);
+
+      // Fall back to remembered data when the model leaves arguments out
+      let budget_limit: Money;
+      if (args.budget_limit !== undefined) {
+        budget_limit = money(args.budget_limit, currency);
+      } else if (current) {
+        budget_limit = convertMoney(current.available, currency);
+      } else {
+        return {
+          status: 'error',
+          message: `No budget goal is stored for ${category}. Ask the user for a limit or set one with set_budget_goal.`,
+        };
+      }
+
+      let spent: Money;
+      if (args.spent !== undefined) {
+        spent = money(args.spent, currency);
+      } else if (transactions.length > 0) {
+        spent = spentInRange(transactions, category, range, currency);
+      } else {
+        return {
+          status: 'error',
+          message: 'No transactions are stored yet. Import or analyze transactions first, or provide the spent amount.',
+        };
+      }
+
+      // Project the period's spending when it comes from stored transactions
+      const forecast = args.spent === undefined
+        ? forecastCategory(transactions, category, range, asOf, currency, activeRecurringPayments(transactions, asOf))
+        : undefined;
+
+      const percentageUsed = percentageOf(spent, budget_limit);
+      const remaining = subtractMoney(budget_limit, spent);
+      const isOverBudget = compareMoney(spent, budget_limit) > 0;
+      const status = budgetStatusFor(spent, budget_limit, forecast?.projected);
+      const projectedOver = forecast !== undefined && compareMoney(forecast.projected, budget_limit) > 0;
+
+      return {
+        status: 'success',
+        category,
+        currency,
+        spent: toMajor(spent),
+        budget_limit: toMajor(budget_limit),
+        percentage_used: parseFloat(percentageUsed.toFixed(1)),
+        remaining: toMajor(remaining),
+        carried_over: current ? toMajor(convertMoney(current.carriedIn, currency)) : 0,
+        period: { type: period.type, start: range.start, end: range.end },
+        projected: forecast ? toMajor(forecast.projected) : null,
+        budget_status: status,
+        message: isOverBudget
+          ? `⚠️ Over budget by ${formatMoney(absMoney(remaining), preferences.locale)}`
+          : projectedOver
+            ? `⚠️ ${percentageUsed.toFixed(0)}% of budget used, but on pace for ${formatMoney(forecast.projected, preferences.locale)} by ${range.end}`
+            : `✓ ${percentageUsed.toFixed(0)}% of budget used`,
+      };
+    } catch (error) {
+      return moneyErrorResult(error);
+    }
   },
 });
 
@@ -157,24 +411,60 @@ const calculateBudgetStatusTool = new FunctionTool({
  */
 const setBudgetGoalTool = new FunctionTool({
   name: 'set_budget_goal',
-  description: 'Set or update a budget goal for a spending category. This is remembered across conversation turns.',
+  description: 'Set or update a budget goal for a spending category, per week (Monday-Sunday), per calendar month or per custom number of days. Unspent money can roll over into the next period. This is remembered across conversation turns.',
   parameters: z.object({
     category: z.string().describe('Spending category'),
-    limit: z.number().positive().describe('Budget limit for this category'),
+    limit: z.number().positive().describe('Budget limit for this category, per period'),
+    currency: z.string().optional().describe('ISO currency code of the limit (defaults to the user\'s currency)'),
+    period: z.enum(['weekly', 'monthly', 'custom']).default('monthly').describe('Budget period'),
+    period_days: z.number().int().min(1).optional().describe('Length of a custom period in days'),
+    start_date: z.string().optional().describe('First day of the budget (YYYY-MM-DD, defaults to today); custom periods repeat from this date'),
+    rollover: z.boolean().default(false).describe('Carry unspent money into the next period'),
   }),
-  execute: ({ category, limit }) => {
-    // In a real implementation, this would update the session state
-    // For now, we return confirmation that would be stored
-    const budgetGoal: BudgetGoal = {
-      category,
-      limit,
-      setAt: new Date().toISOString(),
-    };
+  execute: ({ category, limit, currency, period, period_days, start_date, rollover }, toolContext) => {
+    const { budgetGoals: storedGoals, transactions, preferences } = getSessionState(toolContext);
+
+    if (start_date !== undefined && !isIsoDate(start_date)) {
+      return { status: 'error', message: `Invalid date "${start_date}". Use YYYY-MM-DD.` };
+    }
+    if (period === 'custom' && period_days === undefined) {
+      return { status: 'error', message: 'Custom budget periods need period_days.' };
+    }
+
+    let budgetGoal: BudgetGoal;
+    try {
+      budgetGoal = {
+        category,
+        limit: money(limit, currency ?? preferences.currency),
+        setAt: new Date().toISOString(),
+        period: createBudgetPeriod(period, start_date, period === 'custom' ? period_days : undefined),
+        rollover,
+      };
+      // Close the old goal's finished periods at the old limit before replacing it
+      const previous = findBudgetGoal(storedGoals, category);
+      budgetGoal = inheritBudgetHistory(previous && closeBudgetPeriods(previous, transactions), budgetGoal);
+    } catch (error) {
+      return moneyErrorResult(error);
+    }
+
+    // Replace any earlier goal for the same category and store the new list
+    const budgetGoals = upsertBudgetGoal(storedGoals, budgetGoal);
+    setSessionValue(toolContext, 'budgetGoals', budgetGoals);
 
     return {
       status: 'success',
-      budget_goal: budgetGoal,
-      message: `Budget goal set: $${limit.toFixed(2)} for ${category}. This will be remembered in our conversation.`,
+      budget_goal: {
+        category,
+        limit: toMajor(budgetGoal.limit),
+        currency: budgetGoal.limit.currency,
+        period,
+        period_days: budgetGoal.period?.lengthDays,
+        starts: budgetGoal.period?.anchor,
+        rollover,
+        set_at: budgetGoal.setAt,
+      },
+      total_goals: budgetGoals.length,
+      message: `Budget goal set: ${formatMoney(budgetGoal.limit, preferences.locale)} ${period === 'custom' ? `every ${period_days} days` : period} for ${category}${rollover ? ', with unspent money rolling over' : ''}. This will be remembered in our conversation.`,
     };
   },
 });
@@ -186,103 +476,1072 @@ const setBudgetGoalTool = new FunctionTool({
  * - Formatting complex data into readable output
  * - Combining multiple data sources
  * - Creating actionable insights
+ * - Storing a structured report that renders to Markdown, HTML, CSV or JSON
  * 
  * In multi-turn context: Can reference previous analyses without re-running them
  */
 const generateSpendingReportTool = new FunctionTool({
   name: 'generate_spending_report',
-  description: 'Generate a formatted spending report with insights and recommendations based on transaction analysis.',
+  description: 'Generate a formatted spending report with insights and recommendations based on transaction analysis. If the summary or budget status are omitted, they are built from the stored analysis and budget goals. The report is stored with an id so the user can download it as Markdown, HTML, CSV or JSON.',
   parameters: z.object({
-    analysis_summary: z.string().describe('Summary of transaction analysis'),
+    analysis_summary: z.string().optional().describe('Summary of transaction analysis (defaults to the stored analysis)'),
     budget_status: z.array(
       z.object({
         category: z.string(),
         status: z.enum(['on_track', 'warning', 'over_budget']),
         percentage: z.number(),
       })
-    ).describe('Budget status for each category'),
-    recommendations: z.array(z.string()).describe('List of savings recommendations'),
+    ).optional().describe('Budget status for each category (defaults to the stored budget goals)'),
+    recommendations: z.array(z.string()).default([]).describe('List of savings recommendations'),
   }),
-  execute: ({ analysis_summary, budget_status, recommendations }) => {
-    let report = `# Personal Finance Review Report\n\n`;
-    report += `## Summary\n${analysis_summary}\n\n`;
-
-    report += `## Budget Status\n`;
-    budget_status.forEach((item) => {
-      const icon = item.status === 'on_track' ? '✓' : item.status === 'warning' ? '⚠️' : '❌';
-      report += `- ${icon} ${item.category}: ${item.percentage}% of budget used\n`;
+  execute: (args, toolContext) => {
+    const { recommendations } = args;
+    const { transactionAnalysis, budgetGoals, preferences, recurringPayments, reports, savingsGoals } = getSessionState(toolContext);
+
+    const analysis_summary = args.analysis_summary
+      ?? (transactionAnalysis ? summarizeAnalysis(transactionAnalysis, preferences.locale) : undefined);
+    if (analysis_summary === undefined) {
+      return {
+        status: 'error',
+        message: 'No transaction analysis is stored yet. Analyze transactions first or provide an analysis summary.',
+      };
+    }
+
+    let budget_status = args.budget_status;
+    if (!budget_status) {
+      try {
+        budget_status = budgetGoals.map((goal) => {
+          const spent = transactionAnalysis
+            ? convertMoney(findCategoryTotal(transactionAnalysis, goal.category), goal.limit.currency)
+            : zeroMoney(goal.limit.currency);
+          return {
+            category: goal.category,
+            status: budgetStatusFor(spent, goal.limit),
+            percentage: parseFloat(percentageOf(spent, goal.limit).toFixed(1)),
+          };
+        });
+      } catch (error) {
+        return moneyErrorResult(error);
+      }
+    }
+
+    const report: SpendingReport = {
+      id: randomUUID(),
+      title: 'Personal Finance Review Report',
+      createdAt: new Date().toISOString(),
+      locale: preferences.locale,
+      summary: analysis_summary,
+      startDate: transactionAnalysis?.startDate,
+      endDate: transactionAnalysis?.endDate,
+      spending: transactionAnalysis
+        ? {
+          currency: transactionAnalysis.currency,
+          total: transactionAnalysis.totalSpent,
+          categories: Object.entries(transactionAnalysis.categories)
+            .sort(([, a], [, b]) => compareMoney(b, a))
+            .map(([name, amount]) => ({ name, amount })),
+        }
+        : null,
+      budgets: budget_status,
+      subscriptions: recurringPayments?.payments ?? [],
+      savings: savingsGoals.map((goal) => {
+        const progress = savingsProgress(goal, todayIso());
+        return {
+          name: goal.name,
+          saved: progress.saved,
+          target: goal.target,
+          percentage: progress.percentage,
+          deadline: goal.deadline,
+          monthlyNeeded: progress.monthlyNeeded,
+          status: progress.status,
+        };
+      }),
+      recommendations,
+    };
+
+    // Keep the report so it can be downloaded in other formats later
+    setSessionValue(toolContext, 'reports', [...reports, report].slice(-MAX_STORED_REPORTS));
+    const markdown = renderReport(report, 'markdown');
+
+    return {
+      status: 'success',
+      report: markdown,
+      report_length: markdown.length,
+      report_id: report.id,
+      download_formats: Object.keys(REPORT_FORMATS),
+    };
+  },
+});
+
+/**
+ * Tool 5: Import Statement
+ * 
+ * Demonstrates:
+ * - Sharing plain parsing logic between a tool and an HTTP route
+ * - Merging new data into session state without duplicates
+ * 
+ * In multi-turn context: Imported transactions are stored so that
+ * analyze_transactions can run on them without the model re-typing them
+ */
+const importStatementTool = new FunctionTool({
+  name: 'import_statement',
+  description: 'Import a bank statement export (CSV, OFX or QIF) into the session. Only outgoing payments are kept; transactions already imported are skipped. Run analyze_transactions afterwards without arguments to analyze them.',
+  parameters: z.object({
+    content: z.string().describe('Raw text content of the statement file'),
+    format: z.enum(STATEMENT_FORMATS).optional().describe('File format (detected from the filename or content if omitted)'),
+    filename: z.string().optional().describe('Original filename, used to detect the format'),
+    date_order: z.enum(DATE_ORDERS).optional().describe('Order of day, month and year in dates like 03/04/2024'),
+    currency: z.string().optional().describe('ISO currency code of the statement (OFX files declare their own; defaults to the user\'s currency)'),
+    spending_sign: z.enum(SPENDING_SIGNS).optional().describe('Sign used for money leaving the account in a single CSV amount column (default negative)'),
+    column_mapping: z.object({
+      date: z.string().describe('Header of the date column'),
+      description: z.string().describe('Header of the description column'),
+      amount: z.string().optional().describe('Header of a signed amount column'),
+      debit: z.string().optional().describe('Header of the debit (money out) column'),
+      credit: z.string().optional().describe('Header of the credit (money in) column'),
+    }).optional().describe('CSV column mapping (auto-detected from common header names if omitted)'),
+  }),
+  execute: ({ content, format, filename, date_order, currency, spending_sign, column_mapping }, toolContext) => {
+    const { transactions, categoryRules, preferences } = getSessionState(toolContext);
+
+    let result: ReturnType<typeof importStatement>;
+    try {
+      result = importStatement(transactions, content, {
+        format,
+        filename,
+        dateOrder: date_order,
+        currency: currency ?? preferences.currency,
+        spendingSign: spending_sign,
+        columnMapping: column_mapping,
+        rules: categoryRules,
+      });
+    } catch (error) {
+      return moneyErrorResult(error);
+    }
+
+    if (result.imported.length === 0 && result.duplicates === 0) {
+      return {
+        status: 'error',
+        format: result.format,
+        errors: result.errors,
+        message: 'No spending transactions could be imported from this statement.',
+      };
+    }
+
+    setSessionValue(toolContext, 'transactions', result.transactions);
+
+    return {
+      status: 'success',
+      format: result.format,
+      imported: result.imported.length,
+      duplicates: result.duplicates,
+      skipped: result.skipped,
+      total_transactions: result.transactions.length,
+      uncategorized: result.imported.filter((tx) => tx.category === UNCATEGORIZED).length,
+      errors: result.errors,
+      message: `Imported ${result.imported.length} new transactions (${result.duplicates} duplicates skipped). ${result.transactions.length} transactions are now stored.`,
+    };
+  },
+});
+
+/**
+ * Tool 6: Categorize Transactions
+ * 
+ * Demonstrates:
+ * - Deterministic rules before LLM judgement
+ * - Combining built-in and per-user data from session state
+ * 
+ * In multi-turn context: Only rows no rule matches are handed back to the model
+ */
+const categorizeTransactionsTool = new FunctionTool({
+  name: 'categorize_transactions',
+  description: 'Apply the categorization rules (built-in plus the user\'s own) to the stored transactions. Returns the rows no rule matched so you can categorize them or teach a new rule with learn_category_rule.',
+  parameters: z.object({
+    recategorize_all: z.boolean().default(false).describe('Re-apply rules to every stored transaction, not only uncategorized ones'),
+  }),
+  execute: ({ recategorize_all }, toolContext) => {
+    const stored = getSessionValue(toolContext, 'transactions');
+    if (stored.length === 0) {
+      return {
+        status: 'error',
+        message: 'No transactions are stored yet. Import a statement or analyze transactions first.',
+      };
+    }
+
+    const result = categorizeAll(stored, getSessionValue(toolContext, 'categoryRules'), {
+      recategorizeAll: recategorize_all,
     });
+    setSessionValue(toolContext, 'transactions', result.transactions);
+
+    return {
+      status: 'success',
+      categorized: result.categorized,
+      unknown_count: result.unknown.length,
+      unknown: result.unknown.map(({ index, transaction }) => ({
+        index,
+        date: transaction.date,
+        description: transaction.description,
+        amount: transaction.amount,
+      })),
+      message: `Categorized ${result.categorized} transactions; ${result.unknown.length} did not match any rule.`,
+    };
+  },
+});
+
+/**
+ * Tool 7: Learn Category Rule
+ * 
+ * Demonstrates:
+ * - Validating user-provided patterns before storing them
+ * - User-scoped state ("user:" prefix) shared across sessions
+ * 
+ * In multi-turn context: Rules learned once apply to every later import
+ */
+const learnCategoryRuleTool = new FunctionTool({
+  name: 'learn_category_rule',
+  description: 'Teach a categorization rule, e.g. "anything from PickMe Food is dining". Rules are stored for the user and applied to future imports. Uncategorized stored transactions are re-categorized immediately.',
+  parameters: z.object({
+    category: z.string().describe('Category to assign'),
+    subcategory: z.string().optional().describe('Optional subcategory to assign'),
+    pattern: z.string().describe('Text to match: a keyword, an exact value or a regular expression'),
+    match_type: z.enum(['keyword', 'exact', 'regex']).default('keyword').describe('How the pattern is matched'),
+    field: z.enum(['description', 'merchant']).default('description').describe('Match the raw description or the normalized merchant name'),
+    priority: z.number().int().min(0).max(100).default(DEFAULT_RULE_PRIORITY).describe('Higher priority rules win when several match (built-in rules use 10-20)'),
+  }),
+  execute: (args, toolContext) => {
+    const category = normalizeCategory(args.category);
+    const subcategory = args.subcategory ? normalizeCategory(args.subcategory) : undefined;
+    const { categories, categoryRules, transactions } = getSessionState(toolContext);
+
+    if (!isKnownCategory(categories, category, subcategory)) {
+      return {
+        status: 'error',
+        message: `Unknown category "${subcategory ? `${category}/${subcategory}` : category}". Create it with create_category first.`,
+        available_categories: availableCategories(categories),
+      };
+    }
+
+    const error = validateRule({ matchType: args.match_type, pattern: args.pattern });
+    if (error) {
+      return { status: 'error', message: error };
+    }
+
+    const rule: CategoryRule = {
+      id: `rule-${Date.now().toString(36)}-${categoryRules.length + 1}`,
+      category,
+      subcategory,
+      matchType: args.match_type,
+      field: args.field,
+      pattern: args.pattern,
+      priority: args.priority,
+      createdAt: new Date().toISOString(),
+    };
+    const rules = [...categoryRules, rule];
+    setSessionValue(toolContext, 'categoryRules', rules);
+
+    const result = categorizeAll(transactions, rules);
+    if (result.categorized > 0) {
+      setSessionValue(toolContext, 'transactions', result.transactions);
+    }
+
+    return {
+      status: 'success',
+      rule,
+      newly_categorized: result.categorized,
+      still_uncategorized: result.unknown.length,
+      message: `Learned rule: ${args.match_type} "${args.pattern}" → ${subcategory ? `${category}/${subcategory}` : category}. ${result.categorized} stored transactions were categorized with it.`,
+    };
+  },
+});
 
-    report += `\n## Recommendations\n`;
-    recommendations.forEach((rec, i) => {
-      report += `${i + 1}. ${rec}\n`;
+/**
+ * Tool 8: Create Category
+ * 
+ * Demonstrates:
+ * - Extending a fixed vocabulary with user-defined values
+ * 
+ * In multi-turn context: Custom categories are remembered for the user
+ */
+const createCategoryTool = new FunctionTool({
+  name: 'create_category',
+  description: 'Create a custom spending category, or a subcategory of an existing category (e.g. "coffee" under "dining").',
+  parameters: z.object({
+    name: z.string().min(1).describe('Name of the new category or subcategory'),
+    parent: z.string().optional().describe('Parent category when creating a subcategory'),
+  }),
+  execute: (args, toolContext) => {
+    const name = normalizeCategory(args.name);
+    const parent = args.parent ? normalizeCategory(args.parent) : undefined;
+    const categories = getSessionValue(toolContext, 'categories');
+
+    if (name === UNCATEGORIZED) {
+      return { status: 'error', message: `"${UNCATEGORIZED}" is reserved.` };
+    }
+    if (parent && !availableCategories(categories).includes(parent)) {
+      return {
+        status: 'error',
+        message: `Parent category "${parent}" does not exist.`,
+        available_categories: availableCategories(categories),
+      };
+    }
+    if (parent ? isKnownCategory(categories, parent, name) : availableCategories(categories).includes(name)) {
+      return { status: 'success', message: `Category "${parent ? `${parent}/${name}` : name}" already exists.` };
+    }
+
+    const category: CategoryDefinition = { name, parent, createdAt: new Date().toISOString() };
+    setSessionValue(toolContext, 'categories', [...categories, category]);
+
+    return {
+      status: 'success',
+      category,
+      message: `Created ${parent ? `subcategory "${name}" under "${parent}"` : `category "${name}"`}.`,
+    };
+  },
+});
+
+/**
+ * Tool 9: Set Preferences
+ * 
+ * Demonstrates:
+ * - Validating preferences before storing them
+ * - User-scoped state shared by every session of the user
+ * 
+ * In multi-turn context: Analysis and reports use the stored currency and locale
+ */
+const setPreferencesTool = new FunctionTool({
+  name: 'set_preferences',
+  description: 'Set the user\'s reporting currency (e.g. LKR, USD, EUR), the locale used to format amounts (e.g. en-LK, en-US, de-DE) and their monthly income. Re-run analyze_transactions afterwards to report in the new currency.',
+  parameters: z.object({
+    currency: z.string().optional().describe('ISO 4217 currency code for analysis and reports'),
+    locale: z.string().optional().describe('BCP 47 locale for formatting amounts'),
+    monthly_income: z.number().min(0).optional().describe('Take-home income per month, in the reporting currency (used to plan savings goals)'),
+  }),
+  execute: (args, toolContext) => {
+    const current = getSessionValue(toolContext, 'preferences');
+    const preferences = { ...current };
+
+    try {
+      if (args.currency) {
+        preferences.currency = normalizeCurrency(args.currency);
+        // Fail early if analysis in this currency would be impossible
+        convertMoney(zeroMoney(current.currency), preferences.currency);
+      }
+    } catch (error) {
+      return moneyErrorResult(error);
+    }
+
+    if (args.locale) {
+      try {
+        preferences.locale = new Intl.NumberFormat(args.locale).resolvedOptions().locale;
+      } catch {
+        return { status: 'error', message: `Invalid locale "${args.locale}"` };
+      }
+    }
+
+    if (args.monthly_income !== undefined) {
+      preferences.monthlyIncome = money(args.monthly_income, preferences.currency);
+    }
+
+    setSessionValue(toolContext, 'preferences', preferences);
+
+    return {
+      status: 'success',
+      preferences,
+      example: formatMoney(money(1234.5, preferences.currency), preferences.locale),
+      message: `Amounts will be reported in ${preferences.currency} and formatted for ${preferences.locale}.`,
+    };
+  },
+});
+
+/**
+ * Tool 10: Detect Recurring Payments
+ * 
+ * Demonstrates:
+ * - Deterministic pattern detection over stored transactions
+ * - Storing derived results for other tools to reuse
+ * 
+ * In multi-turn context: Detected subscriptions are stored and appear in
+ * the spending report without detecting them again
+ */
+const detectRecurringPaymentsTool = new FunctionTool({
+  name: 'detect_recurring_payments',
+  description: 'Find recurring payments and subscriptions in the stored transactions: groups charges by merchant and similar amount, infers the cadence (weekly, monthly, annual), predicts the next charge and flags price increases and subscriptions that seem to have lapsed.',
+  parameters: z.object({
+    amount_tolerance: z.number().min(0).max(1).default(DEFAULT_AMOUNT_TOLERANCE).describe('Relative change allowed between consecutive charges of the same payment (0.2 = 20%)'),
+    as_of: z.string().optional().describe('Date (YYYY-MM-DD) to judge lapsed payments against (defaults to the latest transaction date)'),
+  }),
+  execute: ({ amount_tolerance, as_of }, toolContext) => {
+    const { transactions, preferences } = getSessionState(toolContext);
+    if (transactions.length === 0) {
+      return {
+        status: 'error',
+        message: 'No transactions are stored yet. Import a statement or analyze transactions first.',
+      };
+    }
+
+    if (as_of !== undefined && !isIsoDate(as_of)) {
+      return { status: 'error', message: `Invalid date "${as_of}". Use YYYY-MM-DD.` };
+    }
+
+    const result = detectRecurringPayments(transactions, { amountTolerance: amount_tolerance, asOf: as_of });
+    setSessionValue(toolContext, 'recurringPayments', result);
+
+    let monthlyTotal: Money;
+    try {
+      monthlyTotal = sumMoney(
+        result.payments
+          .filter((payment) => !payment.lapsed)
+          .map((payment) => convertMoney(monthlyEquivalent(payment), preferences.currency)),
+        preferences.currency
+      );
+    } catch (error) {
+      return moneyErrorResult(error);
+    }
+
+    const active = result.payments.filter((payment) => !payment.lapsed);
+    const increases = result.payments.filter((payment) => payment.priceIncrease);
+
+    return {
+      status: 'success',
+      as_of: result.asOf,
+      recurring_payments: result.payments.map((payment) => ({
+        merchant: payment.merchant,
+        category: payment.category,
+        cadence: payment.cadence,
+        amount: toMajor(payment.amount),
+        currency: payment.amount.currency,
+        occurrences: payment.occurrences,
+        last_charged: payment.lastDate,
+        next_expected: payment.nextExpectedDate,
+        price_increase: payment.priceIncrease
+          ? { from: toMajor(payment.priceIncrease.from), to: toMajor(payment.priceIncrease.to), percentage: payment.priceIncrease.percentage }
+          : null,
+        lapsed: payment.lapsed,
+      })),
+      active_count: active.length,
+      lapsed_count: result.payments.length - active.length,
+      price_increase_count: increases.length,
+      monthly_total: toMajor(monthlyTotal),
+      currency: preferences.currency,
+      message: `Found ${result.payments.length} recurring payments (${active.length} active) costing about ${formatMoney(monthlyTotal, preferences.locale)} a month. ${increases.length} had a price increase.`,
+    };
+  },
+});
+
+/**
+ * Tool 11: Forecast Spending
+ * 
+ * Demonstrates:
+ * - Projecting stored history forward instead of only describing it
+ * - Reusing other tools' logic (budget periods, recurring payments)
+ * 
+ * In multi-turn context: Forecasts use the stored transactions and budget
+ * goals, so "will I stay within budget?" needs no numbers from the user
+ */
+const forecastSpendingTool = new FunctionTool({
+  name: 'forecast_spending',
+  description: 'Project spending per category to the end of the current budget period (the goal\'s period, or the calendar month) from the daily run-rate plus known recurring charges, with a low-high confidence range. Flags categories projected to go over their budget goal.',
+  parameters: z.object({
+    category: z.string().optional().describe('Category to forecast (defaults to every category with a budget goal or recent spending)'),
+    as_of: z.string().optional().describe('Date to forecast from (YYYY-MM-DD, defaults to today)'),
+  }),
+  execute: (args, toolContext) => {
+    const { transactions, budgetGoals, preferences } = getSessionState(toolContext);
+    if (transactions.length === 0) {
+      return {
+        status: 'error',
+        message: 'No transactions are stored yet. Import a statement or analyze transactions first.',
+      };
+    }
+    if (args.as_of !== undefined && !isIsoDate(args.as_of)) {
+      return { status: 'error', message: `Invalid date "${args.as_of}". Use YYYY-MM-DD.` };
+    }
+    const asOf = args.as_of ?? todayIso();
+
+    const recentStart = addDays(asOf, -(FORECAST_LOOKBACK_DAYS - 1));
+    const categories = args.category
+      ? [normalizeCategory(args.category)]
+      : [...new Set([
+        ...budgetGoals.map((goal) => normalizeCategory(goal.category)),
+        ...transactions.filter((tx) => tx.date >= recentStart && tx.date <= asOf).map((tx) => normalizeCategory(tx.category)),
+      ])];
+    const recurring = activeRecurringPayments(transactions, asOf);
+
+    try {
+      const forecasts = categories.map((category) => {
+        const goal = findBudgetGoal(budgetGoals, category);
+        const budget = goal ? currentBudget(goal, transactions, asOf) : undefined;
+        const currency = budget?.limit.currency ?? preferences.currency;
+        const range = budget?.range ?? periodRange(createBudgetPeriod('monthly', asOf), asOf);
+        const forecast = forecastCategory(transactions, category, range, asOf, currency, recurring);
+        const overBudget = budget !== undefined && compareMoney(forecast.projected, budget.available) > 0;
+        return { forecast, budget, overBudget };
+      });
+
+      const flagged = forecasts.flatMap(({ forecast, budget, overBudget }) => (overBudget && budget ? [{ forecast, budget }] : []));
+      return {
+        status: 'success',
+        as_of: asOf,
+        forecasts: forecasts
+          .sort((a, b) => b.forecast.projected.amountMinor - a.forecast.projected.amountMinor)
+          .map(({ forecast, budget, overBudget }) => ({
+            category: forecast.category,
+            currency: forecast.projected.currency,
+            period: forecast.range,
+            spent_so_far: toMajor(forecast.spentSoFar),
+            daily_rate: toMajor(forecast.dailyRate),
+            recurring_due: toMajor(forecast.recurringDue),
+            projected: toMajor(forecast.projected),
+            range: { low: toMajor(forecast.low), high: toMajor(forecast.high) },
+            confidence: forecast.confidence,
+            history_days: forecast.historyDays,
+            budget_limit: budget ? toMajor(budget.available) : null,
+            projected_over_budget: overBudget,
+          })),
+        over_budget_categories: flagged.map(({ forecast }) => forecast.category),
+        message: flagged.length > 0
+          ? `⚠️ Projected to go over budget: ${flagged.map(({ forecast, budget }) => `${forecast.category} (${formatMoney(forecast.projected, preferences.locale)} of ${formatMoney(budget.available, preferences.locale)})`).join(', ')}`
+          : `✓ No category is projected to go over its budget.`,
+      };
+    } catch (error) {
+      return moneyErrorResult(error);
+    }
+  },
+});
+
+/**
+ * Tool 12: Flag Anomalies
+ * 
+ * Demonstrates:
+ * - Robust statistics (median / MAD) next to simple rules
+ * - Explaining every result, not just scoring it
+ * 
+ * In multi-turn context: Flags are stored, so "tell me more about that
+ * second charge" can be answered in a later turn
+ */
+const flagAnomaliesTool = new FunctionTool({
+  name: 'flag_anomalies',
+  description: 'Flag unusual transactions by comparing each one with the history before it: amounts far above the usual for the merchant or category (robust modified z-score), duplicate charges, large first-time merchants, purchases between midnight and 5am, and future dates. Every flag has reasons. Use stored_only to list the flags found earlier.',
+  parameters: z.object({
+    since: z.string().optional().describe('Only check transactions on or after this date (YYYY-MM-DD); earlier ones are still used as history'),
+    new_merchant_threshold: z.number().min(0).default(100).describe('Flag first charges from a new merchant at or above this amount, in the user\'s currency'),
+    stored_only: z.boolean().default(false).describe('Return the flags stored from earlier checks without checking again'),
+  }),
+  execute: ({ since, new_merchant_threshold, stored_only }, toolContext) => {
+    const { transactions, anomalies: stored, preferences } = getSessionState(toolContext);
+    const describe = (flag: AnomalyFlag) => ({
+      id: flag.id,
+      date: flag.transaction.date,
+      time: flag.transaction.time ?? null,
+      description: flag.transaction.description,
+      category: flag.transaction.category,
+      amount: toMajor(flag.transaction.amount),
+      currency: flag.transaction.amount.currency,
+      rules: flag.rules,
+      reasons: flag.reasons,
+      score: flag.score,
     });
 
-    report += `\n---\n*Report generated by Personal Finance Review Agent*\n`;
+    if (stored_only) {
+      return {
+        status: 'success',
+        anomalies: stored.map(describe),
+        count: stored.length,
+        message: stored.length > 0
+          ? `${stored.length} transactions were flagged earlier.`
+          : 'No transactions have been flagged yet.',
+      };
+    }
 
+    if (transactions.length === 0) {
+      return {
+        status: 'error',
+        message: 'No transactions are stored yet. Import a statement or analyze transactions first.',
+      };
+    }
+    if (since !== undefined && !isIsoDate(since)) {
+      return { status: 'error', message: `Invalid date "${since}". Use YYYY-MM-DD.` };
+    }
+
+    let flags: AnomalyFlag[];
+    try {
+      flags = detectAnomalies(transactions, {
+        currency: preferences.currency,
+        newMerchantThreshold: money(new_merchant_threshold, preferences.currency),
+        since,
+        locale: preferences.locale,
+      });
+    } catch (error) {
+      return moneyErrorResult(error);
+    }
+    setSessionValue(toolContext, 'anomalies', mergeAnomalies(stored, flags));
+
+    const checked = since ? transactions.filter((tx) => tx.date >= since).length : transactions.length;
     return {
       status: 'success',
-      report,
-      report_length: report.length,
+      anomalies: flags.map(describe),
+      count: flags.length,
+      checked,
+      message: flags.length > 0
+        ? `⚠️ ${flags.length} of ${checked} transactions look unusual.`
+        : `✓ Nothing unusual in ${checked} transactions.`,
     };
   },
 });
 
 /**
- * Main Personal Finance Agent
+ * Tool 13: Create Savings Goal
+ * 
+ * Demonstrates:
+ * - Storing structured goals with their own history (the contribution log)
+ * - Updating a goal without losing what was already saved
+ * 
+ * In multi-turn context: Goals are stored, so later turns only name the goal
+ */
+const createSavingsGoalTool = new FunctionTool({
+  name: 'create_savings_goal',
+  description: 'Create a savings goal with a target amount, an optional deadline and a priority, or update the goal with the same name (its contributions are kept).',
+  parameters: z.object({
+    name: z.string().min(1).describe('Name of the goal, e.g. "Vacation fund"'),
+    target: z.number().positive().describe('Amount to save'),
+    currency: z.string().optional().describe('ISO currency code of the target (defaults to the user\'s currency)'),
+    deadline: z.string().optional().describe('Date to reach the target by (YYYY-MM-DD)'),
+    priority: z.enum(['high', 'medium', 'low']).default('medium').describe('Higher priority goals get the surplus first'),
+    already_saved: z.number().positive().optional().describe('Amount already put aside for this goal, recorded as a first contribution'),
+  }),
+  execute: (args, toolContext) => {
+    const { savingsGoals, preferences } = getSessionState(toolContext);
+    const today = todayIso();
+    if (args.deadline !== undefined && !isIsoDate(args.deadline)) {
+      return { status: 'error', message: `Invalid date "${args.deadline}". Use YYYY-MM-DD.` };
+    }
+    if (args.deadline !== undefined && args.deadline <= today) {
+      return { status: 'error', message: `The deadline ${args.deadline} must be after today (${today}).` };
+    }
+
+    const existing = findSavingsGoal(savingsGoals, args.name);
+    let goal: SavingsGoal;
+    try {
+      const target = money(args.target, args.currency ?? existing?.target.currency ?? preferences.currency);
+      const contributions = (existing?.contributions ?? []).map((contribution) => ({
+        ...contribution,
+        amount: convertMoney(contribution.amount, target.currency),
+      }));
+      if (args.already_saved) {
+        contributions.push({ date: today, amount: money(args.already_saved, target.currency), note: 'Already saved' });
+      }
+      goal = {
+        name: existing?.name ?? args.name.trim(),
+        target,
+        deadline: args.deadline ?? existing?.deadline,
+        priority: args.priority,
+        contributions,
+        createdAt: existing?.createdAt ?? new Date().toISOString(),
+      };
+    } catch (error) {
+      return moneyErrorResult(error);
+    }
+
+    setSessionValue(toolContext, 'savingsGoals', upsertSavingsGoal(savingsGoals, goal));
+    const progress = savingsProgress(goal, today);
+
+    return {
+      status: 'success',
+      goal: describeSavingsGoal({ ...progress, allocated: null, funded: null }),
+      message: `${existing ? 'Updated' : 'Created'} savings goal "${goal.name}": ${formatMoney(goal.target, preferences.locale)}` +
+        (goal.deadline && progress.monthlyNeeded ? ` by ${goal.deadline}, about ${formatMoney(progress.monthlyNeeded, preferences.locale)} a month.` : '.'),
+    };
+  },
+});
+
+/**
+ * Tool 14: Contribute to Savings Goal
+ * 
+ * Demonstrates:
+ * - Appending to a log in state instead of overwriting a running total
+ * 
+ * In multi-turn context: "I put another 50 in the vacation fund" only needs
+ * the goal's name
+ */
+const contributeToSavingsGoalTool = new FunctionTool({
+  name: 'contribute_to_savings_goal',
+  description: 'Record money put into a savings goal, or taken out of it with a negative amount.',
+  parameters: z.object({
+    name: z.string().describe('Name of the savings goal'),
+    amount: z.number().describe('Amount saved; negative for a withdrawal'),
+    currency: z.string().optional().describe('ISO currency code of the amount (defaults to the goal\'s currency)'),
+    date: z.string().optional().describe('Date of the contribution (YYYY-MM-DD, defaults to today)'),
+    note: z.string().optional().describe('Optional note'),
+  }),
+  execute: (args, toolContext) => {
+    const { savingsGoals, preferences } = getSessionState(toolContext);
+    const goal = findSavingsGoal(savingsGoals, args.name);
+    if (!goal) {
+      return {
+        status: 'error',
+        message: `No savings goal named "${args.name}". Goals: ${savingsGoals.map((stored) => stored.name).join(', ') || 'none yet'}.`,
+      };
+    }
+    if (args.amount === 0) {
+      return { status: 'error', message: 'The amount must not be zero.' };
+    }
+    if (args.date !== undefined && !isIsoDate(args.date)) {
+      return { status: 'error', message: `Invalid date "${args.date}". Use YYYY-MM-DD.` };
+    }
+
+    let updated: SavingsGoal;
+    try {
+      const amount = convertMoney(money(args.amount, args.currency ?? goal.target.currency), goal.target.currency);
+      const saved = savedSoFar(goal);
+      if (amount.amountMinor < 0 && saved.amountMinor + amount.amountMinor < 0) {
+        return {
+          status: 'error',
+          message: `Cannot withdraw ${formatMoney(absMoney(amount), preferences.locale)}; only ${formatMoney(saved, preferences.locale)} is saved in "${goal.name}".`,
+        };
+      }
+      const contribution = { date: args.date ?? todayIso(), amount, ...(args.note ? { note: args.note } : {}) };
+      updated = {
+        ...goal,
+        contributions: [...goal.contributions, contribution].sort((a, b) => a.date.localeCompare(b.date)),
+      };
+    } catch (error) {
+      return moneyErrorResult(error);
+    }
+
+    setSessionValue(toolContext, 'savingsGoals', upsertSavingsGoal(savingsGoals, updated));
+    const progress = savingsProgress(updated, todayIso());
+
+    return {
+      status: 'success',
+      goal: describeSavingsGoal({ ...progress, allocated: null, funded: null }),
+      message: progress.status === 'achieved'
+        ? `🎉 "${updated.name}" reached its target of ${formatMoney(updated.target, preferences.locale)}!`
+        : `"${updated.name}" is ${progress.percentage}% complete, ${formatMoney(progress.remaining, preferences.locale)} to go.`,
+    };
+  },
+});
+
+/**
+ * Tool 15: Review Savings Goals
+ * 
+ * Demonstrates:
+ * - Combining goals with the stored spending analysis
+ * - Planning across several goals instead of judging each alone
  * 
- * This agent is designed for multi-turn conversations where:
- * 1. User provides transaction data
- * 2. Agent analyzes and stores results
- * 3. User can ask follow-up questions referencing previous analysis
- * 4. Agent maintains context and avoids re-analyzing same data
- * 5. User can set/update budgets that persist across turns
+ * In multi-turn context: Uses the stored goals, income and analysis, so
+ * "can I afford all my goals?" needs no numbers from the user
  */
-export const personalFinanceAgent = new LlmAgent({
-  name: 'personal_finance_advisor',
-  model: 'gemini-2.5-flash',
-  description: 'A personal finance advisor that analyzes spending and provides insights across multiple conversation turns.',
-  instruction: `You are a helpful personal finance advisor. Your role is to help users understand and manage their spending.
+const reviewSavingsGoalsTool = new FunctionTool({
+  name: 'review_savings_goals',
+  description: 'Review savings goals: progress, the amount needed per month to reach each deadline, and whether the monthly surplus (income minus average monthly spending from the stored analysis) covers it. Goals are funded from the surplus by priority, then nearest deadline.',
+  parameters: z.object({
+    name: z.string().optional().describe('Only review this goal (the plan still covers every goal)'),
+    as_of: z.string().optional().describe('Date to review on (YYYY-MM-DD, defaults to today)'),
+    monthly_surplus: z.number().optional().describe('Amount left for saving each month, in the user\'s currency (defaults to monthly income minus analyzed spending)'),
+  }),
+  execute: (args, toolContext) => {
+    const { savingsGoals, transactionAnalysis, transactions, preferences } = getSessionState(toolContext);
+    if (savingsGoals.length === 0) {
+      return { status: 'error', message: 'No savings goals yet. Create one with create_savings_goal.' };
+    }
+    if (args.as_of !== undefined && !isIsoDate(args.as_of)) {
+      return { status: 'error', message: `Invalid date "${args.as_of}". Use YYYY-MM-DD.` };
+    }
+    const wanted = args.name !== undefined ? findSavingsGoal(savingsGoals, args.name) : undefined;
+    if (args.name !== undefined && !wanted) {
+      return { status: 'error', message: `No savings goal named "${args.name}".` };
+    }
+    const asOf = args.as_of ?? todayIso();
+    const { locale } = preferences;
+
+    try {
+      const computed = args.monthly_surplus === undefined
+        ? monthlySurplus(transactionAnalysis, transactions, preferences)
+        : null;
+      const surplus = args.monthly_surplus !== undefined
+        ? money(args.monthly_surplus, preferences.currency)
+        : computed?.surplus ?? null;
+      const plan = planSavings(savingsGoals, surplus, asOf);
+      const lines = wanted ? plan.goals.filter((line) => line.goal === wanted) : plan.goals;
+
+      let message: string;
+      if (!plan.surplus) {
+        message = 'Set the monthly income with set_preferences and analyze transactions to check the goals against the surplus.';
+      } else if (plan.shortfall && plan.shortfall.amountMinor > 0) {
+        message = `⚠️ The monthly surplus of ${formatMoney(plan.surplus, locale)} is ${formatMoney(plan.shortfall, locale)} short of what the goals need.`;
+      } else {
+        message = `✓ The monthly surplus of ${formatMoney(plan.surplus, locale)} covers every goal with a deadline` +
+          (plan.unallocated ? `, leaving ${formatMoney(plan.unallocated, locale)} a month.` : '.');
+      }
+
+      return {
+        status: 'success',
+        as_of: asOf,
+        currency: preferences.currency,
+        goals: lines.map(describeSavingsGoal),
+        surplus: plan.surplus
+          ? {
+            monthly_surplus: toMajor(plan.surplus),
+            monthly_income: computed ? toMajor(computed.income) : null,
+            monthly_spending: computed ? toMajor(computed.spending) : null,
+            source: computed ? 'income_minus_spending' : 'provided',
+            unallocated: plan.unallocated ? toMajor(plan.unallocated) : null,
+            shortfall: plan.shortfall ? toMajor(plan.shortfall) : null,
+          }
+          : null,
+        message,
+      };
+    } catch (error) {
+      return moneyErrorResult(error);
+    }
+  },
+});
+
+/**
+ * Tool 16: Search Memory
+ *
+ * Demonstrates:
+ * - Reading the runner's memory service through the tool context
+ * - Knowledge that outlives a session (see user-memory.ts)
+ *
+ * In multi-turn context: Budgets, categories, preferences and notes from
+ * earlier conversations can be looked up in a brand-new session
+ */
+const searchMemoryTool = new FunctionTool({
+  name: 'search_memory',
+  description: 'Search what is remembered about the user from earlier conversations: budget goals, custom categories, preferences and notes.',
+  parameters: z.object({
+    query: z.string().describe('What to look for, e.g. "dining budget" or "payday"'),
+  }),
+  execute: async (args, toolContext) => {
+    if (!toolContext) {
+      return { status: 'error', message: 'Memory is only available during a conversation.' };
+    }
+    try {
+      const { memories } = await toolContext.searchMemory(args.query);
+      return {
+        status: 'success',
+        query: args.query,
+        memories: memories.map((memory) => ({
+          text: memory.content.parts?.map((part) => part.text ?? '').join('') ?? '',
+          saved_at: memory.timestamp ?? null,
+        })),
+        message: memories.length > 0
+          ? `Found ${memories.length} remembered item(s).`
+          : 'Nothing remembered matches that.',
+      };
+    } catch (error) {
+      return { status: 'error', message: `Memory search failed: ${error instanceof Error ? error.message : String(error)}` };
+    }
+  },
+});
+
+/**
+ * Tool 17: Remember Note
+ *
+ * Demonstrates:
+ * - Free-form facts next to the structured state
+ *
+ * In multi-turn context: Notes are shown to the whole team on every turn and
+ * carried into the user's future sessions
+ */
+const rememberNoteTool = new FunctionTool({
+  name: 'remember_note',
+  description: 'Remember a lasting fact the user wants kept for future conversations, e.g. "paid on the 25th" or "rent is due on the 1st".',
+  parameters: z.object({
+    note: z.string().min(1).max(300).describe('The fact to remember, in a short sentence'),
+  }),
+  execute: (args, toolContext) => {
+    const note = args.note.trim();
+    const notes = getSessionValue(toolContext, 'userNotes');
+    if (notes.some((existing) => existing.trim().toLowerCase() === note.toLowerCase())) {
+      return { status: 'success', note, total_notes: notes.length, message: 'Already remembered.' };
+    }
+    setSessionValue(toolContext, 'userNotes', [...notes, note]);
+    return { status: 'success', note, total_notes: notes.length + 1, message: `Remembered: ${note}` };
+  },
+});
+
+/**
+ * Shared by every agent of the team through the coordinator's global instruction
+ */
+const sharedInstruction = `You are part of a personal finance advisory team that helps users understand and manage their spending.
 
 Key behaviors for multi-turn conversations:
-1. When analyzing transactions for the first time, store the results and refer back to them in future turns
-2. Remember budget goals the user sets - don't ask them to re-enter them
-3. When asked follow-up questions, reference your previous analysis instead of asking for data again
+1. Analyses, budgets, savings goals and reports are stored in the session, which the whole team shares - refer back to them in later turns
+2. Remember budget goals the user sets - don't ask them to re-enter them. Budgets, categories, preferences and notes from the user's earlier conversations are loaded into new sessions automatically
+3. When asked follow-up questions, reference previous analysis instead of asking for data again
 4. Build on previous insights - "Earlier we found your top spending was X, now let's look at Y"
-5. Avoid repetition - if you already analyzed something, reference that analysis
+5. Avoid repetition - if something was already analyzed, reference that analysis
+
+Card numbers, IBANs, account numbers and email addresses are replaced with placeholders such as [CARD_1] before you see them. Pass placeholders to tools exactly as written, refer to them by name in replies, and never ask the user for the real values.
+
+Always maintain context and make the conversation feel natural and continuous.`;
+
+const coordinatorInstruction = `You are the coordinator of the team. Route each request to the specialist best suited to it:
+- transaction_analyst: new spending data, bank statements, categories, subscriptions, suspicious charges, and questions about past spending
+- budget_coach: budget goals, budget status, spending forecasts, savings goals and whether the user can afford them
+- report_writer: spending reports and downloads
+
+Handle these yourself:
+- set_preferences: Use this when the user states their currency, locale or monthly income (amounts are exact and carry a currency; the user's currency is used by default)
+- remember_note: Use this when the user asks you to remember a lasting fact, e.g. when they get paid
+- search_memory: Use this when the user refers to something from an earlier conversation that is not in this session
+- Greetings and questions about what the team can do
+
+Transfer without adding text of your own; the specialist answers the user.`;
+
+const analystInstruction = `You are the transaction analyst. You turn raw spending data into stored, categorized transactions and explain what they show.
 
 Available tools:
-- analyze_transactions: Use this when you first receive spending data
-- calculate_budget_status: Use this to check if spending is within budget
-- set_budget_goal: Use this when user wants to set or update a budget
-- generate_spending_report: Use this to create a formatted report
-
-Example multi-turn flow:
-Turn 1: User provides transactions → Analyze and store results
-Turn 2: User asks about a category → Reference stored analysis, no re-analysis needed
-Turn 3: User sets a budget → Store it and use in future calculations
-Turn 4: User asks how they're doing → Use stored data and budgets
-
-Always maintain context and make the conversation feel natural and continuous.`,
-  tools: [
-    analyzeTransactionsTool,
-    calculateBudgetStatusTool,
-    setBudgetGoalTool,
-    generateSpendingReportTool,
-  ],
-});
+- analyze_transactions: Use this when you first receive spending data (the analysis is stored in the session); pass start_date/end_date to analyze a date range
+- import_statement: Use this when the user pastes a bank export (CSV, OFX or QIF); then call analyze_transactions without arguments
+- categorize_transactions: Use this to apply categorization rules to stored transactions; only categorize the returned unknown rows yourself
+- learn_category_rule: Use this when the user says how a merchant or description should be categorized
+- create_category: Use this when the user wants their own category or subcategory
+- detect_recurring_payments: Use this when the user asks about subscriptions or regular bills (the results are stored and included in the spending report)
+- flag_anomalies: Use this after new transactions arrive or when the user asks about suspicious charges; explain each flag with its reasons, and use stored_only to refer back to earlier flags
+- When passing transactions to analyze_transactions, omit the category unless the user stated it - the rule engine fills it in
+
+Answer follow-up questions about spending from the stored analysis instead of analyzing again.`;
+
+const budgetCoachInstruction = `You are the budget coach. You help the user set limits, stay within them and save towards their goals.
+
+Available tools:
+- set_budget_goal: Use this when user wants to set or update a budget (weekly, monthly or custom periods, optionally rolling over unspent money; goals are stored in the session)
+- calculate_budget_status: Use this to check if spending is within budget for the current period (omit spent/budget_limit to use the stored transactions and goals)
+- forecast_spending: Use this when the user asks where their spending is heading or whether they will stay within budget; mention the range and confidence, not only the projection
+- create_savings_goal / contribute_to_savings_goal: Use these when the user wants to save towards something or puts money aside (goals and their contributions are stored)
+- review_savings_goals: Use this when the user asks how their savings are going or whether they can afford their goals; it compares what each deadline needs per month with the surplus left after spending
+
+Be encouraging but honest: say clearly when a budget is at risk and what would bring it back on track.`;
+
+const reportWriterInstruction = `You are the report writer. You turn the team's stored analysis, budgets, subscriptions and savings goals into a clear report.
+
+Available tools:
+- generate_spending_report: Use this to create a formatted report (omit the summary and budget status to build them from stored data); the report is stored and the user can download it as Markdown, HTML, CSV or JSON from /reports/<report_id>
+
+Keep recommendations specific and actionable, based on the stored data.`;
+
+/**
+ * Callbacks every agent runs. Requests are redacted before older turns are
+ * summarized, so the stored summary only ever holds placeholders.
+ */
+function contextCallbacks() {
+  const guardrail = createPiiGuardrail();
+  return {
+    ...guardrail,
+    beforeModelCallback: [guardrail.beforeModelCallback, createConversationCompactor()],
+  };
+}
+
+/**
+ * Specialists answer the turn they are given; the next turn starts at the
+ * coordinator again. They may still hand over to each other mid-turn.
+ */
+const SPECIALIST_TRANSFER = { disallowTransferToParent: true, disallowTransferToPeers: false };
+
+export function createTransactionAnalystAgent(model: string | BaseLlm = agentModelFromEnv()) {
+  return new LlmAgent({
+    name: 'transaction_analyst',
+    model,
+    description: 'Analyzes, imports and categorizes transactions; finds subscriptions and unusual charges; answers questions about past spending.',
+    instruction: analystInstruction,
+    tools: [
+      analyzeTransactionsTool,
+      importStatementTool,
+      categorizeTransactionsTool,
+      learnCategoryRuleTool,
+      createCategoryTool,
+      detectRecurringPaymentsTool,
+      flagAnomaliesTool,
+    ],
+    ...SPECIALIST_TRANSFER,
+    ...contextCallbacks(),
+  });
+}
+
+export function createBudgetCoachAgent(model: string | BaseLlm = agentModelFromEnv()) {
+  return new LlmAgent({
+    name: 'budget_coach',
+    model,
+    description: 'Sets and checks budgets, forecasts spending against them, and plans savings goals.',
+    instruction: budgetCoachInstruction,
+    tools: [
+      setBudgetGoalTool,
+      calculateBudgetStatusTool,
+      forecastSpendingTool,
+      createSavingsGoalTool,
+      contributeToSavingsGoalTool,
+      reviewSavingsGoalsTool,
+    ],
+    ...SPECIALIST_TRANSFER,
+    ...contextCallbacks(),
+  });
+}
+
+export function createReportWriterAgent(model: string | BaseLlm = agentModelFromEnv()) {
+  return new LlmAgent({
+    name: 'report_writer',
+    model,
+    description: 'Writes spending reports from the stored analysis, budgets and goals.',
+    instruction: reportWriterInstruction,
+    tools: [generateSpendingReportTool],
+    ...SPECIALIST_TRANSFER,
+    ...contextCallbacks(),
+  });
+}
+
+/**
+ * Main Personal Finance Agent
+ *
+ * A coordinator that routes every turn to a specialist sub-agent:
+ * 1. transaction_analyst - data in: analysis, imports, categories, subscriptions, anomalies
+ * 2. budget_coach - budgets, forecasts and savings goals
+ * 3. report_writer - spending reports
+ *
+ * All of them read and write the same session state, so the budget coach
+ * checks budgets against the transactions the analyst stored. Each specialist
+ * can be built and tested on its own with its factory above.
+ */
+export function createPersonalFinanceAgent(model: string | BaseLlm = agentModelFromEnv()) {
+  return new LlmAgent({
+    name: 'personal_finance_advisor',
+    model,
+    description: 'A personal finance advisor that analyzes spending and provides insights across multiple conversation turns.',
+    // Applies to the whole team; the user's notes and budget alerts raised since the last turn are added to it
+    globalInstruction: (context) => sharedInstruction +
+      memoryContext(getSessionValue(context, 'userNotes')) +
+      alertContext(getSessionValue(context, 'pendingAlerts')),
+    instruction: coordinatorInstruction,
+    tools: [setPreferencesTool, rememberNoteTool, searchMemoryTool],
+    subAgents: [
+      createTransactionAnalystAgent(model),
+      createBudgetCoachAgent(model),
+      createReportWriterAgent(model),
+    ],
+    ...contextCallbacks(),
+  });
+}
+
+export const personalFinanceAgent = createPersonalFinanceAgent();
 
 /**
  * Alternative: Simple Single-Turn Agent
  * For beginners who want to understand the basics first
  */
-export const simpleFinanceAgent = new LlmAgent({
-  name: 'simple_finance_agent',
-  model: 'gemini-2.5-flash',
-  description: 'A simple finance agent for analyzing a single transaction set.',
-  instruction: 'You are a helpful finance assistant. Analyze the transactions provided and give a brief summary.',
-  tools: [analyzeTransactionsTool, calculateBudgetStatusTool],
-});
+export function createSimpleFinanceAgent(model: string | BaseLlm = agentModelFromEnv()) {
+  return new LlmAgent({
+    name: 'simple_finance_agent',
+    model,
+    description: 'A simple finance agent for analyzing a single transaction set.',
+    instruction: 'You are a helpful finance assistant. Analyze the transactions provided and give a brief summary.',
+    tools: [analyzeTransactionsTool, calculateBudgetStatusTool],
+    ...contextCallbacks(),
+  });
+}
+
+export const simpleFinanceAgent = createSimpleFinanceAgent();
 
 // Default export for ADK devtools
 // ADK devtools expects a rootAgent export
@@ -0,0 +1,57 @@
+/**
+ * Budget Alert Inbox Routes
+ *
+ * Alerts raised by the budget monitor (see budget-alerts.ts) are kept per user:
+ *
+ *   GET  /alerts?unread=true      The caller's alerts, newest first (paginated)
+ *   POST /alerts/read             Mark alerts read: { "ids": [...] }, or all without ids
+ *
+ * Behind authentication, `userId` may be omitted; naming another user is a 403.
+ */
+
+import { Hono } from 'hono';
+import { apiError, isPlainObject, paginate, readPageParams } from './api-response';
+import { AuthEnv, requireUserId } from './auth';
+import { AlertInbox } from './budget-alerts';
+
+export function createAlertRoutes(inbox: AlertInbox) {
+  const routes = new Hono<AuthEnv>();
+
+  routes.get('/', (c) => {
+    const page = readPageParams(c);
+    if (!page) {
+      return apiError(c, 400, 'invalid_pagination', '"limit" must be a positive integer and "offset" a non-negative integer');
+    }
+    const userId = requireUserId(c, c.req.query('userId'));
+    if (userId instanceof Response) {
+      return userId;
+    }
+
+    const unreadOnly = c.req.query('unread') === 'true';
+    const alerts = inbox.list(userId, { unreadOnly });
+    return c.json({
+      ...paginate(alerts, page.limit, page.offset),
+      unread: unreadOnly ? alerts.length : alerts.filter((alert) => alert.readAt === null).length,
+    });
+  });
+
+  routes.post('/read', async (c) => {
+    // No body at all marks everything read
+    const body = await c.req.json().catch(() => ({}));
+    if (!isPlainObject(body)) {
+      return apiError(c, 400, 'invalid_request', 'Body must be a JSON object');
+    }
+    const { ids } = body;
+    if (ids !== undefined && (!Array.isArray(ids) || !ids.every((id): id is string => typeof id === 'string'))) {
+      return apiError(c, 400, 'invalid_request', '"ids" must be an array of alert ids');
+    }
+    const userId = requireUserId(c, body.userId);
+    if (userId instanceof Response) {
+      return userId;
+    }
+
+    return c.json({ marked: inbox.markRead(userId, ids) });
+  });
+
+  return routes;
+}
@@ -0,0 +1,204 @@
+/**
+ * Anomaly Detection for Unusual Transactions
+ *
+ * Each transaction is compared with the user's history before it:
+ * - Merchant outliers: far above what this merchant usually charges
+ * - Category outliers: far above the usual transaction in its category
+ * - Duplicate charges: same merchant and amount within a day
+ * - First-time merchants charging more than a threshold
+ * - Odd hours (midnight to 5am, when the time is known) and future dates
+ *
+ * Outliers use the modified z-score, 0.6745 * (x - median) / MAD. The median
+ * and the median absolute deviation (MAD) are not dragged around by the very
+ * outliers we are looking for, unlike the mean and standard deviation.
+ *
+ * Key Learning: Every flag carries human-readable reasons, so the model can
+ * explain a charge instead of just calling it "suspicious".
+ */
+
+import { Money, convertMoney, formatMoney, DEFAULT_LOCALE } from './money';
+import { daysBetween, todayIso } from './dates';
+import { merchantOf } from './recurring-payments';
+import { Transaction, normalizeCategory } from './session-state';
+import { occurrenceKeys } from './statement-import';
+
+export type AnomalyRule =
+  | 'merchant_outlier'
+  | 'category_outlier'
+  | 'duplicate_charge'
+  | 'new_merchant'
+  | 'odd_hour'
+  | 'future_date';
+
+export interface AnomalyFlag {
+  /** Stable id of the flagged transaction, so re-running replaces earlier flags */
+  id: string;
+  transaction: Transaction;
+  rules: AnomalyRule[];
+  reasons: string[];
+  /** Highest modified z-score behind an outlier rule, if any */
+  score: number | null;
+  flaggedAt: string;
+}
+
+export interface AnomalyOptions {
+  /** Currency history is compared in, and the threshold's currency */
+  currency: string;
+  /** Charges at or above this from a merchant never seen before are flagged */
+  newMerchantThreshold: Money;
+  /** Only check transactions dated on or after this (all are used as history) */
+  since?: string;
+  today?: string;
+  locale?: string;
+}
+
+/** Modified z-score above which an amount is an outlier (Iglewicz and Hoaglin) */
+export const OUTLIER_THRESHOLD = 3.5;
+
+/** Earlier charges needed before a merchant or category has a usual amount */
+const MIN_MERCHANT_HISTORY = 3;
+const MIN_CATEGORY_HISTORY = 5;
+
+/** Hours (0-23) considered odd for a purchase */
+const ODD_HOURS_END = 5;
+
+/** Most flags kept in session state */
+export const MAX_STORED_ANOMALIES = 100;
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+}
+
+/**
+ * Modified z-score of `value` against `history`. Falls back to the mean
+ * absolute deviation when more than half the history is identical (MAD = 0),
+ * and returns Infinity for any increase over a perfectly constant history.
+ */
+export function robustZScore(value: number, history: number[]): number {
+  const center = median(history);
+  const mad = median(history.map((x) => Math.abs(x - center)));
+  if (mad > 0) {
+    return (0.6745 * (value - center)) / mad;
+  }
+  const meanDeviation = history.reduce((sum, x) => sum + Math.abs(x - center), 0) / history.length;
+  if (meanDeviation > 0) {
+    return (value - center) / (1.2533 * meanDeviation);
+  }
+  return value > center ? Infinity : 0;
+}
+
+function outlierReason(
+  value: Money,
+  history: number[],
+  label: string,
+  locale: string
+): { score: number; reason: string } | null {
+  const score = robustZScore(value.amountMinor, history);
+  if (score <= OUTLIER_THRESHOLD) {
+    return null;
+  }
+  const usual = formatMoney({ amountMinor: Math.round(median(history)), currency: value.currency }, locale);
+  const times = (value.amountMinor / Math.max(median(history), 1)).toFixed(1);
+  return { score, reason: `${formatMoney(value, locale)} is ${times}x the usual ${usual} ${label}` };
+}
+
+/**
+ * Flag unusual transactions. Each one is judged against the transactions
+ * before it, in date order.
+ */
+export function detectAnomalies(transactions: Transaction[], options: AnomalyOptions): AnomalyFlag[] {
+  const locale = options.locale ?? DEFAULT_LOCALE;
+  const today = options.today ?? todayIso();
+  const flaggedAt = new Date().toISOString();
+
+  const keys = occurrenceKeys(transactions);
+  const sorted = transactions
+    .map((transaction, i) => ({ transaction, id: keys[i] }))
+    .sort((a, b) => a.transaction.date.localeCompare(b.transaction.date));
+  const converted = sorted.map(({ transaction }) => convertMoney(transaction.amount, options.currency));
+  const threshold = convertMoney(options.newMerchantThreshold, options.currency);
+
+  const flags: AnomalyFlag[] = [];
+  sorted.forEach(({ transaction: tx, id }, index) => {
+    if (options.since && tx.date < options.since) {
+      return;
+    }
+
+    const merchant = merchantOf(tx.description);
+    const category = normalizeCategory(tx.category);
+    const earlier = sorted.slice(0, index).map(({ transaction }, i) => ({ transaction, amount: converted[i] }));
+    const sameMerchant = earlier.filter(({ transaction }) =>
+      merchantOf(transaction.description) === merchant && transaction.amount.currency === tx.amount.currency
+    );
+    const sameCategory = earlier.filter(({ transaction }) => normalizeCategory(transaction.category) === category);
+
+    const rules: AnomalyRule[] = [];
+    const reasons: string[] = [];
+    let score: number | null = null;
+
+    if (sameMerchant.length >= MIN_MERCHANT_HISTORY) {
+      const outlier = outlierReason(tx.amount, sameMerchant.map(({ transaction }) => transaction.amount.amountMinor), `at ${tx.description}`, locale);
+      if (outlier) {
+        rules.push('merchant_outlier');
+        reasons.push(outlier.reason);
+        score = outlier.score;
+      }
+    }
+
+    if (sameCategory.length >= MIN_CATEGORY_HISTORY) {
+      const outlier = outlierReason(converted[index], sameCategory.map(({ amount }) => amount.amountMinor), `for ${category}`, locale);
+      if (outlier) {
+        rules.push('category_outlier');
+        reasons.push(outlier.reason);
+        score = Math.max(score ?? 0, outlier.score);
+      }
+    }
+
+    const duplicate = sameMerchant.find(({ transaction }) =>
+      transaction.amount.amountMinor === tx.amount.amountMinor && Math.abs(daysBetween(transaction.date, tx.date)) <= 1
+    );
+    if (duplicate) {
+      rules.push('duplicate_charge');
+      reasons.push(`Same amount as the ${duplicate.transaction.description} charge on ${duplicate.transaction.date} - possibly charged twice`);
+    }
+
+    if (earlier.length > 0 && sameMerchant.length === 0 && converted[index].amountMinor >= threshold.amountMinor) {
+      rules.push('new_merchant');
+      reasons.push(`First charge from ${tx.description}, at or above the ${formatMoney(threshold, locale)} threshold for new merchants`);
+    }
+
+    if (tx.time && Number(tx.time.slice(0, 2)) < ODD_HOURS_END) {
+      rules.push('odd_hour');
+      reasons.push(`Charged at ${tx.time}, between midnight and ${ODD_HOURS_END}am`);
+    }
+
+    if (tx.date > today) {
+      rules.push('future_date');
+      reasons.push(`Dated ${tx.date}, which is in the future`);
+    }
+
+    if (rules.length > 0) {
+      flags.push({
+        id,
+        transaction: tx,
+        rules,
+        reasons,
+        // Infinity (any rise over a constant history) would not survive JSON
+        score: score !== null && Number.isFinite(score) ? parseFloat(score.toFixed(1)) : null,
+        flaggedAt,
+      });
+    }
+  });
+
+  return flags;
+}
+
+/**
+ * Replace stored flags for the same transactions and keep the newest ones
+ */
+export function mergeAnomalies(stored: AnomalyFlag[], flags: AnomalyFlag[]): AnomalyFlag[] {
+  const ids = new Set(flags.map((flag) => flag.id));
+  return [...stored.filter((flag) => !ids.has(flag.id)), ...flags].slice(-MAX_STORED_ANOMALIES);
+}
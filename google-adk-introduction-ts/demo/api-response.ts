@@ -0,0 +1,91 @@
+/**
+ * Shared JSON Response Helpers for the Hono Server
+ *
+ * Every route reports errors with the same body:
+ *   { "error": { "code": "session_not_found", "message": "..." } }
+ *
+ * and list routes return the same pagination envelope:
+ *   { "items": [...], "pagination": { "total", "limit", "offset", "nextOffset" } }
+ */
+
+import type { Context } from 'hono';
+import type { ContentfulStatusCode } from 'hono/utils/http-status';
+
+/**
+ * Whether a parsed JSON body is an object, as every route's body must be
+ */
+export function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+export interface ApiErrorBody {
+  error: {
+    code: string;
+    message: string;
+    details?: unknown;
+  };
+}
+
+export interface Pagination {
+  total: number;
+  limit: number;
+  offset: number;
+  /** Offset of the next page, or null on the last page */
+  nextOffset: number | null;
+}
+
+export interface Page<T> {
+  items: T[];
+  pagination: Pagination;
+}
+
+export const DEFAULT_PAGE_SIZE = 20;
+
+export const MAX_PAGE_SIZE = 100;
+
+/**
+ * Send a JSON error response with the shared error body
+ */
+export function apiError(
+  c: Context,
+  status: ContentfulStatusCode,
+  code: string,
+  message: string,
+  details?: unknown
+) {
+  const body: ApiErrorBody = { error: { code, message, ...(details !== undefined ? { details } : {}) } };
+  return c.json(body, status);
+}
+
+/**
+ * Read `limit` and `offset` query parameters, clamped to sane values.
+ * Returns null when either is not a non-negative integer.
+ */
+export function readPageParams(c: Context): { limit: number; offset: number } | null {
+  const rawLimit = c.req.query('limit');
+  const rawOffset = c.req.query('offset');
+  const limit = rawLimit === undefined ? DEFAULT_PAGE_SIZE : Number(rawLimit);
+  const offset = rawOffset === undefined ? 0 : Number(rawOffset);
+
+  if (!Number.isInteger(limit) || !Number.isInteger(offset) || limit < 1 || offset < 0) {
+    return null;
+  }
+  return { limit: Math.min(limit, MAX_PAGE_SIZE), offset };
+}
+
+/**
+ * Slice one page out of a full list
+ */
+export function paginate<T>(all: T[], limit: number, offset: number): Page<T> {
+  const items = all.slice(offset, offset + limit);
+  const next = offset + items.length;
+  return {
+    items,
+    pagination: {
+      total: all.length,
+      limit,
+      offset,
+      nextOffset: next < all.length ? next : null,
+    },
+  };
+}
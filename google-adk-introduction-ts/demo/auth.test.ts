@@ -0,0 +1,69 @@
+import { describe, expect, test } from 'bun:test';
+import { Hono } from 'hono';
+import { sign } from 'hono/jwt';
+import { AuthEnv, AuthError, authMiddleware, jwtProvider } from './auth';
+
+const SECRET = 'test-secret';
+const ISSUER = 'https://auth.example.com';
+const AUDIENCE = 'finance-api';
+
+const provider = jwtProvider({ secret: SECRET, issuer: ISSUER, audience: AUDIENCE });
+
+function now(): number {
+  return Math.floor(Date.now() / 1000);
+}
+
+async function token(claims: Record<string, unknown> = {}, secret = SECRET): Promise<string> {
+  return sign({ sub: 'ana', iss: ISSUER, aud: AUDIENCE, exp: now() + 60, ...claims }, secret, 'HS256');
+}
+
+function bearer(value: string): Headers {
+  return new Headers({ Authorization: `Bearer ${value}` });
+}
+
+describe('jwtProvider', () => {
+  test('accepts a valid HS256 token and takes the user id from "sub"', async () => {
+    expect(await provider.authenticate(bearer(await token()))).toEqual({ userId: 'ana', provider: 'jwt' });
+  });
+
+  test('ignores requests without a bearer JWT', async () => {
+    expect(await provider.authenticate(new Headers())).toBeNull();
+    expect(await provider.authenticate(bearer('plain-api-key'))).toBeNull();
+  });
+
+  test('rejects an expired token without echoing it back', async () => {
+    const expired = await token({ exp: now() - 60 });
+    const attempt = provider.authenticate(bearer(expired));
+
+    await expect(attempt).rejects.toThrow(new AuthError('Invalid token: token expired'));
+  });
+
+  test('rejects a token for another issuer or audience, or with a bad signature', async () => {
+    await expect(provider.authenticate(bearer(await token({ iss: 'https://evil.example.com' }))))
+      .rejects.toThrow('Invalid token: JwtTokenIssuer');
+    await expect(provider.authenticate(bearer(await token({ aud: 'another-api' }))))
+      .rejects.toThrow('Invalid token: JwtTokenAudience');
+    await expect(provider.authenticate(bearer(await token({}, 'wrong-secret'))))
+      .rejects.toThrow('Invalid token: JwtTokenSignatureMismatched');
+  });
+
+  test('rejects a token with no "sub" claim', async () => {
+    await expect(provider.authenticate(bearer(await token({ sub: undefined }))))
+      .rejects.toThrow('Token has no "sub" claim');
+    await expect(provider.authenticate(bearer(await token({ sub: '' }))))
+      .rejects.toThrow('Token has no "sub" claim');
+  });
+
+  test('answers an invalid token with 401 invalid_credentials', async () => {
+    const app = new Hono<AuthEnv>();
+    app.use('*', authMiddleware([provider]));
+    app.get('/', (c) => c.json(c.get('identity')));
+
+    const accepted = await app.request('/', { headers: bearer(await token()) });
+    expect(await accepted.json()).toEqual({ userId: 'ana', provider: 'jwt' });
+
+    const rejected = await app.request('/', { headers: bearer(await token({ exp: now() - 60 })) });
+    expect(rejected.status).toBe(401);
+    expect(await rejected.json()).toMatchObject({ error: { code: 'invalid_credentials', message: 'Invalid token: token expired' } });
+  });
+});
@@ -0,0 +1,235 @@
+/**
+ * Authentication for the Hono Server
+ *
+ * The caller's user id comes from their credential, never from the request body:
+ * - Static API keys: `X-API-Key: <key>` (or `Authorization: Bearer <key>`)
+ * - HS256 JWTs: `Authorization: Bearer <jwt>`, user id taken from the `sub` claim
+ *
+ * Providers are tried in order; the first one that recognises the credential wins.
+ * Sessions are always looked up under the authenticated user, so one user can
+ * never reach another user's conversation.
+ *
+ * Key Learning: ADK sessions are keyed by (appName, userId, sessionId) - isolating
+ * users is a matter of making sure `userId` is trustworthy.
+ */
+
+import type { Context } from 'hono';
+import { createMiddleware } from 'hono/factory';
+import { verify } from 'hono/jwt';
+import { JwtTokenExpired } from 'hono/utils/jwt/types';
+import { createHash, timingSafeEqual } from 'crypto';
+import { apiError } from './api-response';
+
+export interface AuthIdentity {
+  userId: string;
+  /** Name of the provider that accepted the credential */
+  provider: string;
+}
+
+/**
+ * Hono environment for routes behind the auth middleware.
+ * `identity` is unset when authentication is disabled for local development.
+ */
+export type AuthEnv = {
+  Variables: {
+    identity?: AuthIdentity;
+  };
+};
+
+/**
+ * A credential was presented but is not valid (bad signature, expired, unknown key)
+ */
+export class AuthError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AuthError';
+  }
+}
+
+export interface AuthProvider {
+  name: string;
+  /**
+   * Resolve the caller from the request headers.
+   * Returns null when the request carries no credential for this provider,
+   * and throws AuthError when it carries one that is invalid.
+   */
+  authenticate(headers: Headers): Promise<AuthIdentity | null>;
+}
+
+export interface AuthConfig {
+  /** Only for local development: trust the userId sent by the client */
+  disabled: boolean;
+  /** API key -> user id */
+  apiKeys: Map<string, string>;
+  jwt?: {
+    secret: string;
+    issuer?: string;
+    audience?: string;
+  };
+}
+
+function bearerToken(headers: Headers): string | null {
+  const match = headers.get('Authorization')?.match(/^Bearer\s+(\S+)$/i);
+  return match ? match[1] : null;
+}
+
+function looksLikeJwt(token: string): boolean {
+  return token.split('.').length === 3;
+}
+
+function sha256(value: string): Buffer {
+  return createHash('sha256').update(value).digest();
+}
+
+/**
+ * Static API keys, each bound to one user.
+ * Keys are compared by hash in constant time.
+ */
+export function apiKeyProvider(keys: Map<string, string>): AuthProvider {
+  const hashed = [...keys].map(([key, userId]) => ({ hash: sha256(key), userId }));
+
+  return {
+    name: 'api-key',
+    async authenticate(headers) {
+      const bearer = bearerToken(headers);
+      const key = headers.get('X-API-Key') ?? (bearer && !looksLikeJwt(bearer) ? bearer : null);
+      if (!key) {
+        return null;
+      }
+
+      const hash = sha256(key);
+      const entry = hashed.find((candidate) => timingSafeEqual(candidate.hash, hash));
+      if (!entry) {
+        throw new AuthError('Unknown API key');
+      }
+      return { userId: entry.userId, provider: 'api-key' };
+    },
+  };
+}
+
+/**
+ * HS256-signed JWTs; the `sub` claim is the user id.
+ * `exp` and `nbf` are always checked; `iss` and `aud` when configured.
+ */
+export function jwtProvider(options: NonNullable<AuthConfig['jwt']>): AuthProvider {
+  return {
+    name: 'jwt',
+    async authenticate(headers) {
+      const token = bearerToken(headers);
+      if (!token || !looksLikeJwt(token)) {
+        return null;
+      }
+
+      let payload: Awaited<ReturnType<typeof verify>>;
+      try {
+        payload = await verify(token, options.secret, {
+          alg: 'HS256',
+          iss: options.issuer,
+          aud: options.audience,
+        });
+      } catch (error) {
+        // Hono's messages echo the token back, so report only the failure kind
+        const reason = error instanceof JwtTokenExpired ? 'token expired' : (error as Error).name;
+        throw new AuthError(`Invalid token: ${reason}`);
+      }
+
+      if (typeof payload.sub !== 'string' || !payload.sub) {
+        throw new AuthError('Token has no "sub" claim');
+      }
+      return { userId: payload.sub, provider: 'jwt' };
+    },
+  };
+}
+
+/**
+ * Read authentication settings from the environment:
+ *   AUTH_API_KEYS="user-123:key-abc,user-456:key-def"
+ *   AUTH_JWT_SECRET, AUTH_JWT_ISSUER, AUTH_JWT_AUDIENCE
+ *   AUTH_DISABLED=true (local development only)
+ */
+export function authConfigFromEnv(env: NodeJS.ProcessEnv = process.env): AuthConfig {
+  const apiKeys = new Map<string, string>();
+  for (const entry of (env.AUTH_API_KEYS ?? '').split(',')) {
+    const separator = entry.indexOf(':');
+    const userId = entry.slice(0, separator).trim();
+    const key = entry.slice(separator + 1).trim();
+    if (separator > 0 && userId && key) {
+      apiKeys.set(key, userId);
+    }
+  }
+
+  return {
+    disabled: env.AUTH_DISABLED === 'true',
+    apiKeys,
+    jwt: env.AUTH_JWT_SECRET
+      ? { secret: env.AUTH_JWT_SECRET, issuer: env.AUTH_JWT_ISSUER, audience: env.AUTH_JWT_AUDIENCE }
+      : undefined,
+  };
+}
+
+export function createAuthProviders(config: AuthConfig): AuthProvider[] {
+  const providers: AuthProvider[] = [];
+  if (config.apiKeys.size > 0) {
+    providers.push(apiKeyProvider(config.apiKeys));
+  }
+  if (config.jwt) {
+    providers.push(jwtProvider(config.jwt));
+  }
+  return providers;
+}
+
+/**
+ * Require a valid credential on every route except `publicPaths`.
+ * With no providers (AUTH_DISABLED=true) requests pass through unauthenticated.
+ */
+export function authMiddleware(providers: AuthProvider[], publicPaths: string[] = []) {
+  return createMiddleware<AuthEnv>(async (c, next) => {
+    if (providers.length === 0 || publicPaths.includes(c.req.path)) {
+      return next();
+    }
+
+    for (const provider of providers) {
+      let identity: AuthIdentity | null;
+      try {
+        identity = await provider.authenticate(c.req.raw.headers);
+      } catch (error) {
+        if (error instanceof AuthError) {
+          return apiError(c, 401, 'invalid_credentials', error.message);
+        }
+        throw error;
+      }
+      if (identity) {
+        c.set('identity', identity);
+        return next();
+      }
+    }
+
+    c.header('WWW-Authenticate', 'Bearer');
+    return apiError(c, 401, 'unauthenticated', 'Send an API key in "X-API-Key" or a token in "Authorization: Bearer"');
+  });
+}
+
+/**
+ * The user id a route should act as.
+ *
+ * With authentication, that is always the authenticated user; naming any other
+ * user is rejected with 403. Without it, the client-supplied id (or `fallback`) is used.
+ * Returns an error response when there is no usable user id.
+ */
+export function requireUserId(c: Context<AuthEnv>, requested: unknown, fallback?: string): string | Response {
+  const identity = c.get('identity');
+  if (identity) {
+    if (requested !== undefined && requested !== null && requested !== identity.userId) {
+      return apiError(c, 403, 'forbidden', 'You can only access your own sessions');
+    }
+    return identity.userId;
+  }
+
+  if (typeof requested === 'string' && requested) {
+    return requested;
+  }
+  if (fallback) {
+    return fallback;
+  }
+  return apiError(c, 400, 'invalid_request', 'The "userId" parameter is required');
+}
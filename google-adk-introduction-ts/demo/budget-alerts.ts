@@ -0,0 +1,403 @@
+/**
+ * Budget Threshold Alerts
+ *
+ * Whenever a session's transactions or budget goals change, every goal is
+ * checked against its current period. A budget crossing into `warning`
+ * (over 80% used) or `over_budget` raises an alert, which is:
+ * - Kept in the user's alert inbox (GET /alerts)
+ * - POSTed to every configured webhook, signed with HMAC-SHA256 and retried
+ *   with exponential backoff
+ * - Queued in the session, so the agent mentions it on the next turn
+ *
+ * Alerts are deduplicated (one per goal, period and status) and rate limited
+ * by a cool-down per goal; a budget getting worse always alerts.
+ *
+ * Configured through environment variables:
+ *   ALERT_WEBHOOK_URLS=https://example.com/hooks/budget,https://...
+ *   ALERT_WEBHOOK_SECRET=...            (required with webhooks; signs payloads)
+ *   ALERT_WEBHOOK_MAX_ATTEMPTS=4
+ *   ALERT_WEBHOOK_RETRY_BASE_MS=1000    (doubles after each failed attempt)
+ *   ALERT_COOLDOWN_MINUTES=60
+ *
+ * Webhook receivers verify `X-Alert-Signature: sha256=<hex>`, the HMAC of
+ * `<X-Alert-Timestamp>.<raw body>`, e.g. with `verifyWebhookSignature`.
+ *
+ * Key Learning: Proactive agents need a way to speak first - alerts are
+ * produced outside a turn and handed to the agent as context when the user
+ * comes back.
+ */
+
+import { Database } from 'bun:sqlite';
+import { createHmac, randomUUID, timingSafeEqual } from 'crypto';
+import { mkdirSync } from 'fs';
+import { dirname } from 'path';
+import { BudgetStatus, DateRange, budgetStatusFor, currentBudget } from './budget-periods';
+import { todayIso } from './dates';
+import { createLogger } from './logger';
+import { DEFAULT_LOCALE, Money, formatMoney, percentageOf } from './money';
+import { BudgetGoal, Transaction, stateDelta } from './session-state';
+
+export type AlertStatus = Exclude<BudgetStatus, 'on_track'>;
+
+export interface BudgetAlert {
+  id: string;
+  userId: string;
+  sessionId: string;
+  category: string;
+  status: AlertStatus;
+  percentage: number;
+  spent: Money;
+  /** Limit plus any rolled-over amount */
+  available: Money;
+  period: DateRange;
+  message: string;
+  createdAt: string;
+  /** When the user marked it read in the inbox */
+  readAt: string | null;
+}
+
+export interface AlertConfig {
+  webhookUrls: string[];
+  webhookSecret: string;
+  maxAttempts: number;
+  retryBaseMs: number;
+  cooldownMinutes: number;
+}
+
+/**
+ * Where alerts are kept; the server picks the backend matching its session store
+ */
+export interface AlertInbox {
+  add(alert: BudgetAlert): void;
+  /** Newest first */
+  list(userId: string, options?: { unreadOnly?: boolean }): BudgetAlert[];
+  /** Alerts raised for one goal of one session, newest first */
+  forGoal(userId: string, sessionId: string, category: string): BudgetAlert[];
+  /** Mark alerts read (all of the user's when `ids` is omitted); returns how many changed */
+  markRead(userId: string, ids?: string[], at?: string): number;
+  /** Drop alerts created before `before` (ISO timestamp) */
+  prune(before: string): number;
+  close(): void;
+}
+
+const SEVERITY: Record<AlertStatus, number> = { warning: 1, over_budget: 2 };
+
+const logger = createLogger('budget-alerts');
+
+/**
+ * Does a state delta change anything budgets are computed from?
+ */
+export function touchesBudgets(delta: Record<string, unknown>): boolean {
+  return Object.keys(stateDelta({ transactions: [], budgetGoals: [] })).some((key) => key in delta);
+}
+
+/**
+ * Keeps alerts in process memory; they are lost on restart
+ */
+export class InMemoryAlertInbox implements AlertInbox {
+  private readonly alerts: BudgetAlert[] = [];
+
+  add(alert: BudgetAlert): void {
+    this.alerts.push(alert);
+  }
+
+  list(userId: string, options: { unreadOnly?: boolean } = {}): BudgetAlert[] {
+    return this.alerts
+      .filter((alert) => alert.userId === userId && (!options.unreadOnly || alert.readAt === null))
+      .reverse();
+  }
+
+  forGoal(userId: string, sessionId: string, category: string): BudgetAlert[] {
+    return this.list(userId).filter((alert) => alert.sessionId === sessionId && alert.category === category);
+  }
+
+  markRead(userId: string, ids?: string[], at: string = new Date().toISOString()): number {
+    const unread = this.list(userId, { unreadOnly: true }).filter((alert) => !ids || ids.includes(alert.id));
+    unread.forEach((alert) => {
+      alert.readAt = at;
+    });
+    return unread.length;
+  }
+
+  prune(before: string): number {
+    const kept = this.alerts.filter((alert) => alert.createdAt >= before);
+    const removed = this.alerts.length - kept.length;
+    this.alerts.splice(0, this.alerts.length, ...kept);
+    return removed;
+  }
+
+  close(): void {}
+}
+
+interface AlertRow {
+  body: string;
+  read_at: string | null;
+}
+
+/**
+ * Stores alerts in the session database file, so the inbox survives restarts
+ */
+export class SqliteAlertInbox implements AlertInbox {
+  private readonly db: Database;
+
+  constructor(path: string) {
+    if (path !== ':memory:') {
+      mkdirSync(dirname(path), { recursive: true });
+    }
+    this.db = new Database(path, { create: true });
+    this.db.exec('PRAGMA journal_mode = WAL');
+    this.db.exec('PRAGMA busy_timeout = 5000');
+    this.db.exec(`CREATE TABLE IF NOT EXISTS budget_alerts (
+      id TEXT PRIMARY KEY,
+      user_id TEXT NOT NULL,
+      session_id TEXT NOT NULL,
+      category TEXT NOT NULL,
+      created_at TEXT NOT NULL,
+      read_at TEXT,
+      body TEXT NOT NULL
+    )`);
+    this.db.exec('CREATE INDEX IF NOT EXISTS idx_budget_alerts_user_time ON budget_alerts (user_id, created_at)');
+  }
+
+  add(alert: BudgetAlert): void {
+    this.db.query('INSERT INTO budget_alerts (id, user_id, session_id, category, created_at, read_at, body) VALUES (?, ?, ?, ?, ?, ?, ?)')
+      .run(alert.id, alert.userId, alert.sessionId, alert.category, alert.createdAt, alert.readAt, JSON.stringify(alert));
+  }
+
+  list(userId: string, options: { unreadOnly?: boolean } = {}): BudgetAlert[] {
+    const rows = this.db.query(`SELECT body, read_at FROM budget_alerts
+      WHERE user_id = ? ${options.unreadOnly ? 'AND read_at IS NULL' : ''} ORDER BY created_at DESC, rowid DESC`)
+      .all(userId) as AlertRow[];
+    return rows.map(parseAlertRow);
+  }
+
+  forGoal(userId: string, sessionId: string, category: string): BudgetAlert[] {
+    const rows = this.db.query(`SELECT body, read_at FROM budget_alerts
+      WHERE user_id = ? AND session_id = ? AND category = ? ORDER BY created_at DESC, rowid DESC`)
+      .all(userId, sessionId, category) as AlertRow[];
+    return rows.map(parseAlertRow);
+  }
+
+  markRead(userId: string, ids?: string[], at: string = new Date().toISOString()): number {
+    if (!ids) {
+      return this.db.query('UPDATE budget_alerts SET read_at = ? WHERE user_id = ? AND read_at IS NULL').run(at, userId).changes;
+    }
+    const statement = this.db.query('UPDATE budget_alerts SET read_at = ? WHERE user_id = ? AND id = ? AND read_at IS NULL');
+    return ids.reduce((changed, id) => changed + statement.run(at, userId, id).changes, 0);
+  }
+
+  prune(before: string): number {
+    return this.db.query('DELETE FROM budget_alerts WHERE created_at < ?').run(before).changes;
+  }
+
+  close(): void {
+    this.db.close();
+  }
+}
+
+function parseAlertRow(row: AlertRow): BudgetAlert {
+  return { ...(JSON.parse(row.body) as BudgetAlert), readAt: row.read_at };
+}
+
+function readNumber(name: string, fallback: number, min: number): number {
+  const raw = process.env[name];
+  if (raw === undefined || raw === '') return fallback;
+  const value = Number(raw);
+  if (!Number.isFinite(value) || value < min) {
+    throw new Error(`${name} must be a number of at least ${min}, got "${raw}"`);
+  }
+  return value;
+}
+
+/**
+ * Read the alert configuration from the environment
+ */
+export function alertConfigFromEnv(): AlertConfig {
+  const webhookUrls = (process.env.ALERT_WEBHOOK_URLS ?? '')
+    .split(',')
+    .map((url) => url.trim())
+    .filter(Boolean);
+  webhookUrls.forEach((url) => {
+    if (!/^https?:\/\//.test(url)) {
+      throw new Error(`ALERT_WEBHOOK_URLS must contain http(s) URLs, got "${url}"`);
+    }
+  });
+  const webhookSecret = process.env.ALERT_WEBHOOK_SECRET ?? '';
+  if (webhookUrls.length > 0 && !webhookSecret) {
+    throw new Error('ALERT_WEBHOOK_SECRET is required when ALERT_WEBHOOK_URLS is set');
+  }
+
+  return {
+    webhookUrls,
+    webhookSecret,
+    maxAttempts: readNumber('ALERT_WEBHOOK_MAX_ATTEMPTS', 4, 1),
+    retryBaseMs: readNumber('ALERT_WEBHOOK_RETRY_BASE_MS', 1000, 0),
+    cooldownMinutes: readNumber('ALERT_COOLDOWN_MINUTES', 60, 0),
+  };
+}
+
+/**
+ * HMAC-SHA256 of `<timestamp>.<body>`, as sent in `X-Alert-Signature`
+ */
+export function signWebhookPayload(secret: string, timestamp: string, body: string): string {
+  return `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+}
+
+export function verifyWebhookSignature(secret: string, timestamp: string, body: string, signature: string): boolean {
+  const expected = Buffer.from(signWebhookPayload(secret, timestamp, body));
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+/**
+ * POST one alert to one webhook, retrying network errors, 429 and 5xx
+ * responses. Resolves to the number of attempts made, or throws after the last.
+ */
+export async function deliverWebhook(
+  url: string,
+  alert: BudgetAlert,
+  config: Pick<AlertConfig, 'webhookSecret' | 'maxAttempts' | 'retryBaseMs'>
+): Promise<number> {
+  const body = JSON.stringify({ type: 'budget_alert', alert });
+
+  for (let attempt = 1; ; attempt++) {
+    const timestamp = String(Math.floor(Date.now() / 1000));
+    let response: Response | undefined;
+    let failure: string;
+    try {
+      response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Alert-Id': alert.id,
+          'X-Alert-Timestamp': timestamp,
+          'X-Alert-Signature': signWebhookPayload(config.webhookSecret, timestamp, body),
+        },
+        body,
+      });
+      failure = `HTTP ${response.status}`;
+    } catch (error) {
+      failure = (error as Error).message;
+    }
+
+    if (response?.ok) {
+      return attempt;
+    }
+    // Other client errors will not succeed on a retry
+    if (response && response.status < 500 && response.status !== 429) {
+      throw new Error(`Webhook ${url} rejected alert ${alert.id}: ${failure}`);
+    }
+    if (attempt >= config.maxAttempts) {
+      throw new Error(`Webhook ${url} failed for alert ${alert.id} after ${attempt} attempts: ${failure}`);
+    }
+    await new Promise((resolve) => setTimeout(resolve, config.retryBaseMs * 2 ** (attempt - 1)));
+  }
+}
+
+function alertMessage(category: string, status: AlertStatus, percentage: number, available: Money, range: DateRange, locale: string): string {
+  const limit = formatMoney(available, locale);
+  return status === 'over_budget'
+    ? `❌ ${category} is over budget: ${percentage}% of ${limit} spent (${range.start} to ${range.end})`
+    : `⚠️ ${category} has used ${percentage}% of its ${limit} budget (${range.start} to ${range.end})`;
+}
+
+/**
+ * Turns budget changes into alerts: decides which are new, stores them and
+ * sends them to the webhooks
+ */
+export class BudgetAlertMonitor {
+  private readonly deliveries = new Set<Promise<void>>();
+
+  constructor(
+    readonly inbox: AlertInbox,
+    private readonly config: AlertConfig
+  ) {}
+
+  /**
+   * Check every goal of a session and raise alerts for budgets that newly
+   * crossed a threshold. Returns the alerts raised.
+   */
+  check(
+    userId: string,
+    sessionId: string,
+    goals: BudgetGoal[],
+    transactions: Transaction[],
+    options: { asOf?: string; locale?: string; now?: Date } = {}
+  ): BudgetAlert[] {
+    const asOf = options.asOf ?? todayIso();
+    const now = options.now ?? new Date();
+    const raised: BudgetAlert[] = [];
+
+    for (const goal of goals) {
+      const budget = currentBudget(goal, transactions, asOf);
+      const status = budgetStatusFor(budget.spent, budget.available);
+      if (status === 'on_track') {
+        continue;
+      }
+
+      const previous = this.inbox.forGoal(userId, sessionId, goal.category);
+      // One alert per status per period
+      if (previous.some((alert) => alert.status === status && alert.period.start === budget.range.start)) {
+        continue;
+      }
+      // Within the cool-down only a budget getting worse alerts again
+      const latest = previous[0];
+      const coolingDown = latest && now.getTime() - Date.parse(latest.createdAt) < this.config.cooldownMinutes * 60_000;
+      if (coolingDown && SEVERITY[status] <= SEVERITY[latest.status]) {
+        continue;
+      }
+
+      const percentage = parseFloat(percentageOf(budget.spent, budget.available).toFixed(1));
+      const alert: BudgetAlert = {
+        id: randomUUID(),
+        userId,
+        sessionId,
+        category: goal.category,
+        status,
+        percentage,
+        spent: budget.spent,
+        available: budget.available,
+        period: budget.range,
+        message: alertMessage(goal.category, status, percentage, budget.available, budget.range, options.locale ?? DEFAULT_LOCALE),
+        createdAt: now.toISOString(),
+        readAt: null,
+      };
+      this.inbox.add(alert);
+      this.dispatch(alert);
+      raised.push(alert);
+    }
+
+    return raised;
+  }
+
+  /**
+   * Send an alert to every webhook in the background
+   */
+  private dispatch(alert: BudgetAlert): void {
+    for (const url of this.config.webhookUrls) {
+      const delivery = deliverWebhook(url, alert, this.config)
+        .then((attempts) => logger.info('Alert delivered', { alertId: alert.id, url, attempts }))
+        .catch((error: Error) => logger.error('Alert delivery failed', { alertId: alert.id, url, error }))
+        .finally(() => this.deliveries.delete(delivery));
+      this.deliveries.add(delivery);
+    }
+  }
+
+  /**
+   * Wait for webhook deliveries still in progress
+   */
+  async flush(): Promise<void> {
+    await Promise.all([...this.deliveries]);
+  }
+}
+
+/**
+ * Text added to the agent's instruction for alerts raised since its last turn
+ */
+export function alertContext(alerts: BudgetAlert[]): string {
+  if (alerts.length === 0) {
+    return '';
+  }
+  return `\n\nBudget alerts raised since the last turn (tell the user about these before anything else):\n` +
+    alerts.map((alert) => `- ${alert.message}`).join('\n');
+}
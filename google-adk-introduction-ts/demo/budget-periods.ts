@@ -0,0 +1,206 @@
+/**
+ * Budget Periods, Rollover and History
+ *
+ * A budget goal is a limit per period rather than a single number:
+ * - Weekly budgets run Monday to Sunday, monthly budgets follow the calendar
+ *   month, and custom budgets repeat every N days from their start date
+ * - With rollover, whatever was left unspent in one period is added to the
+ *   next period's limit (overspending is not carried as debt)
+ * - When a period ends it is recorded in the goal's history with its limit
+ *   and what was actually spent
+ *
+ * Spending is always computed from the stored transactions, so "how am I
+ * doing this month?" needs no numbers from the user.
+ *
+ * Key Learning: Periods are closed lazily - whenever a tool looks at a goal,
+ * every period that ended since the last look is written to its history.
+ */
+
+import { addDays, addMonths, daysBetween, startOfMonth, startOfWeek, todayIso } from './dates';
+import { Money, addMoney, compareMoney, convertMoney, percentageOf, subtractMoney, sumMoney, zeroMoney } from './money';
+import { BudgetGoal, Transaction, normalizeCategory } from './session-state';
+
+export type BudgetPeriodType = 'weekly' | 'monthly' | 'custom';
+
+export type BudgetStatus = 'on_track' | 'warning' | 'over_budget';
+
+export interface BudgetPeriod {
+  type: BudgetPeriodType;
+  /** First day of the first tracked period (YYYY-MM-DD) */
+  anchor: string;
+  /** Length of a custom period */
+  lengthDays?: number;
+}
+
+/** Inclusive range of YYYY-MM-DD dates */
+export interface DateRange {
+  start: string;
+  end: string;
+}
+
+export interface BudgetPeriodRecord extends DateRange {
+  limit: Money;
+  /** Unspent amount carried in from the previous period */
+  carriedIn: Money;
+  spent: Money;
+}
+
+export interface CurrentBudget {
+  period: BudgetPeriod;
+  range: DateRange;
+  limit: Money;
+  carriedIn: Money;
+  /** limit + carriedIn */
+  available: Money;
+  spent: Money;
+}
+
+/** Closed periods kept per goal */
+export const MAX_BUDGET_HISTORY = 24;
+
+/**
+ * Build a period definition whose first period contains `startDate`
+ */
+export function createBudgetPeriod(type: BudgetPeriodType, startDate: string = todayIso(), lengthDays?: number): BudgetPeriod {
+  if (type === 'custom') {
+    return { type, anchor: startDate, lengthDays };
+  }
+  return { type, anchor: type === 'weekly' ? startOfWeek(startDate) : startOfMonth(startDate) };
+}
+
+/**
+ * The goal's period; goals stored before periods existed are monthly
+ */
+export function budgetPeriodOf(goal: BudgetGoal): BudgetPeriod {
+  return goal.period ?? createBudgetPeriod('monthly', goal.setAt.slice(0, 10));
+}
+
+/**
+ * The period that contains a date
+ */
+export function periodRange(period: BudgetPeriod, date: string): DateRange {
+  switch (period.type) {
+    case 'weekly': {
+      const start = startOfWeek(date);
+      return { start, end: addDays(start, 6) };
+    }
+    case 'monthly': {
+      const start = startOfMonth(date);
+      return { start, end: addDays(addMonths(start, 1), -1) };
+    }
+    case 'custom': {
+      const length = period.lengthDays ?? 30;
+      const index = Math.floor(daysBetween(period.anchor, date) / length);
+      const start = addDays(period.anchor, index * length);
+      return { start, end: addDays(start, length - 1) };
+    }
+  }
+}
+
+/**
+ * Total spent in a category between two dates, in the given currency
+ */
+export function spentInRange(transactions: Transaction[], category: string, range: DateRange, currency: string): Money {
+  const wanted = normalizeCategory(category);
+  return sumMoney(
+    transactions
+      .filter((tx) => normalizeCategory(tx.category) === wanted && tx.date >= range.start && tx.date <= range.end)
+      .map((tx) => convertMoney(tx.amount, currency)),
+    currency
+  );
+}
+
+/**
+ * A budget is in warning past 80% used, or earlier when spending is
+ * projected to go over the limit by the end of the period
+ */
+export function budgetStatusFor(spent: Money, limit: Money, projected?: Money): BudgetStatus {
+  const percentageUsed = percentageOf(spent, limit);
+  if (compareMoney(spent, limit) > 0) {
+    return 'over_budget';
+  } else if (percentageUsed > 80 || (projected && compareMoney(projected, limit) > 0)) {
+    return 'warning';
+  }
+  return 'on_track';
+}
+
+/**
+ * What a closed period passes on to the next one
+ */
+function carryOver(record: BudgetPeriodRecord | undefined, rollover: boolean, currency: string): Money {
+  if (!record || !rollover) {
+    return zeroMoney(currency);
+  }
+  const unspent = subtractMoney(addMoney(record.limit, record.carriedIn), record.spent);
+  return unspent.amountMinor > 0 ? convertMoney(unspent, currency) : zeroMoney(currency);
+}
+
+/**
+ * Record every period that ended before the one containing `asOf`.
+ * Returns the goal unchanged when there is nothing new to close.
+ */
+export function closeBudgetPeriods(goal: BudgetGoal, transactions: Transaction[], asOf: string = todayIso()): BudgetGoal {
+  const period = budgetPeriodOf(goal);
+  const currency = goal.limit.currency;
+  const current = periodRange(period, asOf);
+  const history = [...(goal.history ?? [])];
+
+  let next = history.length > 0 ? addDays(history[history.length - 1].end, 1) : period.anchor;
+  if (next >= current.start) {
+    return goal;
+  }
+
+  while (next < current.start) {
+    const range = periodRange(period, next);
+    history.push({
+      ...range,
+      limit: goal.limit,
+      carriedIn: carryOver(history[history.length - 1], goal.rollover ?? false, currency),
+      spent: spentInRange(transactions, goal.category, range, currency),
+    });
+    next = addDays(range.end, 1);
+  }
+
+  return { ...goal, history: history.slice(-MAX_BUDGET_HISTORY) };
+}
+
+/**
+ * Limit, carry-over and spending for the period containing `asOf`
+ */
+export function currentBudget(goal: BudgetGoal, transactions: Transaction[], asOf: string = todayIso()): CurrentBudget {
+  const period = budgetPeriodOf(goal);
+  const currency = goal.limit.currency;
+  const range = periodRange(period, asOf);
+  const previous = (goal.history ?? []).find((record) => record.end === addDays(range.start, -1));
+  const carriedIn = carryOver(previous, goal.rollover ?? false, currency);
+
+  return {
+    period,
+    range,
+    limit: goal.limit,
+    carriedIn,
+    available: addMoney(goal.limit, carriedIn),
+    spent: spentInRange(transactions, goal.category, range, currency),
+  };
+}
+
+/**
+ * Keep a replaced goal's history when the new goal uses the same kind of period
+ */
+export function inheritBudgetHistory(previous: BudgetGoal | undefined, goal: BudgetGoal): BudgetGoal {
+  if (!previous?.history?.length) {
+    return goal;
+  }
+  const before = budgetPeriodOf(previous);
+  const after = budgetPeriodOf(goal);
+  const samePeriods = before.type === after.type &&
+    (after.type !== 'custom' || (before.anchor === after.anchor && before.lengthDays === after.lengthDays));
+  if (!samePeriods) {
+    return goal;
+  }
+  return { ...goal, period: { ...after, anchor: earlierDate(before.anchor, after.anchor) }, history: previous.history };
+}
+
+function earlierDate(a: string, b: string): string {
+  return a < b ? a : b;
+}
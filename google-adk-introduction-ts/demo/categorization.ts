@@ -0,0 +1,231 @@
+/**
+ * Rule-Based Transaction Categorization
+ *
+ * Assigns categories to transactions with deterministic matching rules
+ * instead of asking the model to guess each row:
+ * - Exact match on the whole description or merchant name
+ * - Keyword match (whole words, case-insensitive)
+ * - Regular expression match
+ *
+ * Every rule has a priority; when several rules match, the highest priority
+ * wins. Built-in rules cover the default categories and user rules (stored
+ * per user in session state) are layered on top of them.
+ *
+ * Key Learning: Cheap deterministic logic handles the common cases so that
+ * only truly unknown rows need the model's judgement.
+ */
+
+import { Transaction } from './session-state';
+
+export type RuleMatchType = 'exact' | 'keyword' | 'regex';
+
+export type RuleField = 'description' | 'merchant';
+
+/**
+ * A user-defined category, or a subcategory when `parent` is set
+ */
+export interface CategoryDefinition {
+  name: string;
+  parent?: string;
+  createdAt: string;
+}
+
+export interface CategoryRule {
+  id: string;
+  category: string;
+  subcategory?: string;
+  matchType: RuleMatchType;
+  field: RuleField;
+  pattern: string;
+  priority: number;
+  createdAt: string;
+}
+
+export interface CategoryMatch {
+  category: string;
+  subcategory?: string;
+  ruleId: string;
+}
+
+/**
+ * Category given to transactions that no rule matched
+ */
+export const UNCATEGORIZED = 'uncategorized';
+
+/**
+ * Built-in categories that always exist
+ */
+export const BUILT_IN_CATEGORIES = ['groceries', 'dining', 'entertainment', 'utilities', 'transport', 'other'] as const;
+
+/**
+ * Default priority for rules the user teaches; built-in rules sit below it
+ */
+export const DEFAULT_RULE_PRIORITY = 50;
+
+const BUILT_IN_KEYWORDS: Record<string, { keywords: string[]; priority: number }[]> = {
+  groceries: [
+    { keywords: ['grocery', 'groceries', 'supermarket', 'keells', 'cargills', 'arpico', 'walmart', 'tesco', 'aldi', 'lidl', 'whole foods'], priority: 10 },
+  ],
+  dining: [
+    { keywords: ['restaurant', 'cafe', 'coffee', 'starbucks', 'pizza', 'burger', 'kfc', 'mcdonalds', 'bakery', 'dinner', 'lunch'], priority: 10 },
+    { keywords: ['uber eats', 'pickme food', 'doordash', 'deliveroo'], priority: 20 },
+  ],
+  transport: [
+    { keywords: ['uber', 'pickme', 'taxi', 'fuel', 'petrol', 'gas station', 'parking', 'bus', 'train', 'railway', 'toll'], priority: 10 },
+  ],
+  utilities: [
+    { keywords: ['electricity', 'water bill', 'internet', 'broadband', 'dialog', 'mobitel', 'phone bill', 'ceb', 'gas bill'], priority: 10 },
+  ],
+  entertainment: [
+    { keywords: ['netflix', 'spotify', 'cinema', 'movie', 'concert', 'theatre', 'steam', 'playstation', 'disney'], priority: 10 },
+  ],
+};
+
+/**
+ * Rules that ship with the agent, one keyword rule per keyword
+ */
+export const BUILT_IN_RULES: CategoryRule[] = Object.entries(BUILT_IN_KEYWORDS).flatMap(([category, groups]) =>
+  groups.flatMap(({ keywords, priority }) =>
+    keywords.map((keyword) => ({
+      id: `builtin:${category}:${keyword.replace(/\s+/g, '-')}`,
+      category,
+      matchType: 'keyword' as const,
+      field: 'description' as const,
+      pattern: keyword,
+      priority,
+      createdAt: '1970-01-01T00:00:00.000Z',
+    }))
+  )
+);
+
+/**
+ * Reduce a bank description to a merchant name, e.g.
+ * "POS 1234 STARBUCKS #0042 COLOMBO 15/01" -> "starbucks colombo"
+ */
+export function normalizeMerchant(description: string): string {
+  return description
+    .toLowerCase()
+    .replace(/\b(pos|visa|mastercard|debit|credit|card|purchase|payment|txn|ref)\b/g, ' ')
+    .replace(/[#*]\S*/g, ' ')
+    .replace(/\d+([\/.\-]\d+)*/g, ' ')
+    .replace(/[^a-z&' ]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function normalizeText(value: string): string {
+  return value.toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Check that a rule can be evaluated; returns an error message or null
+ */
+export function validateRule(rule: Pick<CategoryRule, 'matchType' | 'pattern'>): string | null {
+  if (!rule.pattern.trim()) {
+    return 'Rule pattern must not be empty';
+  }
+  if (rule.matchType === 'regex') {
+    try {
+      new RegExp(rule.pattern, 'i');
+    } catch (error) {
+      return `Invalid regular expression: ${(error as Error).message}`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Whether a rule matches a transaction
+ */
+export function ruleMatches(rule: CategoryRule, tx: Pick<Transaction, 'description'>): boolean {
+  const text = rule.field === 'merchant' ? normalizeMerchant(tx.description) : normalizeText(tx.description);
+
+  switch (rule.matchType) {
+    case 'exact':
+      return text === normalizeText(rule.pattern);
+    case 'keyword':
+      return new RegExp(`(^|[^a-z0-9])${escapeRegex(normalizeText(rule.pattern))}($|[^a-z0-9])`).test(text);
+    case 'regex':
+      try {
+        return new RegExp(rule.pattern, 'i').test(rule.field === 'merchant' ? text : tx.description);
+      } catch {
+        return false;
+      }
+  }
+}
+
+/**
+ * Tie-breaker for rules of equal priority: more specific match types win
+ */
+const MATCH_TYPE_ORDER: Record<RuleMatchType, number> = { exact: 3, regex: 2, keyword: 1 };
+
+function compareRules(a: CategoryRule, b: CategoryRule): number {
+  return b.priority - a.priority
+    || MATCH_TYPE_ORDER[b.matchType] - MATCH_TYPE_ORDER[a.matchType]
+    || b.createdAt.localeCompare(a.createdAt);
+}
+
+/**
+ * Find the best matching rule for a transaction
+ */
+export function categorize(tx: Pick<Transaction, 'description'>, rules: CategoryRule[]): CategoryMatch | null {
+  const best = rules.filter((rule) => ruleMatches(rule, tx)).sort(compareRules)[0];
+  if (!best) return null;
+  return { category: best.category, subcategory: best.subcategory, ruleId: best.id };
+}
+
+/**
+ * Categorize a list of transactions.
+ *
+ * By default only uncategorized rows are touched, so categories chosen by the
+ * user or the model are kept. Rows that no rule matches are returned as
+ * `unknown` with their index into the result.
+ */
+export function categorizeAll(
+  transactions: Transaction[],
+  userRules: CategoryRule[],
+  options: { recategorizeAll?: boolean } = {}
+): { transactions: Transaction[]; categorized: number; unknown: { index: number; transaction: Transaction }[] } {
+  const rules = [...BUILT_IN_RULES, ...userRules];
+  const unknown: { index: number; transaction: Transaction }[] = [];
+  let categorized = 0;
+
+  const result = transactions.map((tx, index) => {
+    if (!options.recategorizeAll && tx.category !== UNCATEGORIZED) {
+      return tx;
+    }
+    const match = categorize(tx, rules);
+    if (!match) {
+      const uncategorized = { ...tx, category: UNCATEGORIZED, subcategory: undefined };
+      unknown.push({ index, transaction: uncategorized });
+      return uncategorized;
+    }
+    categorized++;
+    return { ...tx, category: match.category, subcategory: match.subcategory };
+  });
+
+  return { transactions: result, categorized, unknown };
+}
+
+/**
+ * All category names the user can assign: built-ins plus custom top-level ones
+ */
+export function availableCategories(custom: CategoryDefinition[]): string[] {
+  const names = new Set<string>(BUILT_IN_CATEGORIES);
+  custom.filter((category) => !category.parent).forEach((category) => names.add(category.name));
+  return [...names];
+}
+
+/**
+ * Whether a category (and optional subcategory) has been defined
+ */
+export function isKnownCategory(custom: CategoryDefinition[], category: string, subcategory?: string): boolean {
+  if (!availableCategories(custom).includes(category)) {
+    return false;
+  }
+  return !subcategory || custom.some((c) => c.name === subcategory && c.parent === category);
+}
@@ -0,0 +1,104 @@
+import { afterAll, describe, expect, test } from 'bun:test';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { createPersonalFinanceAgent } from './agent';
+import { createChatCli, inProcessBackend } from './chat-cli';
+import { ScriptedLlm } from './scripted-model';
+
+const workDir = mkdtempSync(join(tmpdir(), 'finance-chat-cli-'));
+
+afterAll(() => rmSync(workDir, { recursive: true, force: true }));
+
+function startCli() {
+  const model = new ScriptedLlm({
+    script: {
+      steps: [
+        {
+          pattern: 'set a budget goal',
+          agent: 'budget_coach',
+          responses: [
+            { functionCalls: [{ name: 'set_budget_goal', args: { category: 'dining', limit: 200 } }] },
+            { text: 'Your dining budget is now $200.00 a month.' },
+          ],
+        },
+        {
+          pattern: 'how am i doing',
+          agent: 'budget_coach',
+          responses: [{ text: 'You have not spent anything on dining yet.' }],
+        },
+      ],
+    },
+  });
+  let output = '';
+  const cli = createChatCli({
+    backend: inProcessBackend(createPersonalFinanceAgent(model)),
+    sessionId: 'cli-session',
+    write: (text) => {
+      output += text;
+    },
+  });
+  return { cli, output: () => output, clear: () => (output = '') };
+}
+
+describe('chat CLI', () => {
+  test('streams replies and answers slash commands from the session', async () => {
+    const { cli, output, clear } = startCli();
+
+    expect(await cli.handle('Please set a budget goal of $200 for dining')).toBe(true);
+    expect(output()).toContain('🔀 personal_finance_advisor → budget_coach');
+    expect(output()).toContain('🔧 set_budget_goal({"category":"dining","limit":200})');
+    expect(output()).toContain('🤖 budget_coach: Your dining budget is now $200.00 a month.');
+
+    clear();
+    await cli.handle('/tools');
+    expect(output()).toContain('set_budget_goal');
+    expect(output()).toContain('"status":"success"');
+
+    clear();
+    await cli.handle('/state');
+    expect(output()).toContain('"budgetGoals"');
+
+    clear();
+    await cli.handle('How am I doing?');
+    await cli.handle('/tools');
+    expect(output()).toContain('No tool calls in the last turn');
+
+    const markdown = join(workDir, 'transcript.md');
+    await cli.handle(`/export ${markdown}`);
+    expect(readFileSync(markdown, 'utf8')).toContain('## budget_coach');
+    const json = join(workDir, 'transcript.json');
+    await cli.handle(`/export ${json}`);
+    const saved = JSON.parse(readFileSync(json, 'utf8'));
+    expect(saved.sessionId).toBe('cli-session');
+    expect(saved.transcript.map((entry: { role: string }) => entry.role)).toEqual(['user', 'agent', 'user', 'agent']);
+
+    expect(await cli.handle('/quit')).toBe(false);
+  });
+
+  test('imports statements, switches and resets sessions', async () => {
+    const { cli, output, clear } = startCli();
+    const statement = join(workDir, 'statement.csv');
+    writeFileSync(statement, 'Date,Description,Amount\n2024-01-15,Grocery store,-45.20\n2024-01-16,Coffee shop,-4.50\n');
+
+    await cli.handle(`/import ${statement}`);
+    expect(output()).toContain('Imported 2 transactions');
+
+    clear();
+    await cli.handle('/state');
+    expect(output()).toContain('Grocery store');
+
+    clear();
+    await cli.handle('/reset');
+    await cli.handle('/state');
+    expect(output()).toContain('Session cli-session has no state yet');
+
+    clear();
+    await cli.handle('/session other-session');
+    expect(cli.sessionId()).toBe('other-session');
+    await cli.handle('/import missing-file.csv');
+    expect(output()).toContain('❌ /import failed');
+    await cli.handle('/nope');
+    expect(output()).toContain('Unknown command /nope');
+  });
+});
@@ -0,0 +1,393 @@
+/**
+ * Interactive Terminal Chat
+ *
+ * Talk to the finance agent from a terminal, with replies streaming in as
+ * they are generated:
+ *
+ *   bun run chat                                    # in-process InMemoryRunner
+ *   bun run chat --http --base-url=http://localhost:3000   # through the server
+ *   bun run chat --session=my-session --user=me
+ *
+ * Slash commands:
+ *   /state             Dump the session state
+ *   /tools             Tool calls (and results) of the last turn
+ *   /reset             Delete the session and start over under the same id
+ *   /session [id]      Show the session id, or switch to another session
+ *   /import <file>     Import a bank statement (CSV, OFX or QIF)
+ *   /export <file>     Save the transcript (.json, otherwise Markdown)
+ *   /help, /quit
+ *
+ * With FINANCE_AGENT_MODEL=scripted:... the in-process chat runs offline.
+ *
+ * Key Learning: the same typed chat events drive the server's SSE stream and
+ * an in-process runner, so one client loop serves both.
+ */
+
+import { InMemoryRunner, StreamingMode, createEvent, createEventActions } from '@google/adk';
+import type { BaseAgent } from '@google/adk';
+import { createUserContent } from '@google/genai';
+import { randomUUID } from 'crypto';
+import { readFileSync, writeFileSync } from 'fs';
+import { basename } from 'path';
+import { createInterface } from 'readline';
+import { personalFinanceAgent } from './agent';
+import { ChatRequestError, authHeadersFromEnv, streamChat } from './chat-client';
+import { ChatStreamEvent, createChatEventTranslator } from './chat-protocol';
+import { readStateRecord, stateDelta } from './session-state';
+import { importStatement } from './statement-import';
+
+/**
+ * Where the conversation runs: an in-process runner or the HTTP server
+ */
+export interface ChatBackend {
+  readonly description: string;
+  send(sessionId: string, message: string, onEvent: (event: ChatStreamEvent) => void): Promise<void>;
+  /** null when the session does not exist yet */
+  state(sessionId: string): Promise<Record<string, unknown> | null>;
+  reset(sessionId: string): Promise<void>;
+  /** Import a statement file; returns a one-line summary */
+  importStatement(sessionId: string, path: string): Promise<string>;
+}
+
+export interface TranscriptEntry {
+  role: 'user' | 'agent';
+  /** For agent entries, the agent of the team that replied */
+  agent?: string;
+  text: string;
+  toolCalls?: { name: string; args: Record<string, unknown>; response?: Record<string, unknown> }[];
+  at: string;
+}
+
+function importSummary(result: { imported: number; duplicates: number; skipped: number; errors: unknown[] }): string {
+  return `Imported ${result.imported} transactions (${result.duplicates} duplicates, ${result.skipped} skipped, ${result.errors.length} errors)`;
+}
+
+/**
+ * Run the agent in this process, on whatever model it was built with
+ */
+export function inProcessBackend(agent: BaseAgent, userId = 'cli-user'): ChatBackend {
+  const appName = 'finance_agent_cli';
+  const runner = new InMemoryRunner({ agent, appName });
+  const sessions = runner.sessionService;
+
+  async function getOrCreateSession(sessionId: string) {
+    return await sessions.getSession({ appName, userId, sessionId })
+      ?? sessions.createSession({ appName, userId, sessionId, state: {} });
+  }
+
+  return {
+    description: `in-process (${agent.name})`,
+    async send(sessionId, message, onEvent) {
+      await getOrCreateSession(sessionId);
+      const translator = createChatEventTranslator();
+      try {
+        for await (const event of runner.runAsync({
+          userId,
+          sessionId,
+          newMessage: createUserContent(message),
+          runConfig: { streamingMode: StreamingMode.SSE },
+        })) {
+          translator.translate(event).forEach(onEvent);
+        }
+        onEvent(translator.complete());
+      } catch (error) {
+        onEvent({ type: 'error', code: 'runner_error', message: (error as Error).message });
+      }
+    },
+    async state(sessionId) {
+      const session = await sessions.getSession({ appName, userId, sessionId });
+      return session?.state ?? null;
+    },
+    async reset(sessionId) {
+      await sessions.deleteSession({ appName, userId, sessionId });
+    },
+    async importStatement(sessionId, path) {
+      const session = await getOrCreateSession(sessionId);
+      // Written through an event, the same way the server's /import does
+      const result = importStatement(readStateRecord(session.state, 'transactions'), readFileSync(path, 'utf8'), {
+        filename: basename(path),
+        currency: readStateRecord(session.state, 'preferences').currency,
+        rules: readStateRecord(session.state, 'categoryRules'),
+      });
+      if (result.imported.length > 0) {
+        await sessions.appendEvent({
+          session,
+          event: createEvent({
+            invocationId: `import-${randomUUID()}`,
+            author: 'user',
+            actions: createEventActions({ stateDelta: stateDelta({ transactions: result.transactions }) }),
+          }),
+        });
+      }
+      return importSummary({ ...result, imported: result.imported.length });
+    },
+  };
+}
+
+/**
+ * Talk to a running server through /chat, /sessions and /import
+ */
+export function httpBackend(options: { baseUrl: string; headers?: Record<string, string>; userId?: string }): ChatBackend {
+  const { baseUrl, headers = {} } = options;
+  // Without credentials the session routes need the user named, as /chat defaults it
+  const userId = options.userId ?? (Object.keys(headers).length === 0 ? 'default-user' : undefined);
+  const sessionUrl = (sessionId: string) =>
+    `${baseUrl}/sessions/${encodeURIComponent(sessionId)}${userId ? `?userId=${encodeURIComponent(userId)}` : ''}`;
+
+  async function failure(response: Response): Promise<Error> {
+    const body = await response.json().catch(() => null) as { error?: { message?: string } } | null;
+    return new Error(body?.error?.message ?? `HTTP ${response.status}`);
+  }
+
+  return {
+    description: `HTTP (${baseUrl})`,
+    async send(sessionId, message, onEvent) {
+      for await (const event of streamChat({ baseUrl, headers, userId, sessionId, message })) {
+        onEvent(event);
+      }
+    },
+    async state(sessionId) {
+      const response = await fetch(sessionUrl(sessionId), { headers });
+      if (response.status === 404) {
+        return null;
+      }
+      if (!response.ok) {
+        throw await failure(response);
+      }
+      return (await response.json() as { state: Record<string, unknown> }).state;
+    },
+    async reset(sessionId) {
+      const response = await fetch(sessionUrl(sessionId), { method: 'DELETE', headers });
+      if (!response.ok && response.status !== 404) {
+        throw await failure(response);
+      }
+    },
+    async importStatement(sessionId, path) {
+      const form = new FormData();
+      form.append('file', new File([readFileSync(path)], basename(path)));
+      form.append('sessionId', sessionId);
+      if (userId) {
+        form.append('userId', userId);
+      }
+      const response = await fetch(`${baseUrl}/import`, { method: 'POST', headers, body: form });
+      if (!response.ok) {
+        throw await failure(response);
+      }
+      return importSummary(await response.json() as { imported: number; duplicates: number; skipped: number; errors: unknown[] });
+    },
+  };
+}
+
+/**
+ * Markdown transcript: one section per message, tool calls as a list
+ */
+export function transcriptMarkdown(sessionId: string, transcript: TranscriptEntry[]): string {
+  const lines = [`# Finance agent transcript`, '', `Session: ${sessionId}`, ''];
+  for (const entry of transcript) {
+    lines.push(`## ${entry.role === 'user' ? 'You' : entry.agent ?? 'Agent'} (${entry.at})`, '');
+    for (const call of entry.toolCalls ?? []) {
+      lines.push(`- 🔧 \`${call.name}(${JSON.stringify(call.args)})\``);
+    }
+    if (entry.toolCalls?.length) {
+      lines.push('');
+    }
+    lines.push(entry.text, '');
+  }
+  return lines.join('\n');
+}
+
+export interface ChatCliOptions {
+  backend: ChatBackend;
+  sessionId?: string;
+  write?: (text: string) => void;
+}
+
+const HELP = `Commands:
+  /state            Dump the session state
+  /tools            Tool calls of the last turn
+  /reset            Delete the session and start over
+  /session [id]     Show or switch the session
+  /import <file>    Import a bank statement (CSV, OFX or QIF)
+  /export <file>    Save the transcript (.json, otherwise Markdown)
+  /help             Show this help
+  /quit             Leave`;
+
+/**
+ * The chat loop without the terminal: feed it lines, it writes the output.
+ * `handle` resolves to false once the user quits.
+ */
+export function createChatCli(options: ChatCliOptions) {
+  const { backend } = options;
+  const write = options.write ?? ((text: string) => process.stdout.write(text));
+  let sessionId = options.sessionId ?? `cli-${Date.now()}`;
+  let transcript: TranscriptEntry[] = [];
+  let lastToolCalls: NonNullable<TranscriptEntry['toolCalls']> = [];
+
+  async function chat(message: string) {
+    transcript.push({ role: 'user', text: message, at: new Date().toISOString() });
+    const reply: TranscriptEntry = { role: 'agent', text: '', toolCalls: [], at: new Date().toISOString() };
+    let speaking: string | null = null;
+
+    const reported = backend.send(sessionId, message, (event) => {
+      switch (event.type) {
+        case 'text_delta':
+          if (speaking !== event.author) {
+            write(`\n🤖 ${event.author}: `);
+            speaking = event.author;
+          }
+          reply.text += event.text;
+          write(event.text);
+          break;
+        case 'tool_call':
+          reply.toolCalls?.push({ name: event.name, args: event.args });
+          write(`\n🔧 ${event.name}(${JSON.stringify(event.args)})`);
+          speaking = null;
+          break;
+        case 'tool_result': {
+          const call = reply.toolCalls?.find((candidate) => candidate.name === event.name && !candidate.response);
+          if (call) {
+            call.response = event.response;
+          }
+          write(`\n📦 ${event.name} → ${event.response.status ?? 'done'}`);
+          break;
+        }
+        case 'agent_transfer':
+          write(`\n🔀 ${event.from} → ${event.to}`);
+          break;
+        case 'turn_complete':
+          reply.agent = event.agent ?? undefined;
+          write(`\n📊 ${event.usage.totalTokens} tokens${event.agent ? ` · ${event.agent}` : ''}\n`);
+          break;
+        case 'error':
+          write(`\n❌ ${event.code}: ${event.message}\n`);
+          break;
+      }
+    });
+    // Rejected before the turn started, e.g. rate limited or over quota
+    await reported.catch((error) => {
+      const code = error instanceof ChatRequestError ? error.code : 'request_failed';
+      write(`\n❌ ${code}: ${(error as Error).message}\n`);
+    });
+
+    lastToolCalls = reply.toolCalls ?? [];
+    transcript.push(reply);
+  }
+
+  async function command(name: string, argument: string): Promise<boolean> {
+    switch (name) {
+      case 'help':
+        write(`${HELP}\n`);
+        return true;
+      case 'quit':
+      case 'exit':
+        return false;
+      case 'state': {
+        const state = await backend.state(sessionId);
+        write(state ? `${JSON.stringify(state, null, 2)}\n` : `Session ${sessionId} has no state yet\n`);
+        return true;
+      }
+      case 'tools':
+        if (lastToolCalls.length === 0) {
+          write('No tool calls in the last turn\n');
+        }
+        for (const call of lastToolCalls) {
+          write(`🔧 ${call.name}(${JSON.stringify(call.args)})\n   → ${JSON.stringify(call.response ?? null)}\n`);
+        }
+        return true;
+      case 'reset':
+        await backend.reset(sessionId);
+        transcript = [];
+        lastToolCalls = [];
+        write(`🧹 Session ${sessionId} reset\n`);
+        return true;
+      case 'session':
+        if (argument) {
+          sessionId = argument;
+          transcript = [];
+          lastToolCalls = [];
+        }
+        write(`📝 Session: ${sessionId}\n`);
+        return true;
+      case 'import':
+        if (!argument) {
+          write('Usage: /import <file>\n');
+          return true;
+        }
+        write(`📥 ${await backend.importStatement(sessionId, argument)}\n`);
+        return true;
+      case 'export':
+        if (!argument) {
+          write('Usage: /export <file>\n');
+          return true;
+        }
+        writeFileSync(argument, argument.endsWith('.json')
+          ? JSON.stringify({ sessionId, transcript }, null, 2)
+          : transcriptMarkdown(sessionId, transcript));
+        write(`💾 Saved ${transcript.length} messages to ${argument}\n`);
+        return true;
+      default:
+        write(`Unknown command /${name} - try /help\n`);
+        return true;
+    }
+  }
+
+  /**
+   * Handle one line of input; failing commands report the error and carry on
+   */
+  async function handle(line: string): Promise<boolean> {
+    const input = line.trim();
+    if (!input) {
+      return true;
+    }
+    if (!input.startsWith('/')) {
+      await chat(input);
+      return true;
+    }
+
+    const [name, ...rest] = input.slice(1).split(/\s+/);
+    try {
+      return await command(name.toLowerCase(), rest.join(' '));
+    } catch (error) {
+      write(`❌ /${name} failed: ${(error as Error).message}\n`);
+      return true;
+    }
+  }
+
+  return { handle, sessionId: () => sessionId, transcript: () => transcript };
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const value = (name: string) => args.find((arg) => arg.startsWith(`--${name}=`))?.split('=').slice(1).join('=');
+  const userId = value('user');
+
+  const backend = args.includes('--http')
+    ? httpBackend({ baseUrl: value('base-url') ?? 'http://localhost:3000', headers: authHeadersFromEnv(), userId })
+    : inProcessBackend(personalFinanceAgent, userId);
+  const cli = createChatCli({ backend, sessionId: value('session') });
+
+  console.log(`💬 Finance agent chat - ${backend.description}, session ${cli.sessionId()}`);
+  console.log('   Type a message, or /help for commands\n');
+
+  const rl = createInterface({ input: process.stdin, output: process.stdout, prompt: 'You: ' });
+  // The async iterator buffers lines typed (or piped) while a turn streams; Ctrl+D ends it
+  rl.prompt();
+  try {
+    for await (const line of rl) {
+      if (!(await cli.handle(line))) {
+        break;
+      }
+      rl.prompt();
+    }
+  } finally {
+    rl.close();
+    console.log('👋 Bye');
+  }
+}
+
+if (require.main === module) {
+  main().catch((error) => {
+    console.error('❌ Chat failed:', error);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,169 @@
+/**
+ * Client for the /chat Streaming Protocol
+ *
+ * Parses the server's Server-Sent Events into typed ChatStreamEvent objects:
+ *
+ *   for await (const event of streamChat({ baseUrl, message, userId, sessionId })) {
+ *     if (event.type === 'text_delta') process.stdout.write(event.text);
+ *   }
+ *
+ * Works anywhere `fetch` and web streams are available (Bun, Node 18+, browsers).
+ */
+
+import type { ChatStreamEvent } from './chat-protocol';
+import { CHAT_STREAM_EVENT_TYPES } from './chat-protocol';
+
+export interface ChatRequest {
+  baseUrl?: string;
+  message: string;
+  userId?: string;
+  sessionId?: string;
+  headers?: Record<string, string>;
+  signal?: AbortSignal;
+}
+
+/**
+ * Raised when the server rejects the request before streaming starts
+ */
+export class ChatRequestError extends Error {
+  constructor(
+    readonly status: number,
+    readonly code: string,
+    message: string
+  ) {
+    super(message);
+    this.name = 'ChatRequestError';
+  }
+}
+
+/**
+ * Credentials from the environment: FINANCE_API_KEY (matching the server's
+ * AUTH_API_KEYS) or FINANCE_API_TOKEN (a JWT signed with AUTH_JWT_SECRET)
+ */
+export function authHeadersFromEnv(): Record<string, string> {
+  if (process.env.FINANCE_API_KEY) {
+    return { 'X-API-Key': process.env.FINANCE_API_KEY };
+  }
+  if (process.env.FINANCE_API_TOKEN) {
+    return { Authorization: `Bearer ${process.env.FINANCE_API_TOKEN}` };
+  }
+  return {};
+}
+
+/**
+ * Parse an SSE byte stream into typed protocol events.
+ * Unknown event names are ignored so older clients keep working.
+ */
+export async function* parseChatStream(body: ReadableStream<Uint8Array>): AsyncGenerator<ChatStreamEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let eventName = 'message';
+  let dataLines: string[] = [];
+
+  const dispatch = (): ChatStreamEvent | null => {
+    const name = eventName;
+    const data = dataLines.join('\n');
+    eventName = 'message';
+    dataLines = [];
+
+    if (!data || !CHAT_STREAM_EVENT_TYPES.includes(name as ChatStreamEvent['type'])) {
+      return null;
+    }
+    return { ...JSON.parse(data), type: name } as ChatStreamEvent;
+  };
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      buffer += decoder.decode(value, { stream: !done });
+
+      let newline: number;
+      while ((newline = buffer.search(/\r?\n/)) >= 0) {
+        const line = buffer.slice(0, newline);
+        buffer = buffer.slice(newline + (buffer[newline] === '\r' ? 2 : 1));
+
+        if (line === '') {
+          const event = dispatch();
+          if (event) yield event;
+        } else if (line.startsWith(':')) {
+          // Comment / keep-alive line
+        } else {
+          const colon = line.indexOf(':');
+          const field = colon >= 0 ? line.slice(0, colon) : line;
+          const value = colon >= 0 ? line.slice(colon + 1).replace(/^ /, '') : '';
+          if (field === 'event') eventName = value;
+          else if (field === 'data') dataLines.push(value);
+        }
+      }
+
+      if (done) {
+        const event = dispatch();
+        if (event) yield event;
+        return;
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/**
+ * Send a message to /chat and stream back typed events
+ */
+export async function* streamChat(request: ChatRequest): AsyncGenerator<ChatStreamEvent> {
+  const { baseUrl = 'http://localhost:3000', message, userId, sessionId, headers = {}, signal } = request;
+
+  const response = await fetch(`${baseUrl}/chat`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', Accept: 'text/event-stream', ...headers },
+    body: JSON.stringify({ message, userId, sessionId }),
+    signal,
+  });
+
+  if (!response.ok) {
+    const body = await response.json().catch(() => null) as { error?: { code?: string; message?: string } } | null;
+    throw new ChatRequestError(
+      response.status,
+      body?.error?.code ?? 'http_error',
+      body?.error?.message ?? `HTTP error! status: ${response.status}`
+    );
+  }
+  if (!response.body) {
+    throw new ChatRequestError(response.status, 'empty_response', 'No response body');
+  }
+
+  yield* parseChatStream(response.body);
+}
+
+/**
+ * Collected result of a whole turn
+ */
+export interface ChatTurnResult {
+  text: string;
+  events: ChatStreamEvent[];
+  toolCalls: Extract<ChatStreamEvent, { type: 'tool_call' }>[];
+  completion: Extract<ChatStreamEvent, { type: 'turn_complete' }> | null;
+  error: Extract<ChatStreamEvent, { type: 'error' }> | null;
+}
+
+/**
+ * Run a turn to completion, optionally observing each event as it arrives
+ */
+export async function sendChat(
+  request: ChatRequest,
+  onEvent?: (event: ChatStreamEvent) => void
+): Promise<ChatTurnResult> {
+  const result: ChatTurnResult = { text: '', events: [], toolCalls: [], completion: null, error: null };
+
+  for await (const event of streamChat(request)) {
+    onEvent?.(event);
+    result.events.push(event);
+    if (event.type === 'text_delta') result.text += event.text;
+    else if (event.type === 'tool_call') result.toolCalls.push(event);
+    else if (event.type === 'turn_complete') result.completion = event;
+    else if (event.type === 'error') result.error = event;
+  }
+
+  return result;
+}
@@ -0,0 +1,154 @@
+/**
+ * Typed Streaming Protocol for /chat
+ *
+ * The server streams Server-Sent Events; every SSE message has an `event:`
+ * name matching the `type` below and a JSON `data:` payload:
+ *
+ *   text_delta     A chunk of the agent's reply
+ *   tool_call      The model asked to run a tool (name + args)
+ *   tool_result    A tool finished (name + response)
+ *   state_delta    Session state changed (e.g. a tool stored a budget); private
+ *                  keys such as the PII vault are left out
+ *   agent_transfer The coordinator handed the turn to a specialist agent
+ *   turn_complete  The turn ended; carries token usage and the answering agent
+ *   error          The turn failed; carries a machine-readable code
+ *
+ * A turn always ends with exactly one `turn_complete` or `error` event.
+ *
+ * Key Learning: ADK events carry much more than text - function calls,
+ * function responses, state deltas and usage all live on the same Event.
+ */
+
+import type { Event } from '@google/adk';
+import { publicState } from './session-state';
+
+/** ADK's built-in tool for handing a turn to another agent */
+export const TRANSFER_TOOL_NAME = 'transfer_to_agent';
+
+export interface TokenUsage {
+  promptTokens: number;
+  candidatesTokens: number;
+  totalTokens: number;
+}
+
+export type ChatErrorCode =
+  | 'invalid_request'
+  | 'model_error'
+  | 'runner_error'
+  | 'rate_limited'
+  | 'quota_exceeded';
+
+export type ChatStreamEvent =
+  | { type: 'text_delta'; author: string; text: string }
+  | { type: 'tool_call'; author: string; id: string; name: string; args: Record<string, unknown> }
+  | { type: 'tool_result'; author: string; id: string; name: string; response: Record<string, unknown> }
+  | { type: 'state_delta'; author: string; delta: Record<string, unknown> }
+  | { type: 'agent_transfer'; from: string; to: string }
+  /** `agent` wrote the turn's reply; null when the turn produced no text */
+  | { type: 'turn_complete'; usage: TokenUsage; eventCount: number; agent: string | null }
+  | { type: 'error'; code: ChatErrorCode; message: string };
+
+export type ChatStreamEventType = ChatStreamEvent['type'];
+
+export const CHAT_STREAM_EVENT_TYPES: ChatStreamEventType[] = [
+  'text_delta',
+  'tool_call',
+  'tool_result',
+  'state_delta',
+  'agent_transfer',
+  'turn_complete',
+  'error',
+];
+
+/**
+ * Translates the ADK events of one turn into protocol events.
+ *
+ * In SSE streaming mode the model's reply arrives as partial text events
+ * followed by one aggregated, non-partial event repeating the full text.
+ * Only the partial chunks are forwarded so clients never see text twice.
+ *
+ * Calls to ADK's transfer_to_agent tool are reported as `agent_transfer`
+ * events rather than tool calls: routing is not one of the agent's tools.
+ */
+export function createChatEventTranslator() {
+  let streamedPartialText = false;
+  let eventCount = 0;
+  let answeredBy: string | null = null;
+  const usage: TokenUsage = { promptTokens: 0, candidatesTokens: 0, totalTokens: 0 };
+
+  function translate(event: Event): ChatStreamEvent[] {
+    eventCount++;
+    const author = event.author ?? 'unknown';
+    const output: ChatStreamEvent[] = [];
+
+    if (event.errorCode) {
+      output.push({ type: 'error', code: 'model_error', message: event.errorMessage ?? event.errorCode });
+      return output;
+    }
+
+    for (const part of event.content?.parts ?? []) {
+      // Thoughts are internal reasoning, not part of the reply
+      if (part.text && !part.thought) {
+        answeredBy = author;
+        if (event.partial) {
+          streamedPartialText = true;
+          output.push({ type: 'text_delta', author, text: part.text });
+        } else if (!streamedPartialText) {
+          output.push({ type: 'text_delta', author, text: part.text });
+        }
+      }
+      if (part.functionCall && part.functionCall.name !== TRANSFER_TOOL_NAME) {
+        output.push({
+          type: 'tool_call',
+          author,
+          id: part.functionCall.id ?? '',
+          name: part.functionCall.name ?? '',
+          args: part.functionCall.args ?? {},
+        });
+      }
+      if (part.functionResponse && part.functionResponse.name !== TRANSFER_TOOL_NAME) {
+        output.push({
+          type: 'tool_result',
+          author,
+          id: part.functionResponse.id ?? '',
+          name: part.functionResponse.name ?? '',
+          response: part.functionResponse.response ?? {},
+        });
+      }
+    }
+
+    if (!event.partial) {
+      // The aggregated event closes one model response; the next one streams afresh
+      streamedPartialText = false;
+
+      // Usage is reported once per model call, on its final response
+      if (event.usageMetadata) {
+        usage.promptTokens += event.usageMetadata.promptTokenCount ?? 0;
+        usage.candidatesTokens += event.usageMetadata.candidatesTokenCount ?? 0;
+        usage.totalTokens += event.usageMetadata.totalTokenCount ?? 0;
+      }
+
+      const delta = publicState(event.actions?.stateDelta ?? {});
+      if (Object.keys(delta).length > 0) {
+        output.push({ type: 'state_delta', author, delta });
+      }
+
+      if (event.actions?.transferToAgent) {
+        output.push({ type: 'agent_transfer', from: author, to: event.actions.transferToAgent });
+      }
+    }
+
+    return output;
+  }
+
+  /** Tokens used so far in this turn */
+  function currentUsage(): TokenUsage {
+    return { ...usage };
+  }
+
+  function complete(): Extract<ChatStreamEvent, { type: 'turn_complete' }> {
+    return { type: 'turn_complete', usage: { ...usage }, eventCount, agent: answeredBy };
+  }
+
+  return { translate, usage: currentUsage, complete };
+}
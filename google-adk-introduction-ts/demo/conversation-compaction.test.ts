@@ -0,0 +1,119 @@
+import { describe, expect, test } from 'bun:test';
+import type { Runner } from '@google/adk';
+import { createPersonalFinanceAgent } from './agent';
+import { summarizeTurn } from './conversation-compaction';
+import { splitTurns } from './conversation-turns';
+import { readStateRecord } from './session-state';
+import { SqliteSessionService } from './sqlite-session-service';
+import { startConversation } from './test-support';
+
+describe('conversation compaction', () => {
+  test('summarizes a turn from its request, tools and reply', () => {
+    const { preamble, turns } = splitTurns([
+      { role: 'user', parts: [{ text: 'Set a dining budget of $200' }] },
+      { role: 'model', parts: [{ functionCall: { name: 'transfer_to_agent', args: { agentName: 'budget_coach' } } }] },
+      { role: 'user', parts: [{ functionResponse: { name: 'transfer_to_agent', response: {} } }] },
+      {
+        role: 'user',
+        parts: [
+          { text: 'For context:' },
+          { text: '[budget_coach] called tool `set_budget_goal` with parameters: {"category":"dining"}' },
+          { text: '[budget_coach] said: Your dining budget is $200.00.' },
+        ],
+      },
+      { role: 'user', parts: [{ text: 'Thanks' }] },
+    ]);
+
+    expect(preamble).toEqual([]);
+    expect(turns.map((turn) => turn.length)).toEqual([4, 1]);
+    expect(summarizeTurn(turns[0], 1)).toBe(
+      'Turn 1 - user: "Set a dining budget of $200"; tools: set_budget_goal; reply: "Your dining budget is $200.00."'
+    );
+    expect(summarizeTurn(turns[1], 2)).toBe('Turn 2 - user: "Thanks"');
+  });
+
+  test('sends only the summary and recent turns once a session is long', async () => {
+    // The agents read the thresholds when they are built
+    process.env.COMPACTION_MAX_TURNS = '3';
+    process.env.COMPACTION_KEEP_TURNS = '2';
+    const { model, send, state } = await startConversation({
+      steps: [
+        {
+          pattern: 'dining budget',
+          agent: 'budget_coach',
+          responses: [
+            { functionCalls: [{ name: 'set_budget_goal', args: { category: 'dining', limit: 200 } }] },
+            { text: 'Your dining budget is $200.00.' },
+          ],
+        },
+        { responses: [{ text: 'Noted.' }] },
+      ],
+    });
+    delete process.env.COMPACTION_MAX_TURNS;
+    delete process.env.COMPACTION_KEEP_TURNS;
+
+    await send('Set a dining budget of $200');
+    for (const message of ['First note', 'Second note', 'Third note', 'Fourth note']) {
+      expect((await send(message)).text).toBe('Noted.');
+    }
+
+    const sessionState = await state();
+    expect(readStateRecord(sessionState, 'conversationSummary')).toEqual([
+      'Turn 1 - user: "Set a dining budget of $200"; tools: set_budget_goal; reply: "Your dining budget is $200.00."',
+      'Turn 2 - user: "First note"; reply: "Noted."',
+    ]);
+    // Structured facts stay in state for the tools
+    expect(readStateRecord(sessionState, 'budgetGoals')[0].category).toBe('dining');
+
+    const last = model.requests[model.requests.length - 1];
+    const sent = JSON.stringify(last.contents);
+    expect(sent).not.toContain('dining budget');
+    expect(sent).not.toContain('First note');
+    expect(sent).toContain('Second note');
+    expect(last.config?.systemInstruction).toContain('Turn 1 - user: "Set a dining budget of $200"');
+
+    const stats = readStateRecord(sessionState, 'contextCompaction');
+    expect(stats.summarizedTurns).toBe(2);
+    // Turns 4 and 5 were sent compacted
+    expect(stats.compactedRequests).toBe(2);
+    expect(stats.totalSavedTokens).toBeGreaterThan(stats.lastSavedTokens);
+    expect(stats.lastSavedTokens).toBeGreaterThan(0);
+  });
+
+  test('keeps track of the summarized turns while the store trims old events', async () => {
+    process.env.COMPACTION_MAX_TURNS = '3';
+    process.env.COMPACTION_KEEP_TURNS = '2';
+    // Two events per turn: the store keeps the last four turns
+    const sessionService = new SqliteSessionService({ path: ':memory:', maxEventsPerSession: 8 });
+    const { model, send, state } = await startConversation(
+      { steps: [{ responses: [{ text: 'Noted.' }] }] },
+      createPersonalFinanceAgent,
+      sessionService as unknown as Runner['sessionService']
+    );
+    delete process.env.COMPACTION_MAX_TURNS;
+    delete process.env.COMPACTION_KEEP_TURNS;
+
+    const messages = ['Note alpha', 'Note bravo', 'Note charlie', 'Note delta', 'Note echo', 'Note foxtrot', 'Note golf', 'Note hotel'];
+    try {
+      for (const [index, message] of messages.entries()) {
+        await send(message);
+        sessionService.cleanup();
+
+        // Every turn so far is either summarized or sent verbatim, never both
+        const sent = JSON.stringify(model.requests[model.requests.length - 1].contents);
+        const summary = JSON.stringify(readStateRecord(await state(), 'conversationSummary'));
+        for (const note of messages.slice(0, index + 1)) {
+          expect([note, summary.includes(note) !== sent.includes(note)]).toEqual([note, true]);
+        }
+      }
+
+      // Each turn is summarized once, in order, including ones the store has trimmed since
+      const summary = readStateRecord(await state(), 'conversationSummary');
+      expect(summary.length).toBeGreaterThan(0);
+      expect(summary).toEqual(messages.slice(0, summary.length).map((note, index) => `Turn ${index + 1} - user: "${note}"; reply: "Noted."`));
+      expect(readStateRecord(await state(), 'contextCompaction').summarizedTurns).toBe(summary.length);
+    } finally {
+      sessionService.close();
+    }
+  });
+});
@@ -0,0 +1,205 @@
+/**
+ * Rolling Conversation Compaction
+ *
+ * ADK sends an agent the whole session history on every model call, so a long
+ * budgeting session gets slower and more expensive with every turn. Once the
+ * history passes a turn or token threshold, older turns are folded into the
+ * session's `conversationSummary` and only the summary plus the recent turns
+ * are sent:
+ *
+ *   system instruction + summary   "Turn 1 - user: "Analyze my January..." ..."
+ *   recent turns                    the last COMPACTION_KEEP_TURNS turns, verbatim
+ *
+ * Summaries are one line per turn (the request, the tools used and the reply),
+ * built without a model call. Numbers are not the summary's job: analysis,
+ * budgets and goals stay in session state, where the tools read them.
+ *
+ * The summary is written once and reused by every agent of the team, so
+ * later calls only summarize the turns that newly fall out of the window.
+ * Which turns it covers is kept as the event id of the last summarized user
+ * message, not a count: a session store that trims old events (see
+ * SESSION_MAX_EVENTS) drops turns from the start of the history, which
+ * shifts every position but no id.
+ * Estimated token savings are kept per session in `contextCompaction`.
+ *
+ * Configuration (environment):
+ *   COMPACTION_MAX_TURNS    Turns sent verbatim before compacting (default 12)
+ *   COMPACTION_MAX_TOKENS   Estimated tokens sent verbatim before compacting (default 16000)
+ *   COMPACTION_KEEP_TURNS   Recent turns kept verbatim after compacting (default 4)
+ *
+ * Key Learning: a before-model callback can rewrite `request.contents`, which
+ * changes what the model sees without touching the stored session events.
+ */
+
+import type { Event, LlmRequest, SingleBeforeModelCallback } from '@google/adk';
+import { contentTexts, estimateTokens, splitTurns } from './conversation-turns';
+import { getSessionValue, setSessionValue } from './session-state';
+
+type Content = LlmRequest['contents'][number];
+
+const SUMMARY_TEXT_LIMIT = 160;
+
+export interface CompactionConfig {
+  /** Compact once more turns than this would be sent verbatim */
+  maxTurns: number;
+  /** Compact once the verbatim turns pass this many estimated tokens */
+  maxTokens: number;
+  /** Turns kept verbatim after compacting, including the current one */
+  keepTurns: number;
+}
+
+export interface CompactionStats {
+  /** Turns folded into `conversationSummary` */
+  summarizedTurns: number;
+  /** Event id of the user message that started the last summarized turn */
+  summarizedThrough: string | null;
+  /** Model requests sent with older turns replaced by the summary */
+  compactedRequests: number;
+  /** Estimated tokens saved on the latest compacted request */
+  lastSavedTokens: number;
+  /** Estimated tokens saved over the whole session */
+  totalSavedTokens: number;
+}
+
+function readCount(name: string, fallback: number, minimum: number): number {
+  const raw = process.env[name];
+  if (raw === undefined || raw === '') return fallback;
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < minimum) {
+    throw new Error(`${name} must be an integer of at least ${minimum}, got "${raw}"`);
+  }
+  return value;
+}
+
+/**
+ * Read the compaction thresholds from the environment
+ */
+export function compactionConfigFromEnv(): CompactionConfig {
+  return {
+    maxTurns: readCount('COMPACTION_MAX_TURNS', 12, 1),
+    maxTokens: readCount('COMPACTION_MAX_TOKENS', 16000, 1),
+    keepTurns: readCount('COMPACTION_KEEP_TURNS', 4, 1),
+  };
+}
+
+/**
+ * The event that started each turn of a request: the session's user messages,
+ * matched from the end, as a trimmed history loses its oldest turns
+ */
+function turnStartIds(events: Event[], turnCount: number): (string | undefined)[] {
+  const starts = events
+    .filter((event) => event.author === 'user' && event.content && contentTexts(event.content).length > 0)
+    .map((event) => event.id);
+  return Array.from({ length: turnCount }, (_, index) => starts[starts.length - turnCount + index]);
+}
+
+/**
+ * How many leading turns, at most `limit`, were summarized. When the last
+ * summarized turn is no longer in the request, the store trimmed it along
+ * with everything before it, so none of the turns left were.
+ */
+function countSummarized(startIds: (string | undefined)[], through: string | null, limit: number): number {
+  const last = through === null ? -1 : startIds.indexOf(through);
+  return Math.min(last + 1, limit);
+}
+
+function clip(text: string): string {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  return flat.length > SUMMARY_TEXT_LIMIT ? `${flat.slice(0, SUMMARY_TEXT_LIMIT - 1)}…` : flat;
+}
+
+/**
+ * One summary line: what the user asked, which tools ran and how the turn ended
+ */
+export function summarizeTurn(turn: Content[], turnNumber: number): string {
+  const [request, ...rest] = turn;
+  const tools: string[] = [];
+  let reply = '';
+
+  for (const content of rest) {
+    for (const part of content.parts ?? []) {
+      if (part.functionCall?.name) {
+        tools.push(part.functionCall.name);
+      }
+    }
+    for (const text of contentTexts(content)) {
+      const foreignCall = text.match(/^\[[^\]]+\] called tool `([^`]+)`/);
+      const foreignReply = text.match(/^\[[^\]]+\] said: ([\s\S]*)$/);
+      if (foreignCall) {
+        tools.push(foreignCall[1]);
+      } else if (foreignReply) {
+        reply = foreignReply[1];
+      } else if (content.role === 'model') {
+        reply = text;
+      }
+    }
+  }
+
+  const toolNames = [...new Set(tools.filter((name) => name !== 'transfer_to_agent'))];
+  return [
+    `Turn ${turnNumber} - user: "${clip(contentTexts(request).join(''))}"`,
+    toolNames.length > 0 ? `tools: ${toolNames.join(', ')}` : undefined,
+    reply.trim() ? `reply: "${clip(reply)}"` : undefined,
+  ].filter(Boolean).join('; ');
+}
+
+function summaryInstruction(summary: string[]): string {
+  return [
+    'Earlier turns of this conversation were summarized to save space:',
+    ...summary.map((line) => `- ${line}`),
+    'Analysis results, budgets and goals from those turns are still stored; use the tools for exact figures.',
+  ].join('\n');
+}
+
+/**
+ * A before-model callback that keeps each request to the summary plus the
+ * recent turns
+ */
+export function createConversationCompactor(config: CompactionConfig = compactionConfigFromEnv()): SingleBeforeModelCallback {
+  return ({ context, request }) => {
+    const { preamble, turns } = splitTurns(request.contents);
+    const startIds = turnStartIds(context.invocationContext.session.events, turns.length);
+    const stats = getSessionValue(context, 'contextCompaction');
+    let summary = getSessionValue(context, 'conversationSummary');
+    let summarizedThrough = stats.summarizedThrough ?? null;
+
+    // Turns summarized earlier are never sent again; the current turn always is
+    let summarized = countSummarized(startIds, summarizedThrough, turns.length - 1);
+    const verbatim = turns.slice(summarized);
+    if (verbatim.length > config.maxTurns || estimateTokens(verbatim) > config.maxTokens) {
+      const compactTo = Math.max(turns.length - config.keepTurns, summarized);
+      const lastStart = startIds[compactTo - 1];
+      if (compactTo > summarized && lastStart !== undefined) {
+        const newLines = turns
+          .slice(summarized, compactTo)
+          .map((turn, index) => summarizeTurn(turn, summary.length + index + 1));
+        summary = [...summary, ...newLines];
+        summarizedThrough = lastStart;
+        summarized = compactTo;
+        setSessionValue(context, 'conversationSummary', summary);
+      }
+    }
+    // Summarized turns the store has since trimmed still count
+    if (summary.length === 0) {
+      return undefined;
+    }
+
+    const instruction = summaryInstruction(summary);
+    const savedTokens = Math.max(0, estimateTokens(turns.slice(0, summarized)) - estimateTokens(instruction));
+    request.contents = [...preamble, ...turns.slice(summarized).flat()];
+    const existing = request.config?.systemInstruction;
+    request.config = {
+      ...request.config,
+      systemInstruction: typeof existing === 'string' && existing ? `${existing}\n\n${instruction}` : instruction,
+    };
+
+    setSessionValue(context, 'contextCompaction', {
+      summarizedTurns: summary.length,
+      summarizedThrough,
+      compactedRequests: stats.compactedRequests + 1,
+      lastSavedTokens: savedTokens,
+      totalSavedTokens: stats.totalSavedTokens + savedTokens,
+    });
+    return undefined;
+  };
+}
@@ -0,0 +1,59 @@
+/**
+ * Conversation Turns
+ *
+ * Helpers for reading the history ADK sends with every model request. The
+ * scripted model uses them to find the turn it is answering, and conversation
+ * compaction uses them to decide which turns to summarize, so both agree on
+ * where a turn starts:
+ * - A turn starts at a user message with text
+ * - Function responses come back with role "user" too, but continue the turn
+ * - What other agents of a team said arrives as a "For context:" user
+ *   message and continues the turn as well
+ *
+ * Key Learning: ADK rebuilds `request.contents` from the session events for
+ * each call, so a turn is a view over the history, not something it stores.
+ */
+
+import type { LlmRequest } from '@google/adk';
+
+// Typed through ADK: its @google/genai copy can differ from the project's
+type Content = LlmRequest['contents'][number];
+
+/** How ADK shows one agent what another agent of the team did */
+const FOREIGN_EVENT_PREFIX = 'For context:';
+
+/**
+ * Rough, deterministic token estimate (about 4 characters per token)
+ */
+export function estimateTokens(value: unknown): number {
+  return Math.ceil(JSON.stringify(value ?? '').length / 4);
+}
+
+/**
+ * The visible text parts of a content, leaving out the model's thoughts
+ */
+export function contentTexts(content: Content): string[] {
+  return (content.parts ?? [])
+    .filter((part) => part.text !== undefined && !part.thought)
+    .map((part) => part.text as string);
+}
+
+/**
+ * Group a request's history into turns, each starting at a user message.
+ * Contents before the first user message are returned as the preamble.
+ */
+export function splitTurns(contents: Content[]): { preamble: Content[]; turns: Content[][] } {
+  const preamble: Content[] = [];
+  const turns: Content[][] = [];
+  for (const content of contents) {
+    const texts = contentTexts(content);
+    if (content.role === 'user' && texts.length > 0 && texts[0] !== FOREIGN_EVENT_PREFIX) {
+      turns.push([content]);
+    } else if (turns.length > 0) {
+      turns[turns.length - 1].push(content);
+    } else {
+      preamble.push(content);
+    }
+  }
+  return { preamble, turns };
+}
@@ -0,0 +1,171 @@
+import { describe, expect, test } from 'bun:test';
+import { createEvent, createEventActions } from '@google/adk';
+import { createBudgetCoachAgent, createSimpleFinanceAgent } from './agent';
+import { BudgetAlertMonitor, InMemoryAlertInbox } from './budget-alerts';
+import { loadModelScript } from './scripted-model';
+import { stateDelta } from './session-state';
+import { TEST_APP_NAME, TEST_USER_ID, startConversation } from './test-support';
+
+const DEMO_TURNS = [
+  'Please analyze these transactions: date: 2024-01-15, description: grocery shopping, amount: 150, category: groceries; date: 2024-01-16, description: restaurant dinner, amount: 85, category: dining. Use the analyze_transactions tool to process this data.',
+  'Based on the analysis you just did, which category did I spend the most in?',
+  'Please set a budget goal of $200 for dining out using the set_budget_goal tool.',
+  "Using the calculate_budget_status tool, check how I'm doing against my $200 dining budget with $85 spent.",
+  'Use the generate_spending_report tool to create a comprehensive report with recommendations.',
+];
+
+function toolNames(events: { type: string; name?: string }[]): string[] {
+  return events.filter((event) => event.type === 'tool_call').map((event) => event.name as string);
+}
+
+describe('multi-turn conversation', () => {
+  test('remembers analysis and budget goals across the five demo turns', async () => {
+    const conversation = await startConversation(loadModelScript('./scripted-conversation.json'));
+
+    const turns = [];
+    for (const message of DEMO_TURNS) {
+      turns.push(await conversation.send(message));
+    }
+
+    expect(turns.map((turn) => toolNames(turn.events))).toEqual([
+      ['analyze_transactions'],
+      [],
+      ['set_budget_goal'],
+      ['calculate_budget_status'],
+      ['generate_spending_report'],
+    ]);
+
+    // The coordinator hands every turn to the matching specialist
+    expect(turns.map((turn) => turn.agent)).toEqual([
+      'transaction_analyst',
+      'transaction_analyst',
+      'budget_coach',
+      'budget_coach',
+      'report_writer',
+    ]);
+    expect(turns[2].events).toContainEqual({ type: 'agent_transfer', from: 'personal_finance_advisor', to: 'budget_coach' });
+
+    // The follow-up question is answered without re-analyzing
+    expect(turns[1].text).toContain('groceries');
+
+    // Later turns see what earlier turns stored
+    expect(turns[3].toolResults.calculate_budget_status).toMatchObject({ budget_status: 'on_track', percentage_used: 42.5 });
+    expect(turns[4].toolResults.generate_spending_report.report).toContain('✓ dining: 42.5% of budget used');
+
+    const state = await conversation.state();
+    expect(state.transactionAnalysis).toBeDefined();
+    expect(state.budgetGoals).toHaveLength(1);
+  });
+
+  test('every turn ends with turn_complete and reports token usage', async () => {
+    const conversation = await startConversation(loadModelScript('./scripted-conversation.json'));
+    const turn = await conversation.send(DEMO_TURNS[0]);
+    const last = turn.events[turn.events.length - 1];
+
+    expect(last.type).toBe('turn_complete');
+    if (last.type === 'turn_complete') {
+      expect(last.usage.totalTokens).toBeGreaterThan(0);
+    }
+  });
+
+  test('streams the reply once, without repeating the aggregated text', async () => {
+    const conversation = await startConversation(loadModelScript('./scripted-conversation.json'));
+    const turn = await conversation.send(DEMO_TURNS[1]);
+
+    expect(turn.text).toBe('Based on the analysis we just did, groceries was your biggest category at $150.00, followed by utilities at $120.00.');
+    expect(turn.events.filter((event) => event.type === 'text_delta').length).toBeGreaterThan(1);
+  });
+});
+
+describe('finance team', () => {
+  test('starts every turn at the coordinator, which answers general questions itself', async () => {
+    const conversation = await startConversation({
+      steps: [
+        { pattern: 'budget', agent: 'budget_coach', responses: [{ text: 'Your budgets look fine.' }] },
+        { responses: [{ text: 'I can analyze spending, coach budgets and write reports.' }] },
+      ],
+    });
+
+    expect((await conversation.send('How are my budgets?')).agent).toBe('budget_coach');
+    const general = await conversation.send('What can you do?');
+
+    expect(general.agent).toBe('personal_finance_advisor');
+    expect(general.events.map((event) => event.type)).not.toContain('agent_transfer');
+  });
+
+  test('runs a specialist on its own', async () => {
+    const conversation = await startConversation({ steps: [] }, createBudgetCoachAgent);
+    const result = await conversation.callTool('set_budget_goal', { category: 'dining', limit: 150 });
+
+    expect(result).toMatchObject({ status: 'success' });
+    expect(await conversation.state()).toMatchObject({ budgetGoals: [{ category: 'dining' }] });
+    expect(JSON.stringify(conversation.model.requests[0].config?.systemInstruction)).toContain('You are the budget coach');
+  });
+});
+
+describe('budget alerts', () => {
+  test('shows alerts queued since the last turn to the agent', async () => {
+    const conversation = await startConversation({ steps: [{ responses: [{ text: 'Heads up about dining.' }] }] });
+    const monitor = new BudgetAlertMonitor(new InMemoryAlertInbox(), {
+      webhookUrls: [], webhookSecret: '', maxAttempts: 1, retryBaseMs: 0, cooldownMinutes: 60,
+    });
+    const goals = [{ category: 'dining', limit: { amountMinor: 10000, currency: 'USD' }, setAt: '2024-01-01T00:00:00.000Z' }];
+    const transactions = [{ date: '2024-01-10', description: 'restaurant', amount: { amountMinor: 9000, currency: 'USD' }, category: 'dining' }];
+
+    const alerts = monitor.check(TEST_USER_ID, conversation.sessionId, goals, transactions, { asOf: '2024-01-20' });
+    expect(alerts.map((alert) => alert.message)).toEqual(['⚠️ dining has used 90% of its $100.00 budget (2024-01-01 to 2024-01-31)']);
+    // Checking the same budget again does not repeat the alert
+    expect(monitor.check(TEST_USER_ID, conversation.sessionId, goals, transactions, { asOf: '2024-01-20' })).toEqual([]);
+
+    const session = await conversation.runner.sessionService.getSession({
+      appName: TEST_APP_NAME, userId: TEST_USER_ID, sessionId: conversation.sessionId,
+    });
+    if (!session) {
+      throw new Error('Session not found');
+    }
+    await conversation.runner.sessionService.appendEvent({
+      session,
+      event: createEvent({ author: 'user', actions: createEventActions({ stateDelta: stateDelta({ pendingAlerts: alerts }) }) }),
+    });
+    await conversation.send('hello');
+
+    expect(JSON.stringify(conversation.model.requests[0].config?.systemInstruction)).toContain('⚠️ dining has used 90%');
+  });
+});
+
+describe('scripted model', () => {
+  test('matches steps by turn number', async () => {
+    const conversation = await startConversation({
+      steps: [
+        { turn: 2, responses: [{ text: 'second' }] },
+        { turn: 1, responses: [{ text: 'first' }] },
+      ],
+    });
+
+    expect((await conversation.send('hello')).text).toBe('first');
+    expect((await conversation.send('hello again')).text).toBe('second');
+  });
+
+  test('reports an error event when no step matches', async () => {
+    const conversation = await startConversation({ steps: [{ pattern: 'budget', responses: [{ text: 'ok' }] }] });
+    const turn = await conversation.send('something else');
+
+    expect(turn.events).toContainEqual(expect.objectContaining({ type: 'error', code: 'model_error' }));
+  });
+
+  test('drives the simple agent too', async () => {
+    const conversation = await startConversation({
+      steps: [{
+        responses: [
+          { functionCalls: [{ name: 'analyze_transactions', args: { transactions: [{ date: '2024-01-01', description: 'coffee', amount: 4, category: 'dining' }] } }] },
+          { text: 'You spent $4.00 on dining.' },
+        ],
+      }],
+    }, createSimpleFinanceAgent);
+    const turn = await conversation.send('Here is my coffee receipt');
+
+    expect(turn.toolResults.analyze_transactions).toMatchObject({ status: 'success', total_spent: 4 });
+    expect(turn.text).toBe('You spent $4.00 on dining.');
+    expect(conversation.model.requests[0].config?.systemInstruction).toBeDefined();
+  });
+});
@@ -0,0 +1,73 @@
+/**
+ * Calendar Dates
+ *
+ * Transactions, budget periods and payment schedules all use plain
+ * YYYY-MM-DD strings. These helpers do calendar arithmetic on them in UTC,
+ * so results never shift with the server's time zone:
+ * - Strict validation of ISO dates coming from the model or the API
+ * - Day and month arithmetic (month ends are clamped, e.g. Jan 31 + 1 month = Feb 29)
+ * - Week and month boundaries for budget periods
+ *
+ * Key Learning: A date without a time is a calendar day, not an instant -
+ * keep it as a string and only go through Date for arithmetic.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Is this a real calendar date written as YYYY-MM-DD?
+ */
+export function isIsoDate(value: string): boolean {
+  if (!ISO_DATE.test(value)) {
+    return false;
+  }
+  const date = new Date(`${value}T00:00:00Z`);
+  return !Number.isNaN(date.getTime()) && date.toISOString().slice(0, 10) === value;
+}
+
+/**
+ * Today's date in UTC
+ */
+export function todayIso(now: Date = new Date()): string {
+  return now.toISOString().slice(0, 10);
+}
+
+/**
+ * Days since the Unix epoch, for comparing and subtracting dates
+ */
+export function dayNumber(date: string): number {
+  return Math.round(Date.parse(`${date}T00:00:00Z`) / DAY_MS);
+}
+
+export function daysBetween(from: string, to: string): number {
+  return dayNumber(to) - dayNumber(from);
+}
+
+export function addDays(date: string, days: number): string {
+  return new Date(Date.parse(`${date}T00:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+/**
+ * Add whole months, clamping to the end of shorter months
+ */
+export function addMonths(date: string, months: number): string {
+  const [year, month, day] = date.split('-').map(Number);
+  const target = new Date(Date.UTC(year, month - 1 + months, 1));
+  const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+  target.setUTCDate(Math.min(day, lastDay));
+  return target.toISOString().slice(0, 10);
+}
+
+/**
+ * Monday of the week containing the date
+ */
+export function startOfWeek(date: string): string {
+  const weekday = new Date(`${date}T00:00:00Z`).getUTCDay();
+  return addDays(date, -((weekday + 6) % 7));
+}
+
+export function startOfMonth(date: string): string {
+  return `${date.slice(0, 7)}-01`;
+}
@@ -0,0 +1,86 @@
+/**
+ * Structured JSON Logging
+ *
+ * One JSON object per line, so logs can be searched and shipped without
+ * parsing free text:
+ *
+ *   {"time":"2026-01-31T10:00:00.000Z","level":"info","component":"server","msg":"Turn complete",
+ *    "sessionId":"s1","totalTokens":671,"traceId":"4bf9...","spanId":"00f0..."}
+ *
+ * Lines written inside a span carry its trace and span ids, which ties a log
+ * line to the request, turn or tool call it came from.
+ *
+ * Configured through environment variables:
+ *   LOG_LEVEL=info   (debug, info, warn, error)
+ */
+
+import { trace } from '@opentelemetry/api';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+const LOG_LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error'];
+
+export type LogFields = Record<string, unknown>;
+
+export interface Logger {
+  debug(msg: string, fields?: LogFields): void;
+  info(msg: string, fields?: LogFields): void;
+  warn(msg: string, fields?: LogFields): void;
+  error(msg: string, fields?: LogFields): void;
+  /** A logger that adds `fields` to every line */
+  child(fields: LogFields): Logger;
+}
+
+export interface LoggerOptions {
+  level?: LogLevel;
+  /** Receives each formatted line; by default stdout (stderr for warn and error) */
+  write?: (line: string, level: LogLevel) => void;
+}
+
+export function logLevelFromEnv(): LogLevel {
+  const level = process.env.LOG_LEVEL?.toLowerCase();
+  return LOG_LEVELS.includes(level as LogLevel) ? level as LogLevel : 'info';
+}
+
+function writeLine(line: string, level: LogLevel) {
+  (level === 'warn' || level === 'error' ? process.stderr : process.stdout).write(`${line}\n`);
+}
+
+/**
+ * Errors do not serialize to JSON on their own
+ */
+function serializeField(value: unknown): unknown {
+  if (value instanceof Error) {
+    return { name: value.name, message: value.message, stack: value.stack };
+  }
+  return value;
+}
+
+export function createLogger(component: string, options: LoggerOptions = {}, bound: LogFields = {}): Logger {
+  const minimum = LOG_LEVELS.indexOf(options.level ?? logLevelFromEnv());
+  const write = options.write ?? writeLine;
+
+  function log(level: LogLevel, msg: string, fields: LogFields = {}) {
+    if (LOG_LEVELS.indexOf(level) < minimum) {
+      return;
+    }
+    const record: LogFields = { time: new Date().toISOString(), level, component, msg };
+    for (const [key, value] of Object.entries({ ...bound, ...fields })) {
+      record[key] = serializeField(value);
+    }
+    const spanContext = trace.getActiveSpan()?.spanContext();
+    if (spanContext) {
+      record.traceId = spanContext.traceId;
+      record.spanId = spanContext.spanId;
+    }
+    write(JSON.stringify(record), level);
+  }
+
+  return {
+    debug: (msg, fields) => log('debug', msg, fields),
+    info: (msg, fields) => log('info', msg, fields),
+    warn: (msg, fields) => log('warn', msg, fields),
+    error: (msg, fields) => log('error', msg, fields),
+    child: (fields) => createLogger(component, options, { ...bound, ...fields }),
+  };
+}
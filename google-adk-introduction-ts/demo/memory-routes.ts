@@ -0,0 +1,78 @@
+/**
+ * Long-Term Memory Routes
+ *
+ * What the agent remembers about a user across sessions (see user-memory.ts):
+ *
+ *   GET    /memory?kind=&q=        The caller's memories, newest first or best match first (paginated)
+ *   DELETE /memory/:memoryId       Forget one memory
+ *   DELETE /memory                 Forget everything
+ *
+ * Forgetting stops an entry being loaded into new sessions; sessions that
+ * already hold it keep their state. Custom categories (with their rules) and
+ * preferences are shared by all of a user's sessions, so the next new session
+ * clears them for every session.
+ *
+ * Behind authentication, `userId` may be omitted; naming another user is a 403.
+ */
+
+import { Hono } from 'hono';
+import { apiError, paginate, readPageParams } from './api-response';
+import { AuthEnv, requireUserId } from './auth';
+import { MEMORY_KINDS, MemoryKind, UserMemory, UserMemoryStore } from './user-memory';
+
+/** Enough to page through every match of a search */
+const MAX_SEARCH_RESULTS = 500;
+
+/**
+ * An entry as clients see it: placeholders only, without the raw values behind them
+ */
+function withoutPii({ pii: _pii, ...memory }: UserMemory): Omit<UserMemory, 'pii'> {
+  return memory;
+}
+
+export function createMemoryRoutes(store: UserMemoryStore) {
+  const routes = new Hono<AuthEnv>();
+
+  routes.get('/', (c) => {
+    const page = readPageParams(c);
+    if (!page) {
+      return apiError(c, 400, 'invalid_pagination', '"limit" must be a positive integer and "offset" a non-negative integer');
+    }
+    const kind = c.req.query('kind');
+    if (kind !== undefined && !MEMORY_KINDS.includes(kind as MemoryKind)) {
+      return apiError(c, 400, 'invalid_request', `"kind" must be one of ${MEMORY_KINDS.join(', ')}`);
+    }
+    const userId = requireUserId(c, c.req.query('userId'));
+    if (userId instanceof Response) {
+      return userId;
+    }
+
+    const query = c.req.query('q');
+    const memories = query
+      ? store.search(userId, query, MAX_SEARCH_RESULTS).filter((memory) => !kind || memory.kind === kind)
+      : store.list(userId, kind as MemoryKind | undefined);
+    return c.json(paginate(memories.map(withoutPii), page.limit, page.offset));
+  });
+
+  routes.delete('/:memoryId', (c) => {
+    const userId = requireUserId(c, c.req.query('userId'));
+    if (userId instanceof Response) {
+      return userId;
+    }
+    const memoryId = c.req.param('memoryId');
+    if (!store.forget(userId, memoryId)) {
+      return apiError(c, 404, 'memory_not_found', `Memory ${memoryId} not found`);
+    }
+    return c.body(null, 204);
+  });
+
+  routes.delete('/', (c) => {
+    const userId = requireUserId(c, c.req.query('userId'));
+    if (userId instanceof Response) {
+      return userId;
+    }
+    return c.json({ forgotten: store.forgetAll(userId) });
+  });
+
+  return routes;
+}
@@ -0,0 +1,204 @@
+/**
+ * Money with Exact Arithmetic
+ *
+ * Amounts are stored as integer minor units (cents, LKR cents) together with
+ * an ISO 4217 currency code, so sums never pick up float rounding errors:
+ * - Arithmetic only combines amounts of the same currency
+ * - Conversion goes through an exchange-rate table loaded from a local file
+ * - Formatting uses Intl.NumberFormat for the user's locale
+ *
+ * Key Learning: Convert to minor units once at the boundary (tool input,
+ * file import) and keep everything integer until it is displayed.
+ */
+
+import { readFileSync } from 'fs';
+import { join } from 'path';
+
+export interface Money {
+  /** Amount in the currency's minor unit, e.g. cents */
+  amountMinor: number;
+  /** ISO 4217 currency code, e.g. "USD", "LKR", "EUR" */
+  currency: string;
+}
+
+/**
+ * Exchange rates relative to a base currency: 1 base = rates[code] code
+ */
+export interface ExchangeRateTable {
+  base: string;
+  rates: Record<string, number>;
+  asOf?: string;
+}
+
+export const DEFAULT_CURRENCY = 'USD';
+
+export const DEFAULT_LOCALE = 'en-US';
+
+/**
+ * Raised for invalid currencies, mixed-currency arithmetic or missing rates
+ */
+export class MoneyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MoneyError';
+  }
+}
+
+/**
+ * Normalize and validate the shape of an ISO 4217 currency code.
+ * Whether the currency can be used is decided by the exchange-rate table.
+ */
+export function normalizeCurrency(currency: string): string {
+  const code = currency.trim().toUpperCase();
+  if (!/^[A-Z]{3}$/.test(code)) {
+    throw new MoneyError(`Invalid currency code "${currency}"`);
+  }
+  return code;
+}
+
+/**
+ * Number of minor-unit digits for a currency (2 for USD/LKR/EUR, 0 for JPY)
+ */
+export function minorDigits(currency: string): number {
+  return new Intl.NumberFormat('en', { style: 'currency', currency }).resolvedOptions().maximumFractionDigits ?? 2;
+}
+
+/**
+ * Round half away from zero, so -0.5 and 0.5 behave symmetrically
+ */
+function roundHalfAway(value: number): number {
+  // toPrecision strips float noise such as 1.005 * 100 = 100.49999999999999
+  const cleaned = Number(value.toPrecision(15));
+  return Math.sign(cleaned) * Math.round(Math.abs(cleaned));
+}
+
+/**
+ * Create money from a major-unit amount such as 12.34
+ */
+export function money(amount: number, currency: string = DEFAULT_CURRENCY): Money {
+  const code = normalizeCurrency(currency);
+  return { amountMinor: roundHalfAway(amount * 10 ** minorDigits(code)), currency: code };
+}
+
+/**
+ * Zero in the given currency
+ */
+export function zeroMoney(currency: string = DEFAULT_CURRENCY): Money {
+  return { amountMinor: 0, currency: normalizeCurrency(currency) };
+}
+
+/**
+ * Major-unit number for display or model-facing output (e.g. 12.34)
+ */
+export function toMajor(value: Money): number {
+  return value.amountMinor / 10 ** minorDigits(value.currency);
+}
+
+function assertSameCurrency(a: Money, b: Money): void {
+  if (a.currency !== b.currency) {
+    throw new MoneyError(`Cannot combine ${a.currency} and ${b.currency} amounts without conversion`);
+  }
+}
+
+export function addMoney(a: Money, b: Money): Money {
+  assertSameCurrency(a, b);
+  return { amountMinor: a.amountMinor + b.amountMinor, currency: a.currency };
+}
+
+export function subtractMoney(a: Money, b: Money): Money {
+  assertSameCurrency(a, b);
+  return { amountMinor: a.amountMinor - b.amountMinor, currency: a.currency };
+}
+
+export function sumMoney(values: Money[], currency: string): Money {
+  return values.reduce(addMoney, zeroMoney(currency));
+}
+
+export function compareMoney(a: Money, b: Money): number {
+  assertSameCurrency(a, b);
+  return a.amountMinor - b.amountMinor;
+}
+
+export function absMoney(value: Money): Money {
+  return { amountMinor: Math.abs(value.amountMinor), currency: value.currency };
+}
+
+/**
+ * Share of `part` in `whole` as a percentage (same currency)
+ */
+export function percentageOf(part: Money, whole: Money): number {
+  assertSameCurrency(part, whole);
+  return whole.amountMinor === 0 ? 0 : (part.amountMinor / whole.amountMinor) * 100;
+}
+
+/**
+ * Format money for display, e.g. "$1,234.50", "LKR 1,234.50" or "1.234,50 €"
+ */
+export function formatMoney(value: Money, locale: string = DEFAULT_LOCALE): string {
+  return new Intl.NumberFormat(locale, { style: 'currency', currency: value.currency }).format(toMajor(value));
+}
+
+/**
+ * Load an exchange-rate table from a JSON file.
+ *
+ * The default file is `exchange-rates.json` next to this module; set
+ * EXCHANGE_RATES_FILE to use another one.
+ */
+export function loadExchangeRates(
+  path: string = process.env.EXCHANGE_RATES_FILE ?? join(__dirname, 'exchange-rates.json')
+): ExchangeRateTable {
+  const raw = JSON.parse(readFileSync(path, 'utf-8')) as Partial<ExchangeRateTable>;
+  if (!raw.base || !raw.rates || typeof raw.rates !== 'object') {
+    throw new MoneyError(`Exchange-rate file ${path} must contain "base" and "rates"`);
+  }
+
+  const base = normalizeCurrency(raw.base);
+  const rates: Record<string, number> = { [base]: 1 };
+  for (const [code, rate] of Object.entries(raw.rates)) {
+    if (typeof rate !== 'number' || rate <= 0) {
+      throw new MoneyError(`Exchange rate for ${code} must be a positive number`);
+    }
+    rates[normalizeCurrency(code)] = rate;
+  }
+
+  return { base, rates, asOf: raw.asOf };
+}
+
+let cachedRates: ExchangeRateTable | null = null;
+
+/**
+ * The exchange-rate table used by the tools, loaded once on first use
+ */
+export function getExchangeRates(): ExchangeRateTable {
+  if (!cachedRates) {
+    cachedRates = loadExchangeRates();
+  }
+  return cachedRates;
+}
+
+/**
+ * Replace the exchange-rate table used by the tools (e.g. after reloading)
+ */
+export function setExchangeRates(table: ExchangeRateTable | null): void {
+  cachedRates = table;
+}
+
+/**
+ * Convert money into another currency via the table's base currency
+ */
+export function convertMoney(value: Money, to: string, table: ExchangeRateTable = getExchangeRates()): Money {
+  const target = normalizeCurrency(to);
+  if (value.currency === target) {
+    return value;
+  }
+
+  const fromRate = table.rates[value.currency];
+  const toRate = table.rates[target];
+  if (fromRate === undefined || toRate === undefined) {
+    const missing = fromRate === undefined ? value.currency : target;
+    throw new MoneyError(`No exchange rate for ${missing} in the rate table (base ${table.base})`);
+  }
+
+  const major = (toMajor(value) / fromRate) * toRate;
+  return { amountMinor: roundHalfAway(major * 10 ** minorDigits(target)), currency: target };
+}
@@ -0,0 +1,119 @@
+import { afterAll, describe, expect, test } from 'bun:test';
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { PiiVault, findPii, ibanValid, luhnValid, redactText, restoreText, restoreValue } from './pii-redaction';
+import { readStateRecord } from './session-state';
+import { startConversation } from './test-support';
+
+const CARD = '4111 1111 1111 1111';
+const IBAN = 'GB82 WEST 1234 5698 7654 32';
+
+describe('PII detection', () => {
+  test('finds checksummed cards and IBANs, emails and account numbers', () => {
+    const text = `Card ${CARD}, IBAN ${IBAN}, mail jo.doe@example.co.uk, Acct No: 12345678, ref 9876543210`;
+    expect(findPii(text).map(({ kind, value }) => [kind, value])).toEqual([
+      ['card', CARD],
+      ['iban', IBAN],
+      ['email', 'jo.doe@example.co.uk'],
+      ['account', '12345678'],
+      ['account', '9876543210'],
+    ]);
+  });
+
+  test('leaves dates, amounts and numbers that fail their checksum alone', () => {
+    expect(luhnValid('4111111111111112')).toBe(false);
+    expect(ibanValid('GB82 WEST 1234 5698 7654 33')).toBe(false);
+    expect(findPii('2024-01-15 grocery store $1,234.56 at 20240115 card 4111 1111 1111 1112')).toEqual([]);
+  });
+
+  test('gives a value the same placeholder however it is written, and restores it', () => {
+    const vault: PiiVault = {};
+    const first = redactText(`Paid with ${CARD} and 5500-0000-0000-0004`, vault);
+    const second = redactText('Refund to 4111111111111111', vault);
+
+    expect(first.text).toBe('Paid with [CARD_1] and [CARD_2]');
+    expect(second.text).toBe('Refund to [CARD_1]');
+    expect(vault).toEqual({ '[CARD_1]': CARD, '[CARD_2]': '5500-0000-0000-0004' });
+    expect(restoreText(first.text, vault)).toBe(`Paid with ${CARD} and 5500-0000-0000-0004`);
+    expect(restoreValue({ rows: [{ description: 'to [CARD_2] via [IBAN_9]' }] }, vault)).toEqual({
+      rows: [{ description: 'to 5500-0000-0000-0004 via [IBAN_9]' }],
+    });
+  });
+});
+
+describe('PII guardrail', () => {
+  const workDir = mkdtempSync(join(tmpdir(), 'finance-pii-'));
+  const auditPath = join(workDir, 'audit.jsonl');
+  afterAll(() => rmSync(workDir, { recursive: true, force: true }));
+
+  test('keeps raw values out of model requests and what tools store', async () => {
+    // The agents pick up the audit log when they are built
+    process.env.PII_AUDIT_LOG = auditPath;
+    const { model, send, callTool, state } = await startConversation({
+      steps: [{ pattern: 'my iban', responses: [{ text: 'Thanks, noted.' }] }],
+    });
+    delete process.env.PII_AUDIT_LOG;
+
+    await send(`My IBAN is ${IBAN} and I pay with ${CARD}`);
+    expect(readStateRecord(await state(), 'piiVault')).toEqual({ '[IBAN_1]': IBAN, '[CARD_1]': CARD });
+
+    // The model only knows the placeholders, and the tools store them as they are
+    await callTool('analyze_transactions', {
+      transactions: [
+        { date: '2024-01-15', description: 'Transfer to [IBAN_1]', amount: 50 },
+        { date: '2024-01-16', description: 'Zorblax paid by [CARD_1]', amount: 20 },
+        { date: '2024-01-17', description: 'Gift sent to shop@example.com', amount: 5 },
+      ],
+    });
+    expect(readStateRecord(await state(), 'transactions').map((tx) => tx.description)).toEqual([
+      'Transfer to [IBAN_1]',
+      'Zorblax paid by [CARD_1]',
+      // A value the model made up is redacted before the tool runs
+      'Gift sent to [EMAIL_1]',
+    ]);
+
+    const categorized = await callTool('categorize_transactions', { recategorize_all: true });
+    expect(JSON.stringify(categorized)).toContain('Zorblax paid by [CARD_1]');
+    expect(JSON.stringify(categorized)).not.toContain('4111');
+
+    for (const request of model.requests) {
+      const sent = JSON.stringify(request.contents);
+      expect(sent).not.toContain('4111');
+      expect(sent).not.toContain('GB82');
+    }
+
+    const audit = readFileSync(auditPath, 'utf8');
+    expect(audit).not.toContain('4111');
+    const entries = audit.trim().split('\n').map((line) => JSON.parse(line));
+    expect(entries).toContainEqual(expect.objectContaining({
+      source: 'model_request',
+      agent: 'personal_finance_advisor',
+      kind: 'iban',
+      placeholder: '[IBAN_1]',
+      occurrences: 1,
+    }));
+    expect(entries).toContainEqual(expect.objectContaining({
+      source: 'tool_args',
+      tool: 'analyze_transactions',
+      agent: 'transaction_analyst',
+      placeholder: '[EMAIL_1]',
+    }));
+  });
+
+  test('keeps a noted card number out of the system instruction', async () => {
+    const { model, send, callTool, state } = await startConversation({
+      steps: [{ responses: [{ text: 'Noted.' }] }],
+    });
+
+    await callTool('remember_note', { note: `Bills go on ${CARD}` });
+    expect(readStateRecord(await state(), 'userNotes')).toEqual(['Bills go on [CARD_1]']);
+    await send('What do you remember?');
+
+    const instructions = model.requests.map((request) => JSON.stringify(request.config?.systemInstruction));
+    expect(instructions.some((instruction) => instruction.includes('Bills go on [CARD_1]'))).toBe(true);
+    for (const instruction of instructions) {
+      expect(instruction).not.toContain('4111');
+    }
+  });
+});
@@ -0,0 +1,384 @@
+/**
+ * PII Redaction Guardrail
+ *
+ * Bank exports are full of card numbers, IBANs, account numbers and email
+ * addresses. None of them help the model understand spending, so the agents
+ * never see them:
+ *
+ *   "Refund to card 4111 1111 1111 1111"  ->  "Refund to card [CARD_1]"
+ *
+ * The guardrail runs on each agent's callbacks:
+ * - before every model call, the whole request (the system instruction, user
+ *   messages, tool calls and tool results in the history) is redacted
+ * - before every tool, its arguments are redacted, so tools only ever store
+ *   placeholders - in transactions, notes and long-term memory alike
+ * - after every tool, its result is redacted before it is stored or sent on
+ *
+ * The raw values live in the session's `piiVault` state only. The same value
+ * always gets the same placeholder within a session, so the model can still
+ * tell that two transactions were paid with the same card. `restoreValue`
+ * turns placeholders back where data leaves the server: report downloads.
+ *
+ * Every redaction is written to an audit log (kind and placeholder, never the
+ * raw value): a JSON Lines file when PII_AUDIT_LOG is set, otherwise the
+ * structured server log.
+ *
+ * Key Learning: callbacks see every model request and tool result, so one
+ * guardrail covers all tools - including ones added later.
+ */
+
+import type {
+  CallbackContext,
+  LlmRequest,
+  SingleAfterToolCallback,
+  SingleBeforeModelCallback,
+  SingleBeforeToolCallback,
+} from '@google/adk';
+import { appendFileSync } from 'fs';
+import { createLogger } from './logger';
+import { getSessionValue, setSessionValue } from './session-state';
+
+export type PiiKind = 'card' | 'iban' | 'account' | 'email';
+
+/** Placeholder -> raw value */
+export type PiiVault = Record<string, string>;
+
+export interface PiiMatch {
+  kind: PiiKind;
+  start: number;
+  end: number;
+  value: string;
+}
+
+export interface PiiRedaction {
+  kind: PiiKind;
+  placeholder: string;
+}
+
+export interface RedactionAuditEntry {
+  time: string;
+  userId: string;
+  sessionId: string;
+  invocationId: string;
+  agent: string;
+  /** Where the value was found: a model request, a tool's arguments or its result */
+  source: 'model_request' | 'tool_args' | 'tool_result';
+  tool?: string;
+  kind: PiiKind;
+  placeholder: string;
+  occurrences: number;
+}
+
+export type RedactionAuditSink = (entry: RedactionAuditEntry) => void;
+
+// ADK's own copy of @google/genai, which the request is typed against
+type Content = LlmRequest['contents'][number];
+type Part = NonNullable<Content['parts']>[number];
+
+const PLACEHOLDER_PREFIX: Record<PiiKind, string> = {
+  card: 'CARD',
+  iban: 'IBAN',
+  account: 'ACCOUNT',
+  email: 'EMAIL',
+};
+
+const PLACEHOLDER_PATTERN = /\[(CARD|IBAN|ACCOUNT|EMAIL)_\d+\]/g;
+
+const EMAIL_PATTERN = /[A-Za-z0-9._%+-]+@[A-Za-z0-9-]+(?:\.[A-Za-z0-9-]+)*\.[A-Za-z]{2,}/g;
+
+/** Compact ("GB82WEST12345698765432") or printed in groups of four */
+const IBAN_PATTERN = /\b[A-Z]{2}\d{2}(?:[A-Z0-9]{11,30}|(?: [A-Z0-9]{4}){2,7}(?: [A-Z0-9]{1,4})?)\b/g;
+
+/** 13-19 digits, optionally grouped with spaces or dashes */
+const CARD_PATTERN = /\b\d(?:[ -]?\d){12,18}\b/g;
+
+/** A number introduced as an account number; only the number is masked */
+const LABELLED_ACCOUNT_PATTERN = /\b(?:account|acct|acc|a\/c)\.?(?:\s*(?:no|number|num|nr)\.?)?\s*[:#]?\s*(\d(?:[ -]?\d){5,19})\b/gi;
+
+/** Long bare digit runs, longer than any date written without separators */
+const BARE_ACCOUNT_PATTERN = /\b\d{10,18}\b/g;
+
+/**
+ * Luhn checksum, which every payment card number satisfies
+ */
+export function luhnValid(digits: string): boolean {
+  let sum = 0;
+  for (let index = 0; index < digits.length; index++) {
+    let digit = Number(digits[digits.length - 1 - index]);
+    if (index % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) {
+        digit -= 9;
+      }
+    }
+    sum += digit;
+  }
+  return digits.length > 0 && sum % 10 === 0;
+}
+
+/**
+ * ISO 13616 check: move the first four characters to the end, turn letters
+ * into numbers (A=10 ... Z=35) and the result mod 97 must be 1
+ */
+export function ibanValid(iban: string): boolean {
+  const compact = iban.replace(/\s+/g, '').toUpperCase();
+  if (!/^[A-Z]{2}\d{2}[A-Z0-9]{11,30}$/.test(compact)) {
+    return false;
+  }
+  const rearranged = compact.slice(4) + compact.slice(0, 4);
+  let remainder = 0;
+  for (const char of rearranged) {
+    const value = char >= 'A' ? String(char.charCodeAt(0) - 55) : char;
+    for (const digit of value) {
+      remainder = (remainder * 10 + Number(digit)) % 97;
+    }
+  }
+  return remainder === 1;
+}
+
+function digitsOf(value: string): string {
+  return value.replace(/\D/g, '');
+}
+
+function candidates(text: string, pattern: RegExp, kind: PiiKind, group = 0): PiiMatch[] {
+  return [...text.matchAll(pattern)].map((match) => {
+    const value = match[group];
+    const start = match.index! + match[0].lastIndexOf(value);
+    return { kind, start, end: start + value.length, value };
+  });
+}
+
+/**
+ * Find sensitive values in a text, in order and without overlaps.
+ * Detectors run from the most to the least specific, so an IBAN is not also
+ * reported as an account number.
+ */
+export function findPii(text: string): PiiMatch[] {
+  const found = [
+    ...candidates(text, EMAIL_PATTERN, 'email'),
+    ...candidates(text, IBAN_PATTERN, 'iban').filter((match) => ibanValid(match.value)),
+    ...candidates(text, CARD_PATTERN, 'card').filter((match) => luhnValid(digitsOf(match.value))),
+    ...candidates(text, LABELLED_ACCOUNT_PATTERN, 'account', 1),
+    ...candidates(text, BARE_ACCOUNT_PATTERN, 'account'),
+  ];
+
+  const accepted: PiiMatch[] = [];
+  for (const match of found) {
+    if (!accepted.some((other) => match.start < other.end && other.start < match.end)) {
+      accepted.push(match);
+    }
+  }
+  return accepted.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * How values are compared, so "4111 1111 1111 1111" and "4111111111111111"
+ * share a placeholder
+ */
+function normalize(kind: PiiKind, value: string): string {
+  return kind === 'email' ? value.toLowerCase() : value.replace(/[\s-]/g, '').toUpperCase();
+}
+
+function kindOf(placeholder: string): PiiKind | undefined {
+  const prefix = placeholder.slice(1, placeholder.lastIndexOf('_'));
+  return (Object.keys(PLACEHOLDER_PREFIX) as PiiKind[]).find((kind) => PLACEHOLDER_PREFIX[kind] === prefix);
+}
+
+/**
+ * The placeholder for a value, adding it to the vault on first sight
+ */
+function placeholderFor(kind: PiiKind, value: string, vault: PiiVault): string {
+  const key = normalize(kind, value);
+  const entries = Object.entries(vault).filter(([placeholder]) => kindOf(placeholder) === kind);
+  const existing = entries.find(([, raw]) => normalize(kind, raw) === key);
+  if (existing) {
+    return existing[0];
+  }
+  const placeholder = `[${PLACEHOLDER_PREFIX[kind]}_${entries.length + 1}]`;
+  vault[placeholder] = value;
+  return placeholder;
+}
+
+/**
+ * Replace sensitive values with placeholders. New values are added to `vault`.
+ */
+export function redactText(text: string, vault: PiiVault): { text: string; redactions: PiiRedaction[] } {
+  const redactions: PiiRedaction[] = [];
+  let output = '';
+  let position = 0;
+  for (const match of findPii(text)) {
+    const placeholder = placeholderFor(match.kind, match.value, vault);
+    output += text.slice(position, match.start) + placeholder;
+    position = match.end;
+    redactions.push({ kind: match.kind, placeholder });
+  }
+  return { text: output + text.slice(position), redactions };
+}
+
+/**
+ * Swap placeholders back for their raw values; unknown placeholders stay
+ */
+export function restoreText(text: string, vault: PiiVault): string {
+  return text.replace(PLACEHOLDER_PATTERN, (placeholder) => vault[placeholder] ?? placeholder);
+}
+
+/**
+ * Redact every string in a JSON-like value
+ */
+export function redactValue<T>(value: T, vault: PiiVault, redactions: PiiRedaction[]): T {
+  if (typeof value === 'string') {
+    const result = redactText(value, vault);
+    redactions.push(...result.redactions);
+    return result.text as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => redactValue(item, vault, redactions)) as T;
+  }
+  if (typeof value === 'object' && value !== null) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, redactValue(item, vault, redactions)])
+    ) as T;
+  }
+  return value;
+}
+
+/**
+ * Restore every string in a JSON-like value
+ */
+export function restoreValue<T>(value: T, vault: PiiVault): T {
+  if (typeof value === 'string') {
+    return restoreText(value, vault) as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => restoreValue(item, vault)) as T;
+  }
+  if (typeof value === 'object' && value !== null) {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, restoreValue(item, vault)])) as T;
+  }
+  return value;
+}
+
+/**
+ * The part of a vault a JSON-like value refers to, e.g. to keep with it
+ * outside the session
+ */
+export function vaultFor(value: unknown, vault: PiiVault): PiiVault {
+  const placeholders = JSON.stringify(value).match(PLACEHOLDER_PATTERN) ?? [];
+  return Object.fromEntries(placeholders.filter((placeholder) => placeholder in vault).map((placeholder) => [placeholder, vault[placeholder]]));
+}
+
+/**
+ * A redacted copy of a message; the session's own events are left untouched
+ */
+function redactContent(content: Content, vault: PiiVault, redactions: PiiRedaction[]): Content {
+  const redactPart = (part: Part): Part => {
+    if (part.text !== undefined && !part.thought) {
+      return { ...part, text: redactValue(part.text, vault, redactions) };
+    }
+    if (part.functionCall) {
+      return { ...part, functionCall: { ...part.functionCall, args: redactValue(part.functionCall.args, vault, redactions) } };
+    }
+    if (part.functionResponse) {
+      return {
+        ...part,
+        functionResponse: { ...part.functionResponse, response: redactValue(part.functionResponse.response, vault, redactions) },
+      };
+    }
+    return part;
+  };
+  return { ...content, parts: content.parts?.map(redactPart) };
+}
+
+/**
+ * Audit entries as JSON Lines in PII_AUDIT_LOG, or in the structured log
+ */
+export function auditSinkFromEnv(): RedactionAuditSink {
+  const path = process.env.PII_AUDIT_LOG;
+  if (path) {
+    return (entry) => appendFileSync(path, `${JSON.stringify(entry)}\n`);
+  }
+  const logger = createLogger('pii-audit');
+  return (entry) => logger.info('PII redacted', { ...entry });
+}
+
+export interface PiiGuardrailOptions {
+  audit?: RedactionAuditSink;
+}
+
+/**
+ * Callbacks to spread into an LlmAgent's configuration
+ */
+export function createPiiGuardrail(options: PiiGuardrailOptions = {}) {
+  const audit = options.audit ?? auditSinkFromEnv();
+
+  /**
+   * Store new vault entries and write one audit entry per placeholder
+   */
+  function record(
+    context: CallbackContext,
+    vault: PiiVault,
+    redactions: PiiRedaction[],
+    source: RedactionAuditEntry['source'],
+    tool?: string
+  ) {
+    if (redactions.length === 0) {
+      return;
+    }
+    if (Object.keys(vault).length > Object.keys(getSessionValue(context, 'piiVault')).length) {
+      setSessionValue(context, 'piiVault', vault);
+    }
+
+    const { session } = context.invocationContext;
+    const occurrences = new Map<string, PiiRedaction & { occurrences: number }>();
+    for (const redaction of redactions) {
+      const entry = occurrences.get(redaction.placeholder) ?? { ...redaction, occurrences: 0 };
+      entry.occurrences++;
+      occurrences.set(redaction.placeholder, entry);
+    }
+    for (const { kind, placeholder, occurrences: count } of occurrences.values()) {
+      audit({
+        time: new Date().toISOString(),
+        userId: session.userId,
+        sessionId: session.id,
+        invocationId: context.invocationId,
+        agent: context.agentName,
+        source,
+        ...(tool ? { tool } : {}),
+        kind,
+        placeholder,
+        occurrences: count,
+      });
+    }
+  }
+
+  const beforeModelCallback: SingleBeforeModelCallback = ({ context, request }) => {
+    const vault = { ...getSessionValue(context, 'piiVault') };
+    const redactions: PiiRedaction[] = [];
+    request.contents = request.contents.map((content) => redactContent(content, vault, redactions));
+    // The instruction carries state too: the user's notes and budget alerts
+    if (request.config?.systemInstruction) {
+      request.config.systemInstruction = redactValue(request.config.systemInstruction, vault, redactions);
+    }
+    record(context, vault, redactions, 'model_request');
+    return undefined;
+  };
+
+  const beforeToolCallback: SingleBeforeToolCallback = ({ tool, args, context }) => {
+    // The callback can only replace a tool's result, so the arguments are redacted in place
+    const vault = { ...getSessionValue(context, 'piiVault') };
+    const redactions: PiiRedaction[] = [];
+    Object.assign(args, redactValue(args, vault, redactions));
+    record(context, vault, redactions, 'tool_args', tool.name);
+    return undefined;
+  };
+
+  const afterToolCallback: SingleAfterToolCallback = ({ tool, context, response }) => {
+    const vault = { ...getSessionValue(context, 'piiVault') };
+    const redactions: PiiRedaction[] = [];
+    const redacted = redactValue(response, vault, redactions);
+    record(context, vault, redactions, 'tool_result', tool.name);
+    return redactions.length > 0 ? redacted : undefined;
+  };
+
+  return { beforeModelCallback, beforeToolCallback, afterToolCallback };
+}
@@ -0,0 +1,33 @@
+import { describe, expect, test } from 'bun:test';
+import { Hono } from 'hono';
+import { createMiddleware } from 'hono/factory';
+import type { AuthEnv } from './auth';
+import { rateLimitMiddleware } from './rate-limit';
+
+describe('rate limiting', () => {
+  test('does not charge the user for a request the IP limit rejects', async () => {
+    const app = new Hono<AuthEnv>();
+    app.use('*', createMiddleware<AuthEnv>(async (c, next) => {
+      c.set('identity', { userId: c.req.header('X-User') ?? 'anonymous', provider: 'test' });
+      await next();
+    }));
+    app.use('*', rateLimitMiddleware({
+      user: { capacity: 2, refillPerMinute: 0 },
+      ip: { capacity: 1, refillPerMinute: 0 },
+      trustProxy: true,
+    }));
+    app.get('/', (c) => c.text('ok'));
+    const request = (ip: string) => app.request('/', { headers: { 'X-User': 'ana', 'X-Forwarded-For': ip } });
+
+    expect((await request('10.0.0.1')).status).toBe(200);
+    const rejected = await request('10.0.0.1');
+    expect(rejected.status).toBe(429);
+    expect(await rejected.json()).toMatchObject({ error: { details: { scope: 'ip' } } });
+
+    // The rejected request left the user's second token in place
+    const fromElsewhere = await request('10.0.0.2');
+    expect(fromElsewhere.status).toBe(200);
+    expect(fromElsewhere.headers.get('X-RateLimit-Remaining')).toBe('0');
+    expect((await request('10.0.0.3')).status).toBe(429);
+  });
+});
@@ -0,0 +1,204 @@
+/**
+ * Request Rate Limiting
+ *
+ * Token buckets keyed by user and by client IP. Each bucket holds up to
+ * `capacity` requests and refills continuously at `refillPerMinute`, so short
+ * bursts are allowed but a sustained flood is not.
+ *
+ * Configured through environment variables (0 disables a limit):
+ *   RATE_LIMIT_USER_CAPACITY=20   RATE_LIMIT_USER_PER_MINUTE=10
+ *   RATE_LIMIT_IP_CAPACITY=60     RATE_LIMIT_IP_PER_MINUTE=30
+ *   RATE_LIMIT_TRUST_PROXY=false  (use X-Forwarded-For for the client IP)
+ */
+
+import type { Context } from 'hono';
+import { createMiddleware } from 'hono/factory';
+import { getConnInfo } from 'hono/bun';
+import { apiError } from './api-response';
+import type { AuthEnv } from './auth';
+
+export interface BucketLimit {
+  /** Maximum burst size; 0 disables the limit */
+  capacity: number;
+  refillPerMinute: number;
+}
+
+export interface RateLimitConfig {
+  user: BucketLimit;
+  ip: BucketLimit;
+  trustProxy: boolean;
+}
+
+export interface TakeResult {
+  allowed: boolean;
+  remaining: number;
+  /** Seconds until one token is available again (0 when allowed) */
+  retryAfterSeconds: number;
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+/**
+ * A set of token buckets sharing one limit
+ */
+export class TokenBucketLimiter {
+  private readonly buckets = new Map<string, Bucket>();
+
+  constructor(private readonly limit: BucketLimit) {}
+
+  get enabled(): boolean {
+    return this.limit.capacity > 0;
+  }
+
+  /**
+   * Whether the bucket has a token for one more request, without taking it
+   */
+  check(key: string, now: number = Date.now()): TakeResult {
+    if (!this.enabled) {
+      return { allowed: true, remaining: Infinity, retryAfterSeconds: 0 };
+    }
+
+    const { capacity, refillPerMinute } = this.limit;
+    const perMs = refillPerMinute / 60_000;
+    const bucket = this.buckets.get(key) ?? { tokens: capacity, updatedAt: now };
+    bucket.tokens = Math.min(capacity, bucket.tokens + (now - bucket.updatedAt) * perMs);
+    bucket.updatedAt = now;
+    this.buckets.set(key, bucket);
+
+    if (bucket.tokens >= 1) {
+      return { allowed: true, remaining: Math.floor(bucket.tokens - 1), retryAfterSeconds: 0 };
+    }
+
+    const retryAfterSeconds = perMs > 0 ? Math.ceil((1 - bucket.tokens) / perMs / 1000) : Infinity;
+    return { allowed: false, remaining: 0, retryAfterSeconds };
+  }
+
+  /**
+   * Take a token for a request that `check` allowed
+   */
+  consume(key: string): void {
+    const bucket = this.buckets.get(key);
+    if (this.enabled && bucket) {
+      bucket.tokens = Math.max(0, bucket.tokens - 1);
+    }
+  }
+
+  /**
+   * Check and take a token in one step
+   */
+  take(key: string, now: number = Date.now()): TakeResult {
+    const result = this.check(key, now);
+    if (result.allowed) {
+      this.consume(key);
+    }
+    return result;
+  }
+
+  /**
+   * Forget buckets that have refilled completely; they behave like new ones
+   */
+  prune(now: number = Date.now()): void {
+    const perMs = this.limit.refillPerMinute / 60_000;
+    for (const [key, bucket] of this.buckets) {
+      if (bucket.tokens + (now - bucket.updatedAt) * perMs >= this.limit.capacity) {
+        this.buckets.delete(key);
+      }
+    }
+  }
+}
+
+function readNumber(name: string, fallback: number): number {
+  const raw = process.env[name];
+  if (raw === undefined || raw === '') return fallback;
+  const value = Number(raw);
+  if (!Number.isFinite(value) || value < 0) {
+    throw new Error(`${name} must be a non-negative number, got "${raw}"`);
+  }
+  return value;
+}
+
+/**
+ * Read the rate limits from the environment
+ */
+export function rateLimitConfigFromEnv(): RateLimitConfig {
+  return {
+    user: {
+      capacity: readNumber('RATE_LIMIT_USER_CAPACITY', 20),
+      refillPerMinute: readNumber('RATE_LIMIT_USER_PER_MINUTE', 10),
+    },
+    ip: {
+      capacity: readNumber('RATE_LIMIT_IP_CAPACITY', 60),
+      refillPerMinute: readNumber('RATE_LIMIT_IP_PER_MINUTE', 30),
+    },
+    trustProxy: process.env.RATE_LIMIT_TRUST_PROXY === 'true',
+  };
+}
+
+/**
+ * Best-effort client address: the proxy header when trusted, else the socket
+ */
+export function clientIp(c: Context, trustProxy: boolean): string {
+  if (trustProxy) {
+    const forwarded = c.req.header('X-Forwarded-For')?.split(',')[0]?.trim();
+    if (forwarded) return forwarded;
+  }
+  try {
+    return getConnInfo(c).remote.address ?? 'unknown';
+  } catch {
+    // Not running under Bun.serve (e.g. app.fetch called directly)
+    return 'unknown';
+  }
+}
+
+/**
+ * Reject requests over either the per-IP or the per-user limit with a 429.
+ * Runs after authentication so the user bucket is keyed by the real user.
+ */
+export function rateLimitMiddleware(config: RateLimitConfig, publicPaths: string[] = []) {
+  const byUser = new TokenBucketLimiter(config.user);
+  const byIp = new TokenBucketLimiter(config.ip);
+
+  const pruneTimer = setInterval(() => {
+    byUser.prune();
+    byIp.prune();
+  }, 10 * 60 * 1000);
+  pruneTimer.unref?.();
+
+  return createMiddleware<AuthEnv>(async (c, next) => {
+    if (publicPaths.includes(c.req.path)) {
+      return next();
+    }
+
+    // Both limits are checked before either is charged, so a request one of
+    // them rejects costs nothing from the other
+    const checks: { scope: 'ip' | 'user'; limiter: TokenBucketLimiter; key: string; result: TakeResult }[] = [];
+    const ip = clientIp(c, config.trustProxy);
+    checks.push({ scope: 'ip', limiter: byIp, key: ip, result: byIp.check(ip) });
+    const userId = c.get('identity')?.userId;
+    if (userId) {
+      checks.push({ scope: 'user', limiter: byUser, key: userId, result: byUser.check(userId) });
+    }
+
+    for (const { scope, result } of checks) {
+      if (!result.allowed) {
+        c.header('Retry-After', String(result.retryAfterSeconds));
+        return apiError(c, 429, 'rate_limited', `Too many requests for this ${scope}; retry in ${result.retryAfterSeconds}s`, {
+          scope,
+          retryAfterSeconds: result.retryAfterSeconds,
+        });
+      }
+    }
+    for (const { limiter, key } of checks) {
+      limiter.consume(key);
+    }
+
+    const remaining = Math.min(...checks.map(({ result }) => result.remaining));
+    if (Number.isFinite(remaining)) {
+      c.header('X-RateLimit-Remaining', String(remaining));
+    }
+    return next();
+  });
+}
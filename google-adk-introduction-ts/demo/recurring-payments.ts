@@ -0,0 +1,214 @@
+/**
+ * Recurring Payment and Subscription Detection
+ *
+ * Finds charges that repeat on a schedule in the stored transactions:
+ * - Rows are grouped by normalized merchant name and currency
+ * - Within a merchant, charges are chained into a series while each amount
+ *   stays within a tolerance of the previous one, so a price rise does not
+ *   split a subscription in two
+ * - The typical gap between charges gives the cadence (weekly, monthly or
+ *   annual), which predicts the next charge date
+ * - A series whose next charge is well overdue is reported as lapsed
+ *
+ * Key Learning: Plain date arithmetic over stored state answers "what am I
+ * subscribed to?" without asking the model to eyeball a statement.
+ */
+
+import { normalizeMerchant } from './categorization';
+import { addDays, addMonths, dayNumber, todayIso } from './dates';
+import { Money, compareMoney, percentageOf, subtractMoney } from './money';
+import { Transaction } from './session-state';
+
+export type Cadence = 'weekly' | 'monthly' | 'annual';
+
+interface CadenceRule {
+  cadence: Cadence;
+  /** Accepted gap between two charges, in days */
+  minDays: number;
+  maxDays: number;
+  /** Charges needed before the pattern counts as recurring */
+  minOccurrences: number;
+  /** How late the next charge may be before the payment counts as lapsed */
+  graceDays: number;
+}
+
+const CADENCE_RULES: CadenceRule[] = [
+  { cadence: 'weekly', minDays: 5, maxDays: 9, minOccurrences: 3, graceDays: 4 },
+  { cadence: 'monthly', minDays: 26, maxDays: 35, minOccurrences: 2, graceDays: 10 },
+  { cadence: 'annual', minDays: 350, maxDays: 380, minOccurrences: 2, graceDays: 30 },
+];
+
+/** Relative difference allowed between consecutive charges of one series */
+export const DEFAULT_AMOUNT_TOLERANCE = 0.2;
+
+export interface PriceIncrease {
+  from: Money;
+  to: Money;
+  /** Increase relative to the previous charge, in percent */
+  percentage: number;
+}
+
+export interface RecurringPayment {
+  /** Normalized merchant name shared by every charge */
+  merchant: string;
+  /** Description of the latest charge, as it appears on the statement */
+  description: string;
+  category: string;
+  cadence: Cadence;
+  /** Amount of the latest charge */
+  amount: Money;
+  occurrences: number;
+  firstDate: string;
+  lastDate: string;
+  nextExpectedDate: string;
+  /** Set when the latest charge is higher than the one before it */
+  priceIncrease: PriceIncrease | null;
+  /** True when the next charge is overdue by more than the cadence's grace period */
+  lapsed: boolean;
+}
+
+export interface RecurringPaymentsResult {
+  /** Date the lapsed check was made against (YYYY-MM-DD) */
+  asOf: string;
+  payments: RecurringPayment[];
+  detectedAt: string;
+}
+
+export interface DetectRecurringOptions {
+  amountTolerance?: number;
+  /** Defaults to the latest transaction date, so old statements are judged on their own timeline */
+  asOf?: string;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+}
+
+/**
+ * Merchant key used to group charges; falls back to the raw description
+ * when nothing is left after normalization
+ */
+export function merchantOf(description: string): string {
+  return normalizeMerchant(description) || description.trim().toLowerCase();
+}
+
+/**
+ * The charge that follows one on `lastDate`
+ */
+export function nextChargeDate(lastDate: string, cadence: Cadence): string {
+  switch (cadence) {
+    case 'weekly':
+      return addDays(lastDate, 7);
+    case 'monthly':
+      return addMonths(lastDate, 1);
+    case 'annual':
+      return addMonths(lastDate, 12);
+  }
+}
+
+function withinTolerance(amount: Money, previous: Money, tolerance: number): boolean {
+  if (previous.amountMinor === 0) {
+    return amount.amountMinor === 0;
+  }
+  return Math.abs(amount.amountMinor - previous.amountMinor) / previous.amountMinor <= tolerance;
+}
+
+/**
+ * Split one merchant's charges (sorted by date) into series of similar amounts
+ */
+function chainSeries(transactions: Transaction[], tolerance: number): Transaction[][] {
+  const series: Transaction[][] = [];
+  for (const tx of transactions) {
+    const match = series.find((charges) => {
+      const last = charges[charges.length - 1];
+      return last.date !== tx.date && withinTolerance(tx.amount, last.amount, tolerance);
+    });
+    if (match) {
+      match.push(tx);
+    } else {
+      series.push([tx]);
+    }
+  }
+  return series;
+}
+
+function describeSeries(charges: Transaction[], asOf: string): RecurringPayment | null {
+  const gaps = charges.slice(1).map((tx, i) => dayNumber(tx.date) - dayNumber(charges[i].date));
+  if (gaps.length === 0) {
+    return null;
+  }
+
+  const typicalGap = median(gaps);
+  const rule = CADENCE_RULES.find((candidate) =>
+    typicalGap >= candidate.minDays && typicalGap <= candidate.maxDays
+  );
+  if (!rule || charges.length < rule.minOccurrences) {
+    return null;
+  }
+  // Every gap has to fit the cadence; one long gap means it is not a schedule
+  if (gaps.some((gap) => gap < rule.minDays || gap > rule.maxDays)) {
+    return null;
+  }
+
+  const latest = charges[charges.length - 1];
+  const previous = charges[charges.length - 2];
+  const nextExpectedDate = nextChargeDate(latest.date, rule.cadence);
+  const priceIncrease = compareMoney(latest.amount, previous.amount) > 0
+    ? {
+      from: previous.amount,
+      to: latest.amount,
+      percentage: parseFloat(percentageOf(subtractMoney(latest.amount, previous.amount), previous.amount).toFixed(1)),
+    }
+    : null;
+
+  return {
+    merchant: merchantOf(latest.description),
+    description: latest.description,
+    category: latest.category,
+    cadence: rule.cadence,
+    amount: latest.amount,
+    occurrences: charges.length,
+    firstDate: charges[0].date,
+    lastDate: latest.date,
+    nextExpectedDate,
+    priceIncrease,
+    lapsed: dayNumber(asOf) > dayNumber(nextExpectedDate) + rule.graceDays,
+  };
+}
+
+/**
+ * Detect recurring payments in a list of transactions.
+ * Active payments come first, ordered by their next expected charge.
+ */
+export function detectRecurringPayments(
+  transactions: Transaction[],
+  options: DetectRecurringOptions = {}
+): RecurringPaymentsResult {
+  const tolerance = options.amountTolerance ?? DEFAULT_AMOUNT_TOLERANCE;
+  const sorted = [...transactions].sort((a, b) => a.date.localeCompare(b.date));
+  const asOf = options.asOf ?? sorted[sorted.length - 1]?.date ?? todayIso();
+
+  const byMerchant = new Map<string, Transaction[]>();
+  for (const tx of sorted) {
+    const key = `${merchantOf(tx.description)}|${tx.amount.currency}`;
+    byMerchant.set(key, [...(byMerchant.get(key) ?? []), tx]);
+  }
+
+  const payments = [...byMerchant.values()]
+    .flatMap((charges) => chainSeries(charges, tolerance))
+    .map((charges) => describeSeries(charges, asOf))
+    .filter((payment): payment is RecurringPayment => payment !== null)
+    .sort((a, b) => Number(a.lapsed) - Number(b.lapsed) || a.nextExpectedDate.localeCompare(b.nextExpectedDate));
+
+  return { asOf, payments, detectedAt: new Date().toISOString() };
+}
+
+/**
+ * Approximate monthly cost of a recurring payment, for totals across cadences
+ */
+export function monthlyEquivalent(payment: RecurringPayment): Money {
+  const factor = payment.cadence === 'weekly' ? 52 / 12 : payment.cadence === 'annual' ? 1 / 12 : 1;
+  return { amountMinor: Math.round(payment.amount.amountMinor * factor), currency: payment.amount.currency };
+}
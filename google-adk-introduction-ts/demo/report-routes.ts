@@ -0,0 +1,90 @@
+/**
+ * Report Download Routes
+ *
+ * Reports made by `generate_spending_report` are stored in the session they
+ * were generated in. These routes list them and render them for download:
+ *
+ *   GET /reports?sessionId=                       Reports stored in a session (paginated)
+ *   GET /reports/:reportId?sessionId=&format=     Download as markdown (default), html, csv or json
+ *
+ * Downloads are sent as attachments, so a browser saves e.g.
+ * `spending-report-2024-01-31.html` to archive or share. They are the one
+ * place a report leaves the server, so PII placeholders are swapped back
+ * for the real values here.
+ *
+ * Behind authentication, `userId` may be omitted; naming another user is a 403.
+ */
+
+import { Context, Hono } from 'hono';
+import { Runner } from '@google/adk';
+import { apiError, paginate, readPageParams } from './api-response';
+import { AuthEnv, requireUserId } from './auth';
+import { restoreValue } from './pii-redaction';
+import { readStateRecord } from './session-state';
+import { REPORT_FORMATS, isReportFormat, renderReport } from './spending-report';
+
+export function createReportRoutes(runner: Runner, appName: string) {
+  const routes = new Hono<AuthEnv>();
+
+  /**
+   * Look up the session named by `?sessionId=`, or an error response
+   */
+  async function findSession(c: Context<AuthEnv>) {
+    const userId = requireUserId(c, c.req.query('userId'));
+    if (userId instanceof Response) {
+      return userId;
+    }
+    const sessionId = c.req.query('sessionId');
+    if (!sessionId) {
+      return apiError(c, 400, 'invalid_request', '"sessionId" query parameter is required');
+    }
+    const session = await runner.sessionService.getSession({ appName, userId, sessionId });
+    if (!session) {
+      return apiError(c, 404, 'session_not_found', `Session ${sessionId} not found`);
+    }
+    return session;
+  }
+
+  routes.get('/', async (c) => {
+    const page = readPageParams(c);
+    if (!page) {
+      return apiError(c, 400, 'invalid_pagination', '"limit" must be a positive integer and "offset" a non-negative integer');
+    }
+    const session = await findSession(c);
+    if (session instanceof Response) {
+      return session;
+    }
+
+    // Newest first, without the full report bodies
+    const reports = readStateRecord(session.state, 'reports')
+      .map((report) => ({ id: report.id, title: report.title, createdAt: report.createdAt }))
+      .reverse();
+    return c.json(paginate(reports, page.limit, page.offset));
+  });
+
+  routes.get('/:reportId', async (c) => {
+    const format = c.req.query('format') ?? 'markdown';
+    if (!isReportFormat(format)) {
+      return apiError(c, 400, 'invalid_format', `format must be one of ${Object.keys(REPORT_FORMATS).join(', ')}`);
+    }
+    const session = await findSession(c);
+    if (session instanceof Response) {
+      return session;
+    }
+
+    const reportId = c.req.param('reportId');
+    const report = readStateRecord(session.state, 'reports').find((stored) => stored.id === reportId);
+    if (!report) {
+      return apiError(c, 404, 'report_not_found', `Report ${reportId} not found in session ${session.id}`);
+    }
+
+    const { contentType, extension } = REPORT_FORMATS[format];
+    const filename = `spending-report-${report.createdAt.slice(0, 10)}.${extension}`;
+    return c.body(renderReport(restoreValue(report, readStateRecord(session.state, 'piiVault')), format), 200, {
+      'Content-Type': contentType,
+      'Content-Disposition': `attachment; filename="${filename}"`,
+    });
+  });
+
+  return routes;
+}
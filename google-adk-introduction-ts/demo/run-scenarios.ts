@@ -0,0 +1,121 @@
+/**
+ * Run Conversation Scenarios
+ *
+ * Executes scenario files (see scenario.ts) and checks every turn:
+ *
+ *   bun run scenarios                                   # all of scenarios/*.json, in-process
+ *   bun run scenarios --offline                         # use each scenario's scripted model
+ *   bun run scenarios --http --base-url=http://localhost:3000 --user=me
+ *   bun run scenarios scenarios/finance-review.json --junit=reports/scenarios.xml --json=reports/scenarios.json
+ *
+ * HTTP runs authenticate with FINANCE_API_KEY or FINANCE_API_TOKEN; without
+ * either, they talk as --user (default: the server's default-user).
+ * Exits with status 1 when any turn fails.
+ */
+
+import { mkdirSync, readdirSync, writeFileSync } from 'fs';
+import { dirname, join, resolve } from 'path';
+import { createPersonalFinanceAgent, personalFinanceAgent } from './agent';
+import { authHeadersFromEnv } from './chat-client';
+import {
+  ScenarioResult,
+  ScenarioTransport,
+  TurnResult,
+  httpTransport,
+  inProcessTransport,
+  loadScenario,
+  runScenario,
+  toJUnitXml,
+  toJsonReport,
+} from './scenario';
+import { ScriptedLlm, SCRIPTED_MODEL_PREFIX } from './scripted-model';
+
+interface CliOptions {
+  files: string[];
+  http: boolean;
+  offline: boolean;
+  baseUrl: string;
+  userId?: string;
+  junit?: string;
+  json?: string;
+}
+
+function parseArgs(args: string[]): CliOptions {
+  const value = (name: string) => args.find((arg) => arg.startsWith(`--${name}=`))?.slice(name.length + 3);
+  const files = args.filter((arg) => !arg.startsWith('--'));
+  const scenarioDir = resolve(__dirname, 'scenarios');
+
+  return {
+    files: files.length > 0
+      ? files
+      : readdirSync(scenarioDir).filter((name) => name.endsWith('.json')).sort().map((name) => join(scenarioDir, name)),
+    http: args.includes('--http'),
+    offline: args.includes('--offline'),
+    baseUrl: value('base-url') ?? 'http://localhost:3000',
+    userId: value('user'),
+    junit: value('junit'),
+    json: value('json'),
+  };
+}
+
+function printTurn(turn: TurnResult) {
+  console.log(`  ${turn.passed ? '✅' : '❌'} Turn ${turn.index}: ${turn.note ?? turn.message.slice(0, 70)}`);
+  if (turn.outcome.agent) console.log(`     🧑‍💼 ${turn.outcome.agent}`);
+  const tools = turn.outcome.toolCalls.map((call) => call.name).join(', ');
+  if (tools) console.log(`     🔧 ${tools}`);
+  turn.failures.forEach((failure) => console.log(`     ↳ ${failure}`));
+}
+
+function writeReport(path: string, content: string) {
+  mkdirSync(dirname(resolve(path)), { recursive: true });
+  writeFileSync(path, content);
+  console.log(`📄 Wrote ${path}`);
+}
+
+async function runScenarios(options: CliOptions): Promise<ScenarioResult[]> {
+  const results: ScenarioResult[] = [];
+
+  for (const file of options.files) {
+    const scenario = loadScenario(file);
+    console.log(`\n🎬 ${scenario.name} (${options.http ? options.baseUrl : options.offline ? 'offline' : 'in-process'})`);
+
+    let transport: ScenarioTransport;
+    if (options.http) {
+      transport = httpTransport({ baseUrl: options.baseUrl, headers: authHeadersFromEnv(), userId: options.userId });
+    } else if (options.offline) {
+      if (!scenario.modelScript) {
+        throw new Error(`${file} has no "modelScript" to run offline`);
+      }
+      const model = new ScriptedLlm({ model: `${SCRIPTED_MODEL_PREFIX}${scenario.modelScript}` });
+      transport = await inProcessTransport(createPersonalFinanceAgent(model));
+    } else {
+      transport = await inProcessTransport(personalFinanceAgent);
+    }
+
+    const result = await runScenario(scenario, transport, printTurn);
+    results.push(result);
+  }
+
+  return results;
+}
+
+if (require.main === module) {
+  const options = parseArgs(process.argv.slice(2));
+
+  runScenarios(options)
+    .then((results) => {
+      if (options.junit) writeReport(options.junit, toJUnitXml(results));
+      if (options.json) writeReport(options.json, toJsonReport(results));
+
+      const turns = results.flatMap((result) => result.turns);
+      const failed = turns.filter((turn) => !turn.passed).length;
+      console.log(`\n${failed === 0 ? '🎉' : '💥'} ${turns.length - failed}/${turns.length} turns passed across ${results.length} scenario(s)`);
+      process.exit(failed === 0 ? 0 : 1);
+    })
+    .catch((error) => {
+      console.error('❌ Scenario run failed:', error);
+      process.exit(1);
+    });
+}
+
+export { runScenarios };
@@ -0,0 +1,184 @@
+/**
+ * Savings Goals, Contributions and Deadlines
+ *
+ * Budgets cap what goes out; savings goals track what is put aside:
+ * - A goal has a target, an optional deadline and a priority
+ * - Every contribution (or withdrawal) is logged with its date
+ * - With a deadline, the goal knows how much must be saved per month to
+ *   make it, and whether saving so far has kept pace
+ *
+ * The monthly amounts are planned against the user's surplus - monthly
+ * income minus the average monthly spending of the analyzed transactions -
+ * filling the most important and most urgent goals first.
+ *
+ * Key Learning: "Can I afford this goal?" needs both sides of the picture -
+ * the goal's own schedule and what the user's spending leaves over.
+ */
+
+import { daysBetween } from './dates';
+import { Money, addMoney, convertMoney, percentageOf, subtractMoney, sumMoney, zeroMoney } from './money';
+import { Transaction, TransactionAnalysis } from './session-state';
+
+export type SavingsPriority = 'high' | 'medium' | 'low';
+
+export interface SavingsContribution {
+  date: string;
+  /** Negative for a withdrawal; always in the goal's currency */
+  amount: Money;
+  note?: string;
+}
+
+export interface SavingsGoal {
+  name: string;
+  target: Money;
+  /** Date the target should be reached by (YYYY-MM-DD) */
+  deadline?: string;
+  priority: SavingsPriority;
+  /** Oldest first */
+  contributions: SavingsContribution[];
+  createdAt: string;
+}
+
+/**
+ * - achieved: the target has been reached
+ * - overdue: the deadline passed before the target was reached
+ * - on_track / behind: whether savings so far keep pace with the deadline
+ * - open: no deadline to keep pace with
+ */
+export type SavingsStatus = 'achieved' | 'overdue' | 'on_track' | 'behind' | 'open';
+
+export interface SavingsProgress {
+  goal: SavingsGoal;
+  saved: Money;
+  remaining: Money;
+  percentage: number;
+  /** Months until the deadline, null without one */
+  monthsLeft: number | null;
+  /** Saving needed per month to reach the target by the deadline */
+  monthlyNeeded: Money | null;
+  status: SavingsStatus;
+}
+
+export interface SavingsPlanLine extends SavingsProgress {
+  /** Share of the monthly surplus set aside for this goal, in the surplus currency */
+  allocated: Money | null;
+  /** Whether the surplus covers the monthly amount needed; null when unknown */
+  funded: boolean | null;
+}
+
+export interface SavingsPlan {
+  goals: SavingsPlanLine[];
+  surplus: Money | null;
+  /** Surplus left after every goal with a deadline got its monthly amount */
+  unallocated: Money | null;
+  /** Monthly amount the surplus falls short of, in the surplus currency */
+  shortfall: Money | null;
+}
+
+const PRIORITY_RANK: Record<SavingsPriority, number> = { high: 0, medium: 1, low: 2 };
+
+const DAYS_PER_MONTH = 365.25 / 12;
+
+export function findSavingsGoal(goals: SavingsGoal[], name: string): SavingsGoal | undefined {
+  const wanted = name.trim().toLowerCase();
+  return goals.find((goal) => goal.name.trim().toLowerCase() === wanted);
+}
+
+/**
+ * Insert or replace the goal with the same name, returning a new array
+ */
+export function upsertSavingsGoal(goals: SavingsGoal[], goal: SavingsGoal): SavingsGoal[] {
+  const wanted = goal.name.trim().toLowerCase();
+  return [...goals.filter((existing) => existing.name.trim().toLowerCase() !== wanted), goal];
+}
+
+export function savedSoFar(goal: SavingsGoal): Money {
+  return sumMoney(goal.contributions.map((contribution) => contribution.amount), goal.target.currency);
+}
+
+/**
+ * Where a goal stands on `asOf`
+ */
+export function savingsProgress(goal: SavingsGoal, asOf: string): SavingsProgress {
+  const currency = goal.target.currency;
+  const saved = savedSoFar(goal);
+  const left = subtractMoney(goal.target, saved);
+  const remaining = left.amountMinor > 0 ? left : zeroMoney(currency);
+  const percentage = parseFloat(Math.min(percentageOf(saved, goal.target), 100).toFixed(1));
+
+  if (remaining.amountMinor === 0) {
+    return { goal, saved, remaining, percentage, monthsLeft: null, monthlyNeeded: null, status: 'achieved' };
+  }
+  if (!goal.deadline) {
+    return { goal, saved, remaining, percentage, monthsLeft: null, monthlyNeeded: null, status: 'open' };
+  }
+
+  const daysLeft = daysBetween(asOf, goal.deadline);
+  if (daysLeft < 0) {
+    return { goal, saved, remaining, percentage, monthsLeft: 0, monthlyNeeded: remaining, status: 'overdue' };
+  }
+
+  // Anything due within a month has to be saved this month
+  const monthsLeft = parseFloat((daysLeft / DAYS_PER_MONTH).toFixed(1));
+  const monthlyNeeded = { amountMinor: Math.ceil(remaining.amountMinor / Math.max(monthsLeft, 1)), currency };
+
+  // On pace when savings have kept up with a straight line from creation to deadline
+  const totalDays = daysBetween(goal.createdAt.slice(0, 10), goal.deadline);
+  const elapsed = totalDays > 0 ? Math.min(1, Math.max(0, 1 - daysLeft / totalDays)) : 1;
+  const status = saved.amountMinor >= goal.target.amountMinor * elapsed ? 'on_track' : 'behind';
+
+  return { goal, saved, remaining, percentage, monthsLeft, monthlyNeeded, status };
+}
+
+/**
+ * Average monthly spending of the analyzed transactions, over the days they
+ * span (at least one month, so a few days of data are not scaled up)
+ */
+export function monthlySpending(analysis: TransactionAnalysis, transactions: Transaction[]): Money {
+  const dates = transactions
+    .map((tx) => tx.date)
+    .filter((date) => (!analysis.startDate || date >= analysis.startDate) && (!analysis.endDate || date <= analysis.endDate))
+    .sort();
+  const first = analysis.startDate ?? dates[0];
+  const last = analysis.endDate ?? dates[dates.length - 1];
+  const days = first && last ? daysBetween(first, last) + 1 : 0;
+  const months = Math.max(1, days / DAYS_PER_MONTH);
+  return { amountMinor: Math.round(analysis.totalSpent.amountMinor / months), currency: analysis.totalSpent.currency };
+}
+
+/**
+ * Share a monthly surplus between goals with a deadline: high priority
+ * first, then the nearest deadline. Without a surplus, only progress is reported.
+ */
+export function planSavings(goals: SavingsGoal[], surplus: Money | null, asOf: string): SavingsPlan {
+  const ordered = goals
+    .map((goal) => savingsProgress(goal, asOf))
+    .sort((a, b) =>
+      PRIORITY_RANK[a.goal.priority] - PRIORITY_RANK[b.goal.priority] ||
+      (a.goal.deadline ?? '9999-12-31').localeCompare(b.goal.deadline ?? '9999-12-31')
+    );
+
+  if (!surplus) {
+    return {
+      goals: ordered.map((progress) => ({ ...progress, allocated: null, funded: null })),
+      surplus: null,
+      unallocated: null,
+      shortfall: null,
+    };
+  }
+
+  let available = surplus.amountMinor > 0 ? surplus : zeroMoney(surplus.currency);
+  let shortfall = zeroMoney(surplus.currency);
+  const lines = ordered.map((progress): SavingsPlanLine => {
+    if (!progress.monthlyNeeded) {
+      return { ...progress, allocated: null, funded: null };
+    }
+    const needed = convertMoney(progress.monthlyNeeded, surplus.currency);
+    const allocated = needed.amountMinor <= available.amountMinor ? needed : available;
+    available = subtractMoney(available, allocated);
+    shortfall = addMoney(shortfall, subtractMoney(needed, allocated));
+    return { ...progress, allocated, funded: allocated.amountMinor >= needed.amountMinor };
+  });
+
+  return { goals: lines, surplus, unallocated: available, shortfall };
+}
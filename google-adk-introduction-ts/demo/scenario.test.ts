@@ -0,0 +1,87 @@
+import { describe, expect, test } from 'bun:test';
+import { createPersonalFinanceAgent } from './agent';
+import {
+  DEMO_SCENARIO_PATH,
+  ScenarioTransport,
+  TurnOutcome,
+  checkTurn,
+  findMismatch,
+  inProcessTransport,
+  loadScenario,
+  runScenario,
+  toJUnitXml,
+} from './scenario';
+import { SCRIPTED_MODEL_PREFIX, ScriptedLlm } from './scripted-model';
+
+const outcome = (overrides: Partial<TurnOutcome> = {}): TurnOutcome => ({
+  reply: 'Your dining budget is set to $200.00.',
+  agent: 'budget_coach',
+  toolCalls: [{ name: 'set_budget_goal', args: { category: 'dining', limit: 200 } }],
+  error: null,
+  ...overrides,
+});
+
+describe('findMismatch', () => {
+  test('matches objects partially and arrays by any element', () => {
+    const actual = { goals: [{ category: 'groceries', limit: 400 }, { category: 'dining', limit: 200 }], extra: true };
+
+    expect(findMismatch({ goals: [{ category: 'dining' }] }, actual)).toBeNull();
+    expect(findMismatch({ goals: [{ category: 'travel' }] }, actual)).toContain('$.goals has no element matching');
+    expect(findMismatch({ extra: false }, actual)).toBe('$.extra is true, expected false');
+  });
+});
+
+describe('checkTurn', () => {
+  test('passes when every expectation holds', () => {
+    const failures = checkTurn({
+      agent: 'budget_coach',
+      toolCalls: [{ name: 'set_budget_goal', args: { limit: 200 } }],
+      replyContains: ['$200.00'],
+      replyMatches: ['DINING budget'],
+      state: { budgetGoals: [{ category: 'dining' }] },
+    }, outcome(), { budgetGoals: [{ category: 'dining' }] });
+
+    expect(failures).toEqual([]);
+  });
+
+  test('reports wrong tools, arguments, replies and errors', () => {
+    expect(checkTurn({ toolCalls: [] }, outcome(), null)).toEqual(['tool calls were [set_budget_goal], expected []']);
+    expect(checkTurn({ toolCalls: [{ name: 'set_budget_goal', args: { limit: 300 } }] }, outcome(), null))
+      .toEqual(['set_budget_goal: args.limit is 200, expected 300']);
+    expect(checkTurn({ replyContains: ['groceries'] }, outcome(), null)).toEqual(['reply does not contain "groceries"']);
+    expect(checkTurn({ agent: 'report_writer' }, outcome(), null)).toEqual(['answered by budget_coach, expected report_writer']);
+    expect(checkTurn({}, outcome({ error: { code: 'model_error', message: 'boom' } }), null))
+      .toEqual(['turn failed: model_error: boom']);
+  });
+});
+
+describe('runScenario', () => {
+  test('the demo scenario passes on its scripted model', async () => {
+    const scenario = loadScenario(DEMO_SCENARIO_PATH);
+    const model = new ScriptedLlm({ model: `${SCRIPTED_MODEL_PREFIX}${scenario.modelScript}` });
+    const result = await runScenario(scenario, await inProcessTransport(createPersonalFinanceAgent(model)));
+
+    expect(result.turns.flatMap((turn) => turn.failures)).toEqual([]);
+    expect(result.passed).toBe(true);
+  });
+
+  test('records failures and writes them to the JUnit report', async () => {
+    const transport: ScenarioTransport = {
+      send: async () => outcome({ toolCalls: [] }),
+      state: async () => { throw new Error('HTTP 404'); },
+    };
+    const result = await runScenario({
+      name: 'Budget <check>',
+      turns: [{ message: 'Set a budget', expect: { toolCalls: [{ name: 'set_budget_goal' }], state: { budgetGoals: [] } } }],
+    }, transport);
+    const xml = toJUnitXml([result]);
+
+    expect(result.passed).toBe(false);
+    expect(result.turns[0].failures).toEqual([
+      'tool calls were [], expected [set_budget_goal]',
+      'could not read session state: HTTP 404',
+    ]);
+    expect(xml).toContain('<testsuite name="Budget &lt;check&gt;" tests="1" failures="1"');
+    expect(xml).toContain('<failure message="tool calls were [], expected [set_budget_goal]">');
+  });
+});
@@ -0,0 +1,367 @@
+/**
+ * Declarative Conversation Scenarios
+ *
+ * A scenario is a JSON file listing the turns of a conversation, each with
+ * assertions on what should happen:
+ *
+ *   {
+ *     "name": "Set and check a budget",
+ *     "modelScript": "../scripted-conversation.json",   (used with --offline)
+ *     "turns": [{
+ *       "message": "Set a $200 dining budget",
+ *       "expect": {
+ *         "agent": "budget_coach",
+ *         "toolCalls": [{ "name": "set_budget_goal", "args": { "limit": 200 } }],
+ *         "replyContains": ["$200"],
+ *         "replyMatches": ["dining"],
+ *         "state": { "budgetGoals": [{ "category": "dining" }] }
+ *       }
+ *     }]
+ *   }
+ *
+ * - `agent` is the agent of the team that wrote the reply
+ * - `toolCalls` is the exact sequence of tools called in the turn (`[]` means none);
+ *   `args` only needs to contain the listed keys
+ * - `state` is matched partially: objects need the listed keys, and each listed
+ *   array element must match some element of the actual array
+ *
+ * The same scenario runs in-process on a runner or against the HTTP server.
+ */
+
+import { InMemoryRunner, LlmAgent, StreamingMode } from '@google/adk';
+import { createUserContent } from '@google/genai';
+import { readFileSync } from 'fs';
+import { dirname, resolve } from 'path';
+import { ChatRequestError, sendChat } from './chat-client';
+import { createChatEventTranslator } from './chat-protocol';
+
+/** The conversation both simulation scripts walk through */
+export const DEMO_SCENARIO_PATH = resolve(__dirname, 'scenarios/finance-review.json');
+
+export interface ExpectedToolCall {
+  name: string;
+  args?: Record<string, unknown>;
+}
+
+export interface TurnExpectations {
+  /** Agent that answered the turn */
+  agent?: string;
+  toolCalls?: ExpectedToolCall[];
+  replyContains?: string[];
+  /** Regular expressions, matched case-insensitively */
+  replyMatches?: string[];
+  state?: Record<string, unknown>;
+}
+
+export interface ScenarioTurn {
+  message: string;
+  /** What the turn is meant to show, for humans reading the output */
+  note?: string;
+  expect?: TurnExpectations;
+}
+
+export interface Scenario {
+  name: string;
+  description?: string;
+  /** Scripted model for offline runs, resolved relative to the scenario file */
+  modelScript?: string;
+  turns: ScenarioTurn[];
+}
+
+export interface TurnOutcome {
+  reply: string;
+  /** Agent that wrote the reply, null when unknown */
+  agent: string | null;
+  toolCalls: { name: string; args: Record<string, unknown> }[];
+  error: { code: string; message: string } | null;
+}
+
+/**
+ * How a scenario talks to the agent: in-process or over HTTP
+ */
+export interface ScenarioTransport {
+  send(message: string): Promise<TurnOutcome>;
+  state(): Promise<Record<string, unknown>>;
+}
+
+export interface TurnResult {
+  index: number;
+  message: string;
+  note?: string;
+  passed: boolean;
+  failures: string[];
+  outcome: TurnOutcome;
+  durationMs: number;
+}
+
+export interface ScenarioResult {
+  name: string;
+  file?: string;
+  passed: boolean;
+  turns: TurnResult[];
+  durationMs: number;
+}
+
+/**
+ * Read and validate a scenario file
+ */
+export function loadScenario(path: string): Scenario & { file: string } {
+  const file = resolve(path);
+  const scenario = JSON.parse(readFileSync(file, 'utf8')) as Scenario;
+  if (typeof scenario.name !== 'string' || !Array.isArray(scenario.turns) || scenario.turns.length === 0) {
+    throw new Error(`Scenario ${path} needs a "name" and at least one turn`);
+  }
+  scenario.turns.forEach((turn, i) => {
+    if (typeof turn.message !== 'string' || !turn.message) {
+      throw new Error(`Scenario ${path}: turn ${i + 1} has no "message"`);
+    }
+  });
+
+  return {
+    ...scenario,
+    file,
+    modelScript: scenario.modelScript ? resolve(dirname(file), scenario.modelScript) : undefined,
+  };
+}
+
+/**
+ * Does `actual` contain everything in `expected`? Returns the first mismatch path, or null.
+ */
+export function findMismatch(expected: unknown, actual: unknown, path = '$'): string | null {
+  if (Array.isArray(expected)) {
+    if (!Array.isArray(actual)) return `${path} should be an array`;
+    for (const [i, item] of expected.entries()) {
+      if (!actual.some((candidate) => findMismatch(item, candidate, path) === null)) {
+        return `${path} has no element matching ${JSON.stringify(item)} (expected element ${i})`;
+      }
+    }
+    return null;
+  }
+  if (expected !== null && typeof expected === 'object') {
+    if (actual === null || typeof actual !== 'object' || Array.isArray(actual)) return `${path} should be an object`;
+    for (const [key, value] of Object.entries(expected)) {
+      const mismatch = findMismatch(value, (actual as Record<string, unknown>)[key], `${path}.${key}`);
+      if (mismatch) return mismatch;
+    }
+    return null;
+  }
+  return Object.is(expected, actual) ? null : `${path} is ${JSON.stringify(actual)}, expected ${JSON.stringify(expected)}`;
+}
+
+/**
+ * Check one turn against its expectations; returns human-readable failures
+ */
+export function checkTurn(expectations: TurnExpectations, outcome: TurnOutcome, state: Record<string, unknown> | null): string[] {
+  const failures: string[] = [];
+
+  if (outcome.error) {
+    failures.push(`turn failed: ${outcome.error.code}: ${outcome.error.message}`);
+  }
+
+  if (expectations.agent && outcome.agent !== expectations.agent) {
+    failures.push(`answered by ${outcome.agent ?? 'no agent'}, expected ${expectations.agent}`);
+  }
+
+  if (expectations.toolCalls) {
+    const actualNames = outcome.toolCalls.map((call) => call.name);
+    const expectedNames = expectations.toolCalls.map((call) => call.name);
+    if (JSON.stringify(actualNames) !== JSON.stringify(expectedNames)) {
+      failures.push(`tool calls were [${actualNames.join(', ')}], expected [${expectedNames.join(', ')}]`);
+    } else {
+      expectations.toolCalls.forEach((call, i) => {
+        const mismatch = call.args ? findMismatch(call.args, outcome.toolCalls[i].args, 'args') : null;
+        if (mismatch) failures.push(`${call.name}: ${mismatch}`);
+      });
+    }
+  }
+
+  for (const text of expectations.replyContains ?? []) {
+    if (!outcome.reply.includes(text)) {
+      failures.push(`reply does not contain "${text}"`);
+    }
+  }
+  for (const pattern of expectations.replyMatches ?? []) {
+    if (!new RegExp(pattern, 'i').test(outcome.reply)) {
+      failures.push(`reply does not match /${pattern}/i`);
+    }
+  }
+
+  if (expectations.state) {
+    const mismatch = findMismatch(expectations.state, state ?? {}, 'state');
+    if (mismatch) failures.push(mismatch);
+  }
+
+  return failures;
+}
+
+/**
+ * Run every turn of a scenario in order, checking each one
+ */
+export async function runScenario(
+  scenario: Scenario & { file?: string },
+  transport: ScenarioTransport,
+  onTurn?: (result: TurnResult) => void
+): Promise<ScenarioResult> {
+  const started = Date.now();
+  const turns: TurnResult[] = [];
+
+  for (const [index, turn] of scenario.turns.entries()) {
+    const turnStarted = Date.now();
+    const outcome = await transport.send(turn.message);
+    const expectations = turn.expect ?? {};
+
+    let state: Record<string, unknown> | null = null;
+    let stateError: string | null = null;
+    if (expectations.state) {
+      try {
+        state = await transport.state();
+      } catch (error) {
+        stateError = `could not read session state: ${(error as Error).message}`;
+      }
+    }
+
+    const failures = stateError
+      ? [...checkTurn({ ...expectations, state: undefined }, outcome, null), stateError]
+      : checkTurn(expectations, outcome, state);
+
+    const result: TurnResult = {
+      index: index + 1,
+      message: turn.message,
+      note: turn.note,
+      passed: failures.length === 0,
+      failures,
+      outcome,
+      durationMs: Date.now() - turnStarted,
+    };
+    turns.push(result);
+    onTurn?.(result);
+  }
+
+  return {
+    name: scenario.name,
+    file: scenario.file,
+    passed: turns.every((turn) => turn.passed),
+    turns,
+    durationMs: Date.now() - started,
+  };
+}
+
+/**
+ * Talk to an agent directly through an InMemoryRunner
+ */
+export async function inProcessTransport(agent: LlmAgent, userId = 'scenario-user'): Promise<ScenarioTransport> {
+  const appName = 'finance_agent_scenarios';
+  const runner = new InMemoryRunner({ agent, appName });
+  const session = await runner.sessionService.createSession({ appName, userId });
+
+  return {
+    async send(message) {
+      const translator = createChatEventTranslator();
+      const outcome: TurnOutcome = { reply: '', agent: null, toolCalls: [], error: null };
+      try {
+        for await (const event of runner.runAsync({
+          userId,
+          sessionId: session.id,
+          newMessage: createUserContent(message),
+          runConfig: { streamingMode: StreamingMode.SSE },
+        })) {
+          for (const chatEvent of translator.translate(event)) {
+            if (chatEvent.type === 'text_delta') outcome.reply += chatEvent.text;
+            if (chatEvent.type === 'tool_call') outcome.toolCalls.push({ name: chatEvent.name, args: chatEvent.args });
+            if (chatEvent.type === 'error') outcome.error = { code: chatEvent.code, message: chatEvent.message };
+          }
+        }
+        outcome.agent = translator.complete().agent;
+      } catch (error) {
+        outcome.error = { code: 'runner_error', message: (error as Error).message };
+      }
+      return outcome;
+    },
+    async state() {
+      const current = await runner.sessionService.getSession({ appName, userId, sessionId: session.id });
+      return current?.state ?? {};
+    },
+  };
+}
+
+/**
+ * Talk to a running server through /chat and /sessions
+ */
+export function httpTransport(options: {
+  baseUrl: string;
+  headers?: Record<string, string>;
+  sessionId?: string;
+  userId?: string;
+}): ScenarioTransport {
+  const { baseUrl, headers = {} } = options;
+  const sessionId = options.sessionId ?? `scenario-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+  // Without credentials the session routes need the user named, as /chat defaults it
+  const userId = options.userId ?? (Object.keys(headers).length === 0 ? 'default-user' : undefined);
+
+  return {
+    async send(message) {
+      const outcome: TurnOutcome = { reply: '', agent: null, toolCalls: [], error: null };
+      try {
+        const result = await sendChat({ baseUrl, headers, userId, sessionId, message });
+        outcome.reply = result.text;
+        outcome.agent = result.completion?.agent ?? null;
+        outcome.toolCalls = result.toolCalls.map((call) => ({ name: call.name, args: call.args }));
+        outcome.error = result.error ? { code: result.error.code, message: result.error.message } : null;
+      } catch (error) {
+        outcome.error = error instanceof ChatRequestError
+          ? { code: error.code, message: error.message }
+          : { code: 'http_error', message: (error as Error).message };
+      }
+      return outcome;
+    },
+    async state() {
+      const query = userId ? `?userId=${encodeURIComponent(userId)}` : '';
+      const response = await fetch(`${baseUrl}/sessions/${encodeURIComponent(sessionId)}${query}`, { headers });
+      if (!response.ok) {
+        throw new Error(`Could not read session ${sessionId}: HTTP ${response.status}`);
+      }
+      const body = await response.json() as { state: Record<string, unknown> };
+      return body.state;
+    },
+  };
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * JUnit XML: one test suite per scenario and one test case per turn
+ */
+export function toJUnitXml(results: ScenarioResult[]): string {
+  const seconds = (ms: number) => (ms / 1000).toFixed(3);
+  const failures = (result: ScenarioResult) => result.turns.filter((turn) => !turn.passed).length;
+
+  const suites = results.map((result) => {
+    const cases = result.turns.map((turn) => {
+      const name = escapeXml(`Turn ${turn.index}: ${turn.note ?? turn.message.slice(0, 60)}`);
+      const open = `    <testcase classname="${escapeXml(result.name)}" name="${name}" time="${seconds(turn.durationMs)}"`;
+      if (turn.passed) return `${open}/>`;
+      return `${open}>\n      <failure message="${escapeXml(turn.failures[0])}">${escapeXml(turn.failures.join('\n'))}</failure>\n    </testcase>`;
+    });
+    return `  <testsuite name="${escapeXml(result.name)}" tests="${result.turns.length}" failures="${failures(result)}" time="${seconds(result.durationMs)}">\n${cases.join('\n')}\n  </testsuite>`;
+  });
+
+  const total = results.reduce((sum, result) => sum + result.turns.length, 0);
+  const failed = results.reduce((sum, result) => sum + failures(result), 0);
+  return `<?xml version="1.0" encoding="UTF-8"?>\n<testsuites name="conversation scenarios" tests="${total}" failures="${failed}">\n${suites.join('\n')}\n</testsuites>\n`;
+}
+
+/**
+ * JSON report with every turn's outcome
+ */
+export function toJsonReport(results: ScenarioResult[]): string {
+  return JSON.stringify({
+    passed: results.every((result) => result.passed),
+    scenarios: results,
+  }, null, 2);
+}
@@ -0,0 +1,193 @@
+/**
+ * Scripted Offline Model
+ *
+ * A deterministic stand-in for Gemini that replays scripted responses, so the
+ * agents, the simulations and the server run without an API key or network:
+ * - Steps are matched by user turn number and/or a pattern on the user's message
+ * - Each step lists one response per model call in that turn, e.g. a function
+ *   call to analyze_transactions, then the text reply after the tool ran
+ * - Streaming mode yields partial text chunks followed by the aggregated
+ *   response, the same shape Gemini produces
+ * - In a multi-agent team, a step names the agent that answers it; any other
+ *   agent that is asked first (e.g. the coordinator) transfers the turn to it
+ *
+ * Use it from code with `new ScriptedLlm({ script })`, or set
+ * `FINANCE_AGENT_MODEL=scripted:./path/to/script.json` for the demo agents.
+ *
+ * Key Learning: LlmAgent accepts any BaseLlm, and the tools, sessions and
+ * runner behave exactly the same whichever model sits behind the agent.
+ */
+
+import { BaseLlm, BaseLlmConnection, LlmRequest, LlmResponse } from '@google/adk';
+import { readFileSync } from 'fs';
+import { resolve } from 'path';
+import { TRANSFER_TOOL_NAME } from './chat-protocol';
+import { contentTexts, estimateTokens, splitTurns } from './conversation-turns';
+
+// Typed through ADK: its @google/genai copy can differ from the project's
+type Content = LlmRequest['contents'][number];
+type Part = NonNullable<Content['parts']>[number];
+
+export const DEFAULT_MODEL = 'gemini-2.5-flash';
+
+export const SCRIPTED_MODEL_PREFIX = 'scripted:';
+
+export interface ScriptedFunctionCall {
+  name: string;
+  args?: Record<string, unknown>;
+}
+
+/**
+ * What the model returns for one call: text, function calls, or both
+ */
+export interface ScriptedResponse {
+  text?: string;
+  functionCalls?: ScriptedFunctionCall[];
+}
+
+export interface ScriptedStep {
+  /** 1-based user turn this step answers */
+  turn?: number;
+  /** Agent that answers this step; others transfer to it with transfer_to_agent */
+  agent?: string;
+  /** Regular expression (case-insensitive) tested against the user's message */
+  pattern?: string;
+  /** One response per model call within the turn, in order */
+  responses: ScriptedResponse[];
+}
+
+export interface ModelScript {
+  steps: ScriptedStep[];
+}
+
+/**
+ * Count user turns and pick out the latest user message, and how many model
+ * calls the current turn has made so far
+ */
+function describeConversation(contents: Content[]) {
+  const { preamble, turns } = splitTurns(contents);
+  const current = turns[turns.length - 1] ?? preamble;
+  return {
+    turn: turns.length,
+    message: turns.length > 0 ? contentTexts(current[0]).join('') : '',
+    callIndex: current.filter((content) => content.role === 'model').length,
+  };
+}
+
+/**
+ * The calling agent's name, from the identity line ADK puts in every system instruction
+ */
+function requestingAgent(llmRequest: LlmRequest): string | undefined {
+  const instruction = llmRequest.config?.systemInstruction;
+  const text = typeof instruction === 'string'
+    ? instruction
+    : JSON.stringify(instruction ?? '');
+  return text.match(/Your internal name is \\?"([^"\\]+)\\?"/)?.[1];
+}
+
+function chunkText(text: string, size: number): string[] {
+  const chunks: string[] = [];
+  for (let i = 0; i < text.length; i += size) {
+    chunks.push(text.slice(i, i + size));
+  }
+  return chunks;
+}
+
+export class ScriptedLlm extends BaseLlm {
+  static override readonly supportedModels = [/^scripted:.+$/];
+
+  readonly script: ModelScript;
+  /** Every request the model received, for assertions in tests */
+  readonly requests: LlmRequest[] = [];
+  private callCounter = 0;
+
+  constructor({ model = 'scripted:inline', script }: { model?: string; script?: ModelScript }) {
+    super({ model });
+    this.script = script ?? loadModelScript(model.slice(SCRIPTED_MODEL_PREFIX.length));
+  }
+
+  /**
+   * The step answering this turn: the first whose turn and pattern both match.
+   * Steps with neither act as catch-alls.
+   */
+  findStep(turn: number, message: string): ScriptedStep | undefined {
+    return this.script.steps.find((step) =>
+      (step.turn === undefined || step.turn === turn) &&
+      (step.pattern === undefined || new RegExp(step.pattern, 'i').test(message))
+    );
+  }
+
+  async *generateContentAsync(llmRequest: LlmRequest, stream = false): AsyncGenerator<LlmResponse, void> {
+    this.requests.push(llmRequest);
+    const { turn, message, callIndex } = describeConversation(llmRequest.contents);
+    const step = this.findStep(turn, message);
+    const agent = requestingAgent(llmRequest);
+    const response = step?.agent && agent !== step.agent && llmRequest.toolsDict[TRANSFER_TOOL_NAME]
+      ? { functionCalls: [{ name: TRANSFER_TOOL_NAME, args: { agentName: step.agent } }] }
+      : step?.responses[callIndex];
+
+    if (!response) {
+      yield {
+        errorCode: 'SCRIPT_EXHAUSTED',
+        errorMessage: step
+          ? `Scripted step for turn ${turn} has no response for model call ${callIndex + 1}`
+          : `No scripted step matches turn ${turn}: "${message.slice(0, 80)}"`,
+        turnComplete: true,
+      };
+      return;
+    }
+
+    const parts: Part[] = [];
+    if (response.text) {
+      parts.push({ text: response.text });
+    }
+    for (const call of response.functionCalls ?? []) {
+      this.callCounter++;
+      parts.push({ functionCall: { id: `scripted-call-${this.callCounter}`, name: call.name, args: call.args ?? {} } });
+    }
+
+    const promptTokenCount = estimateTokens(llmRequest.contents);
+    const candidatesTokenCount = estimateTokens(parts);
+    const usageMetadata = {
+      promptTokenCount,
+      candidatesTokenCount,
+      totalTokenCount: promptTokenCount + candidatesTokenCount,
+    };
+
+    if (stream && response.text) {
+      for (const chunk of chunkText(response.text, 40)) {
+        yield { content: { role: 'model', parts: [{ text: chunk }] }, partial: true };
+      }
+    }
+
+    yield { content: { role: 'model', parts }, usageMetadata, turnComplete: true };
+  }
+
+  async connect(_llmRequest: LlmRequest): Promise<BaseLlmConnection> {
+    throw new Error('ScriptedLlm does not support live connections');
+  }
+}
+
+/**
+ * Read a script from a JSON file
+ */
+export function loadModelScript(path: string): ModelScript {
+  const script = JSON.parse(readFileSync(resolve(path), 'utf8')) as ModelScript;
+  if (!Array.isArray(script.steps)) {
+    throw new Error(`Model script ${path} must have a "steps" array`);
+  }
+  return script;
+}
+
+/**
+ * The model the demo agents use: Gemini by default, or a scripted model when
+ * FINANCE_AGENT_MODEL is `scripted:<path to script.json>`
+ */
+export function agentModelFromEnv(): string | BaseLlm {
+  const model = process.env.FINANCE_AGENT_MODEL ?? DEFAULT_MODEL;
+  return model.startsWith(SCRIPTED_MODEL_PREFIX) ? new ScriptedLlm({ model }) : model;
+}
+
+export function usesScriptedModel(): boolean {
+  return (process.env.FINANCE_AGENT_MODEL ?? '').startsWith(SCRIPTED_MODEL_PREFIX);
+}
@@ -0,0 +1,424 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test';
+import { ChildProcess, spawn } from 'child_process';
+import { ChatRequestError, sendChat } from './chat-client';
+import { BudgetAlert, verifyWebhookSignature } from './budget-alerts';
+import { todayIso } from './dates';
+import { callA2a, fetchAgentCard, streamA2aMessage, userMessage } from './a2a-client';
+import { A2A_ERROR_CODES, A2aStreamResult, A2aTask } from './a2a-protocol';
+import type { UsageReport } from './usage-ledger';
+import type { UserMemory } from './user-memory';
+import { DEMO_SCENARIO_PATH, httpTransport, loadScenario, runScenario } from './scenario';
+
+const PORT = 3900 + Math.floor(Math.random() * 100);
+const BASE_URL = `http://localhost:${PORT}`;
+const API_KEY = 'test-key';
+const headers = { 'X-API-Key': API_KEY };
+
+const WEBHOOK_SECRET = 'test-webhook-secret';
+
+let server: ChildProcess;
+
+/**
+ * Receives alert webhooks; the very first attempt fails to exercise retries
+ */
+const webhookCalls: { body: string; timestamp: string; signature: string; status: number }[] = [];
+const webhookReceiver = Bun.serve({
+  port: 0,
+  async fetch(request) {
+    const status = webhookCalls.length === 0 ? 503 : 200;
+    webhookCalls.push({
+      body: await request.text(),
+      timestamp: request.headers.get('X-Alert-Timestamp') ?? '',
+      signature: request.headers.get('X-Alert-Signature') ?? '',
+      status,
+    });
+    return new Response(null, { status });
+  },
+});
+
+/**
+ * Run the real server on the scripted model, with no Gemini API key at all
+ */
+async function startServer(port: number, overrides: NodeJS.ProcessEnv): Promise<ChildProcess> {
+  const env: NodeJS.ProcessEnv = {
+    ...process.env,
+    PORT: String(port),
+    FINANCE_AGENT_MODEL: 'scripted:./scripted-conversation.json',
+    SESSION_STORE: 'memory',
+    ...overrides,
+  };
+  delete env.GOOGLE_GENAI_API_KEY;
+
+  const child = spawn('bun', ['run', 'server.ts'], { cwd: __dirname, env, stdio: 'ignore' });
+  for (let attempt = 0; attempt < 50; attempt++) {
+    try {
+      if ((await fetch(`http://localhost:${port}`)).ok) return child;
+    } catch {
+      // Not listening yet
+    }
+    await new Promise((resolve) => setTimeout(resolve, 200));
+  }
+  child.kill();
+  throw new Error('Server did not start');
+}
+
+beforeAll(async () => {
+  server = await startServer(PORT, {
+    AUTH_API_KEYS: `server-user:${API_KEY}`,
+    // More requests than one user's default burst of 20
+    RATE_LIMIT_USER_CAPACITY: '100',
+    ALERT_WEBHOOK_URLS: `http://localhost:${webhookReceiver.port}/budget`,
+    ALERT_WEBHOOK_SECRET: WEBHOOK_SECRET,
+    ALERT_WEBHOOK_RETRY_BASE_MS: '10',
+  });
+}, 15_000);
+
+afterAll(() => {
+  server?.kill();
+  webhookReceiver.stop(true);
+});
+
+describe('/chat end to end', () => {
+  test('streams tool calls, state changes and the reply as typed events', async () => {
+    const sessionId = `e2e-${Date.now()}`;
+    const result = await sendChat({
+      baseUrl: BASE_URL,
+      headers,
+      sessionId,
+      message: 'Please set a budget goal of $200 for dining out using the set_budget_goal tool.',
+    });
+
+    expect(result.error).toBeNull();
+    expect(result.toolCalls.map((call) => call.name)).toEqual(['set_budget_goal']);
+    expect(result.events.map((event) => event.type)).toContain('state_delta');
+    expect(result.text).toContain('dining budget is set to $200.00');
+    expect(result.completion?.usage.totalTokens).toBeGreaterThan(0);
+    expect(result.completion?.agent).toBe('budget_coach');
+
+    // The goal was stored in the caller's session
+    const session = await fetch(`${BASE_URL}/sessions/${sessionId}`, { headers })
+      .then((response) => response.json() as Promise<{ userId: string; state: Record<string, unknown[]> }>);
+    expect(session.userId).toBe('server-user');
+    expect(session.state.budgetGoals).toHaveLength(1);
+  });
+
+  test('keeps context across turns of the same session', async () => {
+    const sessionId = `e2e-multi-${Date.now()}`;
+    await sendChat({ baseUrl: BASE_URL, headers, sessionId, message: 'Please set a budget goal of $200 for dining' });
+    const status = await sendChat({
+      baseUrl: BASE_URL,
+      headers,
+      sessionId,
+      message: 'Using the calculate_budget_status tool, how am I doing with $85 spent?',
+    });
+
+    expect(status.toolCalls.map((call) => call.name)).toEqual(['calculate_budget_status']);
+    expect(status.text).toContain('on track');
+  });
+
+  test('rejects requests without a credential', async () => {
+    const attempt = sendChat({ baseUrl: BASE_URL, message: 'hello' });
+
+    await expect(attempt).rejects.toBeInstanceOf(ChatRequestError);
+    await expect(attempt).rejects.toMatchObject({ status: 401, code: 'unauthenticated' });
+  });
+
+  test('rejects a request for another user\'s session', async () => {
+    const attempt = sendChat({ baseUrl: BASE_URL, headers, userId: 'someone-else', message: 'hello' });
+
+    await expect(attempt).rejects.toMatchObject({ status: 403, code: 'forbidden' });
+  });
+
+  test('answers a malformed /chat body with a 400', async () => {
+    const response = await fetch(`${BASE_URL}/chat`, {
+      method: 'POST',
+      headers: { ...headers, 'Content-Type': 'application/json' },
+      body: '{"message": ',
+    });
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({ error: { code: 'invalid_request' } });
+  });
+
+  test('keeps clients from writing app-wide state', async () => {
+    const sessionId = `e2e-app-state-${Date.now()}`;
+    const send = (method: string, path: string, body: unknown) => fetch(`${BASE_URL}${path}`, {
+      method,
+      headers: { ...headers, 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+
+    const created = await send('POST', '/sessions', { sessionId, state: { 'app:banner': 'hello everyone' } });
+    expect(created.status).toBe(400);
+    expect(await created.json()).toMatchObject({ error: { code: 'invalid_state', details: ['app:banner'] } });
+
+    expect((await send('POST', '/sessions', { sessionId })).status).toBe(201);
+    const patched = await send('PATCH', `/sessions/${sessionId}`, { state: { 'app:banner': 'hello everyone' } });
+    expect(patched.status).toBe(400);
+  });
+
+  test('rejects state values that do not match their types', async () => {
+    const sessionId = `e2e-bad-state-${Date.now()}`;
+    const send = (method: string, path: string, body: unknown) => fetch(`${BASE_URL}${path}`, {
+      method,
+      headers: { ...headers, 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+
+    const created = await send('POST', '/sessions', { sessionId, state: { userNotes: 'not a list' } });
+    expect(created.status).toBe(400);
+    expect(await created.json()).toMatchObject({ error: { code: 'invalid_state', details: ['userNotes'] } });
+
+    expect((await send('POST', '/sessions', { sessionId })).status).toBe(201);
+    const patched = await send('PATCH', `/sessions/${sessionId}`, { state: { transactions: 'x', budgetGoals: 5 } });
+    expect(patched.status).toBe(400);
+    expect(await patched.json()).toMatchObject({ error: { code: 'invalid_state', details: ['transactions', 'budgetGoals'] } });
+
+    // Nothing was written, so the session still works
+    const result = await sendChat({ baseUrl: BASE_URL, headers, sessionId, message: 'Please set a budget goal of $200 for dining' });
+    expect(result.error).toBeNull();
+  });
+
+  test('never hands out or takes in the PII vault', async () => {
+    const sessionId = `e2e-pii-${Date.now()}`;
+    const result = await sendChat({ baseUrl: BASE_URL, headers, sessionId, message: 'My card is 4111 1111 1111 1111' });
+    expect(result.error).toBeNull();
+    const deltas = result.events.flatMap((event) => (event.type === 'state_delta' ? [event.delta] : []));
+    expect(JSON.stringify(deltas)).not.toContain('4111');
+
+    const session = await fetch(`${BASE_URL}/sessions/${sessionId}`, { headers })
+      .then((response) => response.json() as Promise<{ state: Record<string, unknown> }>);
+    expect(session.state).not.toHaveProperty('piiVault');
+    const events = await fetch(`${BASE_URL}/sessions/${sessionId}/events?limit=100`, { headers })
+      .then((response) => response.json() as Promise<{ items: { stateDelta: Record<string, unknown> }[] }>);
+    expect(events.items.some((event) => 'piiVault' in event.stateDelta)).toBe(false);
+
+    const patched = await fetch(`${BASE_URL}/sessions/${sessionId}`, {
+      method: 'PATCH',
+      headers: { ...headers, 'Content-Type': 'application/json' },
+      body: JSON.stringify({ state: { piiVault: { '[CARD_1]': '5500 0000 0000 0004' } } }),
+    });
+    expect(patched.status).toBe(400);
+    expect(await patched.json()).toMatchObject({ error: { code: 'invalid_state', details: ['piiVault'] } });
+  });
+
+  test('rejects statement import options it does not know', async () => {
+    const form = new FormData();
+    form.append('file', new File(['Date,Description,Amount\n2024-01-15,Coffee,-4.50\n'], 'statement.csv'));
+    form.append('sessionId', `e2e-import-${Date.now()}`);
+    form.append('dateOrder', 'DDMMYY');
+    const response = await fetch(`${BASE_URL}/import`, { method: 'POST', headers, body: form });
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({ error: { code: 'invalid_request', message: expect.stringContaining('dateOrder') } });
+  });
+
+  test('rejects a column mapping that is not column names', async () => {
+    for (const columnMapping of ['{"date": ', '{"date": 1, "description": "Memo"}', '["Date", "Memo"]']) {
+      const form = new FormData();
+      form.append('file', new File(['Date,Memo,Amount\n2024-01-15,Coffee,-4.50\n'], 'statement.csv'));
+      form.append('sessionId', `e2e-import-mapping-${Date.now()}`);
+      form.append('columnMapping', columnMapping);
+      const response = await fetch(`${BASE_URL}/import`, { method: 'POST', headers, body: form });
+
+      expect(response.status).toBe(400);
+      expect(await response.json()).toMatchObject({ error: { code: 'invalid_request', message: expect.stringContaining('columnMapping') } });
+    }
+  });
+
+  test('downloads a stored report in the requested format', async () => {
+    const sessionId = `e2e-report-${Date.now()}`;
+    const report = {
+      id: 'report-1',
+      title: 'Personal Finance Review Report',
+      createdAt: '2024-01-31T12:00:00.000Z',
+      locale: 'en-US',
+      summary: 'Total spent: $60.00.',
+      spending: {
+        currency: 'USD',
+        total: { amountMinor: 6000, currency: 'USD' },
+        categories: [{ name: 'transport', amount: { amountMinor: 6000, currency: 'USD' } }],
+      },
+      budgets: [],
+      subscriptions: [],
+      recommendations: [],
+    };
+    await fetch(`${BASE_URL}/sessions`, {
+      method: 'POST',
+      headers: { ...headers, 'Content-Type': 'application/json' },
+      body: JSON.stringify({ sessionId, state: { reports: [report] } }),
+    });
+
+    const csv = await fetch(`${BASE_URL}/reports/report-1?sessionId=${sessionId}&format=csv`, { headers });
+    expect(csv.headers.get('content-type')).toContain('text/csv');
+    expect(csv.headers.get('content-disposition')).toBe('attachment; filename="spending-report-2024-01-31.csv"');
+    expect(await csv.text()).toContain('category,transport,60.00,USD,');
+
+    const list = await fetch(`${BASE_URL}/reports?sessionId=${sessionId}`, { headers })
+      .then((response) => response.json() as Promise<{ items: { id: string }[] }>);
+    expect(list.items.map((item) => item.id)).toEqual(['report-1']);
+
+    const missing = await fetch(`${BASE_URL}/reports/nope?sessionId=${sessionId}`, { headers });
+    expect(missing.status).toBe(404);
+    const badFormat = await fetch(`${BASE_URL}/reports/report-1?sessionId=${sessionId}&format=pdf`, { headers });
+    expect(badFormat.status).toBe(400);
+  });
+
+  test('raises budget alerts to the inbox, the webhooks and the next turn', async () => {
+    const sessionId = `e2e-alerts-${Date.now()}`;
+    const today = todayIso();
+    const dining = (amount: number) => ({
+      transactions: [{ date: today, description: 'restaurant', amount: { amountMinor: amount * 100, currency: 'USD' }, category: 'dining' }],
+    });
+    const patch = (state: Record<string, unknown>) => fetch(`${BASE_URL}/sessions/${sessionId}`, {
+      method: 'PATCH',
+      headers: { ...headers, 'Content-Type': 'application/json' },
+      body: JSON.stringify({ state }),
+    });
+    const inbox = (query = '') => fetch(`${BASE_URL}/alerts${query}`, { headers })
+      .then((response) => response.json() as Promise<{ items: BudgetAlert[]; unread: number }>);
+
+    await fetch(`${BASE_URL}/sessions`, {
+      method: 'POST',
+      headers: { ...headers, 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        sessionId,
+        state: { budgetGoals: [{ category: 'dining', limit: { amountMinor: 10000, currency: 'USD' }, setAt: new Date().toISOString() }] },
+      }),
+    });
+    await patch(dining(90));
+    await patch(dining(90));
+    await patch(dining(120));
+
+    // The repeated warning is deduplicated; going over budget alerts despite the cool-down
+    const alerts = (await inbox()).items.filter((alert) => alert.sessionId === sessionId);
+    expect(alerts.map((alert) => alert.status)).toEqual(['over_budget', 'warning']);
+    expect(alerts[1].message).toContain('⚠️ dining has used 90% of its $100.00 budget');
+
+    // Each alert reaches the webhook with a valid signature, the first after a retry
+    for (let attempt = 0; attempt < 50 && webhookCalls.filter((call) => call.status === 200).length < 2; attempt++) {
+      await new Promise((resolve) => setTimeout(resolve, 50));
+    }
+    const delivered = webhookCalls.filter((call) => call.status === 200);
+    expect(webhookCalls[0].status).toBe(503);
+    expect(delivered.map((call) => (JSON.parse(call.body) as { alert: BudgetAlert }).alert.id).sort())
+      .toEqual(alerts.map((alert) => alert.id).sort());
+    delivered.forEach((call) => {
+      expect(verifyWebhookSignature(WEBHOOK_SECRET, call.timestamp, call.body, call.signature)).toBe(true);
+    });
+
+    // The next turn sees the queued alerts, which then leave the queue
+    const sessionState = () => fetch(`${BASE_URL}/sessions/${sessionId}`, { headers })
+      .then((response) => response.json() as Promise<{ state: { pendingAlerts: BudgetAlert[] } }>);
+    expect((await sessionState()).state.pendingAlerts).toHaveLength(2);
+    await sendChat({ baseUrl: BASE_URL, headers, sessionId, message: 'Based on the analysis you just did, which category did I spend the most in?' });
+    expect((await sessionState()).state.pendingAlerts).toEqual([]);
+
+    const read = await fetch(`${BASE_URL}/alerts/read`, {
+      method: 'POST',
+      headers: { ...headers, 'Content-Type': 'application/json' },
+      body: JSON.stringify({ ids: [alerts[0].id] }),
+    }).then((response) => response.json() as Promise<{ marked: number }>);
+    expect(read.marked).toBe(1);
+    expect((await inbox('?unread=true')).items.map((alert) => alert.id)).not.toContain(alerts[0].id);
+
+    const invalid = await fetch(`${BASE_URL}/alerts/read`, {
+      method: 'POST',
+      headers: { ...headers, 'Content-Type': 'application/json' },
+      body: 'null',
+    });
+    expect(invalid.status).toBe(400);
+    expect(await invalid.json()).toMatchObject({ error: { code: 'invalid_request' } });
+  });
+
+  test('serves the agent over A2A with tasks mapped onto sessions', async () => {
+    // The agent card is public and lists the tools as skills
+    const card = await fetchAgentCard(BASE_URL);
+    expect(card.url).toBe(`${BASE_URL}/a2a`);
+    expect(card.skills.map((skill) => skill.id)).toContain('calculate_budget_status');
+    expect(card.securitySchemes).toHaveProperty('apiKey');
+    expect((await fetch(card.url, { method: 'POST', body: '{}' })).status).toBe(401);
+
+    const contextId = `e2e-a2a-${Date.now()}`;
+    const task = await callA2a<A2aTask>(card.url, 'message/send', {
+      message: userMessage('Please set a budget goal of $200 for dining', contextId),
+    }, headers);
+    expect(task.status.state).toBe('completed');
+    expect(task.contextId).toBe(contextId);
+    expect(task.status.message?.parts).toEqual([{ kind: 'text', text: expect.stringContaining('dining budget is set to $200.00') }]);
+    expect(task.artifacts.find((artifact) => artifact.name === 'tool-results')?.parts)
+      .toEqual([{ kind: 'data', data: expect.objectContaining({ tool: 'set_budget_goal' }) }]);
+
+    // The follow-up streams in the same context, which is the caller's ADK session
+    const updates: A2aStreamResult[] = [];
+    for await (const update of streamA2aMessage(card.url, userMessage('Using the calculate_budget_status tool, how am I doing with $85 spent?', contextId), headers)) {
+      updates.push(update);
+    }
+    expect(updates[0].kind).toBe('task');
+    expect(updates.some((update) => update.kind === 'artifact-update')).toBe(true);
+    const last = updates[updates.length - 1];
+    expect(last).toMatchObject({ kind: 'status-update', final: true, status: { state: 'completed' } });
+
+    const session = await fetch(`${BASE_URL}/sessions/${contextId}`, { headers })
+      .then((response) => response.json() as Promise<{ userId: string; state: Record<string, unknown[]> }>);
+    expect(session.userId).toBe('server-user');
+    expect(session.state.budgetGoals).toHaveLength(1);
+
+    const fetched = await callA2a<A2aTask>(card.url, 'tasks/get', { id: updates[0].kind === 'task' ? updates[0].id : '', historyLength: 1 }, headers);
+    expect(fetched.history.map((message) => message.role)).toEqual(['agent']);
+    expect(fetched.history[0].parts).toEqual([{ kind: 'text', text: expect.stringContaining('on track') }]);
+
+    await expect(callA2a(card.url, 'tasks/cancel', { id: task.id }, headers))
+      .rejects.toMatchObject({ code: A2A_ERROR_CODES.taskNotCancelable });
+    await expect(callA2a(card.url, 'tasks/get', { id: 'missing' }, headers))
+      .rejects.toMatchObject({ code: A2A_ERROR_CODES.taskNotFound });
+    await expect(callA2a(card.url, 'tasks/list', {}, headers))
+      .rejects.toMatchObject({ code: A2A_ERROR_CODES.methodNotFound });
+  });
+
+  test('records token usage for the caller', async () => {
+    const usage = await fetch(`${BASE_URL}/usage`, { headers })
+      .then((response) => response.json() as Promise<UsageReport>);
+
+    expect(usage.userId).toBe('server-user');
+    expect(usage.daily.used.totalTokens).toBeGreaterThan(0);
+  });
+
+  test('lists, searches and forgets what is remembered across sessions', async () => {
+    const memories = (query = '') => fetch(`${BASE_URL}/memory${query}`, { headers })
+      .then((response) => response.json() as Promise<{ items: UserMemory[] }>);
+
+    // Earlier tests set a dining budget in their sessions
+    const [dining] = (await memories('?q=dining')).items;
+    expect(dining).toMatchObject({ userId: 'server-user', kind: 'budget_goal', key: 'dining' });
+    expect((await memories('?kind=budget_goal')).items.map((memory) => memory.id)).toContain(dining.id);
+    expect((await fetch(`${BASE_URL}/memory?kind=secrets`, { headers })).status).toBe(400);
+
+    const forget = () => fetch(`${BASE_URL}/memory/${dining.id}`, { method: 'DELETE', headers });
+    expect((await forget()).status).toBe(204);
+    expect((await forget()).status).toBe(404);
+    expect((await memories()).items.map((memory) => memory.id)).not.toContain(dining.id);
+  });
+});
+
+describe('scenarios over HTTP', () => {
+  let openServer: ChildProcess | undefined;
+  const OPEN_PORT = PORT + 100;
+
+  afterAll(() => {
+    openServer?.kill();
+  });
+
+  test('pass against an authenticated server', async () => {
+    const result = await runScenario(loadScenario(DEMO_SCENARIO_PATH), httpTransport({ baseUrl: BASE_URL, headers }));
+
+    expect(result.turns.flatMap((turn) => turn.failures)).toEqual([]);
+  });
+
+  test('pass against a server without authentication, as its default user', async () => {
+    openServer = await startServer(OPEN_PORT, { AUTH_DISABLED: 'true' });
+    const result = await runScenario(loadScenario(DEMO_SCENARIO_PATH), httpTransport({ baseUrl: `http://localhost:${OPEN_PORT}` }));
+
+    expect(result.turns.flatMap((turn) => turn.failures)).toEqual([]);
+  }, 15_000);
+});
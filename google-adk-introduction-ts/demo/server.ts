@@ -1,130 +1,452 @@
 import { Hono } from 'hono';
-import { streamText } from 'hono/streaming';
-import { InMemoryRunner, StreamingMode, Event } from '@google/adk';
+import { streamSSE } from 'hono/streaming';
+import { StreamingMode, createEvent, createEventActions } from '@google/adk';
+import { SpanStatusCode } from '@opentelemetry/api';
 import { personalFinanceAgent } from './agent';
-import { createUserContent, Part } from '@google/genai';
+import { createUserContent } from '@google/genai';
+import { randomUUID } from 'crypto';
+import {
+  CsvColumnMapping,
+  DATE_ORDERS,
+  SPENDING_SIGNS,
+  STATEMENT_FORMATS,
+  importStatement,
+  isCsvColumnMapping,
+} from './statement-import';
+import { MoneyError } from './money';
+import { readStateRecord, stateDelta } from './session-state';
+import { createSessionStore, sessionStoreConfigFromEnv } from './session-store';
+import { createSessionRoutes } from './session-routes';
+import { createReportRoutes } from './report-routes';
+import { apiError } from './api-response';
+import { usesScriptedModel } from './scripted-model';
+import { ChatStreamEvent, createChatEventTranslator } from './chat-protocol';
+import { AuthEnv, authConfigFromEnv, authMiddleware, createAuthProviders, requireUserId } from './auth';
+import { rateLimitConfigFromEnv, rateLimitMiddleware } from './rate-limit';
+import { startOfUtcDay, usageQuotasFromEnv, usageReport } from './usage-ledger';
+import { BudgetAlert, BudgetAlertMonitor, alertConfigFromEnv, touchesBudgets } from './budget-alerts';
+import { createAlertRoutes } from './alert-routes';
+import { createMemoryRoutes } from './memory-routes';
+import { AGENT_CARD_PATHS, createA2aRoutes } from './a2a-routes';
+import { createLogger } from './logger';
+import { TracingPlugin, setupTelemetry, tracingMiddleware, withSpan } from './telemetry';
+
+// Structured JSON logs; spans go to the exporters in OTEL_TRACES_EXPORTER
+const logger = createLogger('server');
+setupTelemetry();
 
 // Check for required environment variables
-console.log('🔍 Checking environment variables...');
-const requiredEnvVars = ['GOOGLE_GENAI_API_KEY'];
+// The scripted offline model (FINANCE_AGENT_MODEL=scripted:...) needs no API key
+const requiredEnvVars = usesScriptedModel() ? [] : ['GOOGLE_GENAI_API_KEY'];
 const missingEnvVars = requiredEnvVars.filter(key => !process.env[key]);
 
-console.log('Current environment variables:', {
-  GOOGLE_GENAI_API_KEY: process.env.GOOGLE_GENAI_API_KEY ? '✅ Set' : '❌ Missing',
-  GOOGLE_CLOUD_PROJECT: process.env.GOOGLE_CLOUD_PROJECT ? '✅ Set' : '❌ Missing',
-  GOOGLE_CLOUD_LOCATION: process.env.GOOGLE_CLOUD_LOCATION ? '✅ Set' : '❌ Missing',
+logger.info('Environment', {
+  GOOGLE_GENAI_API_KEY: Boolean(process.env.GOOGLE_GENAI_API_KEY),
+  GOOGLE_CLOUD_PROJECT: Boolean(process.env.GOOGLE_CLOUD_PROJECT),
+  GOOGLE_CLOUD_LOCATION: Boolean(process.env.GOOGLE_CLOUD_LOCATION),
+  FINANCE_AGENT_MODEL: process.env.FINANCE_AGENT_MODEL ?? '(default)',
 });
 
 if (missingEnvVars.length > 0) {
-  console.error('❌ Missing required environment variables:', missingEnvVars);
-  console.error('Please set the following environment variables:');
-  missingEnvVars.forEach(key => console.error(`  export ${key}="your-value-here"`));
-  console.error('See env.example for details');
+  logger.error('Missing required environment variables; see env.example', { missing: missingEnvVars });
   process.exit(1);
 }
-console.log('✅ All required environment variables are set');
 
-// Create global runner instance (like the working simulation)
+// Authentication: the user id comes from the caller's credential
+const authConfig = authConfigFromEnv();
+const authProviders = createAuthProviders(authConfig);
+if (authProviders.length === 0 && !authConfig.disabled) {
+  logger.error('No authentication configured: set AUTH_API_KEYS and/or AUTH_JWT_SECRET, or AUTH_DISABLED=true for local development');
+  process.exit(1);
+}
+if (authConfig.disabled && authProviders.length === 0) {
+  logger.warn('Authentication disabled: clients choose their own userId');
+} else {
+  logger.info('Authentication', { providers: authProviders.map((provider) => provider.name) });
+}
+
+// Create global runner instance backed by the configured session store
+// (SESSION_STORE=memory by default, or sqlite for sessions that survive restarts),
+// tracing every model call and tool execution
 const appName = 'finance_agent_app';
-const globalRunner = new InMemoryRunner({
-  agent: personalFinanceAgent,
-  appName,
+const sessionStoreConfig = sessionStoreConfigFromEnv();
+const sessionStore = createSessionStore(personalFinanceAgent, appName, sessionStoreConfig, [new TracingPlugin()]);
+const globalRunner = sessionStore.runner;
+const usageLedger = sessionStore.usageLedger;
+const usageQuotas = usageQuotasFromEnv();
+logger.info('Session store', {
+  kind: sessionStoreConfig.kind,
+  ...(sessionStoreConfig.kind === 'sqlite' ? { dbPath: sessionStoreConfig.dbPath } : {}),
 });
 
-const app = new Hono();
-
-app.get('/', (c) => {
-  return c.text('Finance Agent Hono Server is running!');
-});
+// Budget alerts go to the user's inbox, the configured webhooks and the next turn
+const alertConfig = alertConfigFromEnv();
+const alertMonitor = new BudgetAlertMonitor(sessionStore.alertInbox, alertConfig);
+logger.info('Budget alerts', { webhooks: alertConfig.webhookUrls.length });
 
-app.post('/chat', async (c) => {
-  const { message, userId = 'default-user', sessionId = 'default-session' } = await c.req.json();
+/**
+ * Fetch a session, creating it on first use.
+ * getSession resolves to undefined (it does not throw) for unknown sessions.
+ */
+async function getOrCreateSession(userId: string, sessionId: string) {
+  const existing = await globalRunner.sessionService.getSession({ appName, userId, sessionId });
+  if (existing) {
+    return existing;
+  }
+  logger.info('Creating session', { userId, sessionId });
+  return globalRunner.sessionService.createSession({ appName, userId, sessionId, state: {} });
+}
 
-  if (!message) {
-    return c.json({ error: 'Message is required' }, 400);
+/**
+ * Check a session's budgets after its transactions or goals changed, and
+ * queue new alerts for the agent's next turn. Alerts in `delivered` were
+ * already shown to the agent and leave the queue.
+ */
+async function updateBudgetAlerts(userId: string, sessionId: string, delivered: string[] = []): Promise<BudgetAlert[]> {
+  const session = await globalRunner.sessionService.getSession({ appName, userId, sessionId });
+  if (!session) {
+    return [];
   }
 
-  // Get or create session - don't recreate existing sessions!
-  console.log(`Checking session: ${sessionId} for user: ${userId}`);
-  let session: Awaited<ReturnType<typeof globalRunner.sessionService.getSession>>;
-  try {
-    // Try to get existing session first
-    session = await globalRunner.sessionService.getSession({
-      appName,
-      userId,
-      sessionId,
+  const raised = alertMonitor.check(
+    userId,
+    sessionId,
+    readStateRecord(session.state, 'budgetGoals'),
+    readStateRecord(session.state, 'transactions'),
+    { locale: readStateRecord(session.state, 'preferences').locale }
+  );
+  const pending = readStateRecord(session.state, 'pendingAlerts');
+  const queued = [...pending.filter((alert) => !delivered.includes(alert.id)), ...raised];
+
+  if (raised.length > 0 || queued.length !== pending.length) {
+    await globalRunner.sessionService.appendEvent({
+      session,
+      event: createEvent({
+        invocationId: `alerts-${randomUUID()}`,
+        author: 'user',
+        actions: createEventActions({ stateDelta: stateDelta({ pendingAlerts: queued }) }),
+      }),
     });
-    console.log(`✅ Using existing session: ${session!.id}`);
-  } catch (error) {
-    // Session doesn't exist, create a new one
-    console.log(`📝 Creating new session: ${sessionId}`);
-    try {
-      session = await globalRunner.sessionService.createSession({
-        appName,
-        userId,
-        sessionId,
-        state: {},
-      });
-      console.log(`✅ New session created: ${session.id}`);
-    } catch (createError) {
-      console.error('❌ Failed to create session:', createError);
-      return c.json({ error: 'Failed to create or retrieve session' }, 500);
-    }
   }
+  if (raised.length > 0) {
+    logger.info('Budget alerts raised', { userId, sessionId, count: raised.length });
+  }
+  return raised;
+}
 
-  return streamText(c, async (stream) => {
-    // Set up abort handling
-    stream.onAbort(() => {
-      console.log('Stream aborted');
-    });
+/**
+ * Run one turn of the agent, reporting it through `send` as protocol events.
+ * Shared by /chat and A2A tasks, so both enforce token quotas, record usage
+ * and raise budget alerts the same way. Aborting `signal` ends the turn early.
+ */
+async function runAgentTurn(
+  userId: string,
+  sessionId: string,
+  message: string,
+  send: (event: ChatStreamEvent) => Promise<void>,
+  signal?: AbortSignal
+): Promise<void> {
+  // One span per turn: model and tool spans nest under it
+  return withSpan('agent_turn', { 'session.id': sessionId, 'enduser.id': userId }, async (span) => {
+    const turnLogger = logger.child({ userId, sessionId });
+    const translator = createChatEventTranslator();
+    let budgetsChanged = false;
+    const fail = async (event: Extract<ChatStreamEvent, { type: 'error' }>) => {
+      span.setStatus({ code: SpanStatusCode.ERROR, message: event.message });
+      span.setAttribute('error.type', event.code);
+      await send(event);
+    };
 
     try {
-      console.log(`Processing message for user ${userId}, session ${sessionId}`);
-      const userContent = createUserContent(message);
-      console.log('Created user content, starting runner...');
+      // Refuse before calling the model once a token quota is used up
+      const usage = usageReport(usageLedger, usageQuotas, userId);
+      if (usage.exceeded) {
+        await fail({ type: 'error', code: 'quota_exceeded', message: `The ${usage.exceeded} token quota is used up` });
+        return;
+      }
 
-      let eventCount = 0;
+      // Alerts queued before this turn are shown to the agent through its instruction
+      const session = await getOrCreateSession(userId, sessionId);
+      const deliveredAlerts = readStateRecord(session.state, 'pendingAlerts').map((alert) => alert.id);
+
+      turnLogger.info('Turn started', { messageLength: message.length });
       for await (const event of globalRunner.runAsync({
         userId,
         sessionId,
-        newMessage: userContent,
+        newMessage: createUserContent(message),
         runConfig: {
           streamingMode: StreamingMode.SSE,
         },
       })) {
-        eventCount++;
-        const adkEvent = event as Event;
-        console.log(`Event ${eventCount}:`, {
-          hasContent: !!adkEvent.content,
-          hasParts: !!adkEvent.content?.parts,
-          author: adkEvent.author,
-          final: !!(adkEvent as any).final
-        });
-
-        if (adkEvent.content?.parts?.[0]?.text) {
-          const text = adkEvent.content.parts[0].text;
-          console.log(`Writing text chunk: "${text.substring(0, 50)}${text.length > 50 ? '...' : ''}"`);
-          await stream.write(text);
-        } else if ((adkEvent as any).final) {
-          console.log('Final event received, ending stream');
-          break;
+        if (signal?.aborted) {
+          turnLogger.info('Turn stopped');
+          span.setAttribute('turn.aborted', true);
+          return;
+        }
+        for (const chatEvent of translator.translate(event)) {
+          if (chatEvent.type === 'tool_call') {
+            turnLogger.debug('Tool call', { tool: chatEvent.name, agent: chatEvent.author });
+          }
+          if (chatEvent.type === 'state_delta' && touchesBudgets(chatEvent.delta)) {
+            budgetsChanged = true;
+          }
+          if (chatEvent.type === 'error') {
+            turnLogger.error('Model error', { message: chatEvent.message });
+            await fail(chatEvent);
+            return;
+          }
+          await send(chatEvent);
+        }
+
+        // A turn with many tool calls can cross the quota part-way through
+        const { exceeded } = usageReport(usageLedger, usageQuotas, userId, Date.now(), translator.usage());
+        if (exceeded) {
+          await fail({ type: 'error', code: 'quota_exceeded', message: `The ${exceeded} token quota is used up` });
+          return;
         }
       }
 
-      console.log(`Processed ${eventCount} events total`);
+      if (budgetsChanged || deliveredAlerts.length > 0) {
+        await updateBudgetAlerts(userId, sessionId, deliveredAlerts);
+      }
+
+      const completion = translator.complete();
+      span.setAttributes({ 'turn.event_count': completion.eventCount, 'gen_ai.agent.name': completion.agent ?? '' });
+      turnLogger.info('Turn complete', {
+        eventCount: completion.eventCount,
+        totalTokens: completion.usage.totalTokens,
+        agent: completion.agent,
+      });
+      await send(completion);
     } catch (error) {
       const err = error as Error;
-      console.error('Streaming error details:', {
-        message: err.message,
-        stack: err.stack,
-        name: err.name
+      span.recordException(err);
+      turnLogger.error('Turn failed', { error: err });
+      await fail({ type: 'error', code: 'runner_error', message: err.message });
+    } finally {
+      const turnUsage = translator.usage();
+      span.setAttributes({
+        'gen_ai.usage.input_tokens': turnUsage.promptTokens,
+        'gen_ai.usage.output_tokens': turnUsage.candidatesTokens,
+        'gen_ai.usage.total_tokens': turnUsage.totalTokens,
       });
-      await stream.write(`\n[Error: ${err.message}]`);
+      if (turnUsage.totalTokens > 0) {
+        usageLedger.record({ userId, sessionId, timestamp: Date.now(), usage: turnUsage });
+      }
     }
   });
+}
+
+const app = new Hono<AuthEnv>();
+
+// Unknown routes and unexpected failures use the same error body as every route
+app.notFound((c) => apiError(c, 404, 'not_found', `No route for ${c.req.method} ${c.req.path}`));
+app.onError((error, c) => {
+  logger.error('Unhandled server error', { method: c.req.method, path: c.req.path, error });
+  return apiError(c, 500, 'internal_error', 'Unexpected server error');
+});
+
+// A span per request, started before auth so rejected requests are traced too
+app.use('*', tracingMiddleware());
+
+// Everything except the health check and the A2A agent card needs a credential
+const publicPaths = ['/', ...AGENT_CARD_PATHS];
+app.use('*', authMiddleware(authProviders, publicPaths));
+// Token buckets per IP and per authenticated user
+app.use('*', rateLimitMiddleware(rateLimitConfigFromEnv(), publicPaths));
+
+app.route('/sessions', createSessionRoutes(globalRunner, appName, async (userId, sessionId, delta) => {
+  if (touchesBudgets(delta)) {
+    await updateBudgetAlerts(userId, sessionId);
+  }
+}));
+app.route('/reports', createReportRoutes(globalRunner, appName));
+app.route('/alerts', createAlertRoutes(sessionStore.alertInbox));
+app.route('/memory', createMemoryRoutes(sessionStore.userMemory));
+// Other agents reach ours over A2A; context ids are session ids
+app.route('/', createA2aRoutes({
+  agent: personalFinanceAgent,
+  runTurn: runAgentTurn,
+  authProviders: authProviders.map((provider) => provider.name),
+  publicUrl: process.env.A2A_PUBLIC_URL,
+}));
+
+app.get('/', (c) => {
+  return c.text('Finance Agent Hono Server is running!');
+});
+
+app.post('/chat', async (c) => {
+  const body = await c.req.json().catch(() => null);
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    return apiError(c, 400, 'invalid_request', 'Body must be a JSON object');
+  }
+  const { message, userId: requestedUserId, sessionId = 'default-session' } = body;
+
+  if (!message) {
+    return apiError(c, 400, 'invalid_request', 'Message is required');
+  }
+  const userId = requireUserId(c, requestedUserId, 'default-user');
+  if (userId instanceof Response) {
+    return userId;
+  }
+
+  // Refuse before calling the model once a token quota is used up
+  const usage = usageReport(usageLedger, usageQuotas, userId);
+  if (usage.exceeded) {
+    return apiError(c, 429, 'quota_exceeded', `The ${usage.exceeded} token quota is used up`, usage);
+  }
+
+  // Get or create session - don't recreate existing sessions!
+  try {
+    await getOrCreateSession(userId, sessionId);
+  } catch (error) {
+    logger.error('Failed to create session', { userId, sessionId, error });
+    return apiError(c, 500, 'session_unavailable', 'Failed to create or retrieve session');
+  }
+
+  // Typed Server-Sent Events: see chat-protocol.ts for the event shapes
+  return streamSSE(c, async (stream) => {
+    let sequence = 0;
+    const send = (event: ChatStreamEvent) =>
+      stream.writeSSE({ event: event.type, data: JSON.stringify(event), id: String(sequence++) });
+
+    // Set up abort handling
+    stream.onAbort(() => {
+      logger.info('Chat stream aborted by the client', { userId, sessionId });
+    });
+
+    await runAgentTurn(userId, sessionId, message, send);
+  });
+});
+
+/**
+ * Token consumption of the caller against the daily and monthly quotas,
+ * with per-day totals for the last 30 days
+ */
+app.get('/usage', (c) => {
+  const userId = requireUserId(c, c.req.query('userId'), 'default-user');
+  if (userId instanceof Response) {
+    return userId;
+  }
+
+  const now = Date.now();
+  const history = usageLedger.dailyTotals(userId, startOfUtcDay(now) - 29 * 24 * 60 * 60 * 1000);
+  return c.json({ ...usageReport(usageLedger, usageQuotas, userId, now), history });
+});
+
+/**
+ * An optional form field that must be one of `allowed`: undefined when
+ * missing, null when it holds anything else
+ */
+function readChoice<T extends string>(value: unknown, allowed: readonly T[]): T | undefined | null {
+  if (value === undefined || value === '') {
+    return undefined;
+  }
+  return allowed.includes(value as T) ? (value as T) : null;
+}
+
+/**
+ * Upload a bank statement (CSV, OFX or QIF) into a session.
+ *
+ * Expects multipart/form-data with a `file` field plus optional `userId`,
+ * `sessionId`, `format`, `dateOrder`, `currency`, `spendingSign` and `columnMapping`
+ * (a JSON object). The merged transactions are written to session state
+ * through an event, the same way a tool would store them.
+ */
+app.post('/import', async (c) => {
+  const body = await c.req.parseBody();
+  const file = body['file'];
+  const userId = requireUserId(c, body['userId'], 'default-user');
+  if (userId instanceof Response) {
+    return userId;
+  }
+  const sessionId = typeof body['sessionId'] === 'string' ? body['sessionId'] : 'default-session';
+
+  if (!(file instanceof File)) {
+    return apiError(c, 400, 'invalid_request', 'A statement file is required in the "file" field');
+  }
+
+  // Each option is omitted or one of its allowed values; anything else would change how the file is read
+  const format = readChoice(body['format'], STATEMENT_FORMATS);
+  const dateOrder = readChoice(body['dateOrder'], DATE_ORDERS);
+  const spendingSign = readChoice(body['spendingSign'], SPENDING_SIGNS);
+  for (const [field, value, allowed] of [
+    ['format', format, STATEMENT_FORMATS],
+    ['dateOrder', dateOrder, DATE_ORDERS],
+    ['spendingSign', spendingSign, SPENDING_SIGNS],
+  ] as const) {
+    if (value === null) {
+      return apiError(c, 400, 'invalid_request', `"${field}" must be one of ${allowed.join(', ')}`);
+    }
+  }
+
+  let columnMapping: CsvColumnMapping | undefined;
+  if (typeof body['columnMapping'] === 'string') {
+    let parsed: unknown = null;
+    try {
+      parsed = JSON.parse(body['columnMapping']);
+    } catch {
+      // Not JSON: rejected below along with mappings of the wrong shape
+    }
+    if (!isCsvColumnMapping(parsed)) {
+      return apiError(c, 400, 'invalid_request', 'columnMapping must be a JSON object of column names, with at least "date" and "description"');
+    }
+    columnMapping = parsed;
+  }
+
+  const session = await getOrCreateSession(userId, sessionId);
+
+  const content = await file.text();
+  let result: ReturnType<typeof importStatement>;
+  try {
+    result = importStatement(readStateRecord(session.state, 'transactions'), content, {
+      filename: file.name,
+      format: format ?? undefined,
+      dateOrder: dateOrder ?? undefined,
+      currency: typeof body['currency'] === 'string'
+        ? body['currency']
+        : readStateRecord(session.state, 'preferences').currency,
+      spendingSign: spendingSign ?? undefined,
+      columnMapping,
+      rules: readStateRecord(session.state, 'categoryRules'),
+    });
+  } catch (error) {
+    if (error instanceof MoneyError) {
+      return apiError(c, 400, 'invalid_currency', error.message);
+    }
+    throw error;
+  }
+
+  if (result.imported.length === 0 && result.duplicates === 0) {
+    return apiError(c, 422, 'nothing_imported', 'No spending transactions could be imported from this statement', {
+      format: result.format,
+      errors: result.errors,
+    });
+  }
+
+  await globalRunner.sessionService.appendEvent({
+    session,
+    event: createEvent({
+      invocationId: `import-${randomUUID()}`,
+      author: 'user',
+      actions: createEventActions({ stateDelta: stateDelta({ transactions: result.transactions }) }),
+    }),
+  });
+  logger.info('Statement imported', { userId, sessionId, format: result.format, imported: result.imported.length });
+  const alerts = await updateBudgetAlerts(userId, sessionId);
+
+  return c.json({
+    format: result.format,
+    imported: result.imported.length,
+    duplicates: result.duplicates,
+    skipped: result.skipped,
+    totalTransactions: result.transactions.length,
+    errors: result.errors,
+    alerts: alerts.map((alert) => alert.message),
+  });
 });
 
 export default {
-  port: 3000,
+  port: Number(process.env.PORT ?? 3000),
   fetch: app.fetch,
 };
@@ -0,0 +1,236 @@
+/**
+ * Session Management Routes
+ *
+ * REST resources for the sessions that /chat uses implicitly:
+ *
+ *   POST   /sessions                      Create a session, optionally with initial state
+ *   GET    /sessions?userId=              List a user's sessions (paginated)
+ *   GET    /sessions/:sessionId?userId=   Current state, event count and context savings
+ *   GET    /sessions/:sessionId/events    Event history (paginated)
+ *   PATCH  /sessions/:sessionId           Merge keys into the session state
+ *   DELETE /sessions/:sessionId?userId=   Delete a session
+ *
+ * State changes are written as events with a state delta, the same way tools
+ * write state, so they show up in the event history and in every session store.
+ * The PII vault behind the placeholders is never returned and cannot be written.
+ *
+ * `onStateChange` is called after a session is created with state or patched,
+ * e.g. to check budgets against new transactions.
+ *
+ * Behind authentication, `userId` may be omitted; naming another user is a 403.
+ */
+
+import { Context, Hono } from 'hono';
+import { Runner, State, createEvent, createEventActions } from '@google/adk';
+import { randomUUID } from 'crypto';
+import { apiError, isPlainObject, paginate, readPageParams } from './api-response';
+import { AuthEnv, requireUserId } from './auth';
+import { PRIVATE_STATE_KEYS, findInvalidStateKeys, publicState, readStateRecord } from './session-state';
+
+export const SESSION_ID_PATTERN = /^[A-Za-z0-9._:-]{1,128}$/;
+
+/**
+ * Keys clients may not write: `temp:` keys only live for one invocation and
+ * are never stored, `app:` keys are shared by every user of the app, and
+ * private keys are the server's own
+ */
+const RESERVED_PREFIXES = [State.TEMP_PREFIX, State.APP_PREFIX];
+
+function findReservedKeys(state: Record<string, unknown>): string[] {
+  return Object.keys(state).filter((key) =>
+    RESERVED_PREFIXES.some((prefix) => key.startsWith(prefix)) || PRIVATE_STATE_KEYS.includes(key)
+  );
+}
+
+function reservedKeysError(c: Context, keys: string[]) {
+  return apiError(
+    c,
+    400,
+    'invalid_state',
+    `"${RESERVED_PREFIXES.join('" and "')}" keys and ${PRIVATE_STATE_KEYS.join(', ')} cannot be written`,
+    keys
+  );
+}
+
+/**
+ * A 400 response when `state` may not be written as given: reserved keys, or
+ * values without the shape the tools expect (they would break every later turn)
+ */
+function rejectState(c: Context, state: Record<string, unknown>): Response | undefined {
+  const reserved = findReservedKeys(state);
+  if (reserved.length > 0) {
+    return reservedKeysError(c, reserved);
+  }
+  const invalid = findInvalidStateKeys(state);
+  if (invalid.length > 0) {
+    return apiError(c, 400, 'invalid_state', `Invalid values for ${invalid.join(', ')}`, invalid);
+  }
+  return undefined;
+}
+
+export type StateChangeListener = (userId: string, sessionId: string, delta: Record<string, unknown>) => Promise<void>;
+
+export function createSessionRoutes(runner: Runner, appName: string, onStateChange?: StateChangeListener) {
+  const routes = new Hono<AuthEnv>();
+  const sessions = runner.sessionService;
+
+  routes.post('/', async (c) => {
+    const body = await c.req.json().catch(() => null);
+    if (!isPlainObject(body)) {
+      return apiError(c, 400, 'invalid_request', 'Body must be a JSON object');
+    }
+    const userId = requireUserId(c, body.userId);
+    if (userId instanceof Response) {
+      return userId;
+    }
+
+    const { sessionId, state = {} } = body;
+    if (sessionId !== undefined && (typeof sessionId !== 'string' || !SESSION_ID_PATTERN.test(sessionId))) {
+      return apiError(c, 400, 'invalid_session_id', 'sessionId must be 1-128 letters, digits or ._:- characters');
+    }
+    if (!isPlainObject(state)) {
+      return apiError(c, 400, 'invalid_state', '"state" must be a JSON object');
+    }
+    const rejected = rejectState(c, state);
+    if (rejected) {
+      return rejected;
+    }
+
+    // Unlike /chat, creating never silently replaces an existing conversation
+    if (sessionId && await sessions.getSession({ appName, userId, sessionId })) {
+      return apiError(c, 409, 'session_exists', `Session ${sessionId} already exists`);
+    }
+
+    const session = await sessions.createSession({ appName, userId, sessionId, state });
+    if (Object.keys(state).length > 0) {
+      await onStateChange?.(userId, session.id, state);
+    }
+    return c.json({
+      id: session.id,
+      userId: session.userId,
+      state: publicState(session.state),
+      lastUpdateTime: session.lastUpdateTime,
+    }, 201);
+  });
+
+  routes.get('/', async (c) => {
+    const userId = requireUserId(c, c.req.query('userId'));
+    if (userId instanceof Response) {
+      return userId;
+    }
+    const page = readPageParams(c);
+    if (!page) {
+      return apiError(c, 400, 'invalid_pagination', '"limit" must be a positive integer and "offset" a non-negative integer');
+    }
+
+    const { sessions: all } = await sessions.listSessions({ appName, userId });
+    const summaries = all
+      .sort((a, b) => b.lastUpdateTime - a.lastUpdateTime)
+      .map((session) => ({ id: session.id, userId: session.userId, lastUpdateTime: session.lastUpdateTime }));
+
+    return c.json(paginate(summaries, page.limit, page.offset));
+  });
+
+  routes.get('/:sessionId', async (c) => {
+    const userId = requireUserId(c, c.req.query('userId'));
+    if (userId instanceof Response) {
+      return userId;
+    }
+    const sessionId = c.req.param('sessionId');
+    const session = await sessions.getSession({ appName, userId, sessionId });
+    if (!session) {
+      return apiError(c, 404, 'session_not_found', `Session ${sessionId} not found`);
+    }
+
+    return c.json({
+      id: session.id,
+      userId: session.userId,
+      state: publicState(session.state),
+      eventCount: session.events.length,
+      compaction: readStateRecord(session.state, 'contextCompaction'),
+      lastUpdateTime: session.lastUpdateTime,
+    });
+  });
+
+  routes.get('/:sessionId/events', async (c) => {
+    const userId = requireUserId(c, c.req.query('userId'));
+    if (userId instanceof Response) {
+      return userId;
+    }
+    const page = readPageParams(c);
+    if (!page) {
+      return apiError(c, 400, 'invalid_pagination', '"limit" must be a positive integer and "offset" a non-negative integer');
+    }
+    const sessionId = c.req.param('sessionId');
+    const session = await sessions.getSession({ appName, userId, sessionId });
+    if (!session) {
+      return apiError(c, 404, 'session_not_found', `Session ${sessionId} not found`);
+    }
+
+    const events = session.events.map((event) => ({
+      id: event.id,
+      invocationId: event.invocationId,
+      author: event.author,
+      timestamp: event.timestamp,
+      content: event.content,
+      stateDelta: publicState(event.actions?.stateDelta ?? {}),
+    }));
+
+    return c.json(paginate(events, page.limit, page.offset));
+  });
+
+  routes.patch('/:sessionId', async (c) => {
+    const body = await c.req.json().catch(() => null);
+    if (!isPlainObject(body) || !isPlainObject(body.state)) {
+      return apiError(c, 400, 'invalid_request', 'Body must be a JSON object with a "state" object');
+    }
+    const userId = requireUserId(c, body.userId);
+    if (userId instanceof Response) {
+      return userId;
+    }
+    const { state } = body;
+    const rejected = rejectState(c, state);
+    if (rejected) {
+      return rejected;
+    }
+
+    const sessionId = c.req.param('sessionId');
+    const session = await sessions.getSession({ appName, userId, sessionId });
+    if (!session) {
+      return apiError(c, 404, 'session_not_found', `Session ${sessionId} not found`);
+    }
+
+    await sessions.appendEvent({
+      session,
+      event: createEvent({
+        invocationId: `state-patch-${randomUUID()}`,
+        author: 'user',
+        actions: createEventActions({ stateDelta: state }),
+      }),
+    });
+    await onStateChange?.(userId, sessionId, state);
+
+    return c.json({
+      id: session.id,
+      userId: session.userId,
+      state: publicState(session.state),
+      lastUpdateTime: session.lastUpdateTime,
+    });
+  });
+
+  routes.delete('/:sessionId', async (c) => {
+    const userId = requireUserId(c, c.req.query('userId'));
+    if (userId instanceof Response) {
+      return userId;
+    }
+    const sessionId = c.req.param('sessionId');
+    if (!await sessions.getSession({ appName, userId, sessionId })) {
+      return apiError(c, 404, 'session_not_found', `Session ${sessionId} not found`);
+    }
+
+    await sessions.deleteSession({ appName, userId, sessionId });
+    return c.body(null, 204);
+  });
+
+  return routes;
+}
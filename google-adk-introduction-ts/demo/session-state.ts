@@ -0,0 +1,350 @@
+/**
+ * Typed Session State for the Personal Finance Agent
+ *
+ * ADK stores session state as an untyped key/value record. This module gives
+ * the finance tools a typed view of that record:
+ * - Type definitions for everything the agent remembers across turns
+ * - Read helpers that fall back to safe defaults for missing keys
+ * - Write helpers that go through the tool context, so ADK records the
+ *   change as a state delta on the tool's event and persists it
+ *
+ * Key Learning: Tools never mutate state objects in place - they always write
+ * a new value back through the context so the change is tracked.
+ */
+
+import { CallbackContext, ReadonlyContext, ToolContext } from '@google/adk';
+import { AnomalyFlag } from './anomaly-detection';
+import { BudgetAlert } from './budget-alerts';
+import { BudgetPeriod, BudgetPeriodRecord } from './budget-periods';
+import { CategoryDefinition, CategoryRule } from './categorization';
+import { CompactionStats } from './conversation-compaction';
+import { DEFAULT_CURRENCY, DEFAULT_LOCALE, Money } from './money';
+import { RecurringPaymentsResult } from './recurring-payments';
+import { SavingsGoal } from './savings-goals';
+import { SpendingReport } from './spending-report';
+
+/**
+ * Type definitions for session state
+ * This demonstrates how to structure data that persists across turns
+ */
+export interface Transaction {
+  date: string;
+  description: string;
+  amount: Money;
+  category: string;
+  subcategory?: string;
+  /** Time of day (HH:MM, 24-hour) when the statement records it */
+  time?: string;
+}
+
+export interface TransactionAnalysis {
+  /** Reporting currency; every amount below is converted into it */
+  currency: string;
+  totalSpent: Money;
+  categories: Record<string, Money>;
+  topCategory: { name: string; amount: Money };
+  /** Date range the analysis was limited to, if any (YYYY-MM-DD, inclusive) */
+  startDate?: string;
+  endDate?: string;
+  timestamp: string;
+}
+
+export interface BudgetGoal {
+  category: string;
+  /** Limit per period */
+  limit: Money;
+  setAt: string;
+  /** Missing on goals stored before budget periods existed; those are monthly */
+  period?: BudgetPeriod;
+  /** Carry unspent money into the next period */
+  rollover?: boolean;
+  /** Closed periods, oldest first */
+  history?: BudgetPeriodRecord[];
+}
+
+export interface UserPreferences {
+  /** Currency used for analysis and reports */
+  currency: string;
+  /** BCP 47 locale used to format amounts, e.g. "en-LK" */
+  locale: string;
+  /** Take-home income per month, used to work out what is left for saving */
+  monthlyIncome?: Money;
+}
+
+export interface SessionState {
+  transactions: Transaction[];
+  transactionAnalysis: TransactionAnalysis | null;
+  budgetGoals: BudgetGoal[];
+  /** One line per turn folded out of the model's context, oldest first */
+  conversationSummary: string[];
+  categories: CategoryDefinition[];
+  categoryRules: CategoryRule[];
+  preferences: UserPreferences;
+  recurringPayments: RecurringPaymentsResult | null;
+  /** Generated reports, oldest first */
+  reports: SpendingReport[];
+  /** Unusual transactions flagged by `flag_anomalies` */
+  anomalies: AnomalyFlag[];
+  savingsGoals: SavingsGoal[];
+  /** Budget alerts raised since the agent's last turn, shown to it on the next one */
+  pendingAlerts: BudgetAlert[];
+  /** Raw values behind the PII placeholders the model sees, e.g. "[CARD_1]" */
+  piiVault: Record<string, string>;
+  /** Estimated tokens saved by sending the summary instead of older turns */
+  contextCompaction: CompactionStats;
+  /** Things the user asked to be remembered, e.g. "paid on the 25th" */
+  userNotes: string[];
+  /** Set once the user's long-term memories have been loaded into the session */
+  memoryLoaded: boolean;
+}
+
+/**
+ * Where each value lives in the ADK state record.
+ * The `user:` prefix makes ADK share a value across all of a user's sessions.
+ */
+const STATE_KEYS: Record<keyof SessionState, string> = {
+  transactions: 'transactions',
+  transactionAnalysis: 'transactionAnalysis',
+  budgetGoals: 'budgetGoals',
+  conversationSummary: 'conversationSummary',
+  categories: 'user:categories',
+  categoryRules: 'user:categoryRules',
+  preferences: 'user:preferences',
+  recurringPayments: 'recurringPayments',
+  reports: 'reports',
+  anomalies: 'anomalies',
+  savingsGoals: 'savingsGoals',
+  pendingAlerts: 'pendingAlerts',
+  piiVault: 'piiVault',
+  contextCompaction: 'contextCompaction',
+  userNotes: 'userNotes',
+  memoryLoaded: 'memoryLoaded',
+};
+
+/**
+ * Read a typed value from a plain state record, such as `session.state`
+ * outside of a tool call
+ */
+export function readStateRecord<K extends keyof SessionState>(
+  state: Record<string, unknown>,
+  key: K
+): SessionState[K] {
+  return (state[STATE_KEYS[key]] as SessionState[K] | undefined) ?? defaultSessionState()[key];
+}
+
+/**
+ * Build a state delta that writes typed values, for events appended outside
+ * of a tool call
+ */
+export function stateDelta(values: Partial<SessionState>): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(values).map(([key, value]) => [STATE_KEYS[key as keyof SessionState], value])
+  );
+}
+
+/**
+ * Keys that never leave the server: the raw values behind PII placeholders
+ */
+export const PRIVATE_STATE_KEYS = [STATE_KEYS.piiVault];
+
+/**
+ * A state record or delta without its private keys, for clients to see
+ */
+export function publicState(state: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(state).filter(([key]) => !PRIVATE_STATE_KEYS.includes(key)));
+}
+
+type ShapeCheck = (value: unknown) => boolean;
+
+const isRecord: ShapeCheck = (value) => typeof value === 'object' && value !== null && !Array.isArray(value);
+const isString: ShapeCheck = (value) => typeof value === 'string';
+const isNumber: ShapeCheck = (value) => typeof value === 'number' && Number.isFinite(value);
+const isBoolean: ShapeCheck = (value) => typeof value === 'boolean';
+const optional = (check: ShapeCheck): ShapeCheck => (value) => value === undefined || check(value);
+const nullable = (check: ShapeCheck): ShapeCheck => (value) => value === null || check(value);
+const oneOf = (...allowed: string[]): ShapeCheck => (value) => allowed.includes(value as string);
+const arrayOf = (check: ShapeCheck): ShapeCheck => (value) => Array.isArray(value) && value.every(check);
+const recordOf = (check: ShapeCheck): ShapeCheck => (value) => isRecord(value) && Object.values(value as object).every(check);
+const shape = (fields: Record<string, ShapeCheck>): ShapeCheck => (value) =>
+  isRecord(value) && Object.entries(fields).every(([key, check]) => check((value as Record<string, unknown>)[key]));
+
+const isMoney = shape({ amountMinor: isNumber, currency: isString });
+
+/**
+ * What each value must look like, down to the fields the tools and routes
+ * read. Tools write well-formed values; these guard writes from clients.
+ */
+const STATE_SHAPES: Record<keyof SessionState, ShapeCheck> = {
+  transactions: arrayOf(shape({
+    date: isString,
+    description: isString,
+    amount: isMoney,
+    category: isString,
+    subcategory: optional(isString),
+    time: optional(isString),
+  })),
+  transactionAnalysis: nullable(shape({
+    currency: isString,
+    totalSpent: isMoney,
+    categories: recordOf(isMoney),
+    topCategory: shape({ name: isString, amount: isMoney }),
+    timestamp: isString,
+  })),
+  budgetGoals: arrayOf(shape({
+    category: isString,
+    limit: isMoney,
+    setAt: isString,
+    period: optional(shape({ type: isString, anchor: isString, lengthDays: optional(isNumber) })),
+    rollover: optional(isBoolean),
+    history: optional(arrayOf(isRecord)),
+  })),
+  conversationSummary: arrayOf(isString),
+  categories: arrayOf(shape({ name: isString, parent: optional(isString), createdAt: isString })),
+  categoryRules: arrayOf(shape({
+    id: isString,
+    category: isString,
+    subcategory: optional(isString),
+    matchType: oneOf('exact', 'keyword', 'regex'),
+    field: oneOf('description', 'merchant'),
+    pattern: isString,
+    priority: isNumber,
+    createdAt: isString,
+  })),
+  preferences: shape({ currency: isString, locale: isString, monthlyIncome: optional(isMoney) }),
+  recurringPayments: nullable(isRecord),
+  reports: arrayOf(shape({ id: isString, title: isString, createdAt: isString, locale: isString, summary: isString })),
+  anomalies: arrayOf(shape({ id: isString, transaction: isRecord, reasons: arrayOf(isString), flaggedAt: isString })),
+  savingsGoals: arrayOf(shape({
+    name: isString,
+    target: isMoney,
+    priority: isString,
+    contributions: arrayOf(shape({ amount: isMoney })),
+    createdAt: isString,
+  })),
+  pendingAlerts: arrayOf(shape({ id: isString, category: isString, status: isString, message: isString, createdAt: isString })),
+  piiVault: recordOf(isString),
+  contextCompaction: shape({
+    summarizedTurns: isNumber,
+    compactedRequests: isNumber,
+    lastSavedTokens: isNumber,
+    totalSavedTokens: isNumber,
+  }),
+  userNotes: arrayOf(isString),
+  memoryLoaded: isBoolean,
+};
+
+/**
+ * Keys of a state record or delta whose values don't have their typed shape,
+ * e.g. `transactions` set to a string. Keys the agent doesn't use are not checked.
+ */
+export function findInvalidStateKeys(state: Record<string, unknown>): string[] {
+  return (Object.keys(STATE_KEYS) as (keyof SessionState)[])
+    .filter((key) => STATE_KEYS[key] in state && !STATE_SHAPES[key](state[STATE_KEYS[key]]))
+    .map((key) => STATE_KEYS[key]);
+}
+
+/**
+ * Default values used when a key has not been written yet
+ */
+function defaultSessionState(): SessionState {
+  return {
+    transactions: [],
+    transactionAnalysis: null,
+    budgetGoals: [],
+    conversationSummary: [],
+    categories: [],
+    categoryRules: [],
+    preferences: { currency: DEFAULT_CURRENCY, locale: DEFAULT_LOCALE },
+    recurringPayments: null,
+    reports: [],
+    anomalies: [],
+    savingsGoals: [],
+    pendingAlerts: [],
+    piiVault: {},
+    contextCompaction: { summarizedTurns: 0, summarizedThrough: null, compactedRequests: 0, lastSavedTokens: 0, totalSavedTokens: 0 },
+    userNotes: [],
+    memoryLoaded: false,
+  };
+}
+
+/**
+ * Read a single typed value from session state, in a tool or an
+ * instruction provider.
+ *
+ * Tools can be executed without a context (e.g. when called directly from a
+ * script), in which case the default value is returned.
+ */
+export function getSessionValue<K extends keyof SessionState>(
+  context: ReadonlyContext | undefined,
+  key: K
+): SessionState[K] {
+  const fallback = defaultSessionState()[key];
+  if (!context) {
+    return fallback;
+  }
+  return context.state.get<SessionState[K]>(STATE_KEYS[key], fallback) ?? fallback;
+}
+
+/**
+ * Write a single typed value to session state.
+ *
+ * The value is recorded as a state delta on the current tool (or callback)
+ * event, which is how ADK persists it into the session for future turns.
+ */
+export function setSessionValue<K extends keyof SessionState>(
+  context: CallbackContext | undefined,
+  key: K,
+  value: SessionState[K]
+): void {
+  if (!context) {
+    return;
+  }
+  context.state.set(STATE_KEYS[key], value);
+}
+
+/**
+ * Read the whole typed session state at once
+ */
+export function getSessionState(context: ToolContext | undefined): SessionState {
+  return {
+    transactions: getSessionValue(context, 'transactions'),
+    transactionAnalysis: getSessionValue(context, 'transactionAnalysis'),
+    budgetGoals: getSessionValue(context, 'budgetGoals'),
+    conversationSummary: getSessionValue(context, 'conversationSummary'),
+    categories: getSessionValue(context, 'categories'),
+    categoryRules: getSessionValue(context, 'categoryRules'),
+    preferences: getSessionValue(context, 'preferences'),
+    recurringPayments: getSessionValue(context, 'recurringPayments'),
+    reports: getSessionValue(context, 'reports'),
+    anomalies: getSessionValue(context, 'anomalies'),
+    savingsGoals: getSessionValue(context, 'savingsGoals'),
+    pendingAlerts: getSessionValue(context, 'pendingAlerts'),
+    piiVault: getSessionValue(context, 'piiVault'),
+    contextCompaction: getSessionValue(context, 'contextCompaction'),
+    userNotes: getSessionValue(context, 'userNotes'),
+    memoryLoaded: getSessionValue(context, 'memoryLoaded'),
+  };
+}
+
+/**
+ * Normalize a category name so "Dining", " dining " and "dining" match
+ */
+export function normalizeCategory(category: string): string {
+  return category.trim().toLowerCase();
+}
+
+/**
+ * Find the stored budget goal for a category, if the user has set one
+ */
+export function findBudgetGoal(goals: BudgetGoal[], category: string): BudgetGoal | undefined {
+  const wanted = normalizeCategory(category);
+  return goals.find((goal) => normalizeCategory(goal.category) === wanted);
+}
+
+/**
+ * Insert or replace the budget goal for a category, returning a new array
+ */
+export function upsertBudgetGoal(goals: BudgetGoal[], goal: BudgetGoal): BudgetGoal[] {
+  const wanted = normalizeCategory(goal.category);
+  return [...goals.filter((existing) => normalizeCategory(existing.category) !== wanted), goal];
+}
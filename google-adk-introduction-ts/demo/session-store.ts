@@ -0,0 +1,174 @@
+/**
+ * Session Store Configuration
+ *
+ * Chooses where the server keeps its sessions (and its token usage ledger,
+ * budget alert inbox and long-term user memory):
+ * - memory: ADK's InMemoryRunner (default; what the simulations use)
+ * - sqlite: SqliteSessionService, durable across restarts
+ *
+ * Configured through environment variables:
+ *   SESSION_STORE=memory|sqlite
+ *   SESSION_DB_PATH=./data/sessions.db
+ *   SESSION_RETENTION_DAYS=30        (0 keeps sessions forever)
+ *   SESSION_MAX_EVENTS=0             (0 keeps every event)
+ *   SESSION_CLEANUP_INTERVAL_MINUTES=60
+ */
+
+import {
+  BaseAgent,
+  BasePlugin,
+  InMemoryArtifactService,
+  InMemorySessionService,
+  Runner,
+} from '@google/adk';
+import { AlertInbox, InMemoryAlertInbox, SqliteAlertInbox } from './budget-alerts';
+import { createLogger } from './logger';
+import { SqliteSessionService } from './sqlite-session-service';
+import { InMemoryUsageLedger, SqliteUsageLedger, UsageLedger } from './usage-ledger';
+import {
+  InMemoryUserMemoryStore,
+  SqliteUserMemoryStore,
+  UserMemoryPlugin,
+  UserMemoryService,
+  UserMemoryStore,
+} from './user-memory';
+
+/** Usage records are kept a little over a year, enough for monthly reports */
+const USAGE_RETENTION_DAYS = 400;
+
+/** Budget alerts stay in the inbox for about three months */
+const ALERT_RETENTION_DAYS = 90;
+
+const logger = createLogger('session-store');
+
+export type SessionStoreKind = 'memory' | 'sqlite';
+
+export interface SessionStoreConfig {
+  kind: SessionStoreKind;
+  dbPath: string;
+  retentionDays: number;
+  maxEventsPerSession: number;
+  cleanupIntervalMinutes: number;
+}
+
+function readNumber(name: string, fallback: number): number {
+  const raw = process.env[name];
+  if (raw === undefined || raw === '') return fallback;
+  const value = Number(raw);
+  if (!Number.isFinite(value) || value < 0) {
+    throw new Error(`${name} must be a non-negative number, got "${raw}"`);
+  }
+  return value;
+}
+
+/**
+ * Read the session store configuration from the environment
+ */
+export function sessionStoreConfigFromEnv(): SessionStoreConfig {
+  const kind = (process.env.SESSION_STORE ?? 'memory').toLowerCase();
+  if (kind !== 'memory' && kind !== 'sqlite') {
+    throw new Error(`SESSION_STORE must be "memory" or "sqlite", got "${kind}"`);
+  }
+
+  return {
+    kind,
+    dbPath: process.env.SESSION_DB_PATH ?? './data/sessions.db',
+    retentionDays: readNumber('SESSION_RETENTION_DAYS', 30),
+    maxEventsPerSession: readNumber('SESSION_MAX_EVENTS', 0),
+    cleanupIntervalMinutes: readNumber('SESSION_CLEANUP_INTERVAL_MINUTES', 60),
+  };
+}
+
+export interface SessionStore {
+  runner: Runner;
+  usageLedger: UsageLedger;
+  alertInbox: AlertInbox;
+  userMemory: UserMemoryStore;
+  /** Stop background cleanup and release the database */
+  close(): void;
+}
+
+/**
+ * Create a runner backed by the configured session store, with `plugins`
+ * (e.g. tracing) installed on it. Long-term user memory is always installed.
+ */
+export function createSessionStore(
+  agent: BaseAgent,
+  appName: string,
+  config: SessionStoreConfig = sessionStoreConfigFromEnv(),
+  plugins: BasePlugin[] = []
+): SessionStore {
+  if (config.kind === 'memory') {
+    const usageLedger = new InMemoryUsageLedger();
+    const alertInbox = new InMemoryAlertInbox();
+    const userMemory = new InMemoryUserMemoryStore();
+    return {
+      runner: new Runner({
+        appName,
+        agent,
+        sessionService: new InMemorySessionService(),
+        artifactService: new InMemoryArtifactService(),
+        memoryService: new UserMemoryService(userMemory),
+        plugins: [new UserMemoryPlugin(), ...plugins],
+      }),
+      usageLedger,
+      alertInbox,
+      userMemory,
+      close: () => {
+        usageLedger.close();
+        alertInbox.close();
+        userMemory.close();
+      },
+    };
+  }
+
+  const sessionService = new SqliteSessionService({
+    path: config.dbPath,
+    retentionDays: config.retentionDays,
+    maxEventsPerSession: config.maxEventsPerSession,
+  });
+  const usageLedger = new SqliteUsageLedger(config.dbPath);
+  const alertInbox = new SqliteAlertInbox(config.dbPath);
+  const userMemory = new SqliteUserMemoryStore(config.dbPath);
+
+  const runCleanup = () => {
+    const { deletedSessions, deletedEvents } = sessionService.cleanup();
+    if (deletedSessions > 0 || deletedEvents > 0) {
+      logger.info('Session cleanup', { deletedSessions, deletedEvents });
+    }
+    usageLedger.prune(Date.now() - USAGE_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+    alertInbox.prune(new Date(Date.now() - ALERT_RETENTION_DAYS * 24 * 60 * 60 * 1000).toISOString());
+  };
+  runCleanup();
+
+  const timer = config.cleanupIntervalMinutes > 0
+    ? setInterval(runCleanup, config.cleanupIntervalMinutes * 60 * 1000)
+    : undefined;
+  // Don't keep the process alive just for cleanup
+  timer?.unref?.();
+
+  const runner = new Runner({
+    appName,
+    agent,
+    // The runner is typed against ADK's BaseSessionService, which the package
+    // does not export; SqliteSessionService implements the same methods.
+    sessionService: sessionService as unknown as Runner['sessionService'],
+    artifactService: new InMemoryArtifactService(),
+    memoryService: new UserMemoryService(userMemory),
+    plugins: [new UserMemoryPlugin(), ...plugins],
+  });
+
+  return {
+    runner,
+    usageLedger,
+    alertInbox,
+    userMemory,
+    close: () => {
+      if (timer) clearInterval(timer);
+      usageLedger.close();
+      alertInbox.close();
+      userMemory.close();
+      sessionService.close();
+    },
+  };
+}
@@ -11,6 +11,7 @@
 import { InMemoryRunner, StreamingMode } from '@google/adk';
 import { personalFinanceAgent } from './agent';
 import { createUserContent } from '@google/genai';
+import { DEMO_SCENARIO_PATH, loadScenario } from './scenario';
 
 /**
  * Helper function to run a conversation turn and collect responses
@@ -42,7 +43,7 @@ async function runConversationTurn(
         const response = event.content.parts[0].text;
         if (response) {
           responses.push(response);
-          console.log(`🤖 Agent: ${response}`);
+          console.log(`🤖 ${event.author ?? 'Agent'}: ${response}`);
         }
       }
     }
@@ -75,38 +76,8 @@ async function simulateConversation() {
   console.log('📊 Session created:', session.id);
   console.log('🎯 Starting multi-turn conversation...\n');
 
-  // Multi-turn conversation simulation
-  const conversationTurns = [
-    // Turn 1: Initial transaction analysis
-    {
-      message: "Please analyze these transactions: date: 2024-01-15, description: grocery shopping, amount: 150, category: groceries; date: 2024-01-16, description: restaurant dinner, amount: 85, category: dining; date: 2024-01-17, description: gas station, amount: 60, category: transport; date: 2024-01-18, description: movie tickets, amount: 45, category: entertainment; date: 2024-01-19, description: electricity bill, amount: 120, category: utilities. Use the analyze_transactions tool to process this data.",
-      note: "First turn - agent should analyze transactions using the analyze_transactions tool"
-    },
-
-    // Turn 2: Follow-up question about specific category
-    {
-      message: "Based on the analysis you just did, which category did I spend the most in?",
-      note: "Second turn - agent should reference stored analysis, not re-analyze"
-    },
-
-    // Turn 3: Set budget goals
-    {
-      message: "Please set a budget goal of $200 for dining out using the set_budget_goal tool.",
-      note: "Third turn - agent should store budget goals using the set_budget_goal tool"
-    },
-
-    // Turn 4: Check budget status
-    {
-      message: "Using the calculate_budget_status tool, check how I'm doing against my $200 dining budget with $85 spent.",
-      note: "Fourth turn - agent should use stored budget and calculate status"
-    },
-
-    // Turn 5: Generate report
-    {
-      message: "Use the generate_spending_report tool to create a comprehensive report with recommendations.",
-      note: "Fifth turn - agent should create comprehensive report using all stored data"
-    }
-  ];
+  // Multi-turn conversation from the shared scenario file (see scenarios/)
+  const conversationTurns = loadScenario(DEMO_SCENARIO_PATH).turns;
 
   // Execute each conversation turn
   for (let i = 0; i < conversationTurns.length; i++) {
@@ -6,56 +6,42 @@
  *
  * Features:
  * - Starts the Hono server in the background
- * - Sends streaming requests to the server
- * - Collects and displays responses
+ * - Sends streaming requests through the typed chat client
+ * - Shows replies, tool calls and state changes as they stream
  * - Multi-turn conversation simulation
  */
 
-import { createUserContent } from '@google/genai';
+import { authHeadersFromEnv, sendChat } from './chat-client';
+import { DEMO_SCENARIO_PATH, loadScenario } from './scenario';
+import type { ChatStreamEvent } from './chat-protocol';
 
 /**
- * Helper function to make a streaming request to the server
+ * Print protocol events as they stream in
  */
-async function makeStreamingRequest(
-  message: string,
-  userId: string = 'server-demo-user',
-  sessionId: string = 'server-demo-session'
-): Promise<string> {
-  const response = await fetch('http://localhost:3000/chat', {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({
-      message,
-      userId,
-      sessionId,
-    }),
-  });
-
-  if (!response.ok) {
-    throw new Error(`HTTP error! status: ${response.status}`);
-  }
-
-  // Read the streaming response
-  const reader = response.body?.getReader();
-  const decoder = new TextDecoder();
-  let fullResponse = '';
-
-  if (!reader) {
-    throw new Error('No response body');
+function printChatEvent(event: ChatStreamEvent) {
+  switch (event.type) {
+    case 'text_delta':
+      process.stdout.write(event.text);
+      break;
+    case 'tool_call':
+      console.log(`\n🔧 Calling ${event.name}(${JSON.stringify(event.args)})`);
+      break;
+    case 'tool_result':
+      console.log(`📦 ${event.name} returned ${event.response.status ?? 'a result'}`);
+      break;
+    case 'state_delta':
+      console.log(`💾 State updated: ${Object.keys(event.delta).join(', ')}`);
+      break;
+    case 'agent_transfer':
+      console.log(`🔀 ${event.from} → ${event.to}`);
+      break;
+    case 'turn_complete':
+      console.log(`\n📊 Tokens used: ${event.usage.totalTokens}${event.agent ? `, answered by ${event.agent}` : ''}`);
+      break;
+    case 'error':
+      console.error(`\n❌ ${event.code}: ${event.message}`);
+      break;
   }
-
-  while (true) {
-    const { done, value } = await reader.read();
-    if (done) break;
-
-    const chunk = decoder.decode(value, { stream: true });
-    fullResponse += chunk;
-    process.stdout.write(chunk);
-  }
-
-  return fullResponse;
 }
 
 /**
@@ -70,9 +56,8 @@ async function runServerConversationTurn(
   console.log(`🌐 Sending to server...`);
 
   try {
-    const response = await makeStreamingRequest(userMessage, userId, sessionId);
-    console.log(); // New line after streaming
-    return response;
+    const result = await sendChat({ message: userMessage, userId, sessionId, headers: authHeadersFromEnv() }, printChatEvent);
+    return result.text;
   } catch (error) {
     console.error('❌ Error during server request:', error);
     return '';
@@ -128,38 +113,8 @@ async function simulateServerConversation(autoStartServer: boolean = false) {
       console.log('ℹ️  Run "bun run serve" in another terminal, or use --start-server flag\n');
     }
 
-    // Multi-turn conversation simulation
-    const conversationTurns = [
-      // Turn 1: Initial transaction analysis
-      {
-        message: "Please analyze these transactions: date: 2024-01-15, description: grocery shopping, amount: 150, category: groceries; date: 2024-01-16, description: restaurant dinner, amount: 85, category: dining; date: 2024-01-17, description: gas station, amount: 60, category: transport; date: 2024-01-18, description: movie tickets, amount: 45, category: entertainment; date: 2024-01-19, description: electricity bill, amount: 120, category: utilities. Use the analyze_transactions tool to process this data.",
-        note: "First turn - server should analyze transactions using the analyze_transactions tool"
-      },
-
-      // Turn 2: Follow-up question about specific category
-      {
-        message: "Based on the analysis you just did, which category did I spend the most in?",
-        note: "Second turn - server should reference stored analysis, not re-analyze"
-      },
-
-      // Turn 3: Set budget goals
-      {
-        message: "Please set a budget goal of $200 for dining out using the set_budget_goal tool.",
-        note: "Third turn - server should store budget goals using the set_budget_goal tool"
-      },
-
-      // Turn 4: Check budget status
-      {
-        message: "Using the calculate_budget_status tool, check how I'm doing against my $200 dining budget with $85 spent.",
-        note: "Fourth turn - server should use stored budget and calculate status"
-      },
-
-      // Turn 5: Generate report
-      {
-        message: "Use the generate_spending_report tool to create a comprehensive report with recommendations.",
-        note: "Fifth turn - server should create comprehensive report using all stored data"
-      }
-    ];
+    // Multi-turn conversation from the shared scenario file (see scenarios/)
+    const conversationTurns = loadScenario(DEMO_SCENARIO_PATH).turns;
 
     const sessionId = 'server-conversation-' + Date.now();
 
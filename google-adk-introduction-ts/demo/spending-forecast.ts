@@ -0,0 +1,136 @@
+/**
+ * End-of-Period Spending Forecast
+ *
+ * Projects what a category will have cost by the end of its budget period:
+ *
+ *   projected = spent so far
+ *             + daily run-rate x days left
+ *             + recurring charges still due before the period ends
+ *
+ * - The run-rate comes from up to 90 days of history, leaving out charges
+ *   of detected recurring payments (those are added by their schedule instead)
+ * - The day-to-day spread of that history gives a confidence range: the
+ *   uncertainty of n more days grows with sqrt(n)
+ *
+ * Key Learning: A forecast is only as good as its history - the tool reports
+ * how many days it was based on, so the model can hedge accordingly.
+ */
+
+import { DateRange, spentInRange } from './budget-periods';
+import { addDays, daysBetween } from './dates';
+import { Money, addMoney, convertMoney } from './money';
+import { RecurringPayment, merchantOf, nextChargeDate } from './recurring-payments';
+import { Transaction, normalizeCategory } from './session-state';
+
+/** Days of history the run-rate is computed from */
+export const FORECAST_LOOKBACK_DAYS = 90;
+
+/** z-score of the reported range (about 80% of outcomes fall inside it) */
+const RANGE_Z = 1.28;
+
+export type ForecastConfidence = 'low' | 'medium' | 'high';
+
+export interface CategoryForecast {
+  category: string;
+  range: DateRange;
+  asOf: string;
+  spentSoFar: Money;
+  /** Average spending per day, without recurring charges */
+  dailyRate: Money;
+  /** Recurring charges expected after `asOf` and before the period ends */
+  recurringDue: Money;
+  projected: Money;
+  low: Money;
+  high: Money;
+  /** Days of history behind the run-rate */
+  historyDays: number;
+  confidence: ForecastConfidence;
+}
+
+function minor(amountMinor: number, currency: string): Money {
+  return { amountMinor: Math.round(amountMinor), currency };
+}
+
+/**
+ * Charges of a recurring payment still to come before the range ends.
+ * A charge that is overdue but not yet seen still counts.
+ */
+function dueCharges(payment: RecurringPayment, range: DateRange): number {
+  let count = 0;
+  for (let date = payment.nextExpectedDate; date <= range.end; date = nextChargeDate(date, payment.cadence)) {
+    count++;
+  }
+  return count;
+}
+
+function confidenceFor(historyDays: number): ForecastConfidence {
+  if (historyDays >= 60) {
+    return 'high';
+  }
+  return historyDays >= 21 ? 'medium' : 'low';
+}
+
+/**
+ * Forecast one category for the period `range`, as of a day inside it
+ */
+export function forecastCategory(
+  transactions: Transaction[],
+  category: string,
+  range: DateRange,
+  asOf: string,
+  currency: string,
+  recurring: RecurringPayment[] = []
+): CategoryForecast {
+  const wanted = normalizeCategory(category);
+  const until = asOf < range.end ? asOf : range.end;
+  const spentSoFar = spentInRange(transactions, category, { start: range.start, end: until }, currency);
+  const daysLeft = Math.max(0, daysBetween(until, range.end));
+
+  const payments = recurring.filter((payment) => !payment.lapsed && normalizeCategory(payment.category) === wanted);
+  const recurringKeys = new Set(payments.map((payment) => `${payment.merchant}|${payment.amount.currency}`));
+  const recurringDue = payments.reduce(
+    (total, payment) => {
+      const charges = daysLeft > 0 ? dueCharges(payment, range) : 0;
+      const amount = convertMoney(payment.amount, currency);
+      return addMoney(total, minor(amount.amountMinor * charges, currency));
+    },
+    minor(0, currency)
+  );
+
+  // Daily totals of everyday spending over the lookback window
+  const history = transactions.filter((tx) => tx.date <= until);
+  const earliest = history.reduce((first, tx) => (tx.date < first ? tx.date : first), until);
+  const lookbackStart = addDays(until, -(FORECAST_LOOKBACK_DAYS - 1));
+  const windowStart = earliest > lookbackStart ? earliest : lookbackStart;
+  const historyDays = history.length > 0 ? daysBetween(windowStart, until) + 1 : 0;
+
+  const daily = new Array<number>(historyDays).fill(0);
+  history
+    .filter((tx) => tx.date >= windowStart && normalizeCategory(tx.category) === wanted)
+    .filter((tx) => !recurringKeys.has(`${merchantOf(tx.description)}|${tx.amount.currency}`))
+    .forEach((tx) => {
+      daily[daysBetween(windowStart, tx.date)] += convertMoney(tx.amount, currency).amountMinor;
+    });
+
+  const mean = historyDays > 0 ? daily.reduce((sum, value) => sum + value, 0) / historyDays : 0;
+  const variance = historyDays > 1
+    ? daily.reduce((sum, value) => sum + (value - mean) ** 2, 0) / (historyDays - 1)
+    : 0;
+  const expected = mean * daysLeft;
+  const spread = RANGE_Z * Math.sqrt(variance * daysLeft);
+  const known = spentSoFar.amountMinor + recurringDue.amountMinor;
+
+  return {
+    category,
+    range,
+    asOf: until,
+    spentSoFar,
+    dailyRate: minor(mean, currency),
+    recurringDue,
+    projected: minor(known + expected, currency),
+    low: minor(known + Math.max(0, expected - spread), currency),
+    high: minor(known + expected + spread, currency),
+    historyDays,
+    confidence: confidenceFor(historyDays),
+  };
+}
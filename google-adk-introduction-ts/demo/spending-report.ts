@@ -0,0 +1,326 @@
+/**
+ * Spending Report Model and Renderers
+ *
+ * `generate_spending_report` builds one structured report and stores it in
+ * the session. The same report can then be rendered as:
+ * - Markdown, returned inline to the model
+ * - Standalone HTML with the category breakdown drawn as inline SVG charts
+ * - CSV, one row per figure, for spreadsheets and accountants
+ * - JSON, the stored model itself
+ *
+ * Key Learning: Keep the data separate from its presentation - the tool
+ * decides what goes into a report, the renderers only decide how it looks.
+ */
+
+import { BudgetStatus } from './budget-periods';
+import { Money, formatMoney, minorDigits, toMajor } from './money';
+import { RecurringPayment } from './recurring-payments';
+import { SavingsStatus } from './savings-goals';
+
+export type ReportFormat = 'markdown' | 'html' | 'csv' | 'json';
+
+export interface ReportBudgetLine {
+  category: string;
+  status: BudgetStatus;
+  percentage: number;
+}
+
+export interface ReportSavingsLine {
+  name: string;
+  saved: Money;
+  target: Money;
+  percentage: number;
+  deadline?: string;
+  monthlyNeeded: Money | null;
+  status: SavingsStatus;
+}
+
+export interface SpendingReport {
+  id: string;
+  title: string;
+  createdAt: string;
+  /** Locale amounts are formatted with */
+  locale: string;
+  summary: string;
+  /** Date range of the analysis the report is based on, if it was limited */
+  startDate?: string;
+  endDate?: string;
+  /** Category breakdown of the stored analysis; null when only a summary was given */
+  spending: {
+    currency: string;
+    total: Money;
+    categories: { name: string; amount: Money }[];
+  } | null;
+  budgets: ReportBudgetLine[];
+  subscriptions: RecurringPayment[];
+  /** Missing on reports stored before savings goals existed */
+  savings?: ReportSavingsLine[];
+  recommendations: string[];
+}
+
+export const REPORT_FORMATS: Record<ReportFormat, { contentType: string; extension: string }> = {
+  markdown: { contentType: 'text/markdown; charset=utf-8', extension: 'md' },
+  html: { contentType: 'text/html; charset=utf-8', extension: 'html' },
+  csv: { contentType: 'text/csv; charset=utf-8', extension: 'csv' },
+  json: { contentType: 'application/json; charset=utf-8', extension: 'json' },
+};
+
+/** Reports kept per session; older ones are dropped */
+export const MAX_STORED_REPORTS = 20;
+
+export function isReportFormat(value: string): value is ReportFormat {
+  return Object.prototype.hasOwnProperty.call(REPORT_FORMATS, value);
+}
+
+export function renderReport(report: SpendingReport, format: ReportFormat): string {
+  switch (format) {
+    case 'markdown':
+      return renderMarkdown(report);
+    case 'html':
+      return renderHtml(report);
+    case 'csv':
+      return renderCsv(report);
+    case 'json':
+      return JSON.stringify(report, null, 2);
+  }
+}
+
+function statusIcon(status: BudgetStatus): string {
+  return status === 'on_track' ? '✓' : status === 'warning' ? '⚠️' : '❌';
+}
+
+function subscriptionLine(payment: RecurringPayment, locale: string): string {
+  const amount = formatMoney(payment.amount, locale);
+  if (payment.lapsed) {
+    return `⏸️ ${payment.merchant}: ${amount} ${payment.cadence}, seems to have lapsed (last charged ${payment.lastDate})`;
+  }
+  const increase = payment.priceIncrease
+    ? `, ⬆️ up ${payment.priceIncrease.percentage}% from ${formatMoney(payment.priceIncrease.from, locale)}`
+    : '';
+  return `${payment.merchant}: ${amount} ${payment.cadence}, next charge ${payment.nextExpectedDate}${increase}`;
+}
+
+function savingsLine(line: ReportSavingsLine, locale: string): string {
+  const progress = `${formatMoney(line.saved, locale)} of ${formatMoney(line.target, locale)} (${line.percentage}%)`;
+  if (line.status === 'achieved') {
+    return `🎉 ${line.name}: ${progress}, goal reached`;
+  }
+  const deadline = line.deadline ? `, by ${line.deadline}` : '';
+  const needed = line.monthlyNeeded ? `, ${formatMoney(line.monthlyNeeded, locale)}/month needed` : '';
+  const behind = line.status === 'behind' || line.status === 'overdue' ? ` (${line.status})` : '';
+  return `${line.name}: ${progress}${deadline}${needed}${behind}`;
+}
+
+function periodLabel(report: SpendingReport): string | null {
+  if (!report.startDate && !report.endDate) {
+    return null;
+  }
+  return `${report.startDate ?? 'start'} to ${report.endDate ?? 'latest'}`;
+}
+
+export function renderMarkdown(report: SpendingReport): string {
+  const { locale } = report;
+  let markdown = `# ${report.title}\n\n`;
+  markdown += `## Summary\n`;
+  const period = periodLabel(report);
+  if (period) {
+    markdown += `Period: ${period}\n\n`;
+  }
+  markdown += `${report.summary}\n\n`;
+
+  if (report.spending) {
+    markdown += `## Spending by Category (${report.spending.currency})\n`;
+    report.spending.categories.forEach(({ name, amount }) => {
+      markdown += `- ${name}: ${formatMoney(amount, locale)}\n`;
+    });
+    markdown += `\n`;
+  }
+
+  markdown += `## Budget Status\n`;
+  report.budgets.forEach((item) => {
+    markdown += `- ${statusIcon(item.status)} ${item.category}: ${item.percentage}% of budget used\n`;
+  });
+
+  if (report.subscriptions.length > 0) {
+    markdown += `\n## Subscriptions\n`;
+    report.subscriptions.forEach((payment) => {
+      markdown += `- ${subscriptionLine(payment, locale)}\n`;
+    });
+  }
+
+  if (report.savings?.length) {
+    markdown += `\n## Savings Goals\n`;
+    report.savings.forEach((line) => {
+      markdown += `- ${savingsLine(line, locale)}\n`;
+    });
+  }
+
+  markdown += `\n## Recommendations\n`;
+  report.recommendations.forEach((rec, i) => {
+    markdown += `${i + 1}. ${rec}\n`;
+  });
+
+  markdown += `\n---\n*Report generated by Personal Finance Review Agent*\n`;
+  return markdown;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+const CHART_COLORS = ['#4f7cac', '#e07a5f', '#81b29a', '#f2cc8f', '#9d8ec7', '#5fa8d3', '#d16d8c', '#8d99ae'];
+
+/**
+ * Horizontal bar chart of spending per category
+ */
+function categoryChartSvg(report: SpendingReport): string {
+  const categories = report.spending?.categories ?? [];
+  const largest = Math.max(...categories.map(({ amount }) => amount.amountMinor), 1);
+  const rowHeight = 28;
+  const labelWidth = 140;
+  const barWidth = 320;
+  const height = categories.length * rowHeight + 10;
+
+  const rows = categories.map(({ name, amount }, i) => {
+    const y = i * rowHeight + 5;
+    const width = Math.max(2, Math.round((amount.amountMinor / largest) * barWidth));
+    return `<text x="${labelWidth - 8}" y="${y + 17}" text-anchor="end">${escapeHtml(name)}</text>` +
+      `<rect x="${labelWidth}" y="${y + 4}" width="${width}" height="18" rx="3" fill="${CHART_COLORS[i % CHART_COLORS.length]}"/>` +
+      `<text x="${labelWidth + width + 6}" y="${y + 17}">${escapeHtml(formatMoney(amount, report.locale))}</text>`;
+  });
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" role="img" aria-label="Spending by category" ` +
+    `width="${labelWidth + barWidth + 120}" height="${height}" font-family="sans-serif" font-size="13">` +
+    `${rows.join('')}</svg>`;
+}
+
+/**
+ * Small progress bar, capped at 100% wide
+ */
+function progressBarSvg(percentage: number, color: string): string {
+  const width = Math.round(Math.min(percentage, 100) * 1.6);
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="160" height="12" role="img" aria-label="${percentage}%">` +
+    `<rect width="160" height="12" rx="6" fill="#e5e7eb"/><rect width="${width}" height="12" rx="6" fill="${color}"/></svg>`;
+}
+
+/**
+ * How much of a budget is used
+ */
+function budgetBarSvg(item: ReportBudgetLine): string {
+  const color = item.status === 'on_track' ? '#81b29a' : item.status === 'warning' ? '#f2cc8f' : '#e07a5f';
+  return progressBarSvg(item.percentage, color);
+}
+
+export function renderHtml(report: SpendingReport): string {
+  const { locale } = report;
+  const period = periodLabel(report);
+  const sections: string[] = [];
+
+  sections.push(`<h2>Summary</h2>\n${period ? `<p class="period">Period: ${escapeHtml(period)}</p>\n` : ''}<p>${escapeHtml(report.summary)}</p>`);
+
+  if (report.spending) {
+    const rows = report.spending.categories
+      .map(({ name, amount }) => `<tr><td>${escapeHtml(name)}</td><td class="amount">${escapeHtml(formatMoney(amount, locale))}</td></tr>`)
+      .join('\n');
+    sections.push(
+      `<h2>Spending by Category (${escapeHtml(report.spending.currency)})</h2>\n${categoryChartSvg(report)}\n` +
+      `<table>\n${rows}\n<tr class="total"><td>Total</td><td class="amount">${escapeHtml(formatMoney(report.spending.total, locale))}</td></tr>\n</table>`
+    );
+  }
+
+  if (report.budgets.length > 0) {
+    const rows = report.budgets
+      .map((item) => `<tr><td>${statusIcon(item.status)} ${escapeHtml(item.category)}</td><td>${budgetBarSvg(item)}</td><td class="amount">${item.percentage}%</td></tr>`)
+      .join('\n');
+    sections.push(`<h2>Budget Status</h2>\n<table>\n${rows}\n</table>`);
+  }
+
+  if (report.subscriptions.length > 0) {
+    const items = report.subscriptions.map((payment) => `<li>${escapeHtml(subscriptionLine(payment, locale))}</li>`).join('\n');
+    sections.push(`<h2>Subscriptions</h2>\n<ul>\n${items}\n</ul>`);
+  }
+
+  if (report.savings?.length) {
+    const rows = report.savings
+      .map((line) => `<tr><td>${escapeHtml(savingsLine(line, locale))}</td><td>${progressBarSvg(line.percentage, line.status === 'behind' || line.status === 'overdue' ? '#f2cc8f' : '#81b29a')}</td></tr>`)
+      .join('\n');
+    sections.push(`<h2>Savings Goals</h2>\n<table>\n${rows}\n</table>`);
+  }
+
+  if (report.recommendations.length > 0) {
+    const items = report.recommendations.map((rec) => `<li>${escapeHtml(rec)}</li>`).join('\n');
+    sections.push(`<h2>Recommendations</h2>\n<ol>\n${items}\n</ol>`);
+  }
+
+  return `<!DOCTYPE html>
+<html lang="${escapeHtml(locale)}">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(report.title)}</title>
+<style>
+body { font-family: sans-serif; max-width: 720px; margin: 2rem auto; color: #1f2937; }
+table { border-collapse: collapse; margin: 0.5rem 0; }
+td { padding: 4px 12px 4px 0; }
+td.amount { text-align: right; }
+tr.total td { font-weight: bold; border-top: 1px solid #9ca3af; }
+.period, footer { color: #6b7280; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(report.title)}</h1>
+${sections.join('\n')}
+<footer><p>Report generated by Personal Finance Review Agent on ${escapeHtml(report.createdAt.slice(0, 10))}</p></footer>
+</body>
+</html>
+`;
+}
+
+function csvField(value: string | number): string {
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function csvAmount(value: Money): string {
+  return toMajor(value).toFixed(minorDigits(value.currency));
+}
+
+/**
+ * One row per figure: section, item, amount, currency, detail
+ */
+export function renderCsv(report: SpendingReport): string {
+  const rows: (string | number)[][] = [['section', 'item', 'amount', 'currency', 'detail']];
+
+  rows.push(['summary', 'summary', '', '', report.summary]);
+  if (report.startDate || report.endDate) {
+    rows.push(['summary', 'period', '', '', periodLabel(report) ?? '']);
+  }
+  if (report.spending) {
+    rows.push(['summary', 'total_spent', csvAmount(report.spending.total), report.spending.currency, '']);
+    report.spending.categories.forEach(({ name, amount }) => {
+      rows.push(['category', name, csvAmount(amount), amount.currency, '']);
+    });
+  }
+  report.budgets.forEach((item) => {
+    rows.push(['budget', item.category, '', '', `${item.percentage}% used (${item.status})`]);
+  });
+  report.subscriptions.forEach((payment) => {
+    const detail = payment.lapsed ? `${payment.cadence}; lapsed since ${payment.lastDate}` : `${payment.cadence}; next ${payment.nextExpectedDate}`;
+    rows.push(['subscription', payment.merchant, csvAmount(payment.amount), payment.amount.currency, detail]);
+  });
+  (report.savings ?? []).forEach((line) => {
+    const needed = line.monthlyNeeded ? `; ${csvAmount(line.monthlyNeeded)}/month needed` : '';
+    const deadline = line.deadline ? `; by ${line.deadline}` : '';
+    const detail = `${line.percentage}% of ${csvAmount(line.target)} (${line.status})${deadline}${needed}`;
+    rows.push(['savings', line.name, csvAmount(line.saved), line.saved.currency, detail]);
+  });
+  report.recommendations.forEach((rec, i) => {
+    rows.push(['recommendation', i + 1, '', '', rec]);
+  });
+
+  return rows.map((row) => row.map(csvField).join(',')).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,126 @@
+import { afterAll, describe, expect, test } from 'bun:test';
+import { Database } from 'bun:sqlite';
+import { createEvent, createEventActions } from '@google/adk';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { SqliteSessionService } from './sqlite-session-service';
+
+const APP = 'finance_app';
+const DAY = 24 * 60 * 60 * 1000;
+
+const workDir = mkdtempSync(join(tmpdir(), 'finance-sessions-'));
+
+afterAll(() => rmSync(workDir, { recursive: true, force: true }));
+
+function userMessage(text: string, stateDelta: Record<string, unknown> = {}, timestamp = Date.now()) {
+  return createEvent({
+    author: 'user',
+    invocationId: 'invocation-1',
+    content: { role: 'user', parts: [{ text }] },
+    actions: createEventActions({ stateDelta }),
+    timestamp,
+  });
+}
+
+describe('SqliteSessionService', () => {
+  test('keeps sessions, events and state after the database is reopened', async () => {
+    const path = join(workDir, 'reopen', 'sessions.db');
+    const first = new SqliteSessionService({ path });
+    const session = await first.createSession({ appName: APP, userId: 'alice', sessionId: 'january', state: { currency: 'EUR' } });
+    await first.appendEvent({ session, event: userMessage('Analyze my spending', { budgetGoals: [{ category: 'dining' }] }) });
+    await first.appendEvent({ session, event: { ...userMessage('ignored'), partial: true } });
+    await first.appendEvent({ session, event: userMessage('Set a budget', { 'temp:draft': 'not stored' }) });
+    first.close();
+
+    const reopened = new SqliteSessionService({ path });
+    const restored = await reopened.getSession({ appName: APP, userId: 'alice', sessionId: 'january' });
+    expect(restored?.state).toEqual({ currency: 'EUR', budgetGoals: [{ category: 'dining' }] });
+    expect(restored?.events.map((event) => event.content?.parts?.[0].text)).toEqual(['Analyze my spending', 'Set a budget']);
+
+    const recent = await reopened.getSession({ appName: APP, userId: 'alice', sessionId: 'january', config: { numRecentEvents: 1 } });
+    expect(recent?.events).toHaveLength(1);
+    expect(await reopened.getSession({ appName: APP, userId: 'bob', sessionId: 'january' })).toBeUndefined();
+
+    await reopened.deleteSession({ appName: APP, userId: 'alice', sessionId: 'january' });
+    expect((await reopened.listSessions({ appName: APP, userId: 'alice' })).sessions).toEqual([]);
+    reopened.close();
+  });
+
+  test('migrates a database created by an older schema version', async () => {
+    const path = join(workDir, 'migrate.db');
+    const old = new Database(path, { create: true });
+    old.exec('CREATE TABLE schema_migrations (version INTEGER PRIMARY KEY, applied_at INTEGER NOT NULL)');
+    old.exec(`CREATE TABLE sessions (app_name TEXT NOT NULL, user_id TEXT NOT NULL, id TEXT NOT NULL,
+      state TEXT NOT NULL DEFAULT '{}', created_at INTEGER NOT NULL, last_update_time INTEGER NOT NULL,
+      PRIMARY KEY (app_name, user_id, id))`);
+    old.exec(`CREATE TABLE events (seq INTEGER PRIMARY KEY AUTOINCREMENT, id TEXT NOT NULL, app_name TEXT NOT NULL,
+      user_id TEXT NOT NULL, session_id TEXT NOT NULL, invocation_id TEXT NOT NULL, author TEXT,
+      timestamp INTEGER NOT NULL, data TEXT NOT NULL)`);
+    old.exec(`CREATE TABLE app_state (app_name TEXT PRIMARY KEY, state TEXT NOT NULL DEFAULT '{}')`);
+    old.exec(`CREATE TABLE user_state (app_name TEXT NOT NULL, user_id TEXT NOT NULL,
+      state TEXT NOT NULL DEFAULT '{}', PRIMARY KEY (app_name, user_id))`);
+    old.query('INSERT INTO schema_migrations (version, applied_at) VALUES (1, 0)').run();
+    old.query('INSERT INTO sessions VALUES (?, ?, ?, ?, 0, 0)').run(APP, 'alice', 'old', '{"currency":"GBP"}');
+    old.close();
+
+    const service = new SqliteSessionService({ path });
+    expect(service.schemaVersion).toBe(2);
+    const session = await service.getSession({ appName: APP, userId: 'alice', sessionId: 'old' });
+    expect(session?.state).toEqual({ currency: 'GBP' });
+    service.close();
+    // Reopening applies nothing twice
+    new SqliteSessionService({ path }).close();
+
+    const db = new Database(path);
+    const indexes = db.query("SELECT name FROM sqlite_master WHERE type = 'index' AND name LIKE 'idx_%' ORDER BY name").all();
+    const versions = db.query('SELECT version FROM schema_migrations ORDER BY version').all();
+    db.close();
+    expect(indexes).toEqual([{ name: 'idx_events_session' }, { name: 'idx_sessions_last_update' }]);
+    expect(versions).toEqual([{ version: 1 }, { version: 2 }]);
+  });
+
+  test('shares user: state between a user\'s sessions and app: state between users', async () => {
+    const service = new SqliteSessionService({ path: ':memory:' });
+    const first = await service.createSession({ appName: APP, userId: 'alice', state: { 'app:currencies': ['USD'] } });
+    await service.appendEvent({
+      session: first,
+      event: userMessage('Remember my categories', { 'user:categories': ['pets'], note: 'first session only' }),
+    });
+
+    const second = await service.createSession({ appName: APP, userId: 'alice' });
+    expect(second.state).toEqual({ 'app:currencies': ['USD'], 'user:categories': ['pets'] });
+
+    await service.appendEvent({ session: second, event: userMessage('Add a category', { 'user:categories': ['pets', 'gifts'] }) });
+    const reloaded = await service.getSession({ appName: APP, userId: 'alice', sessionId: first.id });
+    expect(reloaded?.state).toEqual({
+      'app:currencies': ['USD'],
+      'user:categories': ['pets', 'gifts'],
+      note: 'first session only',
+    });
+
+    const other = await service.createSession({ appName: APP, userId: 'bob' });
+    expect(other.state).toEqual({ 'app:currencies': ['USD'] });
+    service.close();
+  });
+
+  test('trims old events and deletes sessions past the retention period', async () => {
+    const service = new SqliteSessionService({ path: ':memory:', retentionDays: 30, maxEventsPerSession: 2 });
+    const now = Date.now();
+    const stale = await service.createSession({ appName: APP, userId: 'alice', sessionId: 'stale' });
+    await service.appendEvent({ session: stale, event: userMessage('Old question', {}, now - 45 * DAY) });
+
+    const active = await service.createSession({ appName: APP, userId: 'alice', sessionId: 'active' });
+    for (const text of ['one', 'two', 'three', 'four']) {
+      await service.appendEvent({ session: active, event: userMessage(text, {}, now) });
+    }
+
+    expect(service.cleanup(now)).toEqual({ deletedSessions: 1, deletedEvents: 2 });
+    expect(await service.getSession({ appName: APP, userId: 'alice', sessionId: 'stale' })).toBeUndefined();
+    const trimmed = await service.getSession({ appName: APP, userId: 'alice', sessionId: 'active' });
+    expect(trimmed?.events.map((event) => event.content?.parts?.[0].text)).toEqual(['three', 'four']);
+
+    expect(service.cleanup(now)).toEqual({ deletedSessions: 0, deletedEvents: 0 });
+    service.close();
+  });
+});
@@ -0,0 +1,374 @@
+/**
+ * SQLite-Backed Session Service
+ *
+ * A durable alternative to ADK's InMemorySessionService. Sessions, their
+ * events and their state are stored in a local SQLite file, so budgets and
+ * analyses survive a server restart and can be shared by several server
+ * processes pointing at the same file.
+ *
+ * State scoping follows the ADK conventions:
+ * - `app:` keys are shared by every user of the app
+ * - `user:` keys are shared by all sessions of one user
+ * - `temp:` keys are never persisted
+ * - everything else belongs to the session
+ *
+ * Key Learning: The runner only needs create/get/list/delete/appendEvent,
+ * so any storage backend can sit behind the same interface.
+ */
+
+import { Database } from 'bun:sqlite';
+import { mkdirSync } from 'fs';
+import { dirname } from 'path';
+import { randomUUID } from 'crypto';
+import { Event, Session, State } from '@google/adk';
+
+/**
+ * Request shapes of the ADK session service interface.
+ * `@google/adk` does not export them, so they are mirrored here.
+ */
+interface CreateSessionRequest {
+  appName: string;
+  userId: string;
+  state?: Record<string, unknown>;
+  sessionId?: string;
+}
+
+interface GetSessionRequest {
+  appName: string;
+  userId: string;
+  sessionId: string;
+  config?: {
+    numRecentEvents?: number;
+    afterTimestamp?: number;
+  };
+}
+
+interface SessionKey {
+  appName: string;
+  userId: string;
+  sessionId: string;
+}
+
+export interface SqliteSessionServiceOptions {
+  /** Path of the database file, or ":memory:" */
+  path: string;
+  /** Delete sessions not updated for this many days (0 keeps them forever) */
+  retentionDays?: number;
+  /** Keep at most this many events per session (0 keeps all of them) */
+  maxEventsPerSession?: number;
+}
+
+export interface CleanupResult {
+  deletedSessions: number;
+  deletedEvents: number;
+}
+
+interface SessionRow {
+  app_name: string;
+  user_id: string;
+  id: string;
+  state: string;
+  last_update_time: number;
+}
+
+/**
+ * Schema migrations, applied in order and recorded in schema_migrations.
+ * Never edit a released migration - add a new one instead.
+ */
+const MIGRATIONS: { version: number; statements: string[] }[] = [
+  {
+    version: 1,
+    statements: [
+      `CREATE TABLE sessions (
+        app_name TEXT NOT NULL,
+        user_id TEXT NOT NULL,
+        id TEXT NOT NULL,
+        state TEXT NOT NULL DEFAULT '{}',
+        created_at INTEGER NOT NULL,
+        last_update_time INTEGER NOT NULL,
+        PRIMARY KEY (app_name, user_id, id)
+      )`,
+      `CREATE TABLE events (
+        seq INTEGER PRIMARY KEY AUTOINCREMENT,
+        id TEXT NOT NULL,
+        app_name TEXT NOT NULL,
+        user_id TEXT NOT NULL,
+        session_id TEXT NOT NULL,
+        invocation_id TEXT NOT NULL,
+        author TEXT,
+        timestamp INTEGER NOT NULL,
+        data TEXT NOT NULL,
+        FOREIGN KEY (app_name, user_id, session_id)
+          REFERENCES sessions (app_name, user_id, id) ON DELETE CASCADE
+      )`,
+      `CREATE TABLE app_state (
+        app_name TEXT PRIMARY KEY,
+        state TEXT NOT NULL DEFAULT '{}'
+      )`,
+      `CREATE TABLE user_state (
+        app_name TEXT NOT NULL,
+        user_id TEXT NOT NULL,
+        state TEXT NOT NULL DEFAULT '{}',
+        PRIMARY KEY (app_name, user_id)
+      )`,
+    ],
+  },
+  {
+    version: 2,
+    statements: [
+      `CREATE INDEX idx_events_session ON events (app_name, user_id, session_id, timestamp)`,
+      `CREATE INDEX idx_sessions_last_update ON sessions (last_update_time)`,
+    ],
+  },
+];
+
+/**
+ * Split a state delta into app, user and session scoped parts
+ */
+function splitStateDelta(delta: Record<string, unknown>) {
+  const app: Record<string, unknown> = {};
+  const user: Record<string, unknown> = {};
+  const session: Record<string, unknown> = {};
+
+  for (const [key, value] of Object.entries(delta)) {
+    if (key.startsWith(State.TEMP_PREFIX)) {
+      continue;
+    } else if (key.startsWith(State.APP_PREFIX)) {
+      app[key.slice(State.APP_PREFIX.length)] = value;
+    } else if (key.startsWith(State.USER_PREFIX)) {
+      user[key.slice(State.USER_PREFIX.length)] = value;
+    } else {
+      session[key] = value;
+    }
+  }
+
+  return { app, user, session };
+}
+
+function prefixKeys(prefix: string, state: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(state).map(([key, value]) => [prefix + key, value]));
+}
+
+export class SqliteSessionService {
+  private readonly db: Database;
+  private readonly retentionDays: number;
+  private readonly maxEventsPerSession: number;
+
+  constructor(options: SqliteSessionServiceOptions) {
+    if (options.path !== ':memory:') {
+      mkdirSync(dirname(options.path), { recursive: true });
+    }
+    this.db = new Database(options.path, { create: true });
+    this.db.exec('PRAGMA journal_mode = WAL');
+    this.db.exec('PRAGMA foreign_keys = ON');
+    // Several server processes may share the file; wait for locks instead of failing
+    this.db.exec('PRAGMA busy_timeout = 5000');
+
+    this.retentionDays = options.retentionDays ?? 0;
+    this.maxEventsPerSession = options.maxEventsPerSession ?? 0;
+    this.migrate();
+  }
+
+  /**
+   * Apply any migrations newer than the database's schema version
+   */
+  private migrate(): void {
+    this.db.exec(`CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      applied_at INTEGER NOT NULL
+    )`);
+
+    const row = this.db.query('SELECT MAX(version) AS version FROM schema_migrations').get() as { version: number | null };
+    const current = row.version ?? 0;
+
+    for (const migration of MIGRATIONS.filter((m) => m.version > current)) {
+      this.db.transaction(() => {
+        migration.statements.forEach((statement) => this.db.exec(statement));
+        this.db.query('INSERT INTO schema_migrations (version, applied_at) VALUES (?, ?)')
+          .run(migration.version, Date.now());
+      })();
+    }
+  }
+
+  /** Current schema version, mostly useful for diagnostics */
+  get schemaVersion(): number {
+    const row = this.db.query('SELECT MAX(version) AS version FROM schema_migrations').get() as { version: number | null };
+    return row.version ?? 0;
+  }
+
+  private readScopedState(appName: string, userId: string): Record<string, unknown> {
+    const app = this.db.query('SELECT state FROM app_state WHERE app_name = ?').get(appName) as { state: string } | null;
+    const user = this.db.query('SELECT state FROM user_state WHERE app_name = ? AND user_id = ?')
+      .get(appName, userId) as { state: string } | null;
+
+    return {
+      ...prefixKeys(State.APP_PREFIX, app ? JSON.parse(app.state) : {}),
+      ...prefixKeys(State.USER_PREFIX, user ? JSON.parse(user.state) : {}),
+    };
+  }
+
+  /**
+   * Merge scoped state deltas into the app_state and user_state tables
+   */
+  private writeScopedState(appName: string, userId: string, app: Record<string, unknown>, user: Record<string, unknown>): void {
+    if (Object.keys(app).length > 0) {
+      const existing = this.db.query('SELECT state FROM app_state WHERE app_name = ?').get(appName) as { state: string } | null;
+      const merged = { ...(existing ? JSON.parse(existing.state) : {}), ...app };
+      this.db.query('INSERT INTO app_state (app_name, state) VALUES (?, ?) ON CONFLICT (app_name) DO UPDATE SET state = excluded.state')
+        .run(appName, JSON.stringify(merged));
+    }
+
+    if (Object.keys(user).length > 0) {
+      const existing = this.db.query('SELECT state FROM user_state WHERE app_name = ? AND user_id = ?')
+        .get(appName, userId) as { state: string } | null;
+      const merged = { ...(existing ? JSON.parse(existing.state) : {}), ...user };
+      this.db.query('INSERT INTO user_state (app_name, user_id, state) VALUES (?, ?, ?) ON CONFLICT (app_name, user_id) DO UPDATE SET state = excluded.state')
+        .run(appName, userId, JSON.stringify(merged));
+    }
+  }
+
+  async createSession({ appName, userId, state = {}, sessionId }: CreateSessionRequest): Promise<Session> {
+    const id = sessionId || randomUUID();
+    const now = Date.now();
+    const { app, user, session } = splitStateDelta(state);
+
+    this.db.transaction(() => {
+      // Creating a session with an existing id replaces it, like the in-memory service
+      this.db.query('DELETE FROM sessions WHERE app_name = ? AND user_id = ? AND id = ?').run(appName, userId, id);
+      this.db.query('INSERT INTO sessions (app_name, user_id, id, state, created_at, last_update_time) VALUES (?, ?, ?, ?, ?, ?)')
+        .run(appName, userId, id, JSON.stringify(session), now, now);
+      this.writeScopedState(appName, userId, app, user);
+    })();
+
+    return {
+      id,
+      appName,
+      userId,
+      state: { ...session, ...this.readScopedState(appName, userId) },
+      events: [],
+      lastUpdateTime: now,
+    };
+  }
+
+  async getSession({ appName, userId, sessionId, config }: GetSessionRequest): Promise<Session | undefined> {
+    const row = this.db.query('SELECT * FROM sessions WHERE app_name = ? AND user_id = ? AND id = ?')
+      .get(appName, userId, sessionId) as SessionRow | null;
+    if (!row) {
+      return undefined;
+    }
+
+    let sql = 'SELECT data FROM events WHERE app_name = ? AND user_id = ? AND session_id = ?';
+    const params: (string | number)[] = [appName, userId, sessionId];
+    if (config?.afterTimestamp) {
+      sql += ' AND timestamp >= ?';
+      params.push(config.afterTimestamp);
+    }
+    sql += ' ORDER BY seq';
+
+    let events = (this.db.query(sql).all(...params) as { data: string }[])
+      .map((eventRow) => JSON.parse(eventRow.data) as Event);
+    if (config?.numRecentEvents) {
+      events = events.slice(-config.numRecentEvents);
+    }
+
+    return {
+      id: row.id,
+      appName: row.app_name,
+      userId: row.user_id,
+      state: { ...JSON.parse(row.state), ...this.readScopedState(appName, userId) },
+      events,
+      lastUpdateTime: row.last_update_time,
+    };
+  }
+
+  async listSessions({ appName, userId }: { appName: string; userId: string }): Promise<{ sessions: Session[] }> {
+    const rows = this.db.query('SELECT * FROM sessions WHERE app_name = ? AND user_id = ? ORDER BY last_update_time DESC')
+      .all(appName, userId) as SessionRow[];
+
+    // Like the in-memory service, listings carry neither state nor events
+    return {
+      sessions: rows.map((row) => ({
+        id: row.id,
+        appName: row.app_name,
+        userId: row.user_id,
+        state: {},
+        events: [],
+        lastUpdateTime: row.last_update_time,
+      })),
+    };
+  }
+
+  async deleteSession({ appName, userId, sessionId }: SessionKey): Promise<void> {
+    this.db.query('DELETE FROM sessions WHERE app_name = ? AND user_id = ? AND id = ?').run(appName, userId, sessionId);
+  }
+
+  async appendEvent({ session, event }: { session: Session; event: Event }): Promise<Event> {
+    // Partial (streaming) events are never stored
+    if (event.partial) {
+      return event;
+    }
+
+    const { app, user, session: sessionDelta } = splitStateDelta(event.actions?.stateDelta ?? {});
+
+    // Keep the caller's session object in sync, as the base service does
+    for (const [key, value] of Object.entries(event.actions?.stateDelta ?? {})) {
+      if (!key.startsWith(State.TEMP_PREFIX)) {
+        session.state[key] = value;
+      }
+    }
+    session.events.push(event);
+    session.lastUpdateTime = event.timestamp;
+
+    this.db.transaction(() => {
+      const row = this.db.query('SELECT state FROM sessions WHERE app_name = ? AND user_id = ? AND id = ?')
+        .get(session.appName, session.userId, session.id) as { state: string } | null;
+      if (!row) {
+        throw new Error(`Session ${session.id} not found for user ${session.userId}`);
+      }
+
+      const state = { ...JSON.parse(row.state), ...sessionDelta };
+      this.db.query('UPDATE sessions SET state = ?, last_update_time = ? WHERE app_name = ? AND user_id = ? AND id = ?')
+        .run(JSON.stringify(state), event.timestamp, session.appName, session.userId, session.id);
+      this.db.query('INSERT INTO events (id, app_name, user_id, session_id, invocation_id, author, timestamp, data) VALUES (?, ?, ?, ?, ?, ?, ?, ?)')
+        .run(event.id, session.appName, session.userId, session.id, event.invocationId, event.author ?? null, event.timestamp, JSON.stringify(event));
+      this.writeScopedState(session.appName, session.userId, app, user);
+    })();
+
+    return event;
+  }
+
+  /**
+   * Apply the retention policy: delete expired sessions and trim event logs.
+   * Safe to call on a timer from several processes.
+   */
+  cleanup(now: number = Date.now()): CleanupResult {
+    let deletedSessions = 0;
+    let deletedEvents = 0;
+
+    this.db.transaction(() => {
+      if (this.retentionDays > 0) {
+        const cutoff = now - this.retentionDays * 24 * 60 * 60 * 1000;
+        // Count first: the change count would also include cascaded event deletions
+        const expired = this.db.query('SELECT COUNT(*) AS count FROM sessions WHERE last_update_time < ?').get(cutoff) as { count: number };
+        this.db.query('DELETE FROM sessions WHERE last_update_time < ?').run(cutoff);
+        deletedSessions = expired.count;
+      }
+
+      if (this.maxEventsPerSession > 0) {
+        deletedEvents = this.db.query(`DELETE FROM events WHERE seq IN (
+          SELECT seq FROM (
+            SELECT seq, ROW_NUMBER() OVER (
+              PARTITION BY app_name, user_id, session_id ORDER BY seq DESC
+            ) AS position FROM events
+          ) WHERE position > ?
+        )`).run(this.maxEventsPerSession).changes;
+      }
+    })();
+
+    return { deletedSessions, deletedEvents };
+  }
+
+  close(): void {
+    this.db.close();
+  }
+}
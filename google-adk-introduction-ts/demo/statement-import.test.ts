@@ -0,0 +1,248 @@
+import { describe, expect, test } from 'bun:test';
+import { money } from './money';
+import {
+  detectFormat,
+  importStatement,
+  mergeTransactions,
+  normalizeDate,
+  occurrenceKeys,
+  parseAmount,
+  parseCsv,
+  parseOfx,
+  parseQif,
+} from './statement-import';
+import { Transaction } from './session-state';
+
+function transaction(date: string, description: string, amount: number): Transaction {
+  return { date, description, amount: money(amount), category: 'dining' };
+}
+
+describe('parseCsv', () => {
+  test('detects columns from common header names and any delimiter', () => {
+    const { rows, errors } = parseCsv(
+      'Posted Date;Narrative;Value\n15/01/2024;"Cafe ""Central""";-4,50\n16/01/2024;Salary;2500,00\n'
+    );
+
+    expect(errors).toEqual([]);
+    expect(rows).toEqual([
+      { date: '2024-01-15', description: 'Cafe "Central"', amount: -4.5 },
+      { date: '2024-01-16', description: 'Salary', amount: 2500 },
+    ]);
+  });
+
+  test('uses an explicit column mapping over the header names', () => {
+    const content = 'When,What,Note,Sum\n2024-01-15,Bakery,ignored,-3.20\n';
+
+    expect(parseCsv(content).errors[0]).toContain('Could not detect date and description columns');
+
+    const { rows, errors } = parseCsv(content, {
+      columnMapping: { date: 'When', description: 'What', amount: 'Sum' },
+    });
+    expect(errors).toEqual([]);
+    expect(rows).toEqual([{ date: '2024-01-15', description: 'Bakery', amount: -3.2 }]);
+  });
+
+  test('reports mapped columns that are not in the header', () => {
+    const { errors } = parseCsv('Date,Description,Amount\n', {
+      columnMapping: { date: 'Date', description: 'Payee', amount: 'Amount' },
+    });
+
+    expect(errors).toEqual(['Columns not found in CSV header: Payee']);
+  });
+
+  test('turns split debit and credit columns into signed amounts', () => {
+    const { rows, errors } = parseCsv([
+      'Date,Description,Money Out,Money In',
+      '01/02/2024,Groceries,42.10,',
+      '02/02/2024,Refund,,15.00',
+      '03/02/2024,Nothing,,',
+    ].join('\n'));
+
+    expect(rows).toEqual([
+      { date: '2024-02-01', description: 'Groceries', amount: -42.1 },
+      { date: '2024-02-02', description: 'Refund', amount: 15 },
+    ]);
+    expect(errors).toEqual(['Line 4: invalid amount']);
+  });
+
+  test('flips the sign when spending is exported as positive amounts', () => {
+    const content = 'Date,Description,Amount\n01/03/2024,Card payment,12.00\n02/03/2024,Payment received,-100.00\n';
+
+    const { rows } = parseCsv(content, { spendingSign: 'positive' });
+    expect(rows.map((row) => row.amount)).toEqual([-12, 100]);
+
+    const result = importStatement([], content, { spendingSign: 'positive' });
+    expect(result.imported.map((tx) => tx.description)).toEqual(['Card payment']);
+    expect(result.skipped).toBe(1);
+  });
+
+  test('reads dates in the configured order and reports invalid ones', () => {
+    const content = 'Date,Description,Amount\n03/04/2024,Lunch,-9\n31/02/2024,Typo,-1\n';
+
+    expect(parseCsv(content).rows[0].date).toBe('2024-04-03');
+    expect(parseCsv(content, { dateOrder: 'MDY' }).rows[0].date).toBe('2024-03-04');
+    expect(parseCsv(content).errors).toEqual(['Line 3: invalid date "31/02/2024"']);
+  });
+});
+
+describe('parseAmount', () => {
+  test('reads US and European formats, currency symbols and parentheses', () => {
+    expect(parseAmount('-1,234.50')).toBe(-1234.5);
+    expect(parseAmount('1.234,50 €')).toBe(1234.5);
+    expect(parseAmount('-1.234,50')).toBe(-1234.5);
+    expect(parseAmount('12,50')).toBe(12.5);
+    expect(parseAmount('1,234')).toBe(1234);
+    expect(parseAmount('$85.00')).toBe(85);
+    expect(parseAmount('(45.00)')).toBe(-45);
+    expect(parseAmount('')).toBeNull();
+    expect(parseAmount('n/a')).toBeNull();
+  });
+});
+
+describe('normalizeDate', () => {
+  test('accepts ISO, compact OFX and QIF two-digit years', () => {
+    expect(normalizeDate('2024-01-15')).toBe('2024-01-15');
+    expect(normalizeDate('20240115120000[-5:EST]')).toBe('2024-01-15');
+    expect(normalizeDate("1/15'24", 'MDY')).toBe('2024-01-15');
+    expect(normalizeDate('15.01.2024')).toBe('2024-01-15');
+  });
+
+  test('rejects dates that do not exist', () => {
+    expect(normalizeDate('2023-02-29')).toBeNull();
+    expect(normalizeDate('20241301')).toBeNull();
+    expect(normalizeDate('yesterday')).toBeNull();
+  });
+});
+
+describe('parseOfx', () => {
+  test('reads SGML statements with unclosed tags and keeps the time of day', () => {
+    const { rows, errors, currency } = parseOfx([
+      'OFXHEADER:100',
+      '<OFX><BANKMSGSRSV1><STMTTRNRS><STMTRS>',
+      '<CURDEF>EUR',
+      '<BANKTRANLIST>',
+      '<STMTTRN>',
+      '<TRNTYPE>DEBIT',
+      '<DTPOSTED>20240115231500[-5:EST]',
+      '<TRNAMT>-85.00',
+      '<FITID>1',
+      '<NAME>Late Night Diner',
+      '<STMTTRN>',
+      '<TRNTYPE>DEBIT',
+      '<DTPOSTED>20240116000000',
+      '<TRNAMT>-12.00',
+      '<FITID>2',
+      '<MEMO>Parking',
+      '</BANKTRANLIST>',
+    ].join('\n'));
+
+    expect(errors).toEqual([]);
+    expect(currency).toBe('EUR');
+    expect(rows).toEqual([
+      { date: '2024-01-15', description: 'Late Night Diner', amount: -85, time: '23:15' },
+      { date: '2024-01-16', description: 'Parking', amount: -12, time: undefined },
+    ]);
+  });
+
+  test('reads XML statements with closed tags', () => {
+    const content = [
+      '<?xml version="1.0"?><OFX><BANKTRANLIST>',
+      '<STMTTRN><TRNTYPE>DEBIT</TRNTYPE><DTPOSTED>20240201083000</DTPOSTED>',
+      '<TRNAMT>-4.20</TRNAMT><FITID>a</FITID><NAME>Coffee Cart</NAME></STMTTRN>',
+      '<STMTTRN><DTPOSTED>20240202</DTPOSTED><FITID>b</FITID></STMTTRN>',
+      '</BANKTRANLIST></OFX>',
+    ].join('');
+
+    expect(detectFormat(content)).toBe('ofx');
+    const { rows, errors } = parseOfx(content);
+    expect(rows).toEqual([{ date: '2024-02-01', description: 'Coffee Cart', amount: -4.2, time: '08:30' }]);
+    expect(errors).toEqual(['Transaction b: missing or invalid DTPOSTED/TRNAMT']);
+  });
+
+  test('reports a file without transactions', () => {
+    expect(parseOfx('<OFX></OFX>').errors).toEqual(['No <STMTTRN> transactions found in OFX file']);
+  });
+});
+
+describe('parseQif', () => {
+  test('reads M/D\'YY dates, payees and split records', () => {
+    const content = [
+      '!Type:Bank',
+      "D1/15'24",
+      'T-1,250.00',
+      'PLandlord',
+      '^',
+      "D2/3'24",
+      'U-30.00',
+      'MGym membership',
+      'SFitness',
+      '$-20.00',
+      'SOther',
+      '$-10.00',
+      '^',
+      'D13/40/24',
+      'T-5.00',
+      '^',
+    ].join('\n');
+
+    expect(detectFormat(content)).toBe('qif');
+    const { rows, errors } = parseQif(content);
+    expect(rows).toEqual([
+      { date: '2024-01-15', description: 'Landlord', amount: -1250 },
+      { date: '2024-02-03', description: 'Gym membership', amount: -30 },
+    ]);
+    expect(errors).toEqual(['Record 3: missing or invalid date/amount']);
+  });
+
+  test('honors a day-first date order', () => {
+    const { rows } = parseQif("D15/1'24\nT-3.00\nPBakery\n^", { dateOrder: 'DMY' });
+    expect(rows[0].date).toBe('2024-01-15');
+  });
+});
+
+describe('re-importing statements', () => {
+  test('keeps genuinely repeated rows but adds nothing the second time', () => {
+    const content = [
+      'Date,Description,Amount',
+      '2024-01-15,Coffee,-3.50',
+      '2024-01-15,Coffee,-3.50',
+      '2024-01-16,Coffee,-3.50',
+    ].join('\n');
+
+    const first = importStatement([], content);
+    expect(first.imported).toHaveLength(3);
+    expect(first.duplicates).toBe(0);
+
+    const second = importStatement(first.transactions, content);
+    expect(second.imported).toEqual([]);
+    expect(second.duplicates).toBe(3);
+    expect(second.transactions).toHaveLength(3);
+
+    // A statement covering the same day with a third coffee adds just that one
+    const third = importStatement(second.transactions, `${content}\n2024-01-15,Coffee,-3.50`);
+    expect(third.imported).toHaveLength(1);
+    expect(third.transactions.filter((tx) => tx.date === '2024-01-15')).toHaveLength(3);
+  });
+
+  test('numbers each occurrence of the same transaction', () => {
+    const coffee = transaction('2024-01-15', 'Coffee', 3.5);
+    const keys = occurrenceKeys([coffee, transaction('2024-01-15', '  COFFEE ', 3.5), coffee]);
+
+    expect(keys).toEqual([
+      '2024-01-15|350 USD|coffee#1',
+      '2024-01-15|350 USD|coffee#2',
+      '2024-01-15|350 USD|coffee#3',
+    ]);
+  });
+
+  test('merges new transactions in date order', () => {
+    const existing = [transaction('2024-01-10', 'Lunch', 12), transaction('2024-01-20', 'Dinner', 30)];
+    const { transactions, added } = mergeTransactions(existing, [
+      transaction('2024-01-15', 'Cinema', 18),
+      transaction('2024-01-20', 'Dinner', 30),
+    ]);
+
+    expect(added.map((tx) => tx.description)).toEqual(['Cinema']);
+    expect(transactions.map((tx) => tx.date)).toEqual(['2024-01-10', '2024-01-15', '2024-01-20']);
+  });
+});
@@ -0,0 +1,519 @@
+/**
+ * Bank Statement Import
+ *
+ * Parses bank exports into the same transaction shape that the
+ * analyze_transactions tool validates with Zod:
+ * - CSV with a configurable (or auto-detected) column mapping
+ * - OFX / QFX statements (<STMTTRN> blocks)
+ * - QIF files (Quicken interchange format)
+ *
+ * Every parser normalizes dates to YYYY-MM-DD and turns outgoing payments
+ * into positive spending amounts. Incoming payments (salary, refunds) are
+ * skipped because the analysis tools only deal with spending. Imported rows
+ * are categorized with the rule engine; unmatched rows stay uncategorized.
+ *
+ * Key Learning: Import logic is plain TypeScript with no ADK dependency, so
+ * both the import_statement tool and the server upload route can share it.
+ */
+
+import { CategoryRule, UNCATEGORIZED, categorizeAll } from './categorization';
+import { DEFAULT_CURRENCY, money } from './money';
+import { Transaction } from './session-state';
+
+export const STATEMENT_FORMATS = ['csv', 'ofx', 'qif'] as const;
+
+export type StatementFormat = (typeof STATEMENT_FORMATS)[number];
+
+/**
+ * Order of day, month and year in slash/dash separated dates such as 03/04/2024
+ */
+export const DATE_ORDERS = ['DMY', 'MDY', 'YMD'] as const;
+
+export type DateOrder = (typeof DATE_ORDERS)[number];
+
+/**
+ * Which sign marks money leaving the account in a single amount column
+ */
+export const SPENDING_SIGNS = ['negative', 'positive'] as const;
+
+export type SpendingSign = (typeof SPENDING_SIGNS)[number];
+
+/**
+ * Maps CSV header names to transaction fields.
+ * Use either `amount`, or `debit` (and optionally `credit`) for split columns.
+ */
+export interface CsvColumnMapping {
+  date: string;
+  description: string;
+  amount?: string;
+  debit?: string;
+  credit?: string;
+}
+
+const MAPPING_FIELDS = ['date', 'description', 'amount', 'debit', 'credit'];
+
+/**
+ * Whether a parsed value (e.g. from a form field) is a column mapping:
+ * header names for `date` and `description`, and only known fields
+ */
+export function isCsvColumnMapping(value: unknown): value is CsvColumnMapping {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return false;
+  }
+  const fields = value as Record<string, unknown>;
+  return typeof fields.date === 'string'
+    && typeof fields.description === 'string'
+    && Object.entries(fields).every(([field, column]) => MAPPING_FIELDS.includes(field) && typeof column === 'string');
+}
+
+export interface ImportOptions {
+  format?: StatementFormat;
+  filename?: string;
+  dateOrder?: DateOrder;
+  spendingSign?: SpendingSign;
+  columnMapping?: CsvColumnMapping;
+  /** Currency of the statement; OFX files declare their own in CURDEF */
+  currency?: string;
+  /** The user's own categorization rules, applied on top of the built-in ones */
+  rules?: CategoryRule[];
+}
+
+export interface ImportResult {
+  format: StatementFormat;
+  /** All stored transactions after merging the import */
+  transactions: Transaction[];
+  /** Transactions added by this import */
+  imported: Transaction[];
+  /** Rows already present in the stored transactions */
+  duplicates: number;
+  /** Rows ignored because they were incoming payments or unparseable */
+  skipped: number;
+  errors: string[];
+}
+
+/**
+ * Raw row produced by a parser before sign handling.
+ * `amount` is signed: negative means money left the account.
+ */
+interface ParsedRow {
+  date: string;
+  description: string;
+  amount: number;
+  /** HH:MM, when the file records the time of day */
+  time?: string;
+}
+
+interface ParseOutput {
+  rows: ParsedRow[];
+  errors: string[];
+  /** Currency declared by the file itself, if any */
+  currency?: string;
+}
+
+/**
+ * Header names recognized when no CSV column mapping is given
+ */
+const CSV_HEADER_ALIASES: Record<keyof CsvColumnMapping, string[]> = {
+  date: ['date', 'transaction date', 'posted date', 'posting date', 'value date', 'booking date'],
+  description: ['description', 'details', 'narrative', 'memo', 'payee', 'merchant', 'name', 'particulars'],
+  amount: ['amount', 'transaction amount', 'value'],
+  debit: ['debit', 'debit amount', 'withdrawal', 'withdrawals', 'money out', 'paid out'],
+  credit: ['credit', 'credit amount', 'deposit', 'deposits', 'money in', 'paid in'],
+};
+
+/**
+ * Guess the statement format from the filename or the content
+ */
+export function detectFormat(content: string, filename?: string): StatementFormat {
+  const extension = filename?.split('.').pop()?.toLowerCase();
+  if (extension === 'ofx' || extension === 'qfx') return 'ofx';
+  if (extension === 'qif') return 'qif';
+  if (extension === 'csv') return 'csv';
+
+  const head = content.trimStart().slice(0, 500).toUpperCase();
+  if (head.startsWith('OFXHEADER') || head.includes('<OFX>')) return 'ofx';
+  if (head.startsWith('!TYPE:') || head.startsWith('!ACCOUNT')) return 'qif';
+  return 'csv';
+}
+
+/**
+ * Normalize a date string to YYYY-MM-DD.
+ *
+ * Accepts ISO dates, compact OFX dates (20240115 or 20240115120000[-5:EST]),
+ * separated dates in the given order, and QIF two-digit years (1/15'24).
+ * Returns null when the date cannot be parsed or does not exist.
+ */
+export function normalizeDate(input: string, dateOrder: DateOrder = 'DMY'): string | null {
+  const value = input.trim();
+
+  // Compact form used by OFX: YYYYMMDD with optional time and timezone
+  const compact = value.match(/^(\d{4})(\d{2})(\d{2})(?:\d{0,6}(?:\.\d+)?)?(?:\[.*\])?$/);
+  if (compact) {
+    return buildDate(Number(compact[1]), Number(compact[2]), Number(compact[3]));
+  }
+
+  // Separated forms; QIF uses an apostrophe before two-digit years after 2000
+  const parts = value.replace(/'/g, '/').split(/[\/\-.\s]+/).filter(Boolean);
+  if (parts.length < 3 || parts.slice(0, 3).some((part) => !/^\d+$/.test(part))) {
+    return null;
+  }
+
+  const [first, second, third] = parts.slice(0, 3).map(Number);
+  // A leading four-digit year is unambiguous whatever the configured order
+  if (parts[0].length === 4 || dateOrder === 'YMD') {
+    return buildDate(first, second, third);
+  }
+
+  const year = parts[2].length <= 2 ? 2000 + third : third;
+  return dateOrder === 'MDY'
+    ? buildDate(year, first, second)
+    : buildDate(year, second, first);
+}
+
+function buildDate(year: number, month: number, day: number): string | null {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Parse an amount such as "-1,234.50", "$85.00", "(45.00)" or "1.234,50 €"
+ */
+export function parseAmount(input: string): number | null {
+  let value = input.trim();
+  if (!value) return null;
+
+  const negative = /^\(.*\)$/.test(value) || value.includes('-');
+  value = value.replace(/[^\d.,]/g, '');
+
+  // When both separators appear, the last one is the decimal separator
+  const lastComma = value.lastIndexOf(',');
+  const lastDot = value.lastIndexOf('.');
+  if (lastComma > lastDot) {
+    const decimals = value.length - lastComma - 1;
+    value = lastDot >= 0 || decimals !== 3
+      ? value.replace(/\./g, '').replace(',', '.')
+      : value.replace(/,/g, '');
+  } else {
+    value = value.replace(/,/g, '');
+  }
+
+  const amount = parseFloat(value);
+  if (Number.isNaN(amount)) return null;
+  return negative ? -amount : amount;
+}
+
+/**
+ * Split CSV content into rows, honoring quoted fields and escaped quotes
+ */
+function parseCsvRows(content: string, delimiter: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter((r) => r.some((cell) => cell.trim() !== ''));
+}
+
+function detectDelimiter(headerLine: string): string {
+  const candidates = [',', ';', '\t', '|'];
+  return candidates.reduce((best, candidate) =>
+    headerLine.split(candidate).length > headerLine.split(best).length ? candidate : best
+  );
+}
+
+function detectColumnMapping(headers: string[]): CsvColumnMapping | null {
+  const normalized = headers.map((header) => header.trim().toLowerCase());
+  const find = (field: keyof CsvColumnMapping) => {
+    const index = normalized.findIndex((header) => CSV_HEADER_ALIASES[field].includes(header));
+    return index >= 0 ? headers[index] : undefined;
+  };
+
+  const date = find('date');
+  const description = find('description');
+  if (!date || !description) return null;
+
+  return {
+    date,
+    description,
+    amount: find('amount'),
+    debit: find('debit'),
+    credit: find('credit'),
+  };
+}
+
+/**
+ * Parse a CSV export with a header row
+ */
+export function parseCsv(content: string, options: ImportOptions = {}): ParseOutput {
+  const firstLine = content.split(/\r?\n/, 1)[0] ?? '';
+  const rows = parseCsvRows(content, detectDelimiter(firstLine));
+  if (rows.length === 0) {
+    return { rows: [], errors: ['CSV file is empty'] };
+  }
+
+  const headers = rows[0].map((header) => header.trim());
+  const mapping = options.columnMapping ?? detectColumnMapping(headers);
+  if (!mapping) {
+    return {
+      rows: [],
+      errors: [`Could not detect date and description columns in header: ${headers.join(', ')}. Provide a column mapping.`],
+    };
+  }
+  if (!mapping.amount && !mapping.debit) {
+    return { rows: [], errors: ['Column mapping needs either an amount column or a debit column'] };
+  }
+
+  const column = (name?: string) => (name ? headers.indexOf(name) : -1);
+  const indexes = {
+    date: column(mapping.date),
+    description: column(mapping.description),
+    amount: column(mapping.amount),
+    debit: column(mapping.debit),
+    credit: column(mapping.credit),
+  };
+  const missing = Object.entries(mapping)
+    .filter(([field, name]) => name && indexes[field as keyof typeof indexes] < 0)
+    .map(([, name]) => name);
+  if (missing.length > 0) {
+    return { rows: [], errors: [`Columns not found in CSV header: ${missing.join(', ')}`] };
+  }
+
+  const spendingSign = options.spendingSign ?? 'negative';
+  const parsed: ParsedRow[] = [];
+  const errors: string[] = [];
+
+  rows.slice(1).forEach((cells, i) => {
+    const line = i + 2;
+    const date = normalizeDate(cells[indexes.date] ?? '', options.dateOrder);
+    if (!date) {
+      errors.push(`Line ${line}: invalid date "${cells[indexes.date] ?? ''}"`);
+      return;
+    }
+
+    let amount: number | null;
+    if (indexes.amount >= 0) {
+      amount = parseAmount(cells[indexes.amount] ?? '');
+      if (amount !== null && spendingSign === 'positive') amount = -amount;
+    } else {
+      // Split debit/credit columns: debits are spending, credits are income
+      const debit = parseAmount(cells[indexes.debit] ?? '');
+      const credit = indexes.credit >= 0 ? parseAmount(cells[indexes.credit] ?? '') : null;
+      amount = debit ? -Math.abs(debit) : credit ? Math.abs(credit) : null;
+    }
+
+    if (amount === null) {
+      errors.push(`Line ${line}: invalid amount`);
+      return;
+    }
+
+    parsed.push({ date, description: (cells[indexes.description] ?? '').trim(), amount });
+  });
+
+  return { rows: parsed, errors };
+}
+
+/**
+ * Read an OFX field; handles both SGML (unclosed) and XML style tags
+ */
+function ofxField(block: string, tag: string): string | undefined {
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+  return match?.[1].trim() || undefined;
+}
+
+/**
+ * Time of day from an OFX date such as 20240115231500, as HH:MM.
+ * Banks that only know the date often send 000000, which is ignored.
+ */
+function ofxTime(value: string | undefined): string | undefined {
+  const match = value?.match(/^\d{8}(\d{2})(\d{2})(\d{2})?/);
+  if (!match || `${match[1]}${match[2]}${match[3] ?? '00'}` === '000000') {
+    return undefined;
+  }
+  return `${match[1]}:${match[2]}`;
+}
+
+/**
+ * Parse an OFX / QFX statement
+ */
+export function parseOfx(content: string): ParseOutput {
+  const blocks = content.match(/<STMTTRN>[\s\S]*?(?=<\/STMTTRN>|<STMTTRN>|<\/BANKTRANLIST>)/gi) ?? [];
+  if (blocks.length === 0) {
+    return { rows: [], errors: ['No <STMTTRN> transactions found in OFX file'] };
+  }
+
+  const rows: ParsedRow[] = [];
+  const errors: string[] = [];
+  const currency = ofxField(content, 'CURDEF');
+
+  blocks.forEach((block, i) => {
+    const id = ofxField(block, 'FITID') ?? `#${i + 1}`;
+    const posted = ofxField(block, 'DTPOSTED');
+    const date = normalizeDate(posted ?? '', 'YMD');
+    const amount = parseAmount(ofxField(block, 'TRNAMT') ?? '');
+    if (!date || amount === null) {
+      errors.push(`Transaction ${id}: missing or invalid DTPOSTED/TRNAMT`);
+      return;
+    }
+
+    const name = ofxField(block, 'NAME');
+    const memo = ofxField(block, 'MEMO');
+    rows.push({ date, description: name ?? memo ?? '', amount, time: ofxTime(posted) });
+  });
+
+  return { rows, errors, currency };
+}
+
+/**
+ * Parse a QIF file (bank, cash or credit card account types)
+ */
+export function parseQif(content: string, options: ImportOptions = {}): ParseOutput {
+  const rows: ParsedRow[] = [];
+  const errors: string[] = [];
+  const dateOrder = options.dateOrder ?? 'MDY';
+
+  let record: Record<string, string> = {};
+  let recordNumber = 0;
+
+  const finishRecord = () => {
+    if (Object.keys(record).length === 0) return;
+    recordNumber++;
+
+    const date = normalizeDate(record.D ?? '', dateOrder);
+    const amount = parseAmount(record.T ?? record.U ?? '');
+    if (!date || amount === null) {
+      errors.push(`Record ${recordNumber}: missing or invalid date/amount`);
+    } else {
+      rows.push({ date, description: record.P ?? record.M ?? '', amount });
+    }
+    record = {};
+  };
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('!')) continue;
+    if (line === '^') {
+      finishRecord();
+      continue;
+    }
+    const code = line[0];
+    // Keep the first occurrence; split lines (S/E/$) repeat codes we don't use
+    if (!(code in record)) {
+      record[code] = line.slice(1).trim();
+    }
+  }
+  finishRecord();
+
+  return { rows, errors };
+}
+
+/**
+ * Key used to recognize a transaction across imports
+ */
+function transactionKey(tx: Pick<Transaction, 'date' | 'description' | 'amount'>): string {
+  const description = tx.description.toLowerCase().replace(/\s+/g, ' ').trim();
+  return `${tx.date}|${tx.amount.amountMinor} ${tx.amount.currency}|${description}`;
+}
+
+/**
+ * Number each occurrence of a key so that genuinely repeated transactions
+ * (two identical coffees on the same day) survive, while re-importing the
+ * same statement adds nothing.
+ */
+export function occurrenceKeys<T extends Pick<Transaction, 'date' | 'description' | 'amount'>>(items: T[]): string[] {
+  const counts = new Map<string, number>();
+  return items.map((item) => {
+    const key = transactionKey(item);
+    const count = (counts.get(key) ?? 0) + 1;
+    counts.set(key, count);
+    return `${key}#${count}`;
+  });
+}
+
+/**
+ * Merge incoming transactions into the existing list, dropping duplicates.
+ * The result is sorted by date.
+ */
+export function mergeTransactions(
+  existing: Transaction[],
+  incoming: Transaction[]
+): { transactions: Transaction[]; added: Transaction[] } {
+  const existingKeys = new Set(occurrenceKeys(existing));
+  const incomingKeys = occurrenceKeys(incoming);
+  const added = incoming.filter((_, i) => !existingKeys.has(incomingKeys[i]));
+
+  const transactions = [...existing, ...added].sort((a, b) => a.date.localeCompare(b.date));
+  return { transactions, added };
+}
+
+/**
+ * Parse a statement and merge it into the existing transactions
+ */
+export function importStatement(
+  existing: Transaction[],
+  content: string,
+  options: ImportOptions = {}
+): ImportResult {
+  const format = options.format ?? detectFormat(content, options.filename);
+  const { rows, errors, currency } =
+    format === 'ofx' ? parseOfx(content)
+      : format === 'qif' ? parseQif(content, options)
+        : parseCsv(content, options);
+
+  // Only money leaving the account counts as spending
+  const spending: Transaction[] = rows
+    .filter((row) => row.amount < 0)
+    .map((row) => ({
+      date: row.date,
+      description: row.description,
+      amount: money(Math.abs(row.amount), currency ?? options.currency ?? DEFAULT_CURRENCY),
+      category: UNCATEGORIZED,
+      ...(row.time ? { time: row.time } : {}),
+    }));
+  const { transactions: categorized } = categorizeAll(spending, options.rules ?? []);
+
+  const { transactions, added: imported } = mergeTransactions(existing, categorized);
+
+  return {
+    format,
+    transactions,
+    imported,
+    duplicates: spending.length - imported.length,
+    skipped: rows.length - spending.length + errors.length,
+    errors,
+  };
+}
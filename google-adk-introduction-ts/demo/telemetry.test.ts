@@ -0,0 +1,113 @@
+import { describe, expect, test } from 'bun:test';
+import { InMemoryRunner, StreamingMode } from '@google/adk';
+import { createUserContent } from '@google/genai';
+import { BasicTracerProvider, InMemorySpanExporter, SimpleSpanProcessor } from '@opentelemetry/sdk-trace-base';
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { createPersonalFinanceAgent } from './agent';
+import { createLogger } from './logger';
+import { ScriptedLlm } from './scripted-model';
+import { FileSpanExporter, TracingPlugin, withSpan } from './telemetry';
+import { TEST_APP_NAME, TEST_USER_ID } from './test-support';
+
+function testTracer(exporter: InMemorySpanExporter | FileSpanExporter) {
+  return new BasicTracerProvider({ spanProcessors: [new SimpleSpanProcessor(exporter)] }).getTracer('test');
+}
+
+describe('tracing', () => {
+  test('records a span per model call and tool execution', async () => {
+    const exporter = new InMemorySpanExporter();
+    const model = new ScriptedLlm({
+      script: {
+        steps: [{
+          agent: 'budget_coach',
+          responses: [
+            { functionCalls: [{ name: 'set_budget_goal', args: { category: 'dining', limit: 200 } }] },
+            { functionCalls: [{ name: 'set_budget_goal', args: { category: 'dining', limit: -5 } }] },
+            { text: 'Your dining budget is $200.00.' },
+          ],
+        }],
+      },
+    });
+    const runner = new InMemoryRunner({
+      agent: createPersonalFinanceAgent(model),
+      appName: TEST_APP_NAME,
+      plugins: [new TracingPlugin(testTracer(exporter))],
+    });
+    const session = await runner.sessionService.createSession({ appName: TEST_APP_NAME, userId: TEST_USER_ID });
+
+    for await (const _ of runner.runAsync({
+      userId: TEST_USER_ID,
+      sessionId: session.id,
+      newMessage: createUserContent('Set a dining budget of $200'),
+      runConfig: { streamingMode: StreamingMode.SSE },
+    })) {
+      // Spans are recorded as the turn runs
+    }
+
+    const spans = exporter.getFinishedSpans();
+    expect(spans.map((span) => span.name)).toEqual([
+      'call_llm personal_finance_advisor',
+      'execute_tool transfer_to_agent',
+      'call_llm budget_coach',
+      'execute_tool set_budget_goal',
+      'call_llm budget_coach',
+      'execute_tool set_budget_goal',
+      'call_llm budget_coach',
+    ]);
+
+    const [modelCall] = spans;
+    expect(modelCall.attributes['session.id']).toBe(session.id);
+    expect(modelCall.attributes['gen_ai.usage.total_tokens']).toBeGreaterThan(0);
+
+    const [saved, rejected] = spans.filter((span) => span.name === 'execute_tool set_budget_goal');
+    expect(saved.attributes['gen_ai.tool.name']).toBe('set_budget_goal');
+    expect(saved.attributes['tool.args.size_bytes']).toBe(JSON.stringify({ category: 'dining', limit: 200 }).length);
+    expect(saved.attributes['tool.status']).toBe('success');
+    expect(saved.status.code).toBe(0);
+    // Arguments failing the tool's schema come back as { error }, which marks the span as failed
+    expect(rejected.status.code).toBe(2);
+    expect(rejected.status.message).toContain('limit');
+  });
+
+  test('writes finished spans to a JSON Lines file', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'finance-traces-'));
+    try {
+      const path = join(dir, 'traces.jsonl');
+      const tracer = testTracer(new FileSpanExporter(path));
+      await withSpan('agent_turn', { 'session.id': 's1' }, async () => {
+        await withSpan('inner', {}, async () => {}, tracer);
+      }, tracer);
+      await expect(withSpan('failing', {}, async () => {
+        throw new Error('boom');
+      }, tracer)).rejects.toThrow('boom');
+
+      const lines = readFileSync(path, 'utf8').trim().split('\n').map((line) => JSON.parse(line));
+      expect(lines.map((line) => line.name)).toEqual(['inner', 'agent_turn', 'failing']);
+      expect(lines[1].attributes).toEqual({ 'session.id': 's1' });
+      expect(lines[1].durationMs).toBeGreaterThanOrEqual(0);
+      expect(lines[2].status).toEqual({ code: 2, message: 'boom' });
+      expect(lines[2].events[0].name).toBe('exception');
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('logger', () => {
+  test('writes one JSON object per line above the configured level', () => {
+    const lines: string[] = [];
+    const logger = createLogger('test', { level: 'info', write: (line) => lines.push(line) }).child({ sessionId: 's1' });
+
+    logger.debug('hidden');
+    logger.info('Turn complete', { totalTokens: 42 });
+    logger.error('Turn failed', { error: new Error('boom') });
+
+    const records = lines.map((line) => JSON.parse(line));
+    expect(records).toHaveLength(2);
+    expect(records[0]).toMatchObject({ level: 'info', component: 'test', msg: 'Turn complete', sessionId: 's1', totalTokens: 42 });
+    expect(typeof records[0].time).toBe('string');
+    expect(records[1].error).toMatchObject({ name: 'Error', message: 'boom' });
+  });
+});
@@ -0,0 +1,349 @@
+/**
+ * OpenTelemetry Tracing
+ *
+ * Every /chat request becomes one trace:
+ *
+ *   POST /chat                  HTTP request (tracingMiddleware)
+ *   └─ agent_turn               one runner turn: session, user, token totals
+ *      ├─ invocation, agent_run ADK's own spans
+ *      ├─ call_llm <agent>      each model call: model, token counts, streamed chunks
+ *      └─ execute_tool <tool>   each tool run: name, argument and result sizes, status
+ *
+ * Model and tool spans come from TracingPlugin, an ADK plugin the runner calls
+ * around every model call and tool execution of every agent in the team.
+ *
+ * Configured through environment variables:
+ *   OTEL_TRACES_EXPORTER=console,file,otlp   (any combination; default none)
+ *   OTEL_TRACES_FILE=traces.jsonl            (file exporter: one JSON span per line)
+ *   OTEL_EXPORTER_OTLP_ENDPOINT=http://localhost:4318   (also enables OTLP by itself)
+ *   OTEL_SERVICE_NAME=finance-agent
+ *
+ * Key Learning: ADK plugins see every model call and tool execution, so
+ * instrumentation lives in one place instead of in each tool.
+ */
+
+import { Span, SpanKind, SpanStatusCode, Tracer, trace } from '@opentelemetry/api';
+import { ExportResultCode } from '@opentelemetry/core';
+import { OTLPTraceExporter } from '@opentelemetry/exporter-trace-otlp-http';
+import { resourceFromAttributes } from '@opentelemetry/resources';
+import {
+  BatchSpanProcessor,
+  ConsoleSpanExporter,
+  ReadableSpan,
+  SimpleSpanProcessor,
+  SpanExporter,
+  SpanProcessor,
+} from '@opentelemetry/sdk-trace-base';
+import { BasePlugin, BaseTool, CallbackContext, InvocationContext, ToolContext, maybeSetOtelProviders } from '@google/adk';
+import type { LlmRequest, LlmResponse } from '@google/adk';
+import { createMiddleware } from 'hono/factory';
+import { routePath } from 'hono/route';
+import { appendFileSync } from 'fs';
+
+export const TRACER_NAME = 'finance-agent';
+
+export type TraceExporterKind = 'console' | 'file' | 'otlp';
+
+const TRACE_EXPORTER_KINDS: TraceExporterKind[] = ['console', 'file', 'otlp'];
+
+export interface TelemetryConfig {
+  exporters: TraceExporterKind[];
+  filePath: string;
+  serviceName: string;
+}
+
+export function telemetryConfigFromEnv(): TelemetryConfig {
+  const exporters = (process.env.OTEL_TRACES_EXPORTER ?? '')
+    .split(',')
+    .map((name) => name.trim().toLowerCase())
+    .filter((name): name is TraceExporterKind => TRACE_EXPORTER_KINDS.includes(name as TraceExporterKind));
+  return {
+    exporters,
+    filePath: process.env.OTEL_TRACES_FILE ?? 'traces.jsonl',
+    serviceName: process.env.OTEL_SERVICE_NAME ?? 'finance-agent',
+  };
+}
+
+function hrTimeToMs([seconds, nanos]: [number, number]): number {
+  return seconds * 1000 + nanos / 1e6;
+}
+
+/**
+ * A span as one line of JSON
+ */
+export function spanToJson(span: ReadableSpan): Record<string, unknown> {
+  const { traceId, spanId } = span.spanContext();
+  return {
+    traceId,
+    spanId,
+    parentSpanId: span.parentSpanContext?.spanId,
+    name: span.name,
+    kind: SpanKind[span.kind],
+    startTime: new Date(hrTimeToMs(span.startTime)).toISOString(),
+    durationMs: Math.round(hrTimeToMs(span.duration) * 1000) / 1000,
+    status: span.status,
+    attributes: span.attributes,
+    events: span.events.map((event) => ({ name: event.name, attributes: event.attributes })),
+  };
+}
+
+/**
+ * Appends finished spans to a local JSON Lines file
+ */
+export class FileSpanExporter implements SpanExporter {
+  constructor(private readonly path: string) {}
+
+  export(spans: ReadableSpan[], resultCallback: Parameters<SpanExporter['export']>[1]): void {
+    try {
+      appendFileSync(this.path, spans.map((span) => `${JSON.stringify(spanToJson(span))}\n`).join(''));
+      resultCallback({ code: ExportResultCode.SUCCESS });
+    } catch (error) {
+      resultCallback({ code: ExportResultCode.FAILED, error: error as Error });
+    }
+  }
+
+  async shutdown(): Promise<void> {}
+}
+
+/**
+ * Register a global tracer provider with the configured exporters. Without
+ * any, tracing stays a no-op and the instrumentation costs next to nothing.
+ */
+export function setupTelemetry(config: TelemetryConfig = telemetryConfigFromEnv()): void {
+  const spanProcessors: SpanProcessor[] = [];
+  if (config.exporters.includes('console')) {
+    spanProcessors.push(new SimpleSpanProcessor(new ConsoleSpanExporter()));
+  }
+  if (config.exporters.includes('file')) {
+    spanProcessors.push(new SimpleSpanProcessor(new FileSpanExporter(config.filePath)));
+  }
+  // ADK adds an OTLP exporter itself when an endpoint is configured
+  const adkExportsOtlp = Boolean(process.env.OTEL_EXPORTER_OTLP_ENDPOINT || process.env.OTEL_EXPORTER_OTLP_TRACES_ENDPOINT);
+  if (config.exporters.includes('otlp') && !adkExportsOtlp) {
+    spanProcessors.push(new BatchSpanProcessor(new OTLPTraceExporter()));
+  }
+
+  maybeSetOtelProviders([{ spanProcessors }], resourceFromAttributes({ 'service.name': config.serviceName }));
+}
+
+export function getTracer(): Tracer {
+  return trace.getTracer(TRACER_NAME);
+}
+
+function endWithError(span: Span, error: Error) {
+  span.recordException(error);
+  span.setStatus({ code: SpanStatusCode.ERROR, message: error.message });
+  span.end();
+}
+
+/**
+ * Run `fn` inside an active span, ending it (and recording a thrown error)
+ * when `fn` settles
+ */
+export async function withSpan<T>(
+  name: string,
+  attributes: Record<string, string | number | boolean>,
+  fn: (span: Span) => Promise<T>,
+  tracer: Tracer = getTracer()
+): Promise<T> {
+  return tracer.startActiveSpan(name, { attributes }, async (span) => {
+    try {
+      const result = await fn(span);
+      span.end();
+      return result;
+    } catch (error) {
+      endWithError(span, error as Error);
+      throw error;
+    }
+  });
+}
+
+/**
+ * One span per HTTP request, named after the matched route so that
+ * /sessions/abc and /sessions/xyz are grouped together.
+ * Streamed responses end the span when the stream starts; turn spans
+ * underneath keep running until the turn is done.
+ */
+export function tracingMiddleware(tracer: Tracer = getTracer()) {
+  return createMiddleware(async (c, next) => {
+    await tracer.startActiveSpan(`${c.req.method} ${c.req.path}`, {
+      kind: SpanKind.SERVER,
+      attributes: { 'http.request.method': c.req.method, 'url.path': c.req.path },
+    }, async (span) => {
+      try {
+        await next();
+        const route = routePath(c, -1);
+        span.updateName(`${c.req.method} ${route}`);
+        span.setAttributes({ 'http.route': route, 'http.response.status_code': c.res.status });
+        if (c.res.status >= 500) {
+          span.setStatus({ code: SpanStatusCode.ERROR });
+        }
+        span.end();
+      } catch (error) {
+        endWithError(span, error as Error);
+        throw error;
+      }
+    });
+  });
+}
+
+function byteSize(value: unknown): number {
+  return Buffer.byteLength(JSON.stringify(value ?? null));
+}
+
+function invocationAttributes(invocationContext: InvocationContext) {
+  return {
+    'session.id': invocationContext.session.id,
+    'enduser.id': invocationContext.session.userId,
+    'gen_ai.agent.name': invocationContext.agent.name,
+  };
+}
+
+/**
+ * Spans around every model call and tool execution of a runner
+ */
+export class TracingPlugin extends BasePlugin {
+  /** Open spans, keyed by invocation so afterRunCallback can end any a turn left open */
+  private readonly modelSpans = new Map<string, Span>();
+  private readonly toolSpans = new Map<string, Span>();
+
+  constructor(private readonly tracer: Tracer = getTracer()) {
+    super('tracing');
+  }
+
+  private modelKey(context: CallbackContext): string {
+    return `${context.invocationId}/${context.agentName}`;
+  }
+
+  private toolKey(tool: BaseTool, context: ToolContext): string {
+    return `${context.invocationId}/${context.functionCallId ?? tool.name}`;
+  }
+
+  override async beforeModelCallback({ callbackContext, llmRequest }: {
+    callbackContext: CallbackContext;
+    llmRequest: LlmRequest;
+  }): Promise<LlmResponse | undefined> {
+    this.modelSpans.set(this.modelKey(callbackContext), this.tracer.startSpan(`call_llm ${callbackContext.agentName}`, {
+      kind: SpanKind.CLIENT,
+      attributes: {
+        ...invocationAttributes(callbackContext.invocationContext),
+        'gen_ai.operation.name': 'chat',
+        'gen_ai.request.model': llmRequest.model ?? 'unknown',
+        'gen_ai.request.message_count': llmRequest.contents.length,
+      },
+    }));
+    return undefined;
+  }
+
+  override async afterModelCallback({ callbackContext, llmResponse }: {
+    callbackContext: CallbackContext;
+    llmResponse: LlmResponse;
+  }): Promise<LlmResponse | undefined> {
+    const key = this.modelKey(callbackContext);
+    const span = this.modelSpans.get(key);
+    if (!span) {
+      return undefined;
+    }
+    // Streamed replies arrive as partial chunks before the aggregated response
+    if (llmResponse.partial) {
+      span.addEvent('chunk');
+      return undefined;
+    }
+
+    const usage = llmResponse.usageMetadata;
+    span.setAttributes({
+      'gen_ai.usage.input_tokens': usage?.promptTokenCount ?? 0,
+      'gen_ai.usage.output_tokens': usage?.candidatesTokenCount ?? 0,
+      'gen_ai.usage.total_tokens': usage?.totalTokenCount ?? 0,
+    });
+    if (llmResponse.errorCode) {
+      span.setStatus({ code: SpanStatusCode.ERROR, message: llmResponse.errorMessage ?? llmResponse.errorCode });
+    }
+    span.end();
+    this.modelSpans.delete(key);
+    return undefined;
+  }
+
+  override async onModelErrorCallback({ callbackContext, error }: {
+    callbackContext: CallbackContext;
+    llmRequest: LlmRequest;
+    error: Error;
+  }): Promise<LlmResponse | undefined> {
+    const key = this.modelKey(callbackContext);
+    const span = this.modelSpans.get(key);
+    if (span) {
+      endWithError(span, error);
+      this.modelSpans.delete(key);
+    }
+    return undefined;
+  }
+
+  override async beforeToolCallback({ tool, toolArgs, toolContext }: {
+    tool: BaseTool;
+    toolArgs: Record<string, unknown>;
+    toolContext: ToolContext;
+  }): Promise<Record<string, unknown> | undefined> {
+    this.toolSpans.set(this.toolKey(tool, toolContext), this.tracer.startSpan(`execute_tool ${tool.name}`, {
+      attributes: {
+        ...invocationAttributes(toolContext.invocationContext),
+        'gen_ai.operation.name': 'execute_tool',
+        'gen_ai.tool.name': tool.name,
+        'gen_ai.tool.call.id': toolContext.functionCallId ?? '',
+        'tool.args.size_bytes': byteSize(toolArgs),
+      },
+    }));
+    return undefined;
+  }
+
+  override async afterToolCallback({ tool, toolContext, result }: {
+    tool: BaseTool;
+    toolArgs: Record<string, unknown>;
+    toolContext: ToolContext;
+    result: Record<string, unknown>;
+  }): Promise<Record<string, unknown> | undefined> {
+    const key = this.toolKey(tool, toolContext);
+    const span = this.toolSpans.get(key);
+    if (!span) {
+      return undefined;
+    }
+    span.setAttribute('tool.result.size_bytes', byteSize(result));
+    // Tools report failures as { status: 'error', message } rather than throwing,
+    // and ADK answers invalid arguments with { error }
+    if (typeof result?.status === 'string') {
+      span.setAttribute('tool.status', result.status);
+    }
+    if (result?.status === 'error' || typeof result?.error === 'string') {
+      span.setStatus({ code: SpanStatusCode.ERROR, message: String(result.message ?? result.error ?? 'Tool reported an error') });
+    }
+    span.end();
+    this.toolSpans.delete(key);
+    return undefined;
+  }
+
+  override async onToolErrorCallback({ tool, toolContext, error }: {
+    tool: BaseTool;
+    toolArgs: Record<string, unknown>;
+    toolContext: ToolContext;
+    error: Error;
+  }): Promise<Record<string, unknown> | undefined> {
+    const key = this.toolKey(tool, toolContext);
+    const span = this.toolSpans.get(key);
+    if (span) {
+      endWithError(span, error);
+      this.toolSpans.delete(key);
+    }
+    return undefined;
+  }
+
+  override async afterRunCallback({ invocationContext }: { invocationContext: InvocationContext }): Promise<void> {
+    for (const spans of [this.modelSpans, this.toolSpans]) {
+      for (const [key, span] of spans) {
+        if (key.startsWith(`${invocationContext.invocationId}/`)) {
+          span.setStatus({ code: SpanStatusCode.ERROR, message: 'The turn ended before this span finished' });
+          span.end();
+          spans.delete(key);
+        }
+      }
+    }
+  }
+}
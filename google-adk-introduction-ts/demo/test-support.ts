@@ -0,0 +1,111 @@
+/**
+ * Shared Helpers for the Test Suite
+ *
+ * Runs the finance agents on the scripted offline model, so tests exercise the
+ * real tools, runner and session state without calling Gemini.
+ */
+
+import { BaseAgent, BaseTool, InMemoryRunner, LlmAgent, Runner, StreamingMode } from '@google/adk';
+import { createUserContent } from '@google/genai';
+import { createPersonalFinanceAgent } from './agent';
+import { ChatStreamEvent, createChatEventTranslator } from './chat-protocol';
+import { ModelScript, ScriptedLlm } from './scripted-model';
+
+export const TEST_APP_NAME = 'finance_agent_test';
+
+export const TEST_USER_ID = 'test-user';
+
+export interface TurnResult {
+  text: string;
+  /** Agent of the team that wrote the reply */
+  agent: string | null;
+  events: ChatStreamEvent[];
+  /** Tool responses of the turn, by tool name (the last one wins) */
+  toolResults: Record<string, Record<string, unknown>>;
+}
+
+/**
+ * The agent of a team that has the tool, so scripts can route calls to it
+ */
+export function agentWithTool(agent: BaseAgent, toolName: string): string | undefined {
+  if (agent instanceof LlmAgent && agent.tools.some((tool) => tool instanceof BaseTool && tool.name === toolName)) {
+    return agent.name;
+  }
+  for (const subAgent of agent.subAgents) {
+    const owner = agentWithTool(subAgent, toolName);
+    if (owner) {
+      return owner;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Start a conversation with an agent backed by a scripted model, in memory
+ * unless a session service is given
+ */
+export async function startConversation(
+  script: ModelScript = { steps: [] },
+  createAgent: (model: ScriptedLlm) => LlmAgent = createPersonalFinanceAgent,
+  sessionService?: Runner['sessionService']
+) {
+  const model = new ScriptedLlm({ script });
+  const agent = createAgent(model);
+  const runner: Runner = sessionService
+    ? new Runner({ agent, appName: TEST_APP_NAME, sessionService })
+    : new InMemoryRunner({ agent, appName: TEST_APP_NAME });
+  const session = await runner.sessionService.createSession({ appName: TEST_APP_NAME, userId: TEST_USER_ID });
+  let toolCallCount = 0;
+
+  async function send(message: string): Promise<TurnResult> {
+    const translator = createChatEventTranslator();
+    const events: ChatStreamEvent[] = [];
+    for await (const event of runner.runAsync({
+      userId: TEST_USER_ID,
+      sessionId: session.id,
+      newMessage: createUserContent(message),
+      runConfig: { streamingMode: StreamingMode.SSE },
+    })) {
+      events.push(...translator.translate(event));
+    }
+    const completion = translator.complete();
+    events.push(completion);
+
+    const result: TurnResult = { text: '', agent: completion.agent, events, toolResults: {} };
+    for (const event of events) {
+      if (event.type === 'text_delta') result.text += event.text;
+      if (event.type === 'tool_result') result.toolResults[event.name] = event.response;
+    }
+    return result;
+  }
+
+  /**
+   * Have the model call one tool in a turn of its own and return the tool's response
+   */
+  async function callTool(name: string, args: Record<string, unknown> = {}): Promise<Record<string, unknown>> {
+    toolCallCount++;
+    const message = `Run ${name} (call ${toolCallCount})`;
+    model.script.steps.unshift({
+      pattern: `^Run ${name} \\(call ${toolCallCount}\\)$`,
+      agent: agentWithTool(agent, name),
+      responses: [{ functionCalls: [{ name, args }] }, { text: 'Done.' }],
+    });
+
+    const { toolResults } = await send(message);
+    if (!toolResults[name]) {
+      throw new Error(`${name} did not run`);
+    }
+    return toolResults[name];
+  }
+
+  async function state(): Promise<Record<string, unknown>> {
+    const current = await runner.sessionService.getSession({
+      appName: TEST_APP_NAME,
+      userId: TEST_USER_ID,
+      sessionId: session.id,
+    });
+    return current?.state ?? {};
+  }
+
+  return { runner, model, sessionId: session.id, send, callTool, state };
+}
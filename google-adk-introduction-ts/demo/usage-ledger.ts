@@ -0,0 +1,249 @@
+/**
+ * Model Token Usage Ledger
+ *
+ * Every /chat turn records the tokens Gemini reported for it, per user.
+ * Daily and monthly quotas are checked against the ledger before a turn
+ * starts and again while it runs.
+ *
+ * Periods are calendar days and months in UTC.
+ *
+ * Configured through environment variables (0 means unlimited):
+ *   USAGE_DAILY_TOKEN_QUOTA=200000
+ *   USAGE_MONTHLY_TOKEN_QUOTA=2000000
+ *
+ * Key Learning: ADK reports `usageMetadata` on the final response of each
+ * model call, so one turn with tool calls adds up several model calls.
+ */
+
+import { Database } from 'bun:sqlite';
+import { mkdirSync } from 'fs';
+import { dirname } from 'path';
+import type { TokenUsage } from './chat-protocol';
+
+export interface UsageRecord {
+  userId: string;
+  sessionId: string;
+  timestamp: number;
+  usage: TokenUsage;
+}
+
+export interface UsageQuotas {
+  /** Tokens per UTC day; 0 is unlimited */
+  dailyTokens: number;
+  /** Tokens per UTC month; 0 is unlimited */
+  monthlyTokens: number;
+}
+
+export type QuotaPeriod = 'daily' | 'monthly';
+
+export interface PeriodUsage {
+  /** `YYYY-MM-DD` or `YYYY-MM` */
+  period: string;
+  used: TokenUsage;
+  /** null when the period is unlimited */
+  quota: number | null;
+  remaining: number | null;
+}
+
+export interface UsageReport {
+  userId: string;
+  daily: PeriodUsage;
+  monthly: PeriodUsage;
+  /** The first exhausted quota, if any */
+  exceeded: QuotaPeriod | null;
+}
+
+/**
+ * Where usage is stored; the server picks the backend matching its session store
+ */
+export interface UsageLedger {
+  record(entry: UsageRecord): void;
+  /** Tokens used by `userId` at or after `since` (epoch ms) */
+  totalSince(userId: string, since: number): TokenUsage;
+  /** Per-day totals at or after `since`, oldest first */
+  dailyTotals(userId: string, since: number): { date: string; usage: TokenUsage }[];
+  /** Drop records older than `before` */
+  prune(before: number): number;
+  close(): void;
+}
+
+export function emptyUsage(): TokenUsage {
+  return { promptTokens: 0, candidatesTokens: 0, totalTokens: 0 };
+}
+
+export function addUsage(a: TokenUsage, b: TokenUsage): TokenUsage {
+  return {
+    promptTokens: a.promptTokens + b.promptTokens,
+    candidatesTokens: a.candidatesTokens + b.candidatesTokens,
+    totalTokens: a.totalTokens + b.totalTokens,
+  };
+}
+
+export function startOfUtcDay(now: number): number {
+  const date = new Date(now);
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+}
+
+export function startOfUtcMonth(now: number): number {
+  const date = new Date(now);
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1);
+}
+
+function utcDate(timestamp: number): string {
+  return new Date(timestamp).toISOString().slice(0, 10);
+}
+
+/**
+ * Keeps records in process memory; they are lost on restart
+ */
+export class InMemoryUsageLedger implements UsageLedger {
+  private readonly records = new Map<string, UsageRecord[]>();
+
+  record(entry: UsageRecord): void {
+    const list = this.records.get(entry.userId) ?? [];
+    list.push(entry);
+    this.records.set(entry.userId, list);
+  }
+
+  totalSince(userId: string, since: number): TokenUsage {
+    return (this.records.get(userId) ?? [])
+      .filter((entry) => entry.timestamp >= since)
+      .reduce((total, entry) => addUsage(total, entry.usage), emptyUsage());
+  }
+
+  dailyTotals(userId: string, since: number): { date: string; usage: TokenUsage }[] {
+    const byDate = new Map<string, TokenUsage>();
+    for (const entry of this.records.get(userId) ?? []) {
+      if (entry.timestamp < since) continue;
+      const date = utcDate(entry.timestamp);
+      byDate.set(date, addUsage(byDate.get(date) ?? emptyUsage(), entry.usage));
+    }
+    return [...byDate].sort(([a], [b]) => a.localeCompare(b)).map(([date, usage]) => ({ date, usage }));
+  }
+
+  prune(before: number): number {
+    let removed = 0;
+    for (const [userId, list] of this.records) {
+      const kept = list.filter((entry) => entry.timestamp >= before);
+      removed += list.length - kept.length;
+      if (kept.length > 0) this.records.set(userId, kept);
+      else this.records.delete(userId);
+    }
+    return removed;
+  }
+
+  close(): void {}
+}
+
+interface UsageTotalsRow {
+  prompt: number | null;
+  candidates: number | null;
+  total: number | null;
+}
+
+/**
+ * Stores records in the session database file, so quotas survive restarts
+ * and are shared by every server process using that file
+ */
+export class SqliteUsageLedger implements UsageLedger {
+  private readonly db: Database;
+
+  constructor(path: string) {
+    if (path !== ':memory:') {
+      mkdirSync(dirname(path), { recursive: true });
+    }
+    this.db = new Database(path, { create: true });
+    this.db.exec('PRAGMA journal_mode = WAL');
+    this.db.exec('PRAGMA busy_timeout = 5000');
+    this.db.exec(`CREATE TABLE IF NOT EXISTS token_usage (
+      user_id TEXT NOT NULL,
+      session_id TEXT NOT NULL,
+      timestamp INTEGER NOT NULL,
+      prompt_tokens INTEGER NOT NULL,
+      candidates_tokens INTEGER NOT NULL,
+      total_tokens INTEGER NOT NULL
+    )`);
+    this.db.exec('CREATE INDEX IF NOT EXISTS idx_token_usage_user_time ON token_usage (user_id, timestamp)');
+  }
+
+  record({ userId, sessionId, timestamp, usage }: UsageRecord): void {
+    this.db.query('INSERT INTO token_usage (user_id, session_id, timestamp, prompt_tokens, candidates_tokens, total_tokens) VALUES (?, ?, ?, ?, ?, ?)')
+      .run(userId, sessionId, timestamp, usage.promptTokens, usage.candidatesTokens, usage.totalTokens);
+  }
+
+  totalSince(userId: string, since: number): TokenUsage {
+    const row = this.db.query(`SELECT SUM(prompt_tokens) AS prompt, SUM(candidates_tokens) AS candidates, SUM(total_tokens) AS total
+      FROM token_usage WHERE user_id = ? AND timestamp >= ?`).get(userId, since) as UsageTotalsRow;
+    return { promptTokens: row.prompt ?? 0, candidatesTokens: row.candidates ?? 0, totalTokens: row.total ?? 0 };
+  }
+
+  dailyTotals(userId: string, since: number): { date: string; usage: TokenUsage }[] {
+    const rows = this.db.query(`SELECT date(timestamp / 1000, 'unixepoch') AS date,
+        SUM(prompt_tokens) AS prompt, SUM(candidates_tokens) AS candidates, SUM(total_tokens) AS total
+      FROM token_usage WHERE user_id = ? AND timestamp >= ? GROUP BY date ORDER BY date`)
+      .all(userId, since) as (UsageTotalsRow & { date: string })[];
+    return rows.map((row) => ({
+      date: row.date,
+      usage: { promptTokens: row.prompt ?? 0, candidatesTokens: row.candidates ?? 0, totalTokens: row.total ?? 0 },
+    }));
+  }
+
+  prune(before: number): number {
+    return this.db.query('DELETE FROM token_usage WHERE timestamp < ?').run(before).changes;
+  }
+
+  close(): void {
+    this.db.close();
+  }
+}
+
+function readNumber(name: string, fallback: number): number {
+  const raw = process.env[name];
+  if (raw === undefined || raw === '') return fallback;
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < 0) {
+    throw new Error(`${name} must be a non-negative integer, got "${raw}"`);
+  }
+  return value;
+}
+
+/**
+ * Read the token quotas from the environment
+ */
+export function usageQuotasFromEnv(): UsageQuotas {
+  return {
+    dailyTokens: readNumber('USAGE_DAILY_TOKEN_QUOTA', 200_000),
+    monthlyTokens: readNumber('USAGE_MONTHLY_TOKEN_QUOTA', 2_000_000),
+  };
+}
+
+function periodUsage(period: string, used: TokenUsage, quota: number): PeriodUsage {
+  return {
+    period,
+    used,
+    quota: quota > 0 ? quota : null,
+    remaining: quota > 0 ? Math.max(0, quota - used.totalTokens) : null,
+  };
+}
+
+/**
+ * Current consumption against the quotas.
+ * `pending` is usage of a turn still in progress that is not yet recorded.
+ */
+export function usageReport(
+  ledger: UsageLedger,
+  quotas: UsageQuotas,
+  userId: string,
+  now: number = Date.now(),
+  pending: TokenUsage = emptyUsage()
+): UsageReport {
+  const today = addUsage(ledger.totalSince(userId, startOfUtcDay(now)), pending);
+  const month = addUsage(ledger.totalSince(userId, startOfUtcMonth(now)), pending);
+  const daily = periodUsage(utcDate(now), today, quotas.dailyTokens);
+  const monthly = periodUsage(utcDate(now).slice(0, 7), month, quotas.monthlyTokens);
+
+  const exceeded: QuotaPeriod | null =
+    daily.remaining === 0 ? 'daily' : monthly.remaining === 0 ? 'monthly' : null;
+
+  return { userId, daily, monthly, exceeded };
+}
@@ -0,0 +1,207 @@
+import { describe, expect, test } from 'bun:test';
+import { StreamingMode } from '@google/adk';
+import { createUserContent } from '@google/genai';
+import { createPersonalFinanceAgent } from './agent';
+import { createChatEventTranslator } from './chat-protocol';
+import { readStateRecord } from './session-state';
+import { createSessionStore } from './session-store';
+import { ModelScript, ScriptedLlm } from './scripted-model';
+import { TEST_APP_NAME, TEST_USER_ID } from './test-support';
+import { InMemoryUserMemoryStore, SqliteUserMemoryStore, UserMemoryStore, stateFromMemories } from './user-memory';
+
+describe.each([
+  ['in memory', () => new InMemoryUserMemoryStore()],
+  ['sqlite', () => new SqliteUserMemoryStore(':memory:')],
+])('user memory store (%s)', (_name, createStore: () => UserMemoryStore) => {
+  test('replaces entries by kind and key, searches and forgets per user', () => {
+    const store = createStore();
+    const first = store.remember('ana', 's1', { kind: 'budget_goal', key: 'dining', text: 'Budget goal: dining $200.00 per month', data: 200 }, '2024-01-01T00:00:00Z');
+    store.remember('ana', 's1', { kind: 'note', key: 'paid on the 25th', text: 'Note: paid on the 25th', data: 'paid on the 25th' }, '2024-01-02T00:00:00Z');
+    const updated = store.remember('ana', 's2', { kind: 'budget_goal', key: 'dining', text: 'Budget goal: dining $250.00 per month', data: 250 }, '2024-01-03T00:00:00Z');
+    store.remember('ben', 's3', { kind: 'budget_goal', key: 'dining', text: 'Budget goal: dining $90.00 per month', data: 90 });
+
+    expect(updated).toMatchObject({ id: first.id, sessionId: 's2', createdAt: '2024-01-01T00:00:00Z', data: 250 });
+    expect(store.list('ana').map((memory) => memory.text)).toEqual([
+      'Budget goal: dining $250.00 per month',
+      'Note: paid on the 25th',
+    ]);
+    expect(store.list('ana', 'note')).toHaveLength(1);
+    expect(store.search('ana', 'when am I paid?').map((memory) => memory.kind)).toEqual(['note']);
+    expect(store.search('ana', 'groceries')).toEqual([]);
+
+    expect(store.forget('ben', first.id)).toBe(false);
+    expect(store.forget('ana', first.id)).toBe(true);
+    expect(store.forgetAll('ana')).toBe(1);
+    expect(store.list('ben')).toHaveLength(1);
+
+    // What was forgotten is recorded until it is set again
+    expect(store.forgotten('ana')).toEqual([
+      { kind: 'budget_goal', key: 'dining' },
+      { kind: 'note', key: 'paid on the 25th' },
+    ]);
+    expect(store.forgotten('ben')).toEqual([]);
+    store.remember('ana', 's4', { kind: 'budget_goal', key: 'dining', text: 'Budget goal: dining $300.00 per month', data: 300 });
+    expect(store.forgotten('ana')).toEqual([{ kind: 'note', key: 'paid on the 25th' }]);
+    store.close();
+  });
+});
+
+/**
+ * A runner with long-term memory on the scripted model, and helpers to talk
+ * to it in several sessions
+ */
+function startMemoryRunner(steps: ModelScript['steps']) {
+  const model = new ScriptedLlm({ script: { steps } });
+  const { runner, userMemory, close } = createSessionStore(createPersonalFinanceAgent(model), TEST_APP_NAME, {
+    kind: 'memory',
+    dbPath: ':memory:',
+    retentionDays: 0,
+    maxEventsPerSession: 0,
+    cleanupIntervalMinutes: 0,
+  });
+
+  async function send(sessionId: string, message: string) {
+    const translator = createChatEventTranslator();
+    const toolResults: Record<string, unknown> = {};
+    for await (const event of runner.runAsync({
+      userId: TEST_USER_ID,
+      sessionId,
+      newMessage: createUserContent(message),
+      runConfig: { streamingMode: StreamingMode.SSE },
+    })) {
+      for (const chatEvent of translator.translate(event)) {
+        if (chatEvent.type === 'tool_result') {
+          toolResults[chatEvent.name] = chatEvent.response;
+        }
+      }
+    }
+    const session = await runner.sessionService.getSession({ appName: TEST_APP_NAME, userId: TEST_USER_ID, sessionId });
+    return { state: session!.state, toolResults };
+  }
+  const newSession = async () =>
+    (await runner.sessionService.createSession({ appName: TEST_APP_NAME, userId: TEST_USER_ID })).id;
+
+  return { model, userMemory, send, newSession, close };
+}
+
+describe('loading memories into a session', () => {
+  const sharedState = {
+    'user:categories': [{ name: 'pets', createdAt: '2024-01-01T00:00:00Z' }],
+    'user:categoryRules': [{ id: 'rule-1', category: 'pets', matchType: 'keyword', field: 'description', pattern: 'vet', priority: 50, createdAt: '2024-01-01T00:00:00Z' }],
+    'user:preferences': { currency: 'EUR', locale: 'de-DE' },
+  };
+
+  test('keeps shared state that was never remembered', () => {
+    // e.g. set before long-term memory existed, or through PATCH /sessions
+    expect(stateFromMemories(sharedState, [], [])).toEqual({ memoryLoaded: true });
+  });
+
+  test('clears only the shared state the user forgot', () => {
+    expect(stateFromMemories(sharedState, [], [{ kind: 'category', key: 'pets' }, { kind: 'preference', key: 'preferences' }])).toEqual({
+      'user:preferences': null,
+      'user:categories': [],
+      'user:categoryRules': [],
+      memoryLoaded: true,
+    });
+  });
+});
+
+describe('long-term memory', () => {
+  test('carries budgets and notes into a new session until they are forgotten', async () => {
+    const { model, userMemory, send, newSession, close } = startMemoryRunner([
+          {
+            pattern: 'dining budget',
+            agent: 'budget_coach',
+            responses: [
+              { functionCalls: [{ name: 'set_budget_goal', args: { category: 'dining', limit: 200 } }] },
+              { text: 'Your dining budget is $200.00.' },
+            ],
+          },
+          {
+            pattern: 'remember',
+            responses: [
+              { functionCalls: [{ name: 'remember_note', args: { note: 'Paid on the 25th' } }] },
+              { text: 'I will remember that.' },
+            ],
+          },
+          {
+            pattern: 'what do you know',
+            responses: [
+              { functionCalls: [{ name: 'search_memory', args: { query: 'dining budget' } }] },
+              { text: 'You have a dining budget.' },
+            ],
+          },
+          { responses: [{ text: 'Hello again.' }] },
+    ]);
+
+    try {
+      const first = await newSession();
+      await send(first, 'Set a dining budget of $200');
+      await send(first, 'Please remember that I am paid on the 25th');
+      expect(userMemory.list(TEST_USER_ID).map((memory) => memory.kind)).toEqual(['note', 'budget_goal']);
+
+      // A new session starts with what the user set before
+      const second = await newSession();
+      const { state, toolResults } = await send(second, 'What do you know about me?');
+      expect(readStateRecord(state, 'budgetGoals').map((goal) => goal.category)).toEqual(['dining']);
+      expect(readStateRecord(state, 'userNotes')).toEqual(['Paid on the 25th']);
+      expect(JSON.stringify(toolResults.search_memory)).toContain('Budget goal: dining $200.00 per month');
+      const instruction = model.requests[model.requests.length - 1].config?.systemInstruction;
+      expect(instruction).toContain('- Paid on the 25th');
+
+      // Forgotten entries are not loaded again, and old sessions don't bring them back
+      const [goal] = userMemory.list(TEST_USER_ID, 'budget_goal');
+      userMemory.forget(TEST_USER_ID, goal.id);
+      await send(first, 'Hello');
+      const third = await newSession();
+      const fresh = await send(third, 'Hello');
+      expect(readStateRecord(fresh.state, 'budgetGoals')).toEqual([]);
+      expect(readStateRecord(fresh.state, 'userNotes')).toEqual(['Paid on the 25th']);
+    } finally {
+      close();
+    }
+  });
+
+  test('clears forgotten categories and preferences from the state all sessions share', async () => {
+    const { userMemory, send, newSession, close } = startMemoryRunner([
+      {
+        pattern: 'pets category',
+        agent: 'transaction_analyst',
+        responses: [
+          { functionCalls: [{ name: 'create_category', args: { name: 'pets' } }] },
+          { functionCalls: [{ name: 'learn_category_rule', args: { category: 'pets', pattern: 'vet' } }] },
+          { text: 'Created pets.' },
+        ],
+      },
+      {
+        pattern: 'euros',
+        responses: [
+          { functionCalls: [{ name: 'set_preferences', args: { currency: 'EUR', locale: 'de-DE' } }] },
+          { text: 'Euros it is.' },
+        ],
+      },
+      { responses: [{ text: 'Hello again.' }] },
+    ]);
+
+    try {
+      const first = await newSession();
+      await send(first, 'Add a pets category for the vet');
+      await send(first, 'Show amounts in euros');
+      expect(userMemory.list(TEST_USER_ID).map((memory) => memory.kind)).toEqual(['preference', 'category']);
+
+      for (const memory of userMemory.list(TEST_USER_ID)) {
+        userMemory.forget(TEST_USER_ID, memory.id);
+      }
+      const { state } = await send(await newSession(), 'Hello');
+      expect(readStateRecord(state, 'categories')).toEqual([]);
+      expect(readStateRecord(state, 'categoryRules')).toEqual([]);
+      expect(readStateRecord(state, 'preferences').currency).toBe('USD');
+
+      // They stay forgotten after another turn
+      await send(first, 'Hello');
+      expect(userMemory.list(TEST_USER_ID)).toEqual([]);
+    } finally {
+      close();
+    }
+  });
+});
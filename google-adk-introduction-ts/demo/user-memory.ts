@@ -0,0 +1,500 @@
+/**
+ * Long-Term User Memory
+ *
+ * Session state ends with the session: a new `sessionId` starts with no
+ * budgets. This module keeps what should outlive a conversation in a per-user
+ * store, separate from sessions:
+ *
+ *   budget_goal   "Budget goal: dining $200.00 per month"
+ *   category      "Custom category: pets"
+ *   preference    "Preferences: reports in LKR, formatted for en-LK"
+ *   note          "Note: paid on the 25th of each month"
+ *
+ * Three pieces work together:
+ * - UserMemoryStore keeps the entries (in memory, or in the session database)
+ * - UserMemoryService exposes the store as the runner's ADK memory service,
+ *   so tools search it with `toolContext.searchMemory(query)`
+ * - UserMemoryPlugin loads the user's memories into each new session before
+ *   its first turn, and after every turn remembers what the turn changed
+ *
+ * Only changes made during a turn are remembered, so an entry the user forgot
+ * does not come back from an old session that still holds it. Custom
+ * categories and preferences are `user:` state, which ADK shares between all
+ * of a user's sessions instead of copying; the store records what the user
+ * forgot, and loading memories into a new session clears exactly those.
+ *
+ * Key Learning: ADK's memory service is the extension point for knowledge that
+ * spans sessions; plugins see every run, so no agent has to remember to save.
+ */
+
+import { BasePlugin, InMemoryMemoryService, InvocationContext, createEvent, createEventActions } from '@google/adk';
+import { Database } from 'bun:sqlite';
+import { randomUUID } from 'crypto';
+import { mkdirSync } from 'fs';
+import { dirname } from 'path';
+import { createLogger } from './logger';
+import { formatMoney } from './money';
+import { PiiVault, redactValue, restoreText, restoreValue, vaultFor } from './pii-redaction';
+import { BudgetGoal, UserPreferences, normalizeCategory, readStateRecord, stateDelta } from './session-state';
+
+export type MemoryKind = 'budget_goal' | 'category' | 'preference' | 'note';
+
+export const MEMORY_KINDS: MemoryKind[] = ['budget_goal', 'category', 'preference', 'note'];
+
+export interface UserMemory {
+  id: string;
+  userId: string;
+  kind: MemoryKind;
+  /** Identifies the entry within its kind, e.g. the budget's category */
+  key: string;
+  /** What the agent and the user see */
+  text: string;
+  /** The stored value, restored into new sessions */
+  data: unknown;
+  /**
+   * Raw values behind the PII placeholders in `text` and `data`. Placeholders
+   * only mean something within one session, so they are renumbered when the
+   * entry is loaded into another. Never sent to clients.
+   */
+  pii?: PiiVault;
+  /** Session the entry was last written from */
+  sessionId: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type MemoryDraft = Pick<UserMemory, 'kind' | 'key' | 'text' | 'data' | 'pii'>;
+
+/** Names an entry by kind and key, e.g. one the user forgot */
+export type MemoryRef = Pick<UserMemory, 'kind' | 'key'>;
+
+/**
+ * Where memories are kept; the server picks the backend matching its session store
+ */
+export interface UserMemoryStore {
+  /** Add an entry, or replace the user's entry with the same kind and key; it is no longer forgotten */
+  remember(userId: string, sessionId: string, draft: MemoryDraft, at?: string): UserMemory;
+  /** Newest first */
+  list(userId: string, kind?: MemoryKind): UserMemory[];
+  /** Best matches first; an empty query lists everything */
+  search(userId: string, query: string, limit?: number): UserMemory[];
+  /** Returns false when the user has no such entry */
+  forget(userId: string, id: string): boolean;
+  /** Forget all of the user's entries; returns how many there were */
+  forgetAll(userId: string): number;
+  /** Entries the user forgot and has not set again since */
+  forgotten(userId: string): MemoryRef[];
+  close(): void;
+}
+
+/** Notes loaded into a new session, most recent first */
+const MAX_LOADED_NOTES = 20;
+
+const DEFAULT_SEARCH_LIMIT = 10;
+
+/** The author of the state events that load memories into a session */
+const MEMORY_AUTHOR = 'user_memory';
+
+/** Preferences only count as set once a tool has written them; forgetting them writes null */
+const STATE_PREFERENCES_KEY = Object.keys(stateDelta({ preferences: undefined }))[0];
+
+const logger = createLogger('user-memory');
+
+function searchTerms(query: string): string[] {
+  return query.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter((term) => term.length > 1);
+}
+
+/**
+ * Rank entries by how many query terms they contain, then by recency
+ */
+export function rankMemories(memories: UserMemory[], query: string, limit: number = DEFAULT_SEARCH_LIMIT): UserMemory[] {
+  const terms = searchTerms(query);
+  if (terms.length === 0) {
+    return memories.slice(0, limit);
+  }
+  return memories
+    .map((memory) => {
+      const haystack = `${memory.kind.replace('_', ' ')} ${memory.key} ${memory.text}`.toLowerCase();
+      return { memory, score: terms.filter((term) => haystack.includes(term)).length };
+    })
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map(({ memory }) => memory);
+}
+
+/**
+ * Keeps memories in process memory; they are lost on restart
+ */
+export class InMemoryUserMemoryStore implements UserMemoryStore {
+  private readonly memories: UserMemory[] = [];
+  private readonly tombstones: (MemoryRef & { userId: string })[] = [];
+
+  remember(userId: string, sessionId: string, draft: MemoryDraft, at: string = new Date().toISOString()): UserMemory {
+    const index = this.memories.findIndex((memory) =>
+      memory.userId === userId && memory.kind === draft.kind && memory.key === draft.key
+    );
+    const previous = index >= 0 ? this.memories.splice(index, 1)[0] : undefined;
+    this.clearTombstone(userId, draft);
+    const memory: UserMemory = {
+      id: previous?.id ?? randomUUID(),
+      userId,
+      ...draft,
+      sessionId,
+      createdAt: previous?.createdAt ?? at,
+      updatedAt: at,
+    };
+    this.memories.push(memory);
+    return memory;
+  }
+
+  list(userId: string, kind?: MemoryKind): UserMemory[] {
+    return this.memories
+      .filter((memory) => memory.userId === userId && (!kind || memory.kind === kind))
+      .reverse();
+  }
+
+  search(userId: string, query: string, limit?: number): UserMemory[] {
+    return rankMemories(this.list(userId), query, limit);
+  }
+
+  forget(userId: string, id: string): boolean {
+    const index = this.memories.findIndex((memory) => memory.userId === userId && memory.id === id);
+    if (index < 0) {
+      return false;
+    }
+    const [memory] = this.memories.splice(index, 1);
+    this.clearTombstone(userId, memory);
+    this.tombstones.push({ userId, kind: memory.kind, key: memory.key });
+    return true;
+  }
+
+  forgetAll(userId: string): number {
+    const forgotten = this.memories.filter((memory) => memory.userId === userId);
+    for (const memory of forgotten) {
+      this.forget(userId, memory.id);
+    }
+    return forgotten.length;
+  }
+
+  forgotten(userId: string): MemoryRef[] {
+    return this.tombstones
+      .filter((tombstone) => tombstone.userId === userId)
+      .map(({ kind, key }) => ({ kind, key }));
+  }
+
+  close(): void {}
+
+  private clearTombstone(userId: string, ref: MemoryRef): void {
+    const index = this.tombstones.findIndex((tombstone) =>
+      tombstone.userId === userId && tombstone.kind === ref.kind && tombstone.key === ref.key
+    );
+    if (index >= 0) {
+      this.tombstones.splice(index, 1);
+    }
+  }
+}
+
+interface MemoryRow {
+  body: string;
+}
+
+/**
+ * Stores memories in the session database file, so they survive restarts
+ */
+export class SqliteUserMemoryStore implements UserMemoryStore {
+  private readonly db: Database;
+
+  constructor(path: string) {
+    if (path !== ':memory:') {
+      mkdirSync(dirname(path), { recursive: true });
+    }
+    this.db = new Database(path, { create: true });
+    this.db.exec('PRAGMA journal_mode = WAL');
+    this.db.exec('PRAGMA busy_timeout = 5000');
+    this.db.exec(`CREATE TABLE IF NOT EXISTS user_memories (
+      id TEXT PRIMARY KEY,
+      user_id TEXT NOT NULL,
+      kind TEXT NOT NULL,
+      key TEXT NOT NULL,
+      updated_at TEXT NOT NULL,
+      body TEXT NOT NULL,
+      UNIQUE (user_id, kind, key)
+    )`);
+    this.db.exec('CREATE INDEX IF NOT EXISTS idx_user_memories_user_time ON user_memories (user_id, updated_at)');
+    this.db.exec(`CREATE TABLE IF NOT EXISTS user_memory_tombstones (
+      user_id TEXT NOT NULL,
+      kind TEXT NOT NULL,
+      key TEXT NOT NULL,
+      forgotten_at TEXT NOT NULL,
+      PRIMARY KEY (user_id, kind, key)
+    )`);
+  }
+
+  remember(userId: string, sessionId: string, draft: MemoryDraft, at: string = new Date().toISOString()): UserMemory {
+    const previous = this.db.query('SELECT body FROM user_memories WHERE user_id = ? AND kind = ? AND key = ?')
+      .get(userId, draft.kind, draft.key) as MemoryRow | null;
+    const existing = previous ? (JSON.parse(previous.body) as UserMemory) : undefined;
+    const memory: UserMemory = {
+      id: existing?.id ?? randomUUID(),
+      userId,
+      ...draft,
+      sessionId,
+      createdAt: existing?.createdAt ?? at,
+      updatedAt: at,
+    };
+    this.db.transaction(() => {
+      this.db.query(`INSERT INTO user_memories (id, user_id, kind, key, updated_at, body) VALUES (?, ?, ?, ?, ?, ?)
+        ON CONFLICT (user_id, kind, key) DO UPDATE SET updated_at = excluded.updated_at, body = excluded.body`)
+        .run(memory.id, userId, memory.kind, memory.key, memory.updatedAt, JSON.stringify(memory));
+      this.db.query('DELETE FROM user_memory_tombstones WHERE user_id = ? AND kind = ? AND key = ?')
+        .run(userId, memory.kind, memory.key);
+    })();
+    return memory;
+  }
+
+  list(userId: string, kind?: MemoryKind): UserMemory[] {
+    const rows = (kind
+      ? this.db.query('SELECT body FROM user_memories WHERE user_id = ? AND kind = ? ORDER BY updated_at DESC, rowid DESC')
+        .all(userId, kind)
+      : this.db.query('SELECT body FROM user_memories WHERE user_id = ? ORDER BY updated_at DESC, rowid DESC')
+        .all(userId)) as MemoryRow[];
+    return rows.map((row) => JSON.parse(row.body) as UserMemory);
+  }
+
+  search(userId: string, query: string, limit?: number): UserMemory[] {
+    return rankMemories(this.list(userId), query, limit);
+  }
+
+  forget(userId: string, id: string): boolean {
+    return this.db.transaction(() => {
+      this.db.query(`INSERT OR REPLACE INTO user_memory_tombstones (user_id, kind, key, forgotten_at)
+        SELECT user_id, kind, key, ? FROM user_memories WHERE user_id = ? AND id = ?`)
+        .run(new Date().toISOString(), userId, id);
+      return this.db.query('DELETE FROM user_memories WHERE user_id = ? AND id = ?').run(userId, id).changes > 0;
+    })();
+  }
+
+  forgetAll(userId: string): number {
+    return this.db.transaction(() => {
+      this.db.query(`INSERT OR REPLACE INTO user_memory_tombstones (user_id, kind, key, forgotten_at)
+        SELECT user_id, kind, key, ? FROM user_memories WHERE user_id = ?`)
+        .run(new Date().toISOString(), userId);
+      return this.db.query('DELETE FROM user_memories WHERE user_id = ?').run(userId).changes;
+    })();
+  }
+
+  forgotten(userId: string): MemoryRef[] {
+    return this.db.query('SELECT kind, key FROM user_memory_tombstones WHERE user_id = ? ORDER BY forgotten_at')
+      .all(userId) as MemoryRef[];
+  }
+
+  close(): void {
+    this.db.close();
+  }
+}
+
+function describeGoal(goal: BudgetGoal, locale: string): string {
+  const period = goal.period?.type === 'custom'
+    ? `every ${goal.period.lengthDays} days`
+    : `per ${{ weekly: 'week', monthly: 'month' }[goal.period?.type ?? 'monthly']}`;
+  return `Budget goal: ${goal.category} ${formatMoney(goal.limit, locale)} ${period}${goal.rollover ? ', unspent money rolls over' : ''}`;
+}
+
+/**
+ * What a session's state holds that is worth remembering across sessions
+ */
+export function memoriesFromState(state: Record<string, unknown>): MemoryDraft[] {
+  const preferences = readStateRecord(state, 'preferences');
+  const drafts: MemoryDraft[] = [];
+
+  for (const goal of readStateRecord(state, 'budgetGoals')) {
+    // Closed periods belong to the session's transactions, not to the goal
+    const { history: _history, ...rest } = goal;
+    drafts.push({ kind: 'budget_goal', key: normalizeCategory(goal.category), text: describeGoal(goal, preferences.locale), data: rest });
+  }
+  for (const category of readStateRecord(state, 'categories')) {
+    drafts.push({
+      kind: 'category',
+      key: normalizeCategory(category.name),
+      text: `Custom category: ${category.name}${category.parent ? ` (under ${category.parent})` : ''}`,
+      data: category,
+    });
+  }
+  if (state[STATE_PREFERENCES_KEY] != null) {
+    const income = preferences.monthlyIncome ? `, monthly income ${formatMoney(preferences.monthlyIncome, preferences.locale)}` : '';
+    drafts.push({
+      kind: 'preference',
+      key: 'preferences',
+      text: `Preferences: reports in ${preferences.currency}, formatted for ${preferences.locale}${income}`,
+      data: preferences,
+    });
+  }
+  for (const note of readStateRecord(state, 'userNotes')) {
+    drafts.push({ kind: 'note', key: note.trim().toLowerCase(), text: `Note: ${note}`, data: note });
+  }
+
+  // Keep what the placeholders stand for, so another session can renumber them
+  const vault = readStateRecord(state, 'piiVault');
+  return drafts.map((draft) => {
+    const pii = vaultFor(draft, vault);
+    return Object.keys(pii).length > 0 ? { ...draft, pii } : draft;
+  });
+}
+
+/**
+ * State values that bring a user's memories into a session, keeping anything
+ * the session already has. Shared `user:` values the user forgot are cleared;
+ * ones that were never remembered (e.g. written before long-term memory
+ * existed, or through PATCH /sessions) are kept.
+ */
+export function stateFromMemories(
+  state: Record<string, unknown>,
+  memories: UserMemory[],
+  forgotten: MemoryRef[] = []
+): Record<string, unknown> {
+  const byKind = (kind: MemoryKind) => memories.filter((memory) => memory.kind === kind);
+  const isForgotten = (kind: MemoryKind, key: string) =>
+    forgotten.some((ref) => ref.kind === kind && ref.key === key);
+  const goals = readStateRecord(state, 'budgetGoals');
+  const categories = readStateRecord(state, 'categories');
+  const notes = readStateRecord(state, 'userNotes');
+  const vault = { ...readStateRecord(state, 'piiVault') };
+  const vaultSize = Object.keys(vault).length;
+  // The entry's data with its placeholders renumbered for this session
+  const dataOf = <T>(memory: UserMemory): T =>
+    (memory.pii ? redactValue(restoreValue(memory.data, memory.pii), vault, []) : memory.data) as T;
+
+  const newGoals = byKind('budget_goal')
+    .filter((memory) => !goals.some((goal) => normalizeCategory(goal.category) === memory.key))
+    .map((memory) => dataOf<BudgetGoal>(memory));
+  const keptCategories = categories.filter((category) => !isForgotten('category', normalizeCategory(category.name)));
+  const forgottenCategories = categories
+    .filter((category) => !keptCategories.includes(category))
+    .map((category) => normalizeCategory(category.name));
+  const newCategories = byKind('category')
+    .filter((memory) => !categories.some((category) => normalizeCategory(category.name) === memory.key))
+    .map((memory) => dataOf<(typeof categories)[number]>(memory));
+  const rules = readStateRecord(state, 'categoryRules');
+  const keptRules = rules.filter((rule) => !forgottenCategories.includes(normalizeCategory(rule.category)));
+  const newNotes = byKind('note')
+    .slice(0, MAX_LOADED_NOTES)
+    .map((memory) => dataOf<string>(memory))
+    .filter((note) => !notes.some((existing) => existing.trim().toLowerCase() === note.trim().toLowerCase()));
+  const [preferences] = byKind('preference');
+  const hasPreferences = state[STATE_PREFERENCES_KEY] != null;
+
+  return {
+    ...(hasPreferences && !preferences && isForgotten('preference', 'preferences') ? { [STATE_PREFERENCES_KEY]: null } : {}),
+    ...stateDelta({
+      ...(Object.keys(vault).length > vaultSize ? { piiVault: vault } : {}),
+      ...(newGoals.length > 0 ? { budgetGoals: [...goals, ...newGoals] } : {}),
+      ...(newCategories.length > 0 || forgottenCategories.length > 0
+        ? { categories: [...keptCategories, ...newCategories] }
+        : {}),
+      ...(keptRules.length < rules.length ? { categoryRules: keptRules } : {}),
+      ...(newNotes.length > 0 ? { userNotes: [...notes, ...newNotes.reverse()] } : {}),
+      ...(preferences && !hasPreferences ? { preferences: dataOf<UserPreferences>(preferences) } : {}),
+      memoryLoaded: true,
+    }),
+  };
+}
+
+type SearchMemoryResponse = Awaited<ReturnType<InMemoryMemoryService['searchMemory']>>;
+type Session = InvocationContext['session'];
+
+/**
+ * The runner's ADK memory service, backed by a UserMemoryStore
+ */
+export class UserMemoryService {
+  constructor(readonly store: UserMemoryStore) {}
+
+  /**
+   * Remember everything in the session's state
+   */
+  async addSessionToMemory(session: Session): Promise<void> {
+    for (const draft of memoriesFromState(session.state)) {
+      this.store.remember(session.userId, session.id, draft);
+    }
+  }
+
+  async searchMemory(request: { appName: string; userId: string; query: string }): Promise<SearchMemoryResponse> {
+    return {
+      memories: this.store.search(request.userId, request.query).map((memory) => ({
+        // Raw values go back to the tool; the PII guardrail redacts its result for this session
+        content: { role: 'user', parts: [{ text: restoreText(memory.text, memory.pii ?? {}) }] },
+        author: MEMORY_AUTHOR,
+        timestamp: memory.updatedAt,
+      })),
+    };
+  }
+}
+
+/**
+ * Loads memories into new sessions and remembers what each turn changes.
+ * Does nothing on runners whose memory service is not a UserMemoryService.
+ */
+export class UserMemoryPlugin extends BasePlugin {
+  /** What was worth remembering when each running invocation started */
+  private readonly before = new Map<string, Map<string, string>>();
+
+  constructor() {
+    super('user_memory');
+  }
+
+  override async beforeRunCallback({ invocationContext }: { invocationContext: InvocationContext }) {
+    const { memoryService, session, sessionService } = invocationContext;
+    if (!(memoryService instanceof UserMemoryService) || !sessionService) {
+      return undefined;
+    }
+
+    if (!readStateRecord(session.state, 'memoryLoaded')) {
+      const memories = memoryService.store.list(session.userId);
+      const delta = stateFromMemories(session.state, memories, memoryService.store.forgotten(session.userId));
+      await sessionService.appendEvent({
+        session,
+        event: createEvent({
+          invocationId: invocationContext.invocationId,
+          author: MEMORY_AUTHOR,
+          actions: createEventActions({ stateDelta: delta }),
+        }),
+      });
+      if (memories.length > 0) {
+        logger.info('Memories loaded', { userId: session.userId, sessionId: session.id, memories: memories.length });
+      }
+    }
+
+    this.before.set(invocationContext.invocationId, snapshot(memoriesFromState(session.state)));
+    return undefined;
+  }
+
+  override async afterRunCallback({ invocationContext }: { invocationContext: InvocationContext }) {
+    const { memoryService, session, invocationId } = invocationContext;
+    const before = this.before.get(invocationId);
+    this.before.delete(invocationId);
+    if (!(memoryService instanceof UserMemoryService) || !before) {
+      return;
+    }
+
+    for (const draft of memoriesFromState(session.state)) {
+      const key = `${draft.kind}:${draft.key}`;
+      if (before.get(key) !== JSON.stringify(draft)) {
+        memoryService.store.remember(session.userId, session.id, draft);
+      }
+    }
+  }
+}
+
+function snapshot(drafts: MemoryDraft[]): Map<string, string> {
+  return new Map(drafts.map((draft) => [`${draft.kind}:${draft.key}`, JSON.stringify(draft)]));
+}
+
+/**
+ * Instruction text listing the user's notes, for the agent's system instruction
+ */
+export function memoryContext(notes: string[]): string {
+  if (notes.length === 0) {
+    return '';
+  }
+  return `\n\nWhat the user asked you to remember:\n${notes.map((note) => `- ${note}`).join('\n')}`;
+}